@@ -0,0 +1,33 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create tag_import_previews table for dry-run imports awaiting review
+  await knex.schema.createTable('tag_import_previews', (table) => {
+    table.text('id').primary();
+    table.integer('project_id').notNullable();
+    table.text('user_id').notNullable();
+    table.text('vendor').notNullable();
+    table.text('format').notNullable();
+    table.jsonb('tags').notNullable().defaultTo('[]'); // Parsed and validated tags ready to persist
+    table.jsonb('errors').notNullable().defaultTo('[]'); // Row-level validation errors
+    table.jsonb('diff').notNullable().defaultTo('{}'); // Diff against the project's tags at preview time
+    table.text('status').notNullable().defaultTo('pending').checkIn(['pending', 'committed', 'expired']);
+    table.integer('base_tag_count').notNullable().defaultTo(0); // Project tag count when the preview was taken
+    table.timestamp('base_tags_updated_at').nullable(); // Latest tag update when the preview was taken
+    table.timestamp('expires_at').notNullable();
+    table.timestamp('committed_at').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+
+    // Indexes for performance
+    table.index('project_id');
+    table.index('expires_at');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('tag_import_previews');
+}
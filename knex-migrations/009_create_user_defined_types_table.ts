@@ -0,0 +1,38 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create user_defined_types table for per-project UDT / STRUCT definitions
+  await knex.schema.createTable('user_defined_types', (table) => {
+    table.increments('id').primary();
+    table.integer('project_id').notNullable();
+    table.text('user_id').notNullable();
+    table.text('name').notNullable();
+    table.text('vendor'); // Vendor the definition came from, null when vendor-neutral
+    table.text('description').defaultTo('');
+    table.jsonb('members').notNullable().defaultTo('[]'); // [{ name, data_type, description, default_value }]
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+
+    // Type names are unique within a project, like tag names
+    table.unique(['project_id', 'name']);
+
+    // Indexes for performance
+    table.index('project_id');
+  });
+
+  // Import previews carry the data type definitions found in the file
+  await knex.schema.alterTable('tag_import_previews', (table) => {
+    table.jsonb('data_types').notNullable().defaultTo('[]');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('tag_import_previews', (table) => {
+    table.dropColumn('data_types');
+  });
+  await knex.schema.dropTableIfExists('user_defined_types');
+}
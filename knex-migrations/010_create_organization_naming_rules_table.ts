@@ -0,0 +1,21 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create organization_naming_rules table: one tag naming convention per organization
+  await knex.schema.createTable('organization_naming_rules', (table) => {
+    table.increments('id').primary();
+    table.text('organization_id').notNullable().unique();
+    table.jsonb('rules').notNullable().defaultTo('{}'); // { patterns, requiredPrefixes, reservedWords, maxLength }
+    table.text('updated_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+    table.foreign('updated_by').references('id').inTable('users').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('organization_naming_rules');
+}
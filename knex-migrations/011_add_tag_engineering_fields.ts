@@ -0,0 +1,40 @@
+import type { Knex } from "knex";
+
+const ALARM_LEVELS = ['hh', 'h', 'l', 'll'];
+
+export async function up(knex: Knex): Promise<void> {
+  // Engineering metadata for analog tags: units, scaling, clamping, alarm limits and loop number
+  await knex.schema.alterTable('tags', (table) => {
+    table.text('engineering_unit');
+    table.double('raw_min');
+    table.double('raw_max');
+    table.double('eng_min');
+    table.double('eng_max');
+    table.double('clamp_min');
+    table.double('clamp_max');
+    for (const level of ALARM_LEVELS) {
+      table.double(`alarm_${level}`);
+      table.double(`alarm_${level}_deadband`);
+      table.integer(`alarm_${level}_priority`);
+    }
+    table.text('loop_number'); // Instrument / loop number, e.g. FIC-101
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('tags', (table) => {
+    table.dropColumn('engineering_unit');
+    table.dropColumn('raw_min');
+    table.dropColumn('raw_max');
+    table.dropColumn('eng_min');
+    table.dropColumn('eng_max');
+    table.dropColumn('clamp_min');
+    table.dropColumn('clamp_max');
+    for (const level of ALARM_LEVELS) {
+      table.dropColumn(`alarm_${level}`);
+      table.dropColumn(`alarm_${level}_deadband`);
+      table.dropColumn(`alarm_${level}_priority`);
+    }
+    table.dropColumn('loop_number');
+  });
+}
@@ -0,0 +1,35 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create tag_import_jobs table for imports that run in the background
+  await knex.schema.createTable('tag_import_jobs', (table) => {
+    table.text('id').primary();
+    table.integer('project_id').notNullable();
+    table.text('user_id').notNullable();
+    table.text('vendor').notNullable();
+    table.text('format').notNullable();
+    table.text('file_name').notNullable();
+    table.text('status').notNullable().defaultTo('queued').checkIn(['queued', 'running', 'completed', 'failed', 'cancelled']);
+    table.text('phase').nullable(); // parsing, validating, writing while running
+    table.jsonb('progress').notNullable().defaultTo('{}'); // { parsed, validated, written, total }
+    table.jsonb('result').nullable(); // Summary of a completed import
+    table.jsonb('errors').notNullable().defaultTo('[]'); // Row-level validation errors for the error report
+    table.text('error_message').nullable(); // Why the job failed
+    table.boolean('cancel_requested').notNullable().defaultTo(false);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('started_at').nullable();
+    table.timestamp('finished_at').nullable();
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+
+    // Indexes for performance
+    table.index('project_id');
+    table.index('status');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('tag_import_jobs');
+}
@@ -0,0 +1,29 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create tag_import_templates table: saved column mappings for CSV / XLSX IO lists
+  await knex.schema.createTable('tag_import_templates', (table) => {
+    table.increments('id').primary();
+    table.text('name').notNullable();
+    table.integer('project_id').nullable(); // Set for project templates
+    table.text('organization_id').nullable(); // Set for organization templates
+    table.text('vendor').nullable(); // Vendor the mapping was made for; null when vendor-neutral
+    table.jsonb('mapping').notNullable(); // { fields, sheet, headerRow }
+    table.text('created_by');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+    table.foreign('created_by').references('id').inTable('users').onDelete('SET NULL');
+
+    // Template names are unique per project and per organization
+    table.unique(['project_id', 'name']);
+    table.unique(['organization_id', 'name']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('tag_import_templates');
+}
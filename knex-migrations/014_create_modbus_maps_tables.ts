@@ -0,0 +1,61 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create modbus_maps table: a named register map of a project's tags for gateways and third parties
+  await knex.schema.createTable('modbus_maps', (table) => {
+    table.increments('id').primary();
+    table.integer('project_id').notNullable();
+    table.text('name').notNullable();
+    table.text('description').nullable();
+    table.text('word_order').notNullable().defaultTo('high_low').checkIn(['high_low', 'low_high']);
+    table.integer('unit_id').notNullable().defaultTo(1);
+    table.jsonb('selection').notNullable().defaultTo('{}'); // Tag ids or tag filter to map, plus register type overrides; empty maps every tag
+    table.jsonb('start_offsets').notNullable().defaultTo('{}'); // First offset per register type
+    table.jsonb('next_offsets').notNullable().defaultTo('{}'); // Allocation high-water mark per register type
+    table.text('created_by').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('created_by').references('id').inTable('users').onDelete('SET NULL');
+
+    // Unique constraints
+    table.unique(['project_id', 'name']);
+
+    // Indexes for performance
+    table.index('project_id');
+  });
+
+  // Create modbus_map_entries table: one allocated address range per mapped tag
+  await knex.schema.createTable('modbus_map_entries', (table) => {
+    table.increments('id').primary();
+    table.integer('map_id').notNullable();
+    table.integer('tag_id').nullable(); // Cleared when the tag is deleted; the next regeneration drops the entry
+    table.text('tag_name').notNullable();
+    table.text('data_type').notNullable();
+    table.text('register_type').notNullable().checkIn(['coil', 'discrete_input', 'holding_register', 'input_register']);
+    table.integer('offset').notNullable(); // 0-based protocol address
+    table.integer('length').notNullable(); // Coils / registers occupied
+    table.text('access').notNullable().defaultTo('read_write').checkIn(['read', 'read_write']);
+    table.text('description').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('map_id').references('id').inTable('modbus_maps').onDelete('CASCADE');
+    table.foreign('tag_id').references('id').inTable('tags').onDelete('SET NULL');
+
+    // Unique constraints
+    table.unique(['map_id', 'tag_id']);
+    table.unique(['map_id', 'register_type', 'offset']);
+
+    // Indexes for performance
+    table.index('map_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('modbus_map_entries');
+  await knex.schema.dropTableIfExists('modbus_maps');
+}
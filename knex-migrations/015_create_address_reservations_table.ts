@@ -0,0 +1,27 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create address_reservations table: address ranges the automatic allocator must not hand out
+  await knex.schema.createTable('address_reservations', (table) => {
+    table.increments('id').primary();
+    table.integer('project_id').notNullable();
+    table.text('vendor').notNullable().checkIn(['siemens', 'rockwell', 'beckhoff']);
+    table.text('start_address').notNullable(); // First reserved address, e.g. MB100 or %QX4.0
+    table.text('end_address').notNullable(); // Last reserved address (inclusive), same area as start_address
+    table.text('description').nullable();
+    table.text('created_by').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('created_by').references('id').inTable('users').onDelete('SET NULL');
+
+    // Indexes for performance
+    table.index(['project_id', 'vendor']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('address_reservations');
+}
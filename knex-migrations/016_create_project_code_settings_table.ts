@@ -0,0 +1,21 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create project_code_settings table: per-project settings for Structured Text tooling
+  await knex.schema.createTable('project_code_settings', (table) => {
+    table.increments('id').primary();
+    table.integer('project_id').notNullable().unique();
+    table.jsonb('lint_rules').notNullable().defaultTo('{}'); // { rule_id: { enabled, severity } }, missing rules use defaults
+    table.text('updated_by').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('updated_by').references('id').inTable('users').onDelete('SET NULL');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('project_code_settings');
+}
@@ -0,0 +1,14 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Structured Text formatter options per project; missing options use the formatter defaults
+  await knex.schema.alterTable('project_code_settings', (table) => {
+    table.jsonb('format_options').notNullable().defaultTo('{}'); // { keywordCase, indentSize, useTabs, alignDeclarations, ... }
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('project_code_settings', (table) => {
+    table.dropColumn('format_options');
+  });
+}
@@ -0,0 +1,56 @@
+import type { Knex } from "knex";
+
+export async function up(knex: Knex): Promise<void> {
+  // Create logic_tests table: simulation test cases for a project's Structured Text
+  await knex.schema.createTable('logic_tests', (table) => {
+    table.increments('id').primary();
+    table.integer('project_id').notNullable();
+    table.text('name').notNullable();
+    table.text('description').nullable();
+    table.text('pou').nullable(); // Entry POU; the first PROGRAM when empty
+    table.integer('cycle_time_ms').nullable();
+    table.jsonb('steps').notNullable().defaultTo('[]'); // Forcings, scans, time advances and assertions in order
+    table.text('created_by').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('created_by').references('id').inTable('users').onDelete('SET NULL');
+
+    // Unique constraints
+    table.unique(['project_id', 'name']);
+
+    // Indexes for performance
+    table.index('project_id');
+  });
+
+  // Create logic_test_runs table: results of running a project's test cases
+  await knex.schema.createTable('logic_test_runs', (table) => {
+    table.increments('id').primary();
+    table.integer('project_id').notNullable();
+    table.integer('version_id').nullable(); // Project version the code came from
+    table.integer('version_number').nullable(); // Kept when the version is deleted
+    table.text('code_source').notNullable().checkIn(['logic_studio', 'version']);
+    table.boolean('passed').notNullable();
+    table.integer('cases_passed').notNullable().defaultTo(0);
+    table.integer('cases_failed').notNullable().defaultTo(0);
+    table.jsonb('results').notNullable().defaultTo('[]'); // Per case: assertion results and the scan where it failed
+    table.text('run_by').nullable();
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    // Foreign key constraints
+    table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+    table.foreign('version_id').references('id').inTable('project_versions').onDelete('SET NULL');
+    table.foreign('run_by').references('id').inTable('users').onDelete('SET NULL');
+
+    // Indexes for performance
+    table.index(['project_id', 'created_at']);
+    table.index('version_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('logic_test_runs');
+  await knex.schema.dropTableIfExists('logic_tests');
+}
@@ -2,6 +2,7 @@ import { Router } from "express";
 import multer from "multer";
 import { Orchestrator, CodeGenError } from "./code-governor/orchestrator";
 import { documentProcessor } from "../utils/documentProcessor";
+import { formatCodeArtifacts } from "../utils/stFormatter";
 import path from "path";
 import fs from "fs";
 
@@ -18,7 +19,9 @@ const upload = multer({
 // Code Governor Route - Generates complete, vendor-compliant PLC programs
 router.post("/code-governor", upload.array('files'), async (req, res) => {
   try {
-    const { prompt, vendor, projectName, sessionId, stream } = req.body;
+    const { prompt, vendor, projectName, sessionId, stream, format } = req.body;
+    // format=true runs the generated Structured Text through the formatter (default options)
+    const formatCode = format === true || format === 'true';
     const files = req.files as Express.Multer.File[] || [];
 
     if (!prompt) {
@@ -135,13 +138,14 @@ router.post("/code-governor", upload.array('files'), async (req, res) => {
           res.write(`data: ${JSON.stringify({ type: 'status', content: 'Code generation complete. Applying critic and patches...' })}\n\n`);
 
           // Format the response for streaming
-          const codeArtifacts = Object.entries(result.files).map(([filename, content]) => ({
+          const generatedArtifacts = Object.entries(result.files).map(([filename, content]) => ({
             language: filename.endsWith('.scl') ? 'SCL' : 'ST',
             vendor: detectedVendor,
             compilable: true,
             filename,
             content
           }));
+          const codeArtifacts = formatCode ? formatCodeArtifacts(generatedArtifacts) : generatedArtifacts;
 
           // Create comprehensive response
           const response = {
@@ -237,13 +241,14 @@ Would you like me to explain any specific part of the generated code or help wit
         });
 
         // Format the response
-        const codeArtifacts = Object.entries(result.files).map(([filename, content]) => ({
+        const generatedArtifacts = Object.entries(result.files).map(([filename, content]) => ({
           language: filename.endsWith('.scl') ? 'SCL' : 'ST',
           vendor: detectedVendor,
           compilable: true,
           filename,
           content
         }));
+        const codeArtifacts = formatCode ? formatCodeArtifacts(generatedArtifacts) : generatedArtifacts;
 
         const response = {
           status: "ok",
@@ -2,6 +2,8 @@ import { VendorProfile } from './vendor-profiles';
 import { SPEC_CONTRACT_SYSTEM, SPEC_CONTRACT_USER } from './prompts';
 import OpenAI from 'openai';
 import { getAIConfig } from '../../config/ai-config';
+import { parseST } from '../../utils/stSyntax';
+import { lintSTFiles } from '../../utils/stLinter';
 
 // Use the same OpenAI setup as Wrapper B
 const config = getAIConfig();
@@ -239,6 +241,8 @@ export class Orchestrator {
     const MAX_ITERS = 3;
 
     for (let i = 0; i < MAX_ITERS; i++) {
+      // Deterministic findings go to the critic alongside the files; lint errors block completion
+      const lint = this.lintFiles(files);
       const criticMessages: LLMMessage[] = [
         { role: "system", content: vendorProfile.systemPrompt },
         {
@@ -248,6 +252,9 @@ export class Orchestrator {
             .replace('{files_json}', JSON.stringify(files, null, 2))
             .replace('{checklist}', vendorProfile.completenessChecklist)
             .replace('{contract_json}', JSON.stringify(contract, null, 2))
+            + (lint.findings.length > 0
+              ? `\n\nSTATIC ANALYSIS FINDINGS (every error must be patched before status can be "complete"):\n${lint.findings.join('\n')}`
+              : '')
         }
       ];
 
@@ -266,7 +273,7 @@ export class Orchestrator {
       
       const review = this.enforceJSON(reviewRaw);
 
-      if (review.status === "complete") {
+      if (review.status === "complete" && lint.errors.length === 0) {
         return files;
       }
 
@@ -279,9 +286,37 @@ export class Orchestrator {
     }
 
     // Final decisive fail with clear reason
+    const { errors } = this.lintFiles(files);
+    if (errors.length > 0) {
+      const listed = errors.slice(0, 10);
+      if (errors.length > listed.length) listed.push(`${errors.length - listed.length} more`);
+      throw new CodeGenError(`Critic could not reach completeness within patch budget; lint errors remain: ${listed.join(', ')}`);
+    }
     throw new CodeGenError("Critic could not reach completeness within patch budget.");
   }
 
+  private lintFiles(files: Record<string, string>): { findings: string[]; errors: string[] } {
+    const MAX_FINDINGS = 100;
+    const sources: Record<string, string> = {};
+    for (const [relpath, code] of Object.entries(files)) {
+      if (/\.(st|scl)$/i.test(relpath)) sources[relpath] = code;
+    }
+
+    const findings: string[] = [];
+    const errors: string[] = [];
+    for (const [relpath, result] of Object.entries(lintSTFiles(sources, { routineBody: true }))) {
+      // Bare routines (Rockwell) use controller tags that are declared outside the code
+      const routine = parseST(sources[relpath], { routineBody: true }).ast.declarations.length === 0;
+      for (const finding of result.findings) {
+        if (routine && finding.rule === 'undeclared_variable') continue;
+        const line = `${relpath}:${finding.line}:${finding.column} ${finding.severity} [${finding.rule}] ${finding.message}`;
+        if (findings.length < MAX_FINDINGS) findings.push(line);
+        if (finding.severity === 'error') errors.push(line);
+      }
+    }
+    return { findings, errors };
+  }
+
   private async pack(
     projectName: string,
     plan: Plan,
@@ -352,48 +387,10 @@ export class Orchestrator {
   }
 
   private validateSCLSyntax(code: string, name: string): void {
-    const sclErrors: string[] = [];
-
-    // Check for proper VAR block endings
-    const varInputBlocks = (code.match(/VAR_INPUT/g) || []).length;
-    const varInputEndings = (code.match(/END_VAR/g) || []).length;
-    
-    if (varInputBlocks > 0 && varInputEndings < varInputBlocks) {
-      sclErrors.push('Missing END_VAR for VAR_INPUT blocks');
-    }
-
-    // Check for proper function block endings
-    if (code.includes('FUNCTION_BLOCK') && !code.includes('END_FUNCTION_BLOCK')) {
-      sclErrors.push('Missing END_FUNCTION_BLOCK');
-    }
-
-    // Check for proper organization block endings
-    if (code.includes('ORGANIZATION_BLOCK') && !code.includes('END_ORGANIZATION_BLOCK')) {
-      sclErrors.push('Missing END_ORGANIZATION_BLOCK');
-    }
-
-    // Check for common syntax errors
-    if (code.includes('VAR_INPUT') && !code.includes('END_VAR')) {
-      sclErrors.push('VAR_INPUT block not properly closed with END_VAR');
-    }
-
-    if (code.includes('VAR_OUTPUT') && !code.match(/VAR_OUTPUT[\s\S]*?END_VAR/)) {
-      sclErrors.push('VAR_OUTPUT block not properly closed with END_VAR');
-    }
-
-    // Check for incomplete CASE statements
-    if (code.includes('CASE') && !code.includes('END_CASE')) {
-      sclErrors.push('CASE statement not properly closed with END_CASE');
-    }
-
-    // Check for incomplete IF statements
-    const ifCount = (code.match(/\bIF\b/g) || []).length;
-    const endIfCount = (code.match(/\bEND_IF\b/g) || []).length;
-    if (ifCount > endIfCount) {
-      sclErrors.push('IF statements not properly closed with END_IF');
-    }
-
-    if (sclErrors.length > 0) {
+    const { errors } = parseST(code);
+    if (errors.length > 0) {
+      const sclErrors = errors.slice(0, 10).map(e => `line ${e.line}:${e.column} ${e.message}`);
+      if (errors.length > sclErrors.length) sclErrors.push(`${errors.length - sclErrors.length} more`);
       throw new CodeGenError(`SCL Syntax errors in '${name}': ${sclErrors.join(', ')}`);
     }
   }
@@ -0,0 +1,14 @@
+// This file contains TypeScript interfaces for address_reservations table
+// Table creation is handled by Knex migrations
+
+export interface AddressReservation {
+  id: number;
+  project_id: number;
+  vendor: 'siemens' | 'rockwell' | 'beckhoff';
+  start_address: string;
+  end_address: string; // inclusive
+  description?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -8,3 +8,12 @@ export * from './projects';
 export * from './tags';
 export * from './project_autosave';
 export * from './project_versions';
+export * from './tag_import_previews';
+export * from './user_defined_types';
+export * from './organization_naming_rules';
+export * from './tag_import_jobs';
+export * from './tag_import_templates';
+export * from './modbus_maps';
+export * from './address_reservations';
+export * from './project_code_settings';
+export * from './logic_tests';
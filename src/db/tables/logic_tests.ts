@@ -0,0 +1,56 @@
+// This file contains TypeScript interfaces for logic_tests and logic_test_runs tables
+// Table creation is handled by Knex migrations
+
+// One step of a logic test case; variable paths as in the simulator (Motor.Running, Values[3], Timer.ET)
+export type LogicTestStep =
+  | { action: 'force'; values: Record<string, unknown> } // null releases a forced variable
+  | { action: 'step'; scans: number }
+  | { action: 'advance'; ms: number }                   // 'T#5s' is accepted on input and stored in ms
+  | { action: 'assert'; path: string; expected: unknown; tolerance?: number; message?: string };
+
+export interface LogicTest {
+  id: number;
+  project_id: number;
+  name: string;
+  description?: string | null;
+  pou?: string | null;           // PROGRAM / FUNCTION_BLOCK under test; the simulator's default entry when empty
+  cycle_time_ms?: number | null;
+  steps: LogicTestStep[];
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LogicTestAssertionResult {
+  step: number;       // 1-based index into the case's steps
+  path: string;
+  expected: unknown;
+  actual: unknown;
+  passed: boolean;
+  scan: number;       // scans completed when the assertion was checked
+  time_ms: number;
+  message?: string;
+}
+
+export interface LogicTestCaseResult {
+  test_id: number;
+  name: string;
+  passed: boolean;
+  assertions: LogicTestAssertionResult[];
+  // Set when the case stopped before its last step (runtime error, unknown variable, ...)
+  error?: { step: number; scan: number; message: string; line?: number; column?: number };
+}
+
+export interface LogicTestRun {
+  id: number;
+  project_id: number;
+  version_id?: number | null;     // project version the code was taken from
+  version_number?: number | null;
+  code_source: 'logic_studio' | 'version';
+  passed: boolean;
+  cases_passed: number;
+  cases_failed: number;
+  results: LogicTestCaseResult[];
+  run_by?: string | null;
+  created_at: string;
+}
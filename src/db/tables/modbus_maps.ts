@@ -0,0 +1,45 @@
+// This file contains TypeScript interfaces for modbus_maps and modbus_map_entries tables
+// Table creation is handled by Knex migrations
+
+export type ModbusRegisterType = 'coil' | 'discrete_input' | 'holding_register' | 'input_register';
+
+// Order of the 16-bit words of 32/64-bit values: high word first (Modicon default) or low word first
+export type ModbusWordOrder = 'high_low' | 'low_high';
+
+// Which tags a map covers: explicit ids or a tag list filter (q, scope, tag_type, ...); neither maps every tag
+export interface ModbusMapSelection {
+  tagIds?: number[];
+  filter?: Record<string, any>;
+  // Tag id -> register type, overriding the type derived from data type and tag type
+  registerTypes?: Record<string, ModbusRegisterType>;
+}
+
+export interface ModbusMap {
+  id: number;
+  project_id: number;
+  name: string;
+  description?: string | null;
+  word_order: ModbusWordOrder;
+  unit_id: number;
+  selection: ModbusMapSelection;
+  start_offsets: Partial<Record<ModbusRegisterType, number>>;
+  next_offsets: Partial<Record<ModbusRegisterType, number>>;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ModbusMapEntry {
+  id: number;
+  map_id: number;
+  tag_id: number | null;
+  tag_name: string;
+  data_type: string;
+  register_type: ModbusRegisterType;
+  offset: number;
+  length: number;
+  access: 'read' | 'read_write';
+  description?: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,13 @@
+// This file contains TypeScript interfaces for organization_naming_rules table
+// Table creation is handled by Knex migrations
+
+import type { TagNamingRules } from '../../utils/tagNamingRules';
+
+export interface OrganizationNamingRules {
+  id: number;
+  organization_id: string;
+  rules: TagNamingRules;
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,15 @@
+// This file contains TypeScript interfaces for project_code_settings table
+// Table creation is handled by Knex migrations
+
+import type { STLintRuleSettings } from '../../utils/stLinter';
+import type { STFormatOptions } from '../../utils/stFormatter';
+
+export interface ProjectCodeSettings {
+  id: number;
+  project_id: number;
+  lint_rules: STLintRuleSettings;
+  format_options: Partial<STFormatOptions>;
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
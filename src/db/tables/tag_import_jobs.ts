@@ -0,0 +1,30 @@
+// This file contains TypeScript interfaces for tag_import_jobs table
+// Table creation is handled by Knex migrations
+
+export type TagImportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface TagImportJobProgress {
+  parsed?: number; // Rows read from the file
+  validated?: number; // Rows that passed validation
+  written?: number; // Rows inserted or updated so far
+  total?: number; // Rows to write
+}
+
+export interface TagImportJob {
+  id: string;
+  project_id: number;
+  user_id: string;
+  vendor: string;
+  format: string;
+  file_name: string;
+  status: TagImportJobStatus;
+  phase?: 'parsing' | 'validating' | 'writing' | null;
+  progress: TagImportJobProgress;
+  result?: any; // Summary of a completed import
+  errors: any[]; // Row-level validation errors
+  error_message?: string | null;
+  cancel_requested: boolean;
+  created_at: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+}
@@ -0,0 +1,20 @@
+// This file contains TypeScript interfaces for tag_import_previews table
+// Table creation is handled by Knex migrations
+
+export interface TagImportPreview {
+  id: string;
+  project_id: number;
+  user_id: string;
+  vendor: string;
+  format: string;
+  tags: any[]; // CreateTagData rows that passed validation
+  errors: any[]; // Row-level validation errors
+  diff: any; // TagImportDiff computed at preview time
+  data_types?: any[]; // UDT definitions found in the file
+  status: 'pending' | 'committed' | 'expired';
+  base_tag_count: number;
+  base_tags_updated_at?: string | null;
+  expires_at: string;
+  committed_at?: string | null;
+  created_at: string;
+}
@@ -0,0 +1,16 @@
+// This file contains TypeScript interfaces for tag_import_templates table
+// Table creation is handled by Knex migrations
+
+import type { ColumnMapping } from '../../utils/tagColumnMapping';
+
+export interface TagImportTemplate {
+  id: number;
+  name: string;
+  project_id?: number | null; // Project template
+  organization_id?: string | null; // Organization template
+  vendor?: 'siemens' | 'rockwell' | 'beckhoff' | null;
+  mapping: ColumnMapping;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
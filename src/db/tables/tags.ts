@@ -1,7 +1,31 @@
 // This file contains TypeScript interfaces for tags table
 // Table creation is handled by Knex migrations
 
-export interface Tag {
+// Engineering metadata of analog tags; every field is optional and nullable
+export interface TagEngineeringFields {
+  engineering_unit?: string | null;
+  raw_min?: number | null;
+  raw_max?: number | null;
+  eng_min?: number | null;
+  eng_max?: number | null;
+  clamp_min?: number | null;
+  clamp_max?: number | null;
+  alarm_hh?: number | null;
+  alarm_hh_deadband?: number | null;
+  alarm_hh_priority?: number | null;
+  alarm_h?: number | null;
+  alarm_h_deadband?: number | null;
+  alarm_h_priority?: number | null;
+  alarm_l?: number | null;
+  alarm_l_deadband?: number | null;
+  alarm_l_priority?: number | null;
+  alarm_ll?: number | null;
+  alarm_ll_deadband?: number | null;
+  alarm_ll_priority?: number | null;
+  loop_number?: string | null;
+}
+
+export interface Tag extends TagEngineeringFields {
   id: number;
   project_id: number;
   name: string;
@@ -15,7 +39,7 @@ export interface Tag {
   updated_at?: string;
 }
 
-export interface CreateTagData {
+export interface CreateTagData extends TagEngineeringFields {
   project_id: number;
   user_id?: string;
   name: string;
@@ -30,7 +54,7 @@ export interface CreateTagData {
   is_ai_generated?: boolean;
 }
 
-export interface UpdateTagData {
+export interface UpdateTagData extends TagEngineeringFields {
   name?: string;
   type?: string;
   data_type?: string;
@@ -0,0 +1,30 @@
+// This file contains TypeScript interfaces for user_defined_types table
+// Table creation is handled by Knex migrations
+
+export interface UserDefinedTypeMember {
+  name: string;
+  data_type: string; // Elementary type, another UDT name, or ARRAY[l..u] OF <type>
+  description?: string;
+  default_value?: string;
+}
+
+export interface UserDefinedType {
+  id: number;
+  project_id: number;
+  user_id: string;
+  name: string;
+  vendor?: string | null;
+  description?: string;
+  members: UserDefinedTypeMember[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateUserDefinedTypeData {
+  project_id: number;
+  user_id: string;
+  name: string;
+  vendor?: string | null;
+  description?: string;
+  members: UserDefinedTypeMember[];
+}
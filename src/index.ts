@@ -12,11 +12,19 @@ import tagsRoutes from "./routes/tags-new";
 import projectVersionsRoutes from "./routes/project_versions_new";
 import tagImportRoutes from './routes/tagImport';
 import logicStudioRoutes from './routes/logic-studio';
+import userDefinedTypesRoutes from './routes/user-defined-types';
+import tagImportTemplatesRoutes from './routes/tag-import-templates';
+import modbusMapRoutes from './routes/modbus-map';
+import addressReservationsRoutes from './routes/address-reservations';
+import codeSettingsRoutes from './routes/code-settings';
+import simulationRoutes from './routes/simulation';
+import logicTestsRoutes from './routes/logic-tests';
 import http from "http";
 import { DatabaseManager } from "./db/database-manager";
 // Import and initialize TagSyncService
 import { TagSyncService } from './services/tagSyncService';
 import { setTagSyncService } from './services/tagSyncSingleton';
+import { failInterruptedImportJobs } from './services/tagImportJobs';
 import { WebSocketServer } from "ws";
 require('dotenv').config()
 
@@ -43,7 +51,7 @@ const corsOptions: CorsOptions = {
     return callback(new Error("Not allowed by CORS"));
   },
   credentials: true,
-  methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+  methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
   allowedHeaders: [
     "Content-Type", 
     "Authorization", 
@@ -56,7 +64,7 @@ const corsOptions: CorsOptions = {
     "User-Agent",
     "Referer"
   ],
-  exposedHeaders: ["Content-Disposition"], // ✅ Expose Content-Disposition header for file downloads
+  exposedHeaders: ["Content-Disposition", "X-Total-Count", "X-Next-Cursor"], // ✅ Expose download filename and tag pagination headers
 };
 
 // ✅ Preflight handler first (before routes/middleware)
@@ -110,6 +118,19 @@ app.use('/api/v1/tags', tagImportRoutes);
 app.use("/api/v1/projects", projectVersionsRoutes);
 // Logic Studio routes
 app.use("/api/v1/projects", logicStudioRoutes);
+// User-defined type (UDT / STRUCT) routes
+app.use("/api/v1/projects", userDefinedTypesRoutes);
+app.use("/api/v1/projects", tagImportTemplatesRoutes);
+// Modbus register map routes
+app.use("/api/v1/projects", modbusMapRoutes);
+// Address reservation and allocation routes
+app.use("/api/v1/projects", addressReservationsRoutes);
+// Structured Text code settings routes (lint rules, formatter options)
+app.use("/api/v1/projects", codeSettingsRoutes);
+// Structured Text scan-cycle simulation routes
+app.use("/api/v1/projects", simulationRoutes);
+// Logic unit test routes (test cases, runs against project versions)
+app.use("/api/v1/projects", logicTestsRoutes);
 // AI routes (OpenAI) - Wrapper A with built-in verification & multi-perspective analysis
 app.use('/api/assistant', openaiRoutes);
 // AI Wrapper B routes (Document & Logic Analyst) - with built-in verification & multi-perspective analysis
@@ -282,6 +303,8 @@ async function startServer() {
       console.warn(
         "⚠️ Database connection failed. Continuing startup without DB."
       );
+    } else {
+      await failInterruptedImportJobs();
     }
     // Start the server
     server.listen({port, host: "0.0.0.0"}, () => {
@@ -0,0 +1,151 @@
+import express from 'express';
+import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
+import { ProjectAuthRequest } from '../types';
+import db from '../db/knex';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { resolveTagAddress } from '../utils/addressSpace';
+import { AddressAllocator, resolveReservedRange } from '../utils/addressAllocator';
+
+const router = express.Router();
+
+const VENDORS = ['siemens', 'rockwell', 'beckhoff'];
+
+// Upper bound for one allocation preview request
+const MAX_PREVIEW_TAGS = 1000;
+
+// GET /:projectId/address-reservations - Address ranges kept free of automatic allocation
+router.get('/:projectId/address-reservations', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const reservations = await db('address_reservations')
+      .where({ project_id: projectId })
+      .orderBy([{ column: 'vendor' }, { column: 'start_address' }]);
+
+    res.json({ success: true, reservations });
+  } catch (error) {
+    console.error('Error listing address reservations:', error);
+    res.status(500).json({ error: 'Failed to list address reservations' });
+  }
+});
+
+// POST /:projectId/address-reservations - Reserve a range, e.g. MB100..MB199 for a future machine section
+router.post('/:projectId/address-reservations', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const { vendor, start_address, end_address, description } = req.body;
+
+    if (!VENDORS.includes(vendor)) {
+      return res.status(400).json({ error: 'vendor must be one of: siemens, rockwell, beckhoff' });
+    }
+    if (typeof start_address !== 'string' || !start_address.trim()) {
+      return res.status(400).json({ error: 'start_address is required' });
+    }
+    const startAddress = start_address.trim();
+    const endAddress = typeof end_address === 'string' && end_address.trim() ? end_address.trim() : startAddress;
+
+    const range = resolveReservedRange(vendor, startAddress, endAddress);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error });
+    }
+
+    const [reservation] = await db('address_reservations')
+      .insert({
+        project_id: projectId,
+        vendor,
+        start_address: startAddress,
+        end_address: endAddress,
+        description: description ? String(description) : null,
+        created_by: userId
+      })
+      .returning('*');
+
+    // Reserving does not move tags already inside the range; report them so they can be readdressed
+    const tags = await db('tags')
+      .where({ project_id: projectId })
+      .whereRaw('LOWER(vendor) = ?', [vendor])
+      .select('id', 'name', 'address', 'data_type', 'type', 'vendor');
+    const occupiedBy = tags
+      .map((tag: any) => resolveTagAddress(tag))
+      .filter((r: any) => r && r.area === range.area && r.start < range.end && r.start + r.length > range.start)
+      .map((r: any) => ({ tagId: r.tagId, name: r.name, address: r.address }));
+
+    await logAuditEvent({
+      userId,
+      action: `Reserved addresses ${startAddress}..${endAddress}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, reservationId: reservation.id, vendor }
+    });
+
+    res.status(201).json({ success: true, reservation, occupiedBy });
+  } catch (error) {
+    console.error('Error creating address reservation:', error);
+    res.status(500).json({ error: 'Failed to create address reservation' });
+  }
+});
+
+// DELETE /:projectId/address-reservations/:reservationId - Release a reserved range
+router.delete('/:projectId/address-reservations/:reservationId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const reservationId = parseInt(req.params.reservationId, 10);
+    if (isNaN(reservationId)) {
+      return res.status(400).json({ error: 'Invalid reservation ID' });
+    }
+
+    const reservation = await db('address_reservations').where({ id: reservationId, project_id: projectId }).first();
+    if (!reservation) {
+      return res.status(404).json({ error: 'Address reservation not found' });
+    }
+
+    await db('address_reservations').where({ id: reservation.id }).del();
+
+    await logAuditEvent({
+      userId,
+      action: `Released address reservation ${reservation.start_address}..${reservation.end_address}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, reservationId: reservation.id }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting address reservation:', error);
+    res.status(500).json({ error: 'Failed to delete address reservation' });
+  }
+});
+
+// POST /:projectId/addresses/allocate - Addresses new tags would get, without creating them
+router.post('/:projectId/addresses/allocate', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const tags = req.body?.tags;
+    if (!Array.isArray(tags) || tags.length === 0) {
+      return res.status(400).json({ error: 'tags must be a non-empty array' });
+    }
+    if (tags.length > MAX_PREVIEW_TAGS) {
+      return res.status(400).json({ error: `At most ${MAX_PREVIEW_TAGS} tags can be allocated at once` });
+    }
+
+    const allocator = await AddressAllocator.forProject(projectId);
+    const allocations = tags.map((tag: any) => ({
+      name: tag?.name,
+      ...allocator.allocate({
+        name: String(tag?.name ?? ''),
+        data_type: tag?.data_type,
+        tag_type: tag?.tag_type,
+        scope: tag?.scope,
+        vendor: tag?.vendor
+      })
+    }));
+
+    res.json({ success: true, allocations });
+  } catch (error) {
+    console.error('Error allocating addresses:', error);
+    res.status(500).json({ error: 'Failed to allocate addresses' });
+  }
+});
+
+export default router;
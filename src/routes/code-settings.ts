@@ -0,0 +1,158 @@
+import express from 'express';
+import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
+import { ProjectAuthRequest } from '../types';
+import db from '../db/knex';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { LintSettingsError, normalizeLintRules, resolveLintRules, ST_LINT_RULES } from '../utils/stLinter';
+import { formatCodeArtifacts, formatST, FormatOptionsError, normalizeFormatOptions, resolveFormatOptions } from '../utils/stFormatter';
+import { loadProjectFormatOptions } from '../utils/projectCodeSettings';
+
+const router = express.Router();
+
+// GET /:projectId/code-settings - Structured Text tooling settings with every lint rule and format option resolved
+router.get('/:projectId/code-settings', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const row = await db('project_code_settings').where({ project_id: projectId }).first();
+    const lintRules = row ? normalizeLintRules(row.lint_rules) : {};
+    const formatOptions = row ? normalizeFormatOptions(row.format_options) : {};
+
+    res.json({
+      success: true,
+      settings: {
+        lint_rules: resolveLintRules(lintRules),
+        format_options: resolveFormatOptions(formatOptions),
+        updated_at: row?.updated_at || null,
+        updated_by: row?.updated_by || null
+      },
+      available_rules: ST_LINT_RULES
+    });
+  } catch (error) {
+    console.error('Error fetching code settings:', error);
+    res.status(500).json({ error: 'Failed to fetch code settings' });
+  }
+});
+
+// PUT /:projectId/code-settings/lint-rules - Replace the lint rule overrides: { rule_id: { enabled?, severity? } }
+router.put('/:projectId/code-settings/lint-rules', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const lintRules = normalizeLintRules(req.body?.lint_rules ?? req.body);
+
+    const [row] = await db('project_code_settings')
+      .insert({
+        project_id: projectId,
+        lint_rules: JSON.stringify(lintRules),
+        updated_by: userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .onConflict('project_id')
+      .merge(['lint_rules', 'updated_by', 'updated_at'])
+      .returning('*');
+
+    await logAuditEvent({
+      userId,
+      action: 'Updated lint rules',
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, lintRules }
+    });
+
+    res.json({
+      success: true,
+      settings: {
+        lint_rules: resolveLintRules(normalizeLintRules(row.lint_rules)),
+        format_options: resolveFormatOptions(normalizeFormatOptions(row.format_options)),
+        updated_at: row.updated_at,
+        updated_by: row.updated_by
+      }
+    });
+  } catch (error) {
+    if (error instanceof LintSettingsError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating lint rules:', error);
+    res.status(500).json({ error: 'Failed to update lint rules' });
+  }
+});
+
+// PUT /:projectId/code-settings/format-options - Replace the formatter options: { keywordCase?, indentSize?, ... }
+router.put('/:projectId/code-settings/format-options', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const formatOptions = normalizeFormatOptions(req.body?.format_options ?? req.body);
+
+    const [row] = await db('project_code_settings')
+      .insert({
+        project_id: projectId,
+        format_options: JSON.stringify(formatOptions),
+        updated_by: userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .onConflict('project_id')
+      .merge(['format_options', 'updated_by', 'updated_at'])
+      .returning('*');
+
+    await logAuditEvent({
+      userId,
+      action: 'Updated code format options',
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, formatOptions }
+    });
+
+    res.json({
+      success: true,
+      settings: {
+        lint_rules: resolveLintRules(normalizeLintRules(row.lint_rules)),
+        format_options: resolveFormatOptions(normalizeFormatOptions(row.format_options)),
+        updated_at: row.updated_at,
+        updated_by: row.updated_by
+      }
+    });
+  } catch (error) {
+    if (error instanceof FormatOptionsError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating format options:', error);
+    res.status(500).json({ error: 'Failed to update format options' });
+  }
+});
+
+// POST /:projectId/code-format - Format Structured Text with the project's options
+// Body: { code } or { artifacts: [{ language, filename, content }] } as returned by the AI wrappers
+router.post('/:projectId/code-format', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const { code, artifacts } = req.body;
+
+    if (typeof code !== 'string' && !Array.isArray(artifacts)) {
+      return res.status(400).json({ error: 'Send code as a string or artifacts as an array' });
+    }
+
+    const options = await loadProjectFormatOptions(projectId);
+
+    if (Array.isArray(artifacts)) {
+      return res.json({ success: true, artifacts: formatCodeArtifacts(artifacts, options) });
+    }
+
+    const result = formatST(code, options);
+    if (result.errors.length > 0) {
+      return res.status(400).json({
+        error: 'Code could not be formatted',
+        details: result.errors.map(e => ({ line: e.line, column: e.column, message: e.message }))
+      });
+    }
+
+    res.json({ success: true, code: result.code, changed: result.changed });
+  } catch (error) {
+    console.error('Error formatting code:', error);
+    res.status(500).json({ error: 'Failed to format code' });
+  }
+});
+
+export default router;
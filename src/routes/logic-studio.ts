@@ -2,6 +2,10 @@ import express from 'express';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/authMiddleware';
 import db from '../db/knex';
 import { logAuditEvent } from '../middleware/auditLogger';
+import { buildProjectCrossReference } from '../utils/tagCrossReference';
+import { lintST } from '../utils/stLinter';
+import { formatST } from '../utils/stFormatter';
+import { loadProjectFormatOptions, loadProjectLintRules } from '../utils/projectCodeSettings';
 
 const router = express.Router();
 
@@ -30,6 +34,16 @@ const authorizeProjectAccess = async (req: AuthenticatedRequest, res: express.Re
   }
 };
 
+// Saves may ask for the code to be formatted with the project's options ({ format: true });
+// code that does not tokenize is saved as sent
+const formatForSave = async (projectId: number, code: any, format: any): Promise<{ code: any; formatted: boolean }> => {
+  if (format !== true || typeof code !== 'string' || !code) {
+    return { code, formatted: false };
+  }
+  const result = formatST(code, await loadProjectFormatOptions(projectId));
+  return { code: result.code, formatted: result.errors.length === 0 };
+};
+
 // GET /:projectId/logic-studio - Get Logic Studio state
 router.get('/:projectId/logic-studio', authenticateToken, authorizeProjectAccess, async (req: AuthenticatedRequest, res) => {
   try {
@@ -70,12 +84,13 @@ router.get('/:projectId/logic-studio', authenticateToken, authorizeProjectAccess
   }
 });
 
-// POST /:projectId/logic-studio - Create or update Logic Studio state
+// POST /:projectId/logic-studio - Create or update Logic Studio state; { format: true } formats the code first
 router.post('/:projectId/logic-studio', authenticateToken, authorizeProjectAccess, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId, 10);
     const userId = req.user?.userId!;
-    const { code, ai_prompt, version_id, ui_state } = req.body;
+    const { ai_prompt, version_id, ui_state } = req.body;
+    const { code, formatted } = await formatForSave(projectId, req.body.code, req.body.format);
 
     // Check if record exists
     const existingLogicStudio = await db('logic_studio')
@@ -126,6 +141,7 @@ router.post('/:projectId/logic-studio', authenticateToken, authorizeProjectAcces
     res.json({
       success: true,
       data: result[0],
+      formatted,
       message: `Logic Studio state ${existingLogicStudio ? 'updated' : 'created'} successfully`
     });
   } catch (error) {
@@ -134,16 +150,16 @@ router.post('/:projectId/logic-studio', authenticateToken, authorizeProjectAcces
   }
 });
 
-// PUT /:projectId/logic-studio/code - Update just the code
+// PUT /:projectId/logic-studio/code - Update just the code; { format: true } formats it first
 router.put('/:projectId/logic-studio/code', authenticateToken, authorizeProjectAccess, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId, 10);
     const userId = req.user?.userId!;
-    const { code } = req.body;
 
-    if (typeof code !== 'string') {
+    if (typeof req.body.code !== 'string') {
       return res.status(400).json({ error: 'Code must be a string' });
     }
+    const { code, formatted } = await formatForSave(projectId, req.body.code, req.body.format);
 
     // Ensure record exists
     const existingLogicStudio = await db('logic_studio')
@@ -175,6 +191,8 @@ router.put('/:projectId/logic-studio/code', authenticateToken, authorizeProjectA
 
     res.json({
       success: true,
+      formatted,
+      ...(formatted ? { code } : {}),
       message: 'Logic Studio code updated successfully'
     });
   } catch (error) {
@@ -183,6 +201,43 @@ router.put('/:projectId/logic-studio/code', authenticateToken, authorizeProjectA
   }
 });
 
+// POST /:projectId/logic-studio/lint - Lint Structured Text against the project's tags and lint rules
+// Body: { code? } - lints the saved Logic Studio code when no code is sent
+router.post('/:projectId/logic-studio/lint', authenticateToken, authorizeProjectAccess, async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    let code = req.body?.code;
+
+    if (code === undefined) {
+      const logicStudio = await db('logic_studio').where({ project_id: projectId }).select('code').first();
+      code = logicStudio?.code || '';
+    }
+    if (typeof code !== 'string') {
+      return res.status(400).json({ error: 'Code must be a string' });
+    }
+
+    const [rules, tags] = await Promise.all([
+      loadProjectLintRules(projectId),
+      db('tags').where({ project_id: projectId }).select('name', 'data_type', 'type', 'tag_type')
+    ]);
+
+    // Logic Studio holds whole POUs as well as bare statement lists
+    const result = lintST(code, {
+      rules,
+      routineBody: true,
+      externals: tags.map((tag: any) => ({ name: tag.name, dataType: tag.data_type || tag.type, tagType: tag.tag_type }))
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error linting Logic Studio code:', error);
+    res.status(500).json({ error: 'Failed to lint Logic Studio code' });
+  }
+});
+
 // DELETE /:projectId/logic-studio - Delete Logic Studio state
 router.delete('/:projectId/logic-studio', authenticateToken, authorizeProjectAccess, async (req: AuthenticatedRequest, res) => {
   try {
@@ -216,4 +271,32 @@ router.delete('/:projectId/logic-studio', authenticateToken, authorizeProjectAcc
   }
 });
 
+// GET /:projectId/cross-reference - Where each tag is used in the Logic Studio code
+// ?versions=true also scans version snapshots; ?tag=Name limits the report to one tag
+router.get('/:projectId/cross-reference', authenticateToken, authorizeProjectAccess, async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const includeVersions = req.query.versions === 'true' || req.query.versions === '1';
+    const tagName = typeof req.query.tag === 'string' ? req.query.tag.trim() : '';
+
+    const crossReference = await buildProjectCrossReference(projectId, { includeVersions });
+
+    if (tagName) {
+      const tag = crossReference.tags.find(t => t.name.toUpperCase() === tagName.toUpperCase());
+      if (!tag) {
+        return res.status(404).json({ error: 'Tag not found' });
+      }
+      return res.json({ success: true, data: { tag, sources: crossReference.sources } });
+    }
+
+    res.json({
+      success: true,
+      data: crossReference
+    });
+  } catch (error) {
+    console.error('Error building tag cross-reference:', error);
+    res.status(500).json({ error: 'Failed to build tag cross-reference' });
+  }
+});
+
 export default router;
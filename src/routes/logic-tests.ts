@@ -0,0 +1,299 @@
+import express from 'express';
+import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
+import { ProjectAuthRequest } from '../types';
+import db from '../db/knex';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { LogicTest, LogicTestCaseResult } from '../db/tables/logic_tests';
+import { LogicTestError, normalizeTestSteps, runLogicTest, tagsToSimulationGlobals } from '../utils/logicTests';
+import { createRunBudget } from '../utils/stInterpreter';
+
+const router = express.Router();
+
+// Work one run may do across all its cases; cases that find it used up are reported as errors
+const RUN_STATEMENT_BUDGET = 20000000;
+const RUN_TIME_BUDGET_MS = 5000;
+
+async function findTest(projectId: number, testId: number) {
+  if (isNaN(testId)) return null;
+  return db('logic_tests').where({ id: testId, project_id: projectId }).first();
+}
+
+// Validate the editable test fields shared by create and update
+function testSettings(body: any, partial: boolean): Record<string, any> {
+  const settings: Record<string, any> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new LogicTestError('Test name is required');
+    }
+    settings.name = body.name.trim();
+  }
+  if (body.description !== undefined) {
+    settings.description = body.description ? String(body.description) : null;
+  }
+  if (body.pou !== undefined) {
+    if (body.pou !== null && typeof body.pou !== 'string') {
+      throw new LogicTestError('pou must be a POU name');
+    }
+    settings.pou = body.pou?.trim() || null;
+  }
+  if (body.cycle_time_ms !== undefined) {
+    if (body.cycle_time_ms !== null && (!Number.isInteger(body.cycle_time_ms) || body.cycle_time_ms < 1 || body.cycle_time_ms > 60000)) {
+      throw new LogicTestError('cycle_time_ms must be a whole number of milliseconds between 1 and 60000');
+    }
+    settings.cycle_time_ms = body.cycle_time_ms;
+  }
+  if (!partial || body.steps !== undefined) {
+    settings.steps = JSON.stringify(normalizeTestSteps(body.steps));
+  }
+  return settings;
+}
+
+function handleTestError(res: express.Response, error: any, message: string) {
+  if (error instanceof LogicTestError) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error?.code === '23505') {
+    return res.status(409).json({ error: 'A logic test with this name already exists in the project' });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+// GET /:projectId/logic-tests - List the project's test cases
+router.get('/:projectId/logic-tests', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const tests = await db('logic_tests').where({ project_id: projectId }).orderBy('name');
+
+    res.json({ success: true, tests });
+  } catch (error) {
+    console.error('Error listing logic tests:', error);
+    res.status(500).json({ error: 'Failed to list logic tests' });
+  }
+});
+
+// POST /:projectId/logic-tests - Create a test case: { name, description?, pou?, cycle_time_ms?, steps }
+// Steps: { action: 'force', values } | { action: 'step', scans } | { action: 'advance', ms | time }
+//        | { action: 'assert', path, expected, tolerance?, message? }
+router.post('/:projectId/logic-tests', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const settings = testSettings(req.body || {}, false);
+
+    const [test] = await db('logic_tests')
+      .insert({ ...settings, project_id: projectId, created_by: userId })
+      .returning('*');
+
+    await logAuditEvent({
+      userId,
+      action: `Created logic test: ${test.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, testId: test.id, steps: test.steps.length }
+    });
+
+    res.status(201).json({ success: true, test });
+  } catch (error) {
+    handleTestError(res, error, 'Failed to create logic test');
+  }
+});
+
+// GET /:projectId/logic-tests/:testId - A single test case
+router.get('/:projectId/logic-tests/:testId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const test = await findTest(parseInt(req.params.projectId, 10), parseInt(req.params.testId, 10));
+    if (!test) {
+      return res.status(404).json({ error: 'Logic test not found' });
+    }
+
+    res.json({ success: true, test });
+  } catch (error) {
+    console.error('Error fetching logic test:', error);
+    res.status(500).json({ error: 'Failed to fetch logic test' });
+  }
+});
+
+// PUT /:projectId/logic-tests/:testId - Update a test case; steps are replaced as a whole
+router.put('/:projectId/logic-tests/:testId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const existing = await findTest(projectId, parseInt(req.params.testId, 10));
+    if (!existing) {
+      return res.status(404).json({ error: 'Logic test not found' });
+    }
+
+    const settings = testSettings(req.body || {}, true);
+    const [test] = await db('logic_tests')
+      .where({ id: existing.id })
+      .update({ ...settings, updated_at: new Date().toISOString() })
+      .returning('*');
+
+    await logAuditEvent({
+      userId,
+      action: `Updated logic test: ${test.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, testId: test.id, fields: Object.keys(settings) }
+    });
+
+    res.json({ success: true, test });
+  } catch (error) {
+    handleTestError(res, error, 'Failed to update logic test');
+  }
+});
+
+// DELETE /:projectId/logic-tests/:testId - Delete a test case; recorded runs keep its results
+router.delete('/:projectId/logic-tests/:testId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const test = await findTest(projectId, parseInt(req.params.testId, 10));
+    if (!test) {
+      return res.status(404).json({ error: 'Logic test not found' });
+    }
+
+    await db('logic_tests').where({ id: test.id }).del();
+
+    await logAuditEvent({
+      userId,
+      action: `Deleted logic test: ${test.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, testId: test.id }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting logic test:', error);
+    res.status(500).json({ error: 'Failed to delete logic test' });
+  }
+});
+
+// POST /:projectId/logic-tests/run - Run the test cases and record the results
+// Body: { version_number?, test_ids? } - without a version number the saved Logic Studio code and
+// current tags are tested and the run is recorded against the version Logic Studio was last saved as
+router.post('/:projectId/logic-tests/run', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const { version_number, test_ids } = req.body || {};
+
+    if (test_ids !== undefined && (!Array.isArray(test_ids) || test_ids.some((id: any) => !Number.isInteger(id)))) {
+      return res.status(400).json({ error: 'test_ids must be an array of test ids' });
+    }
+
+    let code: string;
+    let tags: any[];
+    let version: { id: number; version_number: number } | undefined;
+    let codeSource: 'logic_studio' | 'version';
+
+    if (version_number !== undefined) {
+      const row = await db('project_versions')
+        .where({ project_id: projectId, version_number: parseInt(version_number, 10) })
+        .first();
+      if (!row) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+      const data = typeof row.data === 'string' ? JSON.parse(row.data) : row.data;
+      code = data?.logicStudioCode || data?.logic?.code || '';
+      tags = Array.isArray(data?.tags) ? data.tags : [];
+      version = row;
+      codeSource = 'version';
+    } else {
+      const logicStudio = await db('logic_studio').where({ project_id: projectId }).select('code', 'version_id').first();
+      code = logicStudio?.code || '';
+      tags = await db('tags').where({ project_id: projectId }).select('name', 'data_type', 'type', 'default_value');
+      version = logicStudio?.version_id
+        ? await db('project_versions').where({ id: logicStudio.version_id }).select('id', 'version_number').first()
+        : undefined;
+      codeSource = 'logic_studio';
+    }
+
+    if (!code.trim()) {
+      return res.status(400).json({ error: 'There is no code to test' });
+    }
+
+    let query = db('logic_tests').where({ project_id: projectId }).orderBy('name');
+    if (test_ids) query = query.whereIn('id', test_ids);
+    const tests: LogicTest[] = await query;
+    if (tests.length === 0) {
+      return res.status(400).json({ error: 'The project has no logic tests to run' });
+    }
+
+    const globals = tagsToSimulationGlobals(tags);
+    const budget = createRunBudget(RUN_STATEMENT_BUDGET, RUN_TIME_BUDGET_MS);
+    const results: LogicTestCaseResult[] = tests.map(test => runLogicTest(code, test, globals, budget));
+    const casesPassed = results.filter(r => r.passed).length;
+
+    const [run] = await db('logic_test_runs')
+      .insert({
+        project_id: projectId,
+        version_id: version?.id ?? null,
+        version_number: version?.version_number ?? null,
+        code_source: codeSource,
+        passed: casesPassed === results.length,
+        cases_passed: casesPassed,
+        cases_failed: results.length - casesPassed,
+        results: JSON.stringify(results),
+        run_by: userId
+      })
+      .returning('*');
+
+    await logAuditEvent({
+      userId,
+      action: 'Ran logic tests',
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, runId: run.id, versionNumber: run.version_number, passed: casesPassed, failed: results.length - casesPassed }
+    });
+
+    console.log(`🧪 Logic tests for project ${projectId}: ${casesPassed}/${results.length} passed`);
+    res.json({ success: true, run });
+  } catch (error) {
+    handleTestError(res, error, 'Failed to run logic tests');
+  }
+});
+
+// GET /:projectId/logic-test-runs - Recorded runs, newest first: ?version_number=&limit=
+router.get('/:projectId/logic-test-runs', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 200);
+
+    let query = db('logic_test_runs')
+      .where({ project_id: projectId })
+      .select('id', 'project_id', 'version_id', 'version_number', 'code_source', 'passed', 'cases_passed', 'cases_failed', 'run_by', 'created_at')
+      .orderBy('created_at', 'desc')
+      .limit(limit);
+    if (req.query.version_number !== undefined) {
+      query = query.where({ version_number: parseInt(String(req.query.version_number), 10) });
+    }
+
+    res.json({ success: true, runs: await query });
+  } catch (error) {
+    console.error('Error listing logic test runs:', error);
+    res.status(500).json({ error: 'Failed to list logic test runs' });
+  }
+});
+
+// GET /:projectId/logic-test-runs/:runId - A run with its per-assertion results
+router.get('/:projectId/logic-test-runs/:runId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const runId = parseInt(req.params.runId, 10);
+    const run = isNaN(runId) ? null : await db('logic_test_runs').where({ id: runId, project_id: projectId }).first();
+    if (!run) {
+      return res.status(404).json({ error: 'Logic test run not found' });
+    }
+
+    res.json({ success: true, run });
+  } catch (error) {
+    console.error('Error fetching logic test run:', error);
+    res.status(500).json({ error: 'Failed to fetch logic test run' });
+  }
+});
+
+export default router;
@@ -0,0 +1,270 @@
+import express from 'express';
+import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
+import { ProjectAuthRequest } from '../types';
+import db from '../db/knex';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { TagQueryError } from '../utils/tagQuery';
+import {
+  exportModbusMapCsv,
+  exportModbusMapXlsx,
+  ModbusAllocationPlan,
+  ModbusMapError,
+  normalizeModbusSelection,
+  normalizeStartOffsets,
+  regenerateModbusMap
+} from '../utils/modbusMap';
+
+const router = express.Router();
+
+const WORD_ORDERS = ['high_low', 'low_high'];
+
+async function findMap(projectId: number, mapId: number) {
+  if (isNaN(mapId)) return null;
+  return db('modbus_maps').where({ id: mapId, project_id: projectId }).first();
+}
+
+async function mapEntries(mapId: number) {
+  return db('modbus_map_entries')
+    .where({ map_id: mapId })
+    .orderBy([{ column: 'register_type' }, { column: 'offset' }]);
+}
+
+// Plan summary returned after (re)generation
+function planSummary(plan: ModbusAllocationPlan) {
+  return {
+    mapped: plan.entries.length,
+    added: plan.added,
+    moved: plan.moved,
+    removed: plan.removed,
+    skipped: plan.skipped
+  };
+}
+
+// Validate the editable map settings shared by create and update
+function mapSettings(body: any, partial: boolean): Record<string, any> {
+  const settings: Record<string, any> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new ModbusMapError('Map name is required');
+    }
+    settings.name = body.name.trim();
+  }
+  if (body.description !== undefined) {
+    settings.description = body.description ? String(body.description) : null;
+  }
+  if (body.word_order !== undefined) {
+    if (!WORD_ORDERS.includes(body.word_order)) {
+      throw new ModbusMapError('word_order must be one of: high_low, low_high');
+    }
+    settings.word_order = body.word_order;
+  }
+  if (body.unit_id !== undefined) {
+    if (!Number.isInteger(body.unit_id) || body.unit_id < 0 || body.unit_id > 255) {
+      throw new ModbusMapError('unit_id must be between 0 and 255');
+    }
+    settings.unit_id = body.unit_id;
+  }
+  if (body.selection !== undefined) {
+    settings.selection = JSON.stringify(normalizeModbusSelection(body.selection));
+  }
+  if (body.start_offsets !== undefined) {
+    settings.start_offsets = JSON.stringify(normalizeStartOffsets(body.start_offsets));
+  }
+  return settings;
+}
+
+function handleMapError(res: express.Response, error: any, message: string) {
+  if (error instanceof ModbusMapError || error instanceof TagQueryError) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error?.code === '23505') {
+    return res.status(409).json({ error: 'A Modbus map with this name already exists in the project' });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+// GET /:projectId/modbus-maps - List the project's Modbus maps
+router.get('/:projectId/modbus-maps', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const maps = await db('modbus_maps')
+      .where({ project_id: projectId })
+      .select('modbus_maps.*', db('modbus_map_entries').count('*').whereRaw('map_id = modbus_maps.id').as('entry_count'))
+      .orderBy('name');
+
+    res.json({ success: true, maps: maps.map((m: any) => ({ ...m, entry_count: parseInt(m.entry_count ?? '0') })) });
+  } catch (error) {
+    console.error('Error listing Modbus maps:', error);
+    res.status(500).json({ error: 'Failed to list Modbus maps' });
+  }
+});
+
+// POST /:projectId/modbus-maps - Create a map and allocate addresses for its tags
+router.post('/:projectId/modbus-maps', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const settings = mapSettings(req.body, false);
+
+    const [created] = await db('modbus_maps')
+      .insert({ ...settings, project_id: projectId, created_by: userId })
+      .returning('*');
+
+    const { map, plan } = await regenerateModbusMap(created);
+
+    await logAuditEvent({
+      userId,
+      action: `Created Modbus map: ${map.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, mapId: map.id, mapped: plan.entries.length }
+    });
+
+    console.log(`✅ Created Modbus map ${map.name} with ${plan.entries.length} entries for project ${projectId}`);
+    res.status(201).json({ success: true, map, entries: await mapEntries(map.id), ...planSummary(plan) });
+  } catch (error) {
+    handleMapError(res, error, 'Failed to create Modbus map');
+  }
+});
+
+// GET /:projectId/modbus-maps/:mapId - A map with its entries
+router.get('/:projectId/modbus-maps/:mapId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const map = await findMap(projectId, parseInt(req.params.mapId, 10));
+    if (!map) {
+      return res.status(404).json({ error: 'Modbus map not found' });
+    }
+
+    res.json({ success: true, map, entries: await mapEntries(map.id) });
+  } catch (error) {
+    console.error('Error fetching Modbus map:', error);
+    res.status(500).json({ error: 'Failed to fetch Modbus map' });
+  }
+});
+
+// PUT /:projectId/modbus-maps/:mapId - Update settings; selection and offset changes regenerate the map
+router.put('/:projectId/modbus-maps/:mapId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const map = await findMap(projectId, parseInt(req.params.mapId, 10));
+    if (!map) {
+      return res.status(404).json({ error: 'Modbus map not found' });
+    }
+
+    const settings = mapSettings(req.body, true);
+    const [updated] = await db('modbus_maps')
+      .where({ id: map.id })
+      .update({ ...settings, updated_at: new Date().toISOString() })
+      .returning('*');
+
+    let result: Record<string, any> = { map: updated };
+    if (settings.selection !== undefined || settings.start_offsets !== undefined) {
+      const { map: regenerated, plan } = await regenerateModbusMap(updated);
+      result = { map: regenerated, ...planSummary(plan) };
+    }
+
+    await logAuditEvent({
+      userId,
+      action: `Updated Modbus map: ${updated.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, mapId: map.id, fields: Object.keys(settings) }
+    });
+
+    res.json({ success: true, ...result, entries: await mapEntries(map.id) });
+  } catch (error) {
+    handleMapError(res, error, 'Failed to update Modbus map');
+  }
+});
+
+// DELETE /:projectId/modbus-maps/:mapId - Delete a map and its entries
+router.delete('/:projectId/modbus-maps/:mapId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const map = await findMap(projectId, parseInt(req.params.mapId, 10));
+    if (!map) {
+      return res.status(404).json({ error: 'Modbus map not found' });
+    }
+
+    await db('modbus_maps').where({ id: map.id }).del();
+
+    await logAuditEvent({
+      userId,
+      action: `Deleted Modbus map: ${map.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, mapId: map.id }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting Modbus map:', error);
+    res.status(500).json({ error: 'Failed to delete Modbus map' });
+  }
+});
+
+// POST /:projectId/modbus-maps/:mapId/regenerate - Pick up tag changes; existing addresses stay put unless compact is set
+router.post('/:projectId/modbus-maps/:mapId/regenerate', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const existing = await findMap(projectId, parseInt(req.params.mapId, 10));
+    if (!existing) {
+      return res.status(404).json({ error: 'Modbus map not found' });
+    }
+
+    const compact = req.body?.compact === true;
+    const { map, plan } = await regenerateModbusMap(existing, { compact });
+
+    await logAuditEvent({
+      userId,
+      action: `Regenerated Modbus map: ${map.name}${compact ? ' (compacted)' : ''}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, mapId: map.id, added: plan.added.length, moved: plan.moved.length, removed: plan.removed.length }
+    });
+
+    res.json({ success: true, map, entries: await mapEntries(map.id), ...planSummary(plan) });
+  } catch (error) {
+    handleMapError(res, error, 'Failed to regenerate Modbus map');
+  }
+});
+
+// GET /:projectId/modbus-maps/:mapId/export/:format - Download the map as csv or xlsx
+router.get('/:projectId/modbus-maps/:mapId/export/:format', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const format = req.params.format.toLowerCase();
+    if (format !== 'csv' && format !== 'xlsx') {
+      return res.status(400).json({ error: 'Unsupported format. Use csv or xlsx' });
+    }
+
+    const map = await findMap(projectId, parseInt(req.params.mapId, 10));
+    if (!map) {
+      return res.status(404).json({ error: 'Modbus map not found' });
+    }
+    const entries = await mapEntries(map.id);
+
+    const fileName = `${map.name.replace(/[^A-Za-z0-9_.-]+/g, '_')}-modbus.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      exportModbusMapCsv(map, entries, res);
+    } else {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      exportModbusMapXlsx(map, entries, res);
+    }
+  } catch (error) {
+    console.error('Error exporting Modbus map:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to export Modbus map' });
+    }
+  }
+});
+
+export default router;
@@ -2,6 +2,8 @@ import express from 'express';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/authMiddleware';
 import DatabaseService from '../db/database-service-clean';
 import { logAuditEvent } from '../middleware/auditLogger';
+import db from '../db/knex';
+import { checkTagNaming, EMPTY_NAMING_RULES, normalizeNamingRules, NamingRulesError } from '../utils/tagNamingRules';
 
 const router = express.Router();
 
@@ -299,4 +301,132 @@ router.get('/:orgId/activity', authenticateToken, async (req: AuthenticatedReque
   }
 });
 
+// Get organization tag naming rules
+router.get('/:orgId/naming-rules', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { orgId } = req.params;
+
+    // Verify user has access to this organization
+    const teamMember = await DatabaseService.getTeamMemberByUserAndOrg(req.user!.userId, orgId);
+    if (!teamMember) {
+      return res.status(403).json({ error: 'Access denied. You are not a member of this organization.' });
+    }
+
+    const row = await db('organization_naming_rules').where({ organization_id: orgId }).first();
+
+    // Rules saved before a validation was added are returned as stored, with the reason they are ignored
+    let rules = EMPTY_NAMING_RULES;
+    let invalidReason: string | undefined;
+    if (row) {
+      try {
+        rules = normalizeNamingRules(row.rules);
+      } catch (error) {
+        if (!(error instanceof NamingRulesError)) throw error;
+        rules = row.rules;
+        invalidReason = error.message;
+      }
+    }
+
+    res.json({
+      rules,
+      ...(invalidReason ? { invalidReason } : {}),
+      updatedAt: row?.updated_at || null,
+      updatedBy: row?.updated_by || null
+    });
+  } catch (error: any) {
+    console.error('Error fetching naming rules:', error);
+    res.status(500).json({ error: 'Failed to fetch naming rules' });
+  }
+});
+
+// Replace organization tag naming rules (admin only)
+router.put('/:orgId/naming-rules', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { orgId } = req.params;
+
+    // Verify user is admin of this organization
+    const teamMember = await DatabaseService.getTeamMemberByUserAndOrg(req.user!.userId, orgId);
+    if (!teamMember || teamMember.role !== 'Admin') {
+      return res.status(403).json({ error: 'Access denied. Admin privileges required.' });
+    }
+
+    const rules = normalizeNamingRules(req.body?.rules ?? req.body);
+
+    const [row] = await db('organization_naming_rules')
+      .insert({
+        organization_id: orgId,
+        rules: JSON.stringify(rules),
+        updated_by: req.user!.userId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .onConflict('organization_id')
+      .merge(['rules', 'updated_by', 'updated_at'])
+      .returning('*');
+
+    // Log audit event
+    await logAuditEvent({
+      userId: req.user!.userId,
+      orgId,
+      action: 'Updated tag naming rules',
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { orgId, rules }
+    });
+
+    res.json({
+      message: 'Naming rules updated successfully',
+      rules: normalizeNamingRules(row.rules),
+      updatedAt: row.updated_at
+    });
+  } catch (error: any) {
+    if (error instanceof NamingRulesError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating naming rules:', error);
+    res.status(500).json({ error: 'Failed to update naming rules' });
+  }
+});
+
+// Check tag names against the organization naming rules: { tags: [{ name, vendor?, scope?, tag_type?, type? }], rules? }
+// Passing rules tries a draft without saving it.
+router.post('/:orgId/naming-rules/check', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { orgId } = req.params;
+    const { tags } = req.body || {};
+
+    // Verify user has access to this organization
+    const teamMember = await DatabaseService.getTeamMemberByUserAndOrg(req.user!.userId, orgId);
+    if (!teamMember) {
+      return res.status(403).json({ error: 'Access denied. You are not a member of this organization.' });
+    }
+
+    if (!Array.isArray(tags) || tags.some((t: any) => !t || typeof t.name !== 'string')) {
+      return res.status(400).json({ error: 'tags must be an array of objects with a name' });
+    }
+
+    let rules = EMPTY_NAMING_RULES;
+    if (req.body.rules !== undefined) {
+      rules = normalizeNamingRules(req.body.rules);
+    } else {
+      const row = await db('organization_naming_rules').where({ organization_id: orgId }).first();
+      if (row) rules = normalizeNamingRules(row.rules);
+    }
+
+    const results = tags.map((tag: any) => ({ name: tag.name, ...checkTagNaming(tag, rules) }));
+
+    res.json({
+      results,
+      valid: results.filter(r => r.isValid).length,
+      invalid: results.filter(r => !r.isValid).length
+    });
+  } catch (error: any) {
+    if (error instanceof NamingRulesError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error checking naming rules:', error);
+    res.status(500).json({ error: 'Failed to check naming rules' });
+  }
+});
+
 export default router;
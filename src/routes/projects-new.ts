@@ -1,10 +1,20 @@
 import express from 'express';
+import multer from 'multer';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/authMiddleware';
 import db from '../db/knex';
 import { logAuditEvent } from '../middleware/auditLogger';
+import { importProjectFile, ProjectImportError } from '../services/projectImportService';
 
 const router = express.Router();
 
+// Vendor project exports and archives are larger than tag tables
+const upload = multer({
+  limits: {
+    fileSize: 50 * 1024 * 1024 // 50MB limit
+  },
+  storage: multer.memoryStorage()
+});
+
 // Validation helpers
 function validateProjectName(projectName: any): string {
   if (!projectName || typeof projectName !== 'string' || projectName.trim().length === 0) {
@@ -76,6 +86,56 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Create a project from a vendor project file (L5X, TIA Portal XML / archive, TwinCAT archive or POU files, ST)
+router.post('/import', authenticateToken, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const { projectName, clientName, projectType, description, targetPLCVendor } = req.body;
+    let vendor: 'siemens' | 'rockwell' | 'beckhoff' | undefined;
+    try {
+      vendor = validatePLCVendor(targetPLCVendor);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const summary = await importProjectFile({
+      fileName: file.originalname,
+      buffer: file.buffer,
+      userId: req.user!.userId,
+      projectName,
+      clientName,
+      projectType,
+      description,
+      vendor
+    });
+
+    await logAuditEvent({
+      userId: req.user!.userId,
+      action: `Imported project ${summary.project.projectName} from ${file.originalname}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: {
+        projectId: summary.project.id,
+        vendor: summary.project.targetPLCVendor,
+        tags: summary.tags.imported,
+        routines: summary.routines.imported.length
+      }
+    });
+
+    res.status(201).json({ success: true, ...summary });
+  } catch (error: any) {
+    if (error instanceof ProjectImportError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error importing project:', error);
+    res.status(500).json({ error: 'Failed to import project' });
+  }
+});
+
 // Get All Projects for User
 router.get('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
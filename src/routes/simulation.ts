@@ -0,0 +1,186 @@
+import express from 'express';
+import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
+import { ProjectAuthRequest } from '../types';
+import db from '../db/knex';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { createRunBudget, createSimulator, SimulationError, STRuntimeError, STSimulator } from '../utils/stInterpreter';
+import { parseDurationMs } from '../utils/stSyntax';
+import { tagsToSimulationGlobals } from '../utils/logicTests';
+import {
+  createSimulationSession,
+  deleteSimulationSession,
+  getSimulationSession,
+  SimulationSession,
+  SimulationSessionError
+} from '../services/simulationSessions';
+
+const router = express.Router();
+
+// Scans a single request may run, through step or advance
+const MAX_SCANS_PER_REQUEST = 100000;
+// Work a single request may do; the simulation runs inside the request and holds up every other one meanwhile
+const REQUEST_STATEMENT_BUDGET = 5000000;
+const REQUEST_TIME_BUDGET_MS = 2000;
+
+const sessionState = (session: SimulationSession) => {
+  const simulator = session.simulator;
+  return {
+    id: session.id,
+    entry: simulator.entry || null,
+    cycle_time_ms: simulator.cycleTimeMs,
+    scan_count: simulator.scanCount,
+    time_ms: simulator.timeMs,
+    forced: simulator.forcedPaths,
+    warnings: simulator.warnings,
+    variables: simulator.snapshot()
+  };
+};
+
+const handleSimulationError = (res: express.Response, error: unknown, failure: string) => {
+  if (error instanceof SimulationSessionError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  if (error instanceof SimulationError) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error instanceof STRuntimeError) {
+    return res.status(400).json({ error: 'Runtime error', details: { line: error.line, column: error.column, message: error.message } });
+  }
+  console.error(`Error: ${failure}:`, error);
+  res.status(500).json({ error: failure });
+};
+
+// Set (or release, with null) forced values: { path: value }
+const applyForces = (simulator: STSimulator, values: Record<string, unknown>) => {
+  for (const [path, value] of Object.entries(values)) {
+    if (value === null) simulator.release(path);
+    else simulator.force(path, value);
+  }
+};
+
+// POST /:projectId/simulation/sessions - Start simulating the Logic Studio code (or the code sent)
+// Body: { code?, pou?, cycle_time_ms?, forces?: { path: value } }; project tags are global variables
+router.post('/:projectId/simulation/sessions', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const { pou, cycle_time_ms, forces } = req.body || {};
+    let code = req.body?.code;
+
+    if (code === undefined) {
+      const logicStudio = await db('logic_studio').where({ project_id: projectId }).select('code').first();
+      code = logicStudio?.code || '';
+    }
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'There is no code to simulate' });
+    }
+    if (pou !== undefined && typeof pou !== 'string') {
+      return res.status(400).json({ error: 'pou must be a POU name' });
+    }
+    const cycleTimeMs = cycle_time_ms === undefined ? undefined : Number(cycle_time_ms);
+    if (cycleTimeMs !== undefined && (!Number.isInteger(cycleTimeMs) || cycleTimeMs < 1 || cycleTimeMs > 60000)) {
+      return res.status(400).json({ error: 'cycle_time_ms must be a whole number of milliseconds between 1 and 60000' });
+    }
+
+    const tags = await db('tags').where({ project_id: projectId }).select('name', 'data_type', 'type', 'default_value');
+    const simulator = createSimulator(code, {
+      entry: pou,
+      cycleTimeMs,
+      globals: tagsToSimulationGlobals(tags)
+    });
+    if (forces && typeof forces === 'object') applyForces(simulator, forces);
+
+    const session = createSimulationSession(projectId, userId, simulator);
+
+    await logAuditEvent({
+      userId,
+      action: 'Started logic simulation',
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, sessionId: session.id, entry: simulator.entry || null }
+    });
+
+    res.status(201).json({ success: true, session: sessionState(session) });
+  } catch (error) {
+    handleSimulationError(res, error, 'Failed to start simulation');
+  }
+});
+
+// GET /:projectId/simulation/sessions/:sessionId - Clock, scan count and every variable value
+router.get('/:projectId/simulation/sessions/:sessionId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const session = getSimulationSession(req.params.sessionId, parseInt(req.params.projectId, 10), req.user!.userId);
+    res.json({ success: true, session: sessionState(session) });
+  } catch (error) {
+    handleSimulationError(res, error, 'Failed to read simulation');
+  }
+});
+
+// POST /:projectId/simulation/sessions/:sessionId/force - Force inputs: { values: { path: value | null }, release_all? }
+router.post('/:projectId/simulation/sessions/:sessionId/force', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const session = getSimulationSession(req.params.sessionId, parseInt(req.params.projectId, 10), req.user!.userId);
+    const { values, release_all } = req.body || {};
+
+    if (values !== undefined && (typeof values !== 'object' || values === null || Array.isArray(values))) {
+      return res.status(400).json({ error: 'values must be an object of variable paths and values' });
+    }
+    if (release_all === true) session.simulator.release();
+    if (values) applyForces(session.simulator, values);
+
+    res.json({ success: true, session: sessionState(session) });
+  } catch (error) {
+    handleSimulationError(res, error, 'Failed to force variables');
+  }
+});
+
+// POST /:projectId/simulation/sessions/:sessionId/step - Run scans: { scans? } (default 1)
+// A request that uses up its statement or time budget stops after the last complete scan with 400
+router.post('/:projectId/simulation/sessions/:sessionId/step', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const session = getSimulationSession(req.params.sessionId, parseInt(req.params.projectId, 10), req.user!.userId);
+    const scans = req.body?.scans === undefined ? 1 : Number(req.body.scans);
+
+    if (!Number.isInteger(scans) || scans < 1 || scans > MAX_SCANS_PER_REQUEST) {
+      return res.status(400).json({ error: `scans must be a whole number between 1 and ${MAX_SCANS_PER_REQUEST}` });
+    }
+
+    session.simulator.step(scans, createRunBudget(REQUEST_STATEMENT_BUDGET, REQUEST_TIME_BUDGET_MS));
+    res.json({ success: true, scans, session: sessionState(session) });
+  } catch (error) {
+    handleSimulationError(res, error, 'Failed to run scans');
+  }
+});
+
+// POST /:projectId/simulation/sessions/:sessionId/advance - Let time pass: { ms } or { time: 'T#5s' }
+router.post('/:projectId/simulation/sessions/:sessionId/advance', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const session = getSimulationSession(req.params.sessionId, parseInt(req.params.projectId, 10), req.user!.userId);
+    const { ms, time } = req.body || {};
+    const duration = typeof time === 'string' ? parseDurationMs(time.trim().replace(/^L?(T|TIME)#/i, '')) : Number(ms);
+
+    if (duration === null || !Number.isFinite(duration) || duration <= 0) {
+      return res.status(400).json({ error: 'Send ms as a positive number or time as a duration (T#5s)' });
+    }
+    if (Math.ceil(duration / session.simulator.cycleTimeMs) > MAX_SCANS_PER_REQUEST) {
+      return res.status(400).json({ error: `Advancing by ${duration} ms would run more than ${MAX_SCANS_PER_REQUEST} scans` });
+    }
+
+    const scans = session.simulator.advance(duration, createRunBudget(REQUEST_STATEMENT_BUDGET, REQUEST_TIME_BUDGET_MS));
+    res.json({ success: true, scans, session: sessionState(session) });
+  } catch (error) {
+    handleSimulationError(res, error, 'Failed to advance simulation');
+  }
+});
+
+// DELETE /:projectId/simulation/sessions/:sessionId - End a simulation
+router.delete('/:projectId/simulation/sessions/:sessionId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    deleteSimulationSession(req.params.sessionId, parseInt(req.params.projectId, 10), req.user!.userId);
+    res.json({ success: true });
+  } catch (error) {
+    handleSimulationError(res, error, 'Failed to end simulation');
+  }
+});
+
+export default router;
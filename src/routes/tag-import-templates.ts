@@ -0,0 +1,329 @@
+import express from 'express';
+import multer from 'multer';
+import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
+import { ProjectAuthRequest } from '../types';
+import db from '../db/knex';
+import DatabaseService from '../db/database-service-clean';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { getTagSyncService } from '../services/tagSyncSingleton';
+import { createImportPreview, persistPreparedImport, prepareParsedImport } from '../services/tagImportPipeline';
+import { analyzeProjectAddresses } from '../utils/addressSpace';
+import { projectOrganizationId } from '../utils/projectOrganization';
+import { ColumnMapping, ColumnMappingError, detectColumns, normalizeColumnMapping, parseMappedTagFile, readTabularFile, suggestColumnMapping } from '../utils/tagColumnMapping';
+
+const router = express.Router();
+
+const upload = multer({
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  storage: multer.memoryStorage()
+});
+
+const VENDORS = ['siemens', 'rockwell', 'beckhoff'];
+
+async function addressConflictReport(projectId: number) {
+  const { summary, issues } = await analyzeProjectAddresses(projectId, { includeGaps: false });
+  return { summary, issues };
+}
+
+// Templates usable in a project: its own plus those shared across its organization's projects
+async function availableTemplates(projectId: number) {
+  const orgId = await projectOrganizationId(projectId);
+  return db('tag_import_templates')
+    .where({ project_id: projectId })
+    .modify(query => {
+      if (orgId) query.orWhere({ organization_id: orgId });
+    })
+    .orderBy('name');
+}
+
+async function findTemplate(projectId: number, templateId: number) {
+  const templates = await availableTemplates(projectId);
+  return templates.find((t: any) => t.id === templateId) || null;
+}
+
+// Multipart bodies carry the mapping as a JSON string
+function mappingFromBody(value: any): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ColumnMappingError('mapping must be valid JSON');
+  }
+}
+
+function parsePositiveInt(value: any): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : NaN;
+}
+
+// POST /:projectId/import/mapped/detect - Columns, sample rows and a suggested mapping for a CSV / XLSX file
+router.post('/:projectId/import/mapped/detect', authenticateToken, authorizeProjectAccess, upload.single('file'), async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const tabular = readTabularFile(file.buffer, file.originalname, {
+      sheet: req.body.sheet || undefined,
+      headerRow: parsePositiveInt(req.body.headerRow)
+    });
+
+    res.json({
+      success: true,
+      format: tabular.format,
+      sheets: tabular.sheets,
+      sheet: tabular.sheet,
+      headerRow: tabular.headerRow,
+      rowCount: tabular.rows.length,
+      columns: detectColumns(tabular),
+      sampleRows: tabular.rows.slice(0, 10),
+      suggestedMapping: suggestColumnMapping(tabular),
+      templates: await availableTemplates(projectId)
+    });
+  } catch (error) {
+    if (error instanceof ColumnMappingError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error detecting import columns:', error);
+    res.status(500).json({ error: 'Failed to read import file' });
+  }
+});
+
+// POST /:projectId/import/mapped - Import a CSV / XLSX file with a mapping or a saved template (?dryRun=true for a preview)
+router.post('/:projectId/import/mapped', authenticateToken, authorizeProjectAccess, upload.single('file'), async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const project = await db('projects').where({ id: projectId }).first();
+
+    let mapping: ColumnMapping;
+    let templateVendor: string | null = null;
+    if (req.body.templateId !== undefined) {
+      const template = await findTemplate(projectId, parseInt(req.body.templateId, 10));
+      if (!template) {
+        return res.status(404).json({ error: 'Import template not found' });
+      }
+      mapping = normalizeColumnMapping(template.mapping);
+      templateVendor = template.vendor;
+    } else {
+      mapping = normalizeColumnMapping(mappingFromBody(req.body.mapping));
+    }
+
+    const vendor = String(req.body.vendor || templateVendor || project.target_plc_vendor || '').toLowerCase();
+    if (!VENDORS.includes(vendor)) {
+      return res.status(400).json({ error: 'vendor must be one of: siemens, rockwell, beckhoff' });
+    }
+
+    const parsedImport = parseMappedTagFile(file.buffer, file.originalname, mapping, vendor, projectId, userId);
+
+    if (req.query.dryRun === 'true' || req.query.dryRun === '1') {
+      const preview = await createImportPreview({ projectId, userId, vendor, format: 'mapped', parsed: parsedImport });
+      return res.json(preview);
+    }
+
+    const parsed = await prepareParsedImport(projectId, vendor, parsedImport);
+    if (parsed.errors.length > 0) {
+      return res.status(400).json({ success: false, errors: parsed.errors });
+    }
+
+    const result = await persistPreparedImport(projectId, userId, parsed);
+
+    await logAuditEvent({
+      userId,
+      action: `Imported ${result.inserted} ${vendor} tags from mapped ${file.originalname} to project: ${project.project_name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, imported: result.inserted, updated: result.updated, templateId: req.body.templateId }
+    });
+
+    getTagSyncService()?.notifyProjectTagsUpdated(projectId);
+
+    res.json({ success: true, ...result, addressAnalysis: await addressConflictReport(projectId) });
+  } catch (error) {
+    if (error instanceof ColumnMappingError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing mapped tag file:', error);
+    res.status(500).json({ error: 'Failed to import tag file' });
+  }
+});
+
+// GET /:projectId/import-templates - Project and organization templates
+router.get('/:projectId/import-templates', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    res.json({ success: true, templates: await availableTemplates(projectId) });
+  } catch (error) {
+    console.error('Error fetching import templates:', error);
+    res.status(500).json({ error: 'Failed to fetch import templates' });
+  }
+});
+
+// POST /:projectId/import-templates - Save a mapping as a project or organization template
+router.post('/:projectId/import-templates', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+    const { name, scope = 'project', vendor } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Template name is required' });
+    }
+    if (scope !== 'project' && scope !== 'organization') {
+      return res.status(400).json({ error: "scope must be 'project' or 'organization'" });
+    }
+    if (vendor !== undefined && vendor !== null && !VENDORS.includes(vendor)) {
+      return res.status(400).json({ error: 'vendor must be one of: siemens, rockwell, beckhoff' });
+    }
+    const mapping = normalizeColumnMapping(req.body.mapping);
+
+    let organizationId: string | null = null;
+    if (scope === 'organization') {
+      organizationId = await projectOrganizationId(projectId);
+      const teamMember = organizationId ? await DatabaseService.getTeamMemberByUserAndOrg(userId, organizationId) : null;
+      if (!teamMember) {
+        return res.status(403).json({ error: 'Access denied. You are not a member of this organization.' });
+      }
+    }
+
+    const now = new Date().toISOString();
+    const [template] = await db('tag_import_templates')
+      .insert({
+        name: name.trim(),
+        project_id: organizationId ? null : projectId,
+        organization_id: organizationId,
+        vendor: vendor || null,
+        mapping: JSON.stringify(mapping),
+        created_by: userId,
+        created_at: now,
+        updated_at: now
+      })
+      .returning('*');
+
+    await logAuditEvent({
+      userId,
+      action: `Saved ${scope} import template: ${template.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, templateId: template.id, organizationId }
+    });
+
+    res.status(201).json({ success: true, template });
+  } catch (error: any) {
+    if (error instanceof ColumnMappingError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.code === '23505') { // PostgreSQL unique constraint violation
+      return res.status(409).json({ error: 'A template with this name already exists' });
+    }
+    console.error('Error saving import template:', error);
+    res.status(500).json({ error: 'Failed to save import template' });
+  }
+});
+
+// Organization templates may be changed by their creator or an organization admin
+async function canModifyTemplate(template: any, userId: string): Promise<boolean> {
+  if (!template.organization_id || template.created_by === userId) return true;
+  const teamMember = await DatabaseService.getTeamMemberByUserAndOrg(userId, template.organization_id);
+  return teamMember?.role === 'Admin';
+}
+
+// PUT /:projectId/import-templates/:templateId - Rename a template or replace its mapping
+router.put('/:projectId/import-templates/:templateId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+
+    const template = await findTemplate(projectId, parseInt(req.params.templateId, 10));
+    if (!template) {
+      return res.status(404).json({ error: 'Import template not found' });
+    }
+    if (!(await canModifyTemplate(template, userId))) {
+      return res.status(403).json({ error: 'Access denied. Only the creator or an organization admin can change this template.' });
+    }
+
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (req.body.name !== undefined) {
+      if (typeof req.body.name !== 'string' || !req.body.name.trim()) {
+        return res.status(400).json({ error: 'Template name cannot be empty' });
+      }
+      updates.name = req.body.name.trim();
+    }
+    if (req.body.vendor !== undefined) {
+      if (req.body.vendor !== null && !VENDORS.includes(req.body.vendor)) {
+        return res.status(400).json({ error: 'vendor must be one of: siemens, rockwell, beckhoff' });
+      }
+      updates.vendor = req.body.vendor;
+    }
+    if (req.body.mapping !== undefined) {
+      updates.mapping = JSON.stringify(normalizeColumnMapping(req.body.mapping));
+    }
+
+    const [updated] = await db('tag_import_templates')
+      .where({ id: template.id })
+      .update(updates)
+      .returning('*');
+
+    await logAuditEvent({
+      userId,
+      action: `Updated import template: ${updated.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, templateId: template.id }
+    });
+
+    res.json({ success: true, template: updated });
+  } catch (error: any) {
+    if (error instanceof ColumnMappingError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.code === '23505') { // PostgreSQL unique constraint violation
+      return res.status(409).json({ error: 'A template with this name already exists' });
+    }
+    console.error('Error updating import template:', error);
+    res.status(500).json({ error: 'Failed to update import template' });
+  }
+});
+
+// DELETE /:projectId/import-templates/:templateId
+router.delete('/:projectId/import-templates/:templateId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const userId = req.user!.userId;
+
+    const template = await findTemplate(projectId, parseInt(req.params.templateId, 10));
+    if (!template) {
+      return res.status(404).json({ error: 'Import template not found' });
+    }
+    if (!(await canModifyTemplate(template, userId))) {
+      return res.status(403).json({ error: 'Access denied. Only the creator or an organization admin can delete this template.' });
+    }
+
+    await db('tag_import_templates').where({ id: template.id }).del();
+
+    await logAuditEvent({
+      userId,
+      action: `Deleted import template: ${template.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, templateId: template.id }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting import template:', error);
+    res.status(500).json({ error: 'Failed to delete import template' });
+  }
+});
+
+export default router;
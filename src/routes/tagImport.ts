@@ -2,9 +2,16 @@ import express from 'express';
 import multer from 'multer';
 import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
 import { ProjectAuthRequest } from '../types';
-import { importBeckhoffTags, importRockwellTags, importSiemensTags } from '../services/tagImportService';
+import { analyzeProjectAddresses } from '../utils/addressSpace';
+import { getTagFormat, importTagFile, listTagFormats, previewTagFile, tagFormatForFile } from '../services/tagFormatRegistry';
+import { getTagSyncService } from '../services/tagSyncSingleton';
 
 const router = express.Router();
+
+async function addressConflictReport(projectId: number) {
+  const { summary, issues } = await analyzeProjectAddresses(projectId, { includeGaps: false });
+  return { summary, issues };
+}
 const upload = multer({
   limits: {
     fileSize: 10 * 1024 * 1024 // 10MB limit
@@ -21,6 +28,7 @@ router.post('/:projectId/import',
     try {
       const projectId = parseInt(req.params.projectId, 10);
       const { vendor, format } = req.body;
+      const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
       const file = req.file;
 
       if (!file) {
@@ -38,28 +46,32 @@ router.post('/:projectId/import',
         });
       }
 
-      let result;
-      switch (vendor) {
-        case 'rockwell':
-          result = await importRockwellTags(projectId, file, format, userId);
-          break;
-        case 'siemens':
-          result = await importSiemensTags(projectId, file, format, userId);
-          break;
-        case 'beckhoff':
-          result = await importBeckhoffTags(projectId, file, format, userId);
-          break;
-        default:
-          return res.status(400).json({ 
-            success: false, 
-            error: 'Unsupported vendor' 
-          });
+      // Vendor plus format ("csv", "xlsx", ...); without a format the file extension decides
+      const tagFormat = format
+        ? getTagFormat(String(vendor || ''), String(format))
+        : tagFormatForFile(String(vendor || ''), file.originalname);
+      if (!tagFormat || !tagFormat.vendor || !tagFormat.capabilities.import) {
+        return res.status(400).json({
+          success: false,
+          error: 'Unsupported vendor or format',
+          formats: listTagFormats().filter(f => f.vendor && f.capabilities.import).map(f => ({ vendor: f.vendor, format: f.format }))
+        });
+      }
+
+      const context = { projectId, userId, vendor: tagFormat.vendor, options: {} };
+      const result = dryRun
+        ? await previewTagFile(tagFormat, file.buffer, context)
+        : await importTagFile(tagFormat, file.buffer, context);
+
+      if (!dryRun && result.success) {
+        getTagSyncService()?.notifyProjectTagsUpdated(projectId);
       }
 
-      // Return import results
+      // Return import results; committed imports also report the address conflicts they left
       res.json({
         success: true,
-        data: result
+        data: result,
+        ...(dryRun ? {} : { addressAnalysis: await addressConflictReport(projectId) })
       });
 
     } catch (error) {
@@ -1,13 +1,24 @@
 import express from 'express';
 import multer from 'multer';
+import os from 'os';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/authMiddleware';
 import db from '../db/knex';
 import { logAuditEvent } from '../middleware/auditLogger';
 import { validateTagForVendor } from '../utils/vendorFormatters';
-import { exportBeckhoffCsv, exportBeckhoffXml, exportBeckhoffXlsx, importBeckhoffCsv, importBeckhoffXml } from '../utils/beckhoffTagIO';
-import { exportSiemensCsv, exportSiemensXml, exportSiemensXlsx, importSiemensCsv } from '../utils/siemensTagIO';
-import { exportRockwellCsv, exportRockwellL5X, exportRockwellXlsx, importRockwellCsv, importRockwellL5X } from '../utils/rockwellTagIO';
 import { getTagSyncService } from '../services/tagSyncSingleton';
+import { applyTagFilters, hasTagFilters, parseTagQuery, queryProjectTags, TagQueryError } from '../utils/tagQuery';
+import { BulkEditError, parseBulkChanges, parseBulkRename, planBulkTagEdit } from '../utils/tagBulkEdit';
+import { planTagConversion, PLCVendor, SUPPORTED_VENDORS } from '../utils/tagConverter';
+import { commitImportPreview, getImportPreview, TagImportPreviewError } from '../services/tagImportPipeline';
+import { describeTagFormat, importTagFile, importVendorFor, listTagFormats, previewTagFile, requireTagFormat, TagFormatError } from '../services/tagFormatRegistry';
+import { cancelImportJob, formatImportJobErrorReport, getImportJob, ImportJobError, listImportJobs, submitImportJob, supportedImportFormats } from '../services/tagImportJobs';
+import { analyzeProjectAddresses } from '../utils/addressSpace';
+import { AddressAllocator } from '../utils/addressAllocator';
+import { checkTagDataTypeReference, compositeTypeCategory, expandDataType, loadProjectUdts } from '../utils/udt';
+import { checkTagNaming, hasNamingRules, loadProjectNamingRules, NamedTag } from '../utils/tagNamingRules';
+import { hasEngineeringData, parseEngineeringInput, pickEngineeringFields, validateEngineering } from '../utils/tagEngineering';
 
 const router = express.Router();
 
@@ -19,7 +30,79 @@ const upload = multer({
   storage: multer.memoryStorage()
 });
 
+// Background import jobs keep the upload on disk until the job has run
+const jobUpload = multer({
+  limits: {
+    fileSize: 200 * 1024 * 1024 // 200MB limit
+  },
+  dest: path.join(os.tmpdir(), 'pandaura-import-jobs')
+});
+
+// Dry-run imports (?dryRun=true) parse and diff the file without writing any tags
+function isDryRun(req: express.Request): boolean {
+  return req.query.dryRun === 'true' || req.query.dryRun === '1';
+}
+
+// Address conflicts left by an import are reported with its result; gaps are left to the analysis endpoint
+async function addressConflictReport(projectId: number) {
+  const { summary, issues } = await analyzeProjectAddresses(projectId, { includeGaps: false });
+  return { summary, issues };
+}
+
+// Check a tag against its organization's naming rules; returns the 400 response body when it fails
+async function namingRuleFailure(projectId: number, tag: NamedTag, ignoreTagId?: number) {
+  const rules = await loadProjectNamingRules(projectId);
+  if (!hasNamingRules(rules)) return null;
+
+  const names = await db('tags')
+    .where({ project_id: projectId })
+    .modify(query => { if (ignoreTagId) query.whereNot('id', ignoreTagId); })
+    .pluck('name');
+  const naming = checkTagNaming(tag, rules, new Set(names));
+  if (naming.isValid) return null;
+
+  return {
+    error: 'Tag naming rules violated',
+    details: naming.violations.map(v => v.message),
+    violations: naming.violations,
+    suggestedName: naming.suggestedName
+  };
+}
+
+// Resolve the tags targeted by a bulk request: either `tagIds` or a `filter` using the list query parameters
+async function selectBulkTags(projectId: number, body: any, requireFilter: boolean): Promise<{ tags: any[]; missingIds: number[] }> {
+  const { tagIds, filter } = body || {};
+
+  if ((tagIds === undefined) === (filter === undefined)) {
+    throw new BulkEditError('Provide either tagIds or filter');
+  }
+
+  if (tagIds !== undefined) {
+    if (!Array.isArray(tagIds) || tagIds.length === 0 || tagIds.some((id: any) => !Number.isInteger(id))) {
+      throw new BulkEditError('tagIds must be a non-empty array of tag IDs');
+    }
+    const tags = await db('tags')
+      .where({ project_id: projectId })
+      .whereIn('id', tagIds)
+      .orderBy('id');
+    const found = new Set(tags.map((t: any) => t.id));
+    return { tags, missingIds: tagIds.filter((id: number) => !found.has(id)) };
+  }
+
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    throw new BulkEditError('filter must be an object');
+  }
+  const options = parseTagQuery(filter, 'id');
+  if (requireFilter && !hasTagFilters(options)) {
+    throw new BulkEditError('filter must contain at least one criterion');
+  }
+  const tags = await applyTagFilters(db('tags'), projectId, options).orderBy('id');
+  return { tags, missingIds: [] };
+}
+
 // Get all tags for a project (supports both query param and path param)
+// Optional: q, scope, tag_type, data_type, vendor, is_ai_generated, sort, limit, cursor.
+// The body stays a plain array; totals and the next cursor are sent as headers.
 router.get('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = req.query.projectId as string;
@@ -44,28 +127,28 @@ router.get('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const tags = await db('tags')
-      .where('project_id', projectId)
-      .orderBy('name');
-
-    console.log(`🔍 Tags API: Found ${tags.length} tags for project ${projectId}`);
-    console.log(`🔍 Tags API: Tags:`, tags.map(t => ({ 
-      id: t.id, 
-      name: t.name, 
-      scope: t.scope, 
-      data_type: t.data_type,
-      address: t.address,
-      project_id: t.project_id 
-    })));
+    const options = parseTagQuery(req.query, 'name');
+    const { tags, totalCount, nextCursor } = await queryProjectTags(parseInt(projectId), options);
+
+    console.log(`🔍 Tags API: Returning ${tags.length} of ${totalCount} tags for project ${projectId}`);
+
+    res.setHeader('X-Total-Count', totalCount.toString());
+    if (nextCursor) {
+      res.setHeader('X-Next-Cursor', nextCursor);
+    }
 
     res.json(tags);
   } catch (error) {
+    if (error instanceof TagQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('🔍 Tags API: Error fetching tags:', error);
     res.status(500).json({ error: 'Failed to fetch tags' });
   }
 });
 
 // Get all tags for a project (path parameter version)
+// Accepts the same query parameters as GET /; newest tags first by default
 router.get('/project/:projectId', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = req.params.projectId;
@@ -78,15 +161,18 @@ router.get('/project/:projectId', authenticateToken, async (req: AuthenticatedRe
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const tags = await db('tags')
-      .where('project_id', projectId)
-      .orderBy('created_at', 'desc');
+    const options = parseTagQuery(req.query, '-created_at');
+    const { tags, totalCount, nextCursor } = await queryProjectTags(parseInt(projectId), options);
     
     res.json({
       tags,
-      totalCount: tags.length
+      totalCount,
+      nextCursor
     });
   } catch (error: any) {
+    if (error instanceof TagQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error fetching tags:', error);
     res.status(500).json({ error: 'Failed to fetch tags' });
   }
@@ -117,10 +203,6 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Vendor is required' });
     }
 
-    if (!address) {
-      return res.status(400).json({ error: 'Address is required' });
-    }
-
     if (!scope) {
       return res.status(400).json({ error: 'Scope is required' });
     }
@@ -129,17 +211,38 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: 'Tag type is required' });
     }
 
+    // Verify project exists and user owns it
+    const project = await db('projects')
+      .where({ id: parseInt(project_id), user_id: req.user!.userId })
+      .first();
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Struct and array tags get STRUCT / ARRAY as their standard type unless one is given
+    const compositeType = data_type ? compositeTypeCategory(data_type.trim()) : null;
+
     // Validate tag data against vendor specifications
     const tagData = {
       name: name.trim(),
-      type: type || 'BOOL', // Default to BOOL if not provided
+      type: type || compositeType || 'BOOL', // Default to BOOL if not provided
       data_type,
-      address: address.trim(),
+      address: address?.trim() || '',
       vendor: vendor.toLowerCase(),
       scope: scope.toLowerCase(),
       tag_type: tag_type.toLowerCase()
     };
 
+    // Without an address the tag gets the next free one of its area
+    if (!tagData.address) {
+      const allocator = await AddressAllocator.forProject(parseInt(project_id));
+      const allocation = allocator.allocate({ ...tagData, data_type: data_type?.trim() });
+      if ('error' in allocation) {
+        return res.status(400).json({ error: 'No address given and none could be allocated', details: [allocation.error] });
+      }
+      tagData.address = allocation.address;
+    }
+
     const validation = validateTagForVendor(tagData, vendor.toLowerCase() as 'rockwell' | 'siemens' | 'beckhoff');
     if (!validation.isValid) {
       return res.status(400).json({ 
@@ -148,12 +251,23 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
       });
     }
 
-    // Verify project exists and user owns it
-    const project = await db('projects')
-      .where({ id: parseInt(project_id), user_id: req.user!.userId })
-      .first();
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    // Units, scaling, clamps and alarm limits
+    const engineering = parseEngineeringInput(req.body);
+    const engineeringErrors = engineering.errors.length > 0
+      ? engineering.errors
+      : validateEngineering({ ...engineering.values, type: tagData.type, data_type });
+    if (engineeringErrors.length > 0) {
+      return res.status(400).json({ error: 'Tag validation failed', details: engineeringErrors });
+    }
+
+    const dataTypeError = await checkTagDataTypeReference(parseInt(project_id), data_type?.trim());
+    if (dataTypeError) {
+      return res.status(400).json({ error: 'Tag validation failed', details: [dataTypeError] });
+    }
+
+    const namingFailure = await namingRuleFailure(parseInt(project_id), tagData);
+    if (namingFailure) {
+      return res.status(400).json(namingFailure);
     }
 
     const [tag] = await db('tags')
@@ -162,14 +276,15 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
         user_id: req.user!.userId,
         name: name.trim(),
         description: description?.trim(),
-        type: type?.trim(),
+        type: type?.trim() || compositeType || undefined,
         data_type: data_type?.trim(),
-        address: address?.trim(),
+        address: tagData.address,
         default_value: default_value?.trim(),
         vendor: vendor?.trim(),
         scope: scope?.trim(),
         tag_type: tag_type?.trim(),
         is_ai_generated: is_ai_generated || false,
+        ...engineering.values,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       })
@@ -204,6 +319,36 @@ router.post('/', authenticateToken, async (req: AuthenticatedRequest, res) => {
   }
 });
 
+// Member view of a struct or array tag, expanded from the project's user-defined types
+router.get('/:tagId/members', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const tagId = parseInt(req.params.tagId);
+
+    if (isNaN(tagId)) {
+      return res.status(400).json({ error: 'Invalid tag ID' });
+    }
+
+    // Only tags of the user's own projects
+    const tag = await db('tags')
+      .join('projects', 'tags.project_id', 'projects.id')
+      .where('tags.id', tagId)
+      .andWhere('projects.user_id', req.user!.userId)
+      .select('tags.*')
+      .first();
+    if (!tag) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    const definitions = await loadProjectUdts(tag.project_id);
+    const members = expandDataType(tag.name, tag.data_type || tag.type || '', definitions);
+
+    res.json({ tagId, name: tag.name, data_type: tag.data_type, members });
+  } catch (error) {
+    console.error('Error expanding tag members:', error);
+    res.status(500).json({ error: 'Failed to expand tag members' });
+  }
+});
+
 // Update a tag
 router.put('/:tagId', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
@@ -239,6 +384,12 @@ router.put('/:tagId', authenticateToken, async (req: AuthenticatedRequest, res)
     if (tag_type !== undefined) updates.tag_type = tag_type?.trim();
     if (is_ai_generated !== undefined) updates.is_ai_generated = is_ai_generated;
 
+    const engineering = parseEngineeringInput(req.body);
+    if (engineering.errors.length > 0) {
+      return res.status(400).json({ error: 'Tag validation failed', details: engineering.errors });
+    }
+    Object.assign(updates, engineering.values);
+
     // Update tag with validation
     if (Object.keys(updates).length === 0) {
       return res.status(400).json({ error: 'No valid fields to update' });
@@ -250,6 +401,17 @@ router.put('/:tagId', authenticateToken, async (req: AuthenticatedRequest, res)
       return res.status(404).json({ error: 'Tag not found' });
     }
 
+    if (updates.data_type) {
+      const dataTypeError = await checkTagDataTypeReference(currentTag.project_id, updates.data_type);
+      if (dataTypeError) {
+        return res.status(400).json({ error: 'Tag validation failed', details: [dataTypeError] });
+      }
+      if (type === undefined) {
+        const compositeType = compositeTypeCategory(updates.data_type);
+        if (compositeType) updates.type = compositeType;
+      }
+    }
+
     // Create merged tag data for validation (current + updates)
     const tagForValidation = {
       name: updates.name || currentTag.name,
@@ -275,6 +437,28 @@ router.put('/:tagId', authenticateToken, async (req: AuthenticatedRequest, res)
       }
     }
 
+    // Engineering data is checked as a whole, so a type change can't strand alarm limits on a BOOL
+    const engineeringForValidation = {
+      ...pickEngineeringFields(currentTag),
+      ...engineering.values,
+      type: tagForValidation.type,
+      data_type: tagForValidation.data_type
+    };
+    if (hasEngineeringData(engineeringForValidation)) {
+      const engineeringErrors = validateEngineering(engineeringForValidation);
+      if (engineeringErrors.length > 0) {
+        return res.status(400).json({ error: 'Tag validation failed', details: engineeringErrors });
+      }
+    }
+
+    // Naming rules depend on the name, vendor, scope, tag type and type; other edits leave them alone
+    if (['name', 'vendor', 'scope', 'tag_type', 'type'].some(field => updates[field] !== undefined)) {
+      const namingFailure = await namingRuleFailure(currentTag.project_id, tagForValidation, tagId);
+      if (namingFailure) {
+        return res.status(400).json(namingFailure);
+      }
+    }
+
     updates.updated_at = new Date().toISOString();
 
     const [updatedTag] = await db('tags')
@@ -396,17 +580,13 @@ router.delete('/project/:projectId', authenticateToken, async (req: Authenticate
   }
 });
 
-// === Import Endpoints ===
+// === Bulk Endpoints ===
 
-// Import Beckhoff CSV
-router.post('/projects/:projectId/import/beckhoff/csv', authenticateToken, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+// Bulk edit tags: { tagIds | filter, changes?, rename?: { pattern, replacement, flags? } }
+// Every resulting tag is validated first; the batch is applied in one transaction or not at all.
+router.patch('/projects/:projectId/bulk', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    const file = req.file;
-
-    if (!file) {
-      return res.status(400).json({ error: 'No file uploaded' });
-    }
 
     // Verify project exists and user owns it
     const project = await db('projects')
@@ -416,37 +596,109 @@ router.post('/projects/:projectId/import/beckhoff/csv', authenticateToken, uploa
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const result = await importBeckhoffCsv(file.buffer, projectId, req.user!.userId);
-    
-    if (!result.success) {
-      return res.status(400).json(result);
+    const changes = parseBulkChanges(req.body?.changes);
+    const renameRegex = parseBulkRename(req.body?.rename);
+    if (Object.keys(changes).length === 0 && !renameRegex) {
+      return res.status(400).json({ error: 'No changes or rename provided' });
+    }
+
+    if (changes.data_type) {
+      const dataTypeError = await checkTagDataTypeReference(projectId, changes.data_type);
+      if (dataTypeError) {
+        return res.status(400).json({ error: dataTypeError });
+      }
+      if (changes.type === undefined) {
+        const compositeType = compositeTypeCategory(changes.data_type);
+        if (compositeType) changes.type = compositeType;
+      }
+    }
+
+    const { tags, missingIds } = await selectBulkTags(projectId, req.body, false);
+    if (missingIds.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Some tags were not found in this project; no tags were changed',
+        failures: missingIds.map(id => ({ tagId: id, name: null, errors: ['Tag not found in project'] }))
+      });
+    }
+    if (tags.length === 0) {
+      return res.json({ success: true, updated: 0, tags: [] });
+    }
+
+    const projectTags = await db('tags')
+      .where({ project_id: projectId })
+      .select('id', 'name');
+    const plan = planBulkTagEdit(
+      tags,
+      projectTags,
+      changes,
+      renameRegex ? { regex: renameRegex, replacement: req.body.rename.replacement } : null,
+      await loadProjectNamingRules(projectId)
+    );
+
+    if (plan.failures.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Tag validation failed; no tags were changed',
+        failures: plan.failures
+      });
     }
 
+    const updatedTags = await db.transaction(async (trx) => {
+      const now = new Date().toISOString();
+      const renamed = plan.updates.filter(u => u.updates.name !== undefined);
+
+      // Move renamed tags out of the way first so swaps don't trip the unique (project_id, name) index
+      for (const update of renamed) {
+        await trx('tags')
+          .where({ id: update.tagId, project_id: projectId })
+          .update({ name: `__bulk_rename_${update.tagId}` });
+      }
+
+      const results: any[] = [];
+      for (const update of plan.updates) {
+        const [tag] = await trx('tags')
+          .where({ id: update.tagId, project_id: projectId })
+          .update({ ...update.updates, updated_at: now })
+          .returning('*');
+        results.push(tag);
+      }
+      return results;
+    });
+
     // Log audit event
     await logAuditEvent({
       userId: req.user!.userId,
-      action: `Imported ${result.inserted} Beckhoff tags from CSV to project: ${project.project_name}`,
+      action: `Bulk updated ${updatedTags.length} tags in project: ${project.project_name}`,
       ip: req.ip,
       userAgent: req.get('User-Agent'),
-      metadata: { projectId, imported: result.inserted }
+      metadata: { projectId, tagIds: updatedTags.map(t => t.id), changes, rename: req.body?.rename }
     });
 
-    res.json(result);
-  } catch (error) {
-    console.error('Error importing Beckhoff CSV:', error);
-    res.status(500).json({ error: 'Failed to import Beckhoff CSV' });
+    // Notify real-time subscribers about the updated tags
+    const tagSyncService = getTagSyncService();
+    if (tagSyncService) {
+      tagSyncService.notifyProjectTagsUpdated(projectId);
+    }
+
+    res.json({ success: true, updated: updatedTags.length, tags: updatedTags });
+  } catch (error: any) {
+    if (error instanceof BulkEditError || error instanceof TagQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error bulk updating tags:', error);
+    if (error.code === '23505') { // PostgreSQL unique constraint violation
+      res.status(409).json({ error: 'Tag name already exists in this project' });
+    } else {
+      res.status(500).json({ error: 'Failed to bulk update tags' });
+    }
   }
 });
 
-// Import Beckhoff XML
-router.post('/projects/:projectId/import/beckhoff/xml', authenticateToken, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+// Bulk delete tags: { tagIds | filter }. Unknown IDs abort the whole delete.
+router.delete('/projects/:projectId/bulk', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    const file = req.file;
-
-    if (!file) {
-      return res.status(400).json({ error: 'No file uploaded' });
-    }
 
     // Verify project exists and user owns it
     const project = await db('projects')
@@ -456,36 +708,60 @@ router.post('/projects/:projectId/import/beckhoff/xml', authenticateToken, uploa
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const result = await importBeckhoffXml(file.buffer, projectId, req.user!.userId);
-    
-    if (!result.success) {
-      return res.status(400).json(result);
+    const { tags, missingIds } = await selectBulkTags(projectId, req.body, true);
+    if (missingIds.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Some tags were not found in this project; no tags were deleted',
+        failures: missingIds.map(id => ({ tagId: id, name: null, errors: ['Tag not found in project'] }))
+      });
     }
 
+    const tagIds = tags.map((t: any) => t.id);
+    // A single DELETE statement, so the batch is removed atomically
+    const deleted = tagIds.length === 0 ? 0 : await db('tags')
+      .where({ project_id: projectId })
+      .whereIn('id', tagIds)
+      .del();
+
     // Log audit event
     await logAuditEvent({
       userId: req.user!.userId,
-      action: `Imported ${result.inserted} Beckhoff tags from XML to project: ${project.project_name}`,
+      action: `Bulk deleted ${deleted} tags from project: ${project.project_name}`,
       ip: req.ip,
       userAgent: req.get('User-Agent'),
-      metadata: { projectId, imported: result.inserted }
+      metadata: { projectId, tagIds, tagNames: tags.map((t: any) => t.name) }
     });
 
-    res.json(result);
-  } catch (error) {
-    console.error('Error importing Beckhoff XML:', error);
-    res.status(500).json({ error: 'Failed to import Beckhoff XML' });
+    // Notify real-time subscribers about the deleted tags
+    const tagSyncService = getTagSyncService();
+    if (tagSyncService) {
+      tagSyncService.notifyProjectTagsUpdated(projectId);
+    }
+
+    res.json({ success: true, deleted });
+  } catch (error: any) {
+    if (error instanceof BulkEditError || error instanceof TagQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error bulk deleting tags:', error);
+    res.status(500).json({ error: 'Failed to bulk delete tags' });
   }
 });
 
-// Import Siemens CSV
-router.post('/projects/:projectId/import/siemens/csv', authenticateToken, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+// === Conversion Endpoints ===
+
+// Convert every tag in a project to another vendor dialect.
+// Returns the plan only unless `preview: false` is sent.
+router.post('/projects/:projectId/convert', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    const file = req.file;
+    const { targetVendor, preview } = req.body;
+    const isPreview = preview !== false;
 
-    if (!file) {
-      return res.status(400).json({ error: 'No file uploaded' });
+    const vendor = typeof targetVendor === 'string' ? targetVendor.toLowerCase() : '';
+    if (!SUPPORTED_VENDORS.includes(vendor as PLCVendor)) {
+      return res.status(400).json({ error: `targetVendor must be one of: ${SUPPORTED_VENDORS.join(', ')}` });
     }
 
     // Verify project exists and user owns it
@@ -496,38 +772,104 @@ router.post('/projects/:projectId/import/siemens/csv', authenticateToken, upload
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const result = await importSiemensCsv(file.buffer, projectId, req.user!.userId);
-    
-    if (!result.success) {
-      return res.status(400).json(result);
+    const tags = await db('tags')
+      .where({ project_id: projectId })
+      .orderBy('id');
+
+    const plan = await planTagConversion(projectId, tags, vendor as PLCVendor);
+
+    if (isPreview) {
+      return res.json({ preview: true, sourceVendor: project.target_plc_vendor || null, ...plan });
     }
 
+    if (plan.errorCount > 0) {
+      return res.status(400).json({
+        error: 'Some tags cannot be converted; nothing was changed',
+        preview: false,
+        ...plan
+      });
+    }
+
+    await db.transaction(async (trx) => {
+      const now = new Date().toISOString();
+
+      for (const conversion of plan.conversions) {
+        if (conversion.mappings.length === 0) continue;
+        await trx('tags')
+          .where({ id: conversion.tagId, project_id: projectId })
+          .update({ ...conversion.converted, updated_at: now });
+      }
+
+      await trx('projects')
+        .where({ id: projectId })
+        .update({ target_plc_vendor: vendor, updated_at: now });
+    });
+
     // Log audit event
     await logAuditEvent({
       userId: req.user!.userId,
-      action: `Imported ${result.inserted} Siemens tags from CSV to project: ${project.project_name}`,
+      action: `Converted ${plan.totalTags} tags to ${vendor} in project: ${project.project_name}`,
       ip: req.ip,
       userAgent: req.get('User-Agent'),
-      metadata: { projectId, imported: result.inserted }
+      metadata: {
+        projectId,
+        fromVendor: project.target_plc_vendor,
+        toVendor: vendor,
+        converted: plan.totalTags - plan.unchangedCount,
+        lossy: plan.lossyCount
+      }
     });
 
-    res.json(result);
+    // Notify real-time subscribers about the converted tags
+    const tagSyncService = getTagSyncService();
+    if (tagSyncService) {
+      tagSyncService.notifyProjectTagsUpdated(projectId);
+    }
+
+    res.json({ preview: false, sourceVendor: project.target_plc_vendor || null, ...plan });
   } catch (error) {
-    console.error('Error importing Siemens CSV:', error);
-    res.status(500).json({ error: 'Failed to import Siemens CSV' });
+    console.error('Error converting tags:', error);
+    res.status(500).json({ error: 'Failed to convert tags' });
   }
 });
 
-// Import Rockwell CSV
-router.post('/projects/:projectId/import/rockwell/csv', authenticateToken, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+// === Import Endpoints ===
+
+// List the tag file formats the registry knows, with their capabilities
+router.get('/formats', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  res.json({ formats: listTagFormats().map(describeTagFormat) });
+});
+
+// Get a stored import preview
+router.get('/projects/:projectId/import/previews/:previewId', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    const file = req.file;
 
-    if (!file) {
-      return res.status(400).json({ error: 'No file uploaded' });
+    // Verify project exists and user owns it
+    const project = await db('projects')
+      .where({ id: projectId, user_id: req.user!.userId })
+      .first();
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
     }
 
+    const preview = await getImportPreview(req.params.previewId, projectId, req.user!.userId);
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof TagImportPreviewError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching import preview:', error);
+    res.status(500).json({ error: 'Failed to fetch import preview' });
+  }
+});
+
+// Commit a stored import preview exactly as it was reviewed
+router.post('/projects/:projectId/import/previews/:previewId/commit', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId);
+    const force = req.body?.force === true;
+
     // Verify project exists and user owns it
     const project = await db('projects')
       .where({ id: projectId, user_id: req.user!.userId })
@@ -536,30 +878,37 @@ router.post('/projects/:projectId/import/rockwell/csv', authenticateToken, uploa
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const result = await importRockwellCsv(file.buffer, projectId, req.user!.userId);
-    
-    if (!result.success) {
-      return res.status(400).json(result);
-    }
+    const result = await commitImportPreview(req.params.previewId, projectId, req.user!.userId, { force });
 
     // Log audit event
     await logAuditEvent({
       userId: req.user!.userId,
-      action: `Imported ${result.inserted} Rockwell tags from CSV to project: ${project.project_name}`,
+      action: `Committed ${result.vendor} ${result.format} import preview to project: ${project.project_name}`,
       ip: req.ip,
       userAgent: req.get('User-Agent'),
-      metadata: { projectId, imported: result.inserted }
+      metadata: { projectId, previewId: result.previewId, inserted: result.inserted, updated: result.updated, force }
     });
 
-    res.json(result);
+    // Notify real-time subscribers about the imported tags
+    const tagSyncService = getTagSyncService();
+    if (tagSyncService) {
+      tagSyncService.notifyProjectTagsUpdated(projectId);
+    }
+
+    res.json({ ...result, addressAnalysis: await addressConflictReport(projectId) });
   } catch (error) {
-    console.error('Error importing Rockwell CSV:', error);
-    res.status(500).json({ error: 'Failed to import Rockwell CSV' });
+    if (error instanceof TagImportPreviewError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error committing import preview:', error);
+    res.status(500).json({ error: 'Failed to commit import preview' });
   }
 });
 
-// Import Rockwell L5X
-router.post('/projects/:projectId/import/rockwell/l5x', authenticateToken, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+// === Background Import Jobs ===
+
+// Submit a tag file as a background import job (multipart: file, vendor, format)
+router.post('/projects/:projectId/import/jobs', authenticateToken, jobUpload.single('file'), async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
     const file = req.file;
@@ -573,245 +922,243 @@ router.post('/projects/:projectId/import/rockwell/l5x', authenticateToken, uploa
       .where({ id: projectId, user_id: req.user!.userId })
       .first();
     if (!project) {
+      await fs.unlink(file.path).catch(() => undefined);
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const result = await importRockwellL5X(file.buffer, projectId, req.user!.userId);
-    
-    if (!result.success) {
-      return res.status(400).json(result);
-    }
+    const vendor = String(req.body.vendor || '').toLowerCase();
+    const format = String(req.body.format || '').toLowerCase();
+    const job = await submitImportJob({
+      projectId,
+      userId: req.user!.userId,
+      vendor,
+      format,
+      fileName: file.originalname,
+      filePath: file.path
+    });
 
-    // Log audit event
     await logAuditEvent({
       userId: req.user!.userId,
-      action: `Imported ${result.inserted} Rockwell tags from L5X to project: ${project.project_name}`,
+      action: `Submitted ${vendor} ${format} import job for project: ${project.project_name}`,
       ip: req.ip,
       userAgent: req.get('User-Agent'),
-      metadata: { projectId, imported: result.inserted }
+      metadata: { projectId, jobId: job.id, fileName: file.originalname }
     });
 
-    res.json(result);
+    res.status(202).json({ success: true, job });
   } catch (error) {
-    console.error('Error importing Rockwell L5X:', error);
-    res.status(500).json({ error: 'Failed to import Rockwell L5X' });
+    if (error instanceof ImportJobError) {
+      return res.status(error.statusCode).json({ error: error.message, supportedFormats: supportedImportFormats() });
+    }
+    console.error('Error submitting import job:', error);
+    res.status(500).json({ error: 'Failed to submit import job' });
   }
 });
 
-// === Export Endpoints ===
-
-// Export Beckhoff CSV
-router.get('/projects/:projectId/export/beckhoff/csv', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// List recent import jobs of a project
+router.get('/projects/:projectId/import/jobs', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    
+
     // Verify project exists and user owns it
     const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
       .where({ id: projectId, user_id: req.user!.userId })
       .first();
-    
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-beckhoff-tags.csv`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
-    
-    await exportBeckhoffCsv(projectId, res, { delimiter: ',' });
+    const jobs = await listImportJobs(projectId);
+    res.json({ jobs: jobs.map(({ errors, ...job }) => ({ ...job, errorCount: errors.length })) });
   } catch (error) {
-    console.error('Error exporting Beckhoff CSV:', error);
-    res.status(500).json({ error: 'Failed to export Beckhoff CSV' });
+    console.error('Error listing import jobs:', error);
+    res.status(500).json({ error: 'Failed to list import jobs' });
   }
 });
 
-// Export Beckhoff XML
-router.get('/projects/:projectId/export/beckhoff/xml', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// Poll an import job's status and progress
+router.get('/projects/:projectId/import/jobs/:jobId', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    
+
     // Verify project exists and user owns it
     const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
       .where({ id: projectId, user_id: req.user!.userId })
       .first();
-    
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-beckhoff-tags.xml`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
-    
-    await exportBeckhoffXml(projectId, res);
+    const { errors, ...job } = await getImportJob(req.params.jobId, projectId);
+    res.json({ ...job, errorCount: errors.length });
   } catch (error) {
-    console.error('Error exporting Beckhoff XML:', error);
-    res.status(500).json({ error: 'Failed to export Beckhoff XML' });
+    if (error instanceof ImportJobError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error fetching import job:', error);
+    res.status(500).json({ error: 'Failed to fetch import job' });
   }
 });
 
-// Export Siemens CSV
-router.get('/projects/:projectId/export/siemens/csv', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// Cancel a queued or running import job; a running job rolls back what it wrote
+router.post('/projects/:projectId/import/jobs/:jobId/cancel', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    
+
     // Verify project exists and user owns it
     const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
       .where({ id: projectId, user_id: req.user!.userId })
       .first();
-    
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-siemens-tags.csv`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
-    
-    await exportSiemensCsv(projectId, res, { delimiter: ';' });
-  } catch (error) {
-    console.error('Error exporting Siemens CSV:', error);
-    res.status(500).json({ error: 'Failed to export Siemens CSV' });
-  }
-});
+    const { errors, ...job } = await cancelImportJob(req.params.jobId, projectId);
 
-// Export Siemens XML
-router.get('/projects/:projectId/export/siemens/xml', authenticateToken, async (req: AuthenticatedRequest, res) => {
-  try {
-    const projectId = parseInt(req.params.projectId);
-    
-    // Verify project exists and user owns it
-    const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
-      .where({ id: projectId, user_id: req.user!.userId })
-      .first();
-    
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
-    }
+    await logAuditEvent({
+      userId: req.user!.userId,
+      action: `Cancelled import job for project: ${project.project_name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, jobId: job.id, status: job.status }
+    });
 
-    const fileName = `${project.project_name || project.id || 'project'}-siemens-tags.xml`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
-    
-    await exportSiemensXml(projectId, res);
+    res.json({ ...job, errorCount: errors.length });
   } catch (error) {
-    console.error('Error exporting Siemens XML:', error);
-    res.status(500).json({ error: 'Failed to export Siemens XML' });
+    if (error instanceof ImportJobError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error cancelling import job:', error);
+    res.status(500).json({ error: 'Failed to cancel import job' });
   }
 });
 
-// Export Rockwell CSV
-router.get('/projects/:projectId/export/rockwell/csv', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// Download the error report of a finished import job as CSV
+router.get('/projects/:projectId/import/jobs/:jobId/errors', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    
+
     // Verify project exists and user owns it
     const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
       .where({ id: projectId, user_id: req.user!.userId })
       .first();
-    
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-rockwell-tags.csv`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    const job = await getImportJob(req.params.jobId, projectId);
+    if (job.status === 'queued' || job.status === 'running') {
+      return res.status(409).json({ error: 'Import job has not finished yet' });
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="import-${job.id}-errors.csv"`);
     res.setHeader('Content-Type', 'text/csv; charset=utf-8');
-    
-    await exportRockwellCsv(projectId, res, { delimiter: ',' });
+    res.send(formatImportJobErrorReport(job));
   } catch (error) {
-    console.error('Error exporting Rockwell CSV:', error);
-    res.status(500).json({ error: 'Failed to export Rockwell CSV' });
+    if (error instanceof ImportJobError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error downloading import job errors:', error);
+    res.status(500).json({ error: 'Failed to download import job errors' });
   }
 });
 
-// Export Rockwell L5X
-router.get('/projects/:projectId/export/rockwell/l5x', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// Import a tag file in any registered format: /import/siemens-xlsx or /import/siemens/xlsx (?dryRun=true for a preview).
+// Registered after the preview and job routes so /import/jobs is not taken for a format id.
+router.post(['/projects/:projectId/import/:format', '/projects/:projectId/import/:vendor/:format'], authenticateToken, upload.single('file'), async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    
+    const tagFormat = req.params.vendor
+      ? requireTagFormat(req.params.vendor, 'import', req.params.format)
+      : requireTagFormat(req.params.format, 'import');
+    const file = req.file;
+
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
     // Verify project exists and user owns it
     const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
       .where({ id: projectId, user_id: req.user!.userId })
       .first();
-    
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-rockwell-tags.L5X`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
-    
-    await exportRockwellL5X(projectId, res);
-  } catch (error) {
-    console.error('Error exporting Rockwell L5X:', error);
-    res.status(500).json({ error: 'Failed to export Rockwell L5X' });
-  }
-});
+    const context = {
+      projectId,
+      userId: req.user!.userId,
+      vendor: await importVendorFor(tagFormat, projectId),
+      options: Object.fromEntries(Object.entries(req.query).map(([key, value]) => [key, typeof value === 'string' ? value : undefined]))
+    };
 
-// Export Beckhoff XLSX
-router.get('/projects/:projectId/export/beckhoff/xlsx', authenticateToken, async (req: AuthenticatedRequest, res) => {
-  try {
-    const projectId = parseInt(req.params.projectId);
-    
-    // Verify project exists and user owns it
-    const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
-      .where({ id: projectId, user_id: req.user!.userId })
-      .first();
-    
-    if (!project) {
-      return res.status(404).json({ error: 'Project not found' });
+    if (isDryRun(req)) {
+      return res.json(await previewTagFile(tagFormat, file.buffer, context));
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-beckhoff-tags.xlsx`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-    
-    await exportBeckhoffXlsx(projectId, res);
+    const result = await importTagFile(tagFormat, file.buffer, context);
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    // Log audit event
+    await logAuditEvent({
+      userId: req.user!.userId,
+      action: `Imported ${result.inserted} tags from ${tagFormat.label} to project: ${project.project_name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, format: tagFormat.id, imported: result.inserted, updated: result.updated, pous: result.pous }
+    });
+
+    getTagSyncService()?.notifyProjectTagsUpdated(projectId);
+
+    res.json({ ...result, addressAnalysis: await addressConflictReport(projectId) });
   } catch (error) {
-    console.error('Error exporting Beckhoff XLSX:', error);
-    res.status(500).json({ error: 'Failed to export Beckhoff XLSX' });
+    if (error instanceof TagFormatError) {
+      return res.status(error.statusCode).json({ error: error.message, formats: listTagFormats().map(f => f.id) });
+    }
+    console.error('Error importing tag file:', error);
+    res.status(500).json({ error: 'Failed to import tag file' });
   }
 });
 
-// Export Siemens XLSX
-router.get('/projects/:projectId/export/siemens/xlsx', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// === Address Analysis ===
+
+
+// Overlapping, aliased and duplicate addresses plus unused gaps for a project
+router.get('/projects/:projectId/address-analysis', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
-    
+
     // Verify project exists and user owns it
     const project = await db('projects')
-      .select('id', 'project_name', 'user_id')
       .where({ id: projectId, user_id: req.user!.userId })
       .first();
-    
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-siemens-tags.xlsx`;
-    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-    
-    await exportSiemensXlsx(projectId, res);
+    const vendor = typeof req.query.vendor === 'string' && req.query.vendor !== '' ? req.query.vendor : undefined;
+    const includeGaps = req.query.gaps !== 'false' && req.query.gaps !== '0';
+
+    const analysis = await analyzeProjectAddresses(projectId, { vendor, includeGaps });
+    res.json({ projectId, ...analysis });
   } catch (error) {
-    console.error('Error exporting Siemens XLSX:', error);
-    res.status(500).json({ error: 'Failed to export Siemens XLSX' });
+    console.error('Error analyzing tag addresses:', error);
+    res.status(500).json({ error: 'Failed to analyze tag addresses' });
   }
 });
 
-// Export Rockwell XLSX
-router.get('/projects/:projectId/export/rockwell/xlsx', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// === Export Endpoints ===
+
+// Export the project's tags in any registered format: /export/siemens-xlsx or /export/siemens/xlsx
+router.get(['/projects/:projectId/export/:format', '/projects/:projectId/export/:vendor/:format'], authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
     const projectId = parseInt(req.params.projectId);
+    const tagFormat = req.params.vendor
+      ? requireTagFormat(req.params.vendor, 'export', req.params.format)
+      : requireTagFormat(req.params.format, 'export');
     
     // Verify project exists and user owns it
     const project = await db('projects')
@@ -823,14 +1170,21 @@ router.get('/projects/:projectId/export/rockwell/xlsx', authenticateToken, async
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    const fileName = `${project.project_name || project.id || 'project'}-rockwell-tags.xlsx`;
+    const suffix = tagFormat.vendor ? `${tagFormat.vendor}-tags` : tagFormat.id.split('-')[0];
+    const fileName = `${project.project_name || project.id || 'project'}-${suffix}${tagFormat.extension}`;
     res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Type', tagFormat.mimeType.startsWith('text/') || tagFormat.mimeType.endsWith('/xml') ? `${tagFormat.mimeType}; charset=utf-8` : tagFormat.mimeType);
     
-    await exportRockwellXlsx(projectId, res);
+    const options = Object.fromEntries(Object.entries(req.query).map(([key, value]) => [key, typeof value === 'string' ? value : undefined]));
+    await tagFormat.serialize!(projectId, res, options);
   } catch (error) {
-    console.error('Error exporting Rockwell XLSX:', error);
-    res.status(500).json({ error: 'Failed to export Rockwell XLSX' });
+    if (error instanceof TagFormatError) {
+      return res.status(error.statusCode).json({ error: error.message, formats: listTagFormats().map(f => f.id) });
+    }
+    console.error('Error exporting tags:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to export tags' });
+    }
   }
 });
 
@@ -0,0 +1,227 @@
+import express from 'express';
+import { authenticateToken, authorizeProjectAccess } from '../middleware/authMiddleware';
+import { ProjectAuthRequest } from '../types';
+import db from '../db/knex';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { getTagSyncService } from '../services/tagSyncSingleton';
+import { expandDataType, loadProjectUdts, normalizeUdtDefinition, referencedTypeName, validateUdtDefinitions } from '../utils/udt';
+
+const router = express.Router();
+
+/**
+ * Tags and other types that depend on a type, blocking deletes and renames.
+ */
+async function findTypeReferences(projectId: number, typeName: string): Promise<{ tags: string[]; types: string[] }> {
+  const upper = typeName.toUpperCase();
+
+  const tags = await db('tags')
+    .where({ project_id: projectId })
+    .whereNotNull('data_type')
+    .select('name', 'data_type');
+
+  const types = await loadProjectUdts(projectId);
+
+  return {
+    tags: tags
+      .filter((t: any) => referencedTypeName(t.data_type)?.toUpperCase() === upper)
+      .map((t: any) => t.name),
+    types: types
+      .filter(t => t.name.toUpperCase() !== upper)
+      .filter(t => t.members.some(m => referencedTypeName(m.data_type)?.toUpperCase() === upper))
+      .map(t => t.name)
+  };
+}
+
+// GET /:projectId/data-types - List user-defined types
+router.get('/:projectId/data-types', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+
+    const dataTypes = await db('user_defined_types')
+      .where({ project_id: projectId })
+      .orderBy('name');
+
+    res.json({ success: true, dataTypes });
+  } catch (error) {
+    console.error('Error fetching user-defined types:', error);
+    res.status(500).json({ error: 'Failed to fetch user-defined types' });
+  }
+});
+
+// GET /:projectId/data-types/:typeId - Single type with its expanded member tree
+router.get('/:projectId/data-types/:typeId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const typeId = parseInt(req.params.typeId, 10);
+
+    const dataType = await db('user_defined_types')
+      .where({ id: typeId, project_id: projectId })
+      .first();
+    if (!dataType) {
+      return res.status(404).json({ error: 'User-defined type not found' });
+    }
+
+    const definitions = await loadProjectUdts(projectId);
+    res.json({
+      success: true,
+      dataType,
+      layout: expandDataType(dataType.name, dataType.name, definitions)
+    });
+  } catch (error) {
+    console.error('Error fetching user-defined type:', error);
+    res.status(500).json({ error: 'Failed to fetch user-defined type' });
+  }
+});
+
+// POST /:projectId/data-types - Create a type
+router.post('/:projectId/data-types', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const definition = normalizeUdtDefinition(req.body);
+
+    const existing = await loadProjectUdts(projectId);
+    if (existing.some(t => t.name.toUpperCase() === definition.name.toUpperCase())) {
+      return res.status(409).json({ error: `Type '${definition.name}' already exists in this project` });
+    }
+
+    const validation = validateUdtDefinitions([...existing, definition], []);
+    const errors = validation.find(v => v.name === definition.name)?.errors || [];
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Type validation failed', details: errors });
+    }
+
+    const [dataType] = await db('user_defined_types')
+      .insert({
+        project_id: projectId,
+        user_id: req.user!.userId,
+        name: definition.name,
+        description: definition.description,
+        vendor: definition.vendor,
+        members: JSON.stringify(definition.members),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .returning('*');
+
+    await logAuditEvent({
+      userId: req.user!.userId,
+      action: `Created user-defined type: ${dataType.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, typeId: dataType.id, typeName: dataType.name }
+    });
+
+    res.status(201).json({ success: true, dataType });
+  } catch (error: any) {
+    console.error('Error creating user-defined type:', error);
+    if (error.code === '23505') {
+      res.status(409).json({ error: 'Type name already exists in this project' });
+    } else {
+      res.status(500).json({ error: 'Failed to create user-defined type' });
+    }
+  }
+});
+
+// PUT /:projectId/data-types/:typeId - Replace a type's definition
+router.put('/:projectId/data-types/:typeId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const typeId = parseInt(req.params.typeId, 10);
+
+    const current = await db('user_defined_types')
+      .where({ id: typeId, project_id: projectId })
+      .first();
+    if (!current) {
+      return res.status(404).json({ error: 'User-defined type not found' });
+    }
+
+    const definition = normalizeUdtDefinition({ ...current, ...req.body });
+    const renamed = definition.name !== current.name;
+
+    if (renamed) {
+      const references = await findTypeReferences(projectId, current.name);
+      if (references.tags.length > 0 || references.types.length > 0) {
+        return res.status(409).json({ error: `Type '${current.name}' is in use and cannot be renamed`, references });
+      }
+    }
+
+    // Validate against the project's other types, so new nesting cycles are caught too
+    const others = (await loadProjectUdts(projectId)).filter(t => t.name.toUpperCase() !== current.name.toUpperCase());
+    if (others.some(t => t.name.toUpperCase() === definition.name.toUpperCase())) {
+      return res.status(409).json({ error: `Type '${definition.name}' already exists in this project` });
+    }
+    const validation = validateUdtDefinitions([...others, definition], []);
+    const errors = validation.find(v => v.name === definition.name)?.errors || [];
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Type validation failed', details: errors });
+    }
+
+    const [dataType] = await db('user_defined_types')
+      .where({ id: typeId, project_id: projectId })
+      .update({
+        name: definition.name,
+        description: definition.description,
+        vendor: definition.vendor,
+        members: JSON.stringify(definition.members),
+        updated_at: new Date().toISOString()
+      })
+      .returning('*');
+
+    await logAuditEvent({
+      userId: req.user!.userId,
+      action: `Updated user-defined type: ${dataType.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, typeId, typeName: dataType.name }
+    });
+
+    // Member views of struct tags change with their type
+    getTagSyncService()?.notifyProjectTagsUpdated(projectId);
+
+    res.json({ success: true, dataType });
+  } catch (error: any) {
+    console.error('Error updating user-defined type:', error);
+    if (error.code === '23505') {
+      res.status(409).json({ error: 'Type name already exists in this project' });
+    } else {
+      res.status(500).json({ error: 'Failed to update user-defined type' });
+    }
+  }
+});
+
+// DELETE /:projectId/data-types/:typeId - Delete an unused type
+router.delete('/:projectId/data-types/:typeId', authenticateToken, authorizeProjectAccess, async (req: ProjectAuthRequest, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId, 10);
+    const typeId = parseInt(req.params.typeId, 10);
+
+    const dataType = await db('user_defined_types')
+      .where({ id: typeId, project_id: projectId })
+      .first();
+    if (!dataType) {
+      return res.status(404).json({ error: 'User-defined type not found' });
+    }
+
+    const references = await findTypeReferences(projectId, dataType.name);
+    if (references.tags.length > 0 || references.types.length > 0) {
+      return res.status(409).json({ error: `Type '${dataType.name}' is in use and cannot be deleted`, references });
+    }
+
+    await db('user_defined_types').where({ id: typeId, project_id: projectId }).del();
+
+    await logAuditEvent({
+      userId: req.user!.userId,
+      action: `Deleted user-defined type: ${dataType.name}`,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      metadata: { projectId, typeId, typeName: dataType.name }
+    });
+
+    res.json({ success: true, message: 'User-defined type deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting user-defined type:', error);
+    res.status(500).json({ error: 'Failed to delete user-defined type' });
+  }
+});
+
+export default router;
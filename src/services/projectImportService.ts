@@ -0,0 +1,336 @@
+import path from 'path';
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { CreateTagData } from '../db/tables/tags';
+import { parseProject, PLCRoutine, PLCTag, StandardPLCOutput } from '../utils/enterprisePLCParser';
+import { formatStPou } from '../utils/plcopenIO';
+import { compositeTypeCategory, normalizeDataTypeName, parseStructDeclarations, upsertUserDefinedTypes } from '../utils/udt';
+import { validateDataTypeForVendor } from '../utils/vendorFormatters';
+import { ImportRowError, ParsedTagImport, persistImportedTags, prepareParsedImport } from './tagImportPipeline';
+
+// Whole-project import: turns a vendor project file (L5X, TIA Portal XML / archive, TwinCAT
+// POU files or archive, plain ST) into a new project with tags, data types, Logic Studio code
+// and an initial version, and reports everything that could not be mapped
+
+type ProjectVendor = 'siemens' | 'rockwell' | 'beckhoff';
+
+export interface UnmappedItem {
+  name: string;
+  reason: string;
+}
+
+export interface ProjectImportSummary {
+  project: {
+    id: number;
+    projectName: string;
+    targetPLCVendor: ProjectVendor;
+    createdAt: string;
+  };
+  source: {
+    fileName: string;
+    detectedVendor: string;
+    plcType?: string;
+    softwareVersion?: string;
+    fileCount?: number;
+  };
+  tags: { found: number; imported: number; unmapped: UnmappedItem[] };
+  dataTypes: { found: number; imported: number; unmapped: UnmappedItem[] };
+  routines: { found: number; imported: string[]; unmapped: UnmappedItem[] };
+  version: { versionNumber: number; message: string };
+}
+
+export class ProjectImportError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'ProjectImportError';
+  }
+}
+
+const VENDORS: Record<string, ProjectVendor> = {
+  'Siemens': 'siemens',
+  'Rockwell': 'rockwell',
+  'Beckhoff': 'beckhoff'
+};
+
+// Rockwell built-in structures; stored like UDT instances
+const BUILT_IN_STRUCTURES = new Set(['TIMER', 'COUNTER', 'CONTROL']);
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Only controller / global tags become project tags; block interfaces stay in the routine code
+function tagScopeProblem(tag: PLCTag, detectedVendor: string): string | null {
+  switch (detectedVendor) {
+    case 'Siemens':
+      return tag.Scope === 'Global' ? null : `Interface member of a function block (section ${tag.Scope || 'unknown'}); kept in the block code`;
+    case 'Rockwell':
+      return tag.Scope === 'AOI' ? 'Add-On Instruction parameter; kept in the AOI definition' : null;
+    case 'Generic':
+      return tag.Scope === 'Global' ? null : `${tag.Scope || 'Local'} variable of a POU; kept in the code`;
+    default:
+      return null;
+  }
+}
+
+function standardTypeFor(dataType: string, vendor: ProjectVendor): string | null {
+  const composite = compositeTypeCategory(dataType);
+  if (composite) return composite;
+
+  const upper = dataType.toUpperCase();
+  if (BUILT_IN_STRUCTURES.has(upper)) return 'STRUCT';
+  if (/^W?STRING\b/.test(upper) || upper === 'CHAR') return 'STRING';
+  return validateDataTypeForVendor(upper, vendor) ? upper : null;
+}
+
+// Siemens stores addresses without the IEC '%' prefix: %I0.0 -> I0.0, %IX0.0 -> I0.0
+function convertAddress(address: string, vendor: ProjectVendor): string {
+  const text = (address || '').trim();
+  if (!text) return '';
+  if (vendor !== 'siemens') return text;
+  return text.replace(/^%/, '').replace(/^([IQM])X(\d+\.\d+)$/i, '$1$2').toUpperCase();
+}
+
+function tagTypeFor(direction: PLCTag['Direction']): CreateTagData['tag_type'] {
+  switch (direction) {
+    case 'Input':
+      return 'input';
+    case 'Output':
+      return 'output';
+    default:
+      return 'memory';
+  }
+}
+
+function mapTags(parsed: StandardPLCOutput, vendor: ProjectVendor, projectId: number, userId: string): { parsedImport: ParsedTagImport; unmapped: UnmappedItem[] } {
+  const parsedImport: ParsedTagImport = { tags: [], errors: [] };
+  const unmapped: UnmappedItem[] = [];
+  const seen = new Set<string>();
+
+  parsed.tags.forEach((tag, index) => {
+    const name = (tag.TagName || '').trim();
+    const reject = (reason: string) => {
+      unmapped.push({ name: name || `#${index + 1}`, reason });
+    };
+
+    const scopeProblem = tagScopeProblem(tag, parsed.vendor);
+    if (scopeProblem) return reject(scopeProblem);
+    if (!IDENTIFIER.test(name)) return reject('Tag name must start with a letter or underscore and contain only letters, numbers, and underscores');
+    if (seen.has(name.toUpperCase())) return reject('Duplicate tag name');
+
+    const dataType = normalizeDataTypeName(tag.DataType || '');
+    if (!dataType) return reject('Missing data type');
+    const type = standardTypeFor(dataType, vendor);
+    if (!type) return reject(`Unsupported ${vendor} data type: ${dataType}`);
+
+    seen.add(name.toUpperCase());
+    parsedImport.tags.push({
+      project_id: projectId,
+      user_id: userId,
+      name,
+      description: tag.Description || '',
+      type,
+      data_type: dataType,
+      address: convertAddress(tag.Address, vendor),
+      default_value: '',
+      vendor,
+      scope: 'global',
+      tag_type: tagTypeFor(tag.Direction),
+      is_ai_generated: false
+    });
+  });
+
+  return { parsedImport, unmapped };
+}
+
+// Row errors from type resolution and naming rules, reported per tag or data type
+function unmappedFromErrors(errors: ImportRowError[]): UnmappedItem[] {
+  return errors.map(error => ({
+    name: error.raw?.name || error.raw?.dataType || `#${error.row}`,
+    reason: error.errors.join('; ')
+  }));
+}
+
+// Routines become POUs in the project's Logic Studio code; only structured text carries over
+function mapRoutines(parsed: StandardPLCOutput): { code: string; imported: string[]; dataTypeDeclarations: Array<{ name: string; code: string }>; unmapped: UnmappedItem[] } {
+  const blocks: string[] = [];
+  const imported: string[] = [];
+  const dataTypeDeclarations: Array<{ name: string; code: string }> = [];
+  const unmapped: UnmappedItem[] = [];
+
+  const nameOf = (routine: PLCRoutine) => routine.Program ? `${routine.Program}_${routine.Name}` : routine.Name;
+
+  for (const routine of parsed.routines) {
+    const code = (routine.Code || '').trim();
+    const name = nameOf(routine) || 'Unnamed';
+
+    if (routine.Type === 'DUT') {
+      dataTypeDeclarations.push({ name, code });
+      continue;
+    }
+    if (!code) {
+      unmapped.push({ name, reason: `No structured text found in ${routine.Type || 'routine'}` });
+      continue;
+    }
+    if (parsed.vendor === 'Rockwell' && routine.Type !== 'ST') {
+      unmapped.push({ name, reason: `${routine.Type} routine; only structured text routines are stored in Logic Studio` });
+      continue;
+    }
+
+    // Rockwell ST routines are bare statements; wrap them so every routine is a POU of its own
+    const isPou = /^\s*(?:\{[^}]*\}\s*)*(PROGRAM|FUNCTION_BLOCK|FUNCTION)\b/i.test(code);
+    const safeName = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(\d)/, '_$1');
+    blocks.push(isPou ? code : formatStPou({ name: safeName, pouType: 'program', variables: [], body: code }));
+    imported.push(name);
+  }
+
+  return { code: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '', imported, dataTypeDeclarations, unmapped };
+}
+
+// Version 1 holds the imported state, in the same snapshot shape as saved versions
+async function recordInitialVersion(trx: Knex.Transaction, project: any, userId: string, code: string, message: string): Promise<number> {
+  const tags = await trx('tags').where({ project_id: project.id }).select('*');
+  const editorState = { editorCode: code, prompt: '', module: 'LogicStudio' };
+
+  const versionData = {
+    projectMetadata: project,
+    timestamp: Date.now(),
+    logic: { code, ai_prompt: '', vendor: project.target_plc_vendor, ui_state: {} },
+    logicStudioCode: code,
+    tags,
+    moduleStates: { LogicStudio: editorState },
+    state: editorState,
+    autosaveState: editorState
+  };
+
+  const [version] = await trx('project_versions')
+    .insert({
+      project_id: project.id,
+      user_id: userId,
+      version_number: 1,
+      data: JSON.stringify(versionData),
+      message,
+      is_auto: false,
+      created_at: new Date().toISOString()
+    })
+    .returning('*');
+
+  return version.id;
+}
+
+/**
+ * Create a project from a vendor project file. The vendor is detected from the file;
+ * `vendor` is only used for plain structured text, which has none.
+ */
+export async function importProjectFile(params: {
+  fileName: string;
+  buffer: Buffer;
+  userId: string;
+  projectName?: string;
+  clientName?: string;
+  projectType?: string;
+  description?: string;
+  vendor?: ProjectVendor;
+}, conn: Knex = db): Promise<ProjectImportSummary> {
+  const { fileName, buffer, userId } = params;
+  const parsed = await parseProject(fileName, buffer);
+
+  const vendor = VENDORS[parsed.vendor] || (parsed.vendor === 'Generic' ? params.vendor : undefined);
+  if (!vendor) {
+    throw new ProjectImportError(parsed.vendor === 'Generic'
+      ? 'Structured text files have no vendor; pass targetPLCVendor'
+      : `Could not detect the PLC vendor of ${fileName}. Supported files: .L5X, TIA Portal .xml / .ap16, TwinCAT .tnzip / .TcPOU / .TcGVL / .TcDUT, .st`, 400);
+  }
+  if (parsed.tags.length === 0 && parsed.routines.length === 0) {
+    throw new ProjectImportError(`No tags or routines found in ${fileName}`, 400);
+  }
+
+  const projectName = params.projectName?.trim() || path.basename(fileName, path.extname(fileName));
+  const routines = mapRoutines(parsed);
+  const dataTypes = routines.dataTypeDeclarations.flatMap(d => parseStructDeclarations(d.code));
+  const skippedTypes: UnmappedItem[] = routines.dataTypeDeclarations
+    .filter(d => parseStructDeclarations(d.code).length === 0)
+    .map(d => ({ name: d.name, reason: 'Only STRUCT data types are imported' }));
+  const now = new Date().toISOString();
+
+  return conn.transaction(async (trx) => {
+    const [project] = await trx('projects')
+      .insert({
+        user_id: userId,
+        project_name: projectName,
+        client_name: params.clientName?.trim() || null,
+        project_type: params.projectType?.trim() || null,
+        description: params.description?.trim() || null,
+        target_plc_vendor: vendor,
+        autosave_state: null,
+        created_at: now,
+        updated_at: now
+      })
+      .returning('*');
+
+    const { parsedImport, unmapped: unmappedTags } = mapTags(parsed, vendor, project.id, userId);
+    parsedImport.dataTypes = dataTypes;
+
+    // Same checks as tag imports: known data types, then the organization's naming rules
+    const resolved = await prepareParsedImport(project.id, vendor, parsedImport, trx);
+    const typeErrors = resolved.errors.filter(e => e.row === 0 && e.raw?.dataType);
+    const tagErrors = resolved.errors.filter(e => !typeErrors.includes(e));
+
+    // Invalid definitions are left out; tags using them were already rejected above
+    const invalidTypes = new Set(typeErrors.map(e => e.raw.dataType));
+    const validTypes = dataTypes.filter(d => !invalidTypes.has(d.name));
+    if (validTypes.length > 0) {
+      await upsertUserDefinedTypes(project.id, userId, validTypes, trx);
+    }
+    const tags = await persistImportedTags(project.id, resolved.tags, trx);
+
+    const [logicStudio] = await trx('logic_studio')
+      .insert({
+        project_id: project.id,
+        user_id: userId,
+        code: routines.code,
+        ai_prompt: '',
+        version_id: null,
+        ui_state: {},
+        created_at: now,
+        updated_at: now
+      })
+      .returning('*');
+
+    const message = `Imported from ${fileName}`;
+    const versionId = await recordInitialVersion(trx, project, userId, routines.code, message);
+    await trx('logic_studio').where({ id: logicStudio.id }).update({ version_id: versionId });
+
+    console.log(`📦 Imported ${parsed.vendor} project ${fileName} as project ${project.id}: ${tags.inserted} tags, ${validTypes.length} data types, ${routines.imported.length} routines`);
+
+    return {
+      project: {
+        id: project.id,
+        projectName: project.project_name,
+        targetPLCVendor: vendor,
+        createdAt: project.created_at
+      },
+      source: {
+        fileName,
+        detectedVendor: parsed.vendor,
+        plcType: parsed.metadata.plc_type,
+        softwareVersion: parsed.metadata.software_version,
+        fileCount: parsed.metadata.file_count
+      },
+      tags: {
+        found: parsed.tags.length,
+        imported: tags.inserted,
+        unmapped: [...unmappedTags, ...unmappedFromErrors(tagErrors)]
+      },
+      dataTypes: {
+        found: routines.dataTypeDeclarations.length,
+        imported: validTypes.length,
+        unmapped: [...skippedTypes, ...unmappedFromErrors(typeErrors)]
+      },
+      routines: {
+        found: parsed.routines.length - routines.dataTypeDeclarations.length,
+        imported: routines.imported,
+        unmapped: routines.unmapped
+      },
+      version: { versionNumber: 1, message }
+    };
+  });
+}
@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from 'uuid';
+import { STSimulator } from '../utils/stInterpreter';
+
+// Logic simulation sessions: each one holds a running ST simulator in memory. Sessions belong to
+// the user who started them, expire after a period without requests and are lost on restart.
+
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const MAX_SESSIONS_PER_USER = 5;
+
+export class SimulationSessionError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'SimulationSessionError';
+  }
+}
+
+export interface SimulationSession {
+  id: string;
+  projectId: number;
+  userId: string;
+  simulator: STSimulator;
+  createdAt: Date;
+  lastAccessed: Date;
+}
+
+const sessions = new Map<string, SimulationSession>();
+
+function pruneExpiredSessions(): void {
+  const cutoff = Date.now() - SESSION_IDLE_MS;
+  sessions.forEach((session, id) => {
+    if (session.lastAccessed.getTime() < cutoff) sessions.delete(id);
+  });
+}
+
+/** Register a simulator; the user's least recently used session is dropped when they are at the limit */
+export function createSimulationSession(projectId: number, userId: string, simulator: STSimulator): SimulationSession {
+  pruneExpiredSessions();
+
+  const owned = [...sessions.values()]
+    .filter(session => session.userId === userId)
+    .sort((a, b) => a.lastAccessed.getTime() - b.lastAccessed.getTime());
+  while (owned.length >= MAX_SESSIONS_PER_USER) {
+    sessions.delete(owned.shift()!.id);
+  }
+
+  const now = new Date();
+  const session: SimulationSession = { id: uuidv4(), projectId, userId, simulator, createdAt: now, lastAccessed: now };
+  sessions.set(session.id, session);
+  return session;
+}
+
+export function getSimulationSession(sessionId: string, projectId: number, userId: string): SimulationSession {
+  pruneExpiredSessions();
+
+  const session = sessions.get(sessionId);
+  if (!session || session.projectId !== projectId || session.userId !== userId) {
+    throw new SimulationSessionError('Simulation session not found or expired', 404);
+  }
+  session.lastAccessed = new Date();
+  return session;
+}
+
+export function deleteSimulationSession(sessionId: string, projectId: number, userId: string): void {
+  const session = getSimulationSession(sessionId, projectId, userId);
+  sessions.delete(session.id);
+}
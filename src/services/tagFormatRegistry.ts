@@ -0,0 +1,272 @@
+import { Writable } from 'stream';
+import db from '../db/knex';
+import { exportBeckhoffCsv, exportBeckhoffXml, exportBeckhoffXlsx, parseBeckhoffCsvTags, parseBeckhoffXmlTags, parseBeckhoffXlsxTags } from '../utils/beckhoffTagIO';
+import { exportIgnitionTags } from '../utils/ignitionTagIO';
+import { exportOpcUaNodeSet } from '../utils/opcuaNodeSetIO';
+import { exportPlcopenXml, importPlcopenXml, parsePlcopenXml, ParsedPlcopenImport, PlcopenCodeMode } from '../utils/plcopenIO';
+import { exportRockwellCsv, exportRockwellL5X, exportRockwellXlsx, parseRockwellCsvTags, parseRockwellL5XTags, parseRockwellXlsxTags } from '../utils/rockwellTagIO';
+import { exportSiemensCsv, exportSiemensXml, exportSiemensXlsx, parseSiemensCsvTags, parseSiemensXmlTags, parseSiemensXlsxTags } from '../utils/siemensTagIO';
+import { PLCVendor } from '../utils/tagConverter';
+import { exportWinccHmiTags } from '../utils/winccTagIO';
+import { createImportPreview, ImportPreviewResponse, ParsedTagImport, persistPreparedImport, prepareParsedImport } from './tagImportPipeline';
+
+// Tag file formats: each format declares what it can do and supplies its parser / serializer,
+// so import and export routes, previews and background jobs share one lookup
+
+export interface TagFormatContext {
+  projectId: number;
+  userId: string;
+  // Vendor the imported tags belong to; vendor-neutral formats use the project's target vendor
+  vendor: string;
+  // Format-specific options, taken from the query string (e.g. PLCopen ?code=)
+  options: Record<string, string | undefined>;
+}
+
+export interface TagFormatCapabilities {
+  import: boolean;
+  export: boolean;
+  // The serializer writes rows to the response as it goes instead of building the file in memory
+  streaming: boolean;
+}
+
+export interface TagFormatImportResult {
+  success: boolean;
+  inserted?: number;
+  updated?: number;
+  unchanged?: number;
+  dataTypes?: { inserted: number; updated: number };
+  errors?: any[];
+  [key: string]: any;
+}
+
+export interface TagFormat {
+  id: string;
+  // null for vendor-neutral formats
+  vendor: PLCVendor | null;
+  format: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  capabilities: TagFormatCapabilities;
+  parse?: (buffer: Buffer, context: TagFormatContext) => ParsedTagImport | Promise<ParsedTagImport>;
+  // Formats that write more than tags and data types (PLCopen POUs) commit themselves
+  commit?: (buffer: Buffer, context: TagFormatContext) => Promise<TagFormatImportResult>;
+  // Extra fields a dry run reports next to the diff
+  previewDetails?: (parsed: ParsedTagImport) => Record<string, any>;
+  // Options come from the export request's query string (e.g. ?connection=)
+  serialize?: (projectId: number, outStream: Writable, options: Record<string, string | undefined>) => Promise<boolean>;
+}
+
+export class TagFormatError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'TagFormatError';
+  }
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const registry = new Map<string, TagFormat>();
+
+/**
+ * Add a format to the registry. Capabilities must match the functions supplied.
+ */
+export function registerTagFormat(tagFormat: TagFormat): void {
+  if (registry.has(tagFormat.id)) {
+    throw new Error(`Tag format ${tagFormat.id} is already registered`);
+  }
+  if (tagFormat.capabilities.import && !tagFormat.parse) {
+    throw new Error(`Tag format ${tagFormat.id} declares import without a parser`);
+  }
+  if (tagFormat.capabilities.export && !tagFormat.serialize) {
+    throw new Error(`Tag format ${tagFormat.id} declares export without a serializer`);
+  }
+  registry.set(tagFormat.id, tagFormat);
+}
+
+registerTagFormat({
+  id: 'beckhoff-csv', vendor: 'beckhoff', format: 'csv', label: 'Beckhoff CSV', extension: '.csv', mimeType: 'text/csv',
+  capabilities: { import: true, export: true, streaming: true },
+  parse: (buffer, { projectId, userId }) => parseBeckhoffCsvTags(buffer, projectId, userId),
+  serialize: (projectId, outStream) => exportBeckhoffCsv(projectId, outStream, { delimiter: ',' })
+});
+
+registerTagFormat({
+  id: 'beckhoff-xml', vendor: 'beckhoff', format: 'xml', label: 'Beckhoff XML', extension: '.xml', mimeType: 'application/xml',
+  capabilities: { import: true, export: true, streaming: false },
+  parse: (buffer, { projectId, userId }) => parseBeckhoffXmlTags(buffer, projectId, userId),
+  serialize: exportBeckhoffXml
+});
+
+registerTagFormat({
+  id: 'beckhoff-xlsx', vendor: 'beckhoff', format: 'xlsx', label: 'Beckhoff XLSX', extension: '.xlsx', mimeType: XLSX_MIME_TYPE,
+  capabilities: { import: true, export: true, streaming: false },
+  parse: (buffer, { projectId, userId }) => parseBeckhoffXlsxTags(buffer, projectId, userId),
+  serialize: exportBeckhoffXlsx
+});
+
+registerTagFormat({
+  id: 'siemens-csv', vendor: 'siemens', format: 'csv', label: 'Siemens CSV', extension: '.csv', mimeType: 'text/csv',
+  capabilities: { import: true, export: true, streaming: true },
+  parse: (buffer, { projectId, userId }) => parseSiemensCsvTags(buffer, projectId, userId),
+  // TIA Portal expects semicolon-separated tag tables
+  serialize: (projectId, outStream) => exportSiemensCsv(projectId, outStream, { delimiter: ';' })
+});
+
+registerTagFormat({
+  id: 'siemens-xml', vendor: 'siemens', format: 'xml', label: 'Siemens XML', extension: '.xml', mimeType: 'application/xml',
+  capabilities: { import: true, export: true, streaming: false },
+  parse: (buffer, { projectId, userId }) => parseSiemensXmlTags(buffer, projectId, userId),
+  serialize: exportSiemensXml
+});
+
+registerTagFormat({
+  id: 'siemens-xlsx', vendor: 'siemens', format: 'xlsx', label: 'Siemens XLSX', extension: '.xlsx', mimeType: XLSX_MIME_TYPE,
+  capabilities: { import: true, export: true, streaming: false },
+  parse: (buffer, { projectId, userId }) => parseSiemensXlsxTags(buffer, projectId, userId),
+  serialize: exportSiemensXlsx
+});
+
+registerTagFormat({
+  id: 'rockwell-csv', vendor: 'rockwell', format: 'csv', label: 'Rockwell CSV', extension: '.csv', mimeType: 'text/csv',
+  capabilities: { import: true, export: true, streaming: true },
+  parse: (buffer, { projectId, userId }) => parseRockwellCsvTags(buffer, projectId, userId),
+  serialize: (projectId, outStream) => exportRockwellCsv(projectId, outStream, { delimiter: ',' })
+});
+
+registerTagFormat({
+  id: 'rockwell-l5x', vendor: 'rockwell', format: 'l5x', label: 'Rockwell L5X', extension: '.L5X', mimeType: 'application/xml',
+  capabilities: { import: true, export: true, streaming: false },
+  parse: (buffer, { projectId, userId }) => parseRockwellL5XTags(buffer, projectId, userId),
+  serialize: exportRockwellL5X
+});
+
+registerTagFormat({
+  id: 'rockwell-xlsx', vendor: 'rockwell', format: 'xlsx', label: 'Rockwell XLSX', extension: '.xlsx', mimeType: XLSX_MIME_TYPE,
+  capabilities: { import: true, export: true, streaming: false },
+  parse: (buffer, { projectId, userId }) => parseRockwellXlsxTags(buffer, projectId, userId),
+  serialize: exportRockwellXlsx
+});
+
+registerTagFormat({
+  id: 'plcopen-xml', vendor: null, format: 'xml', label: 'PLCopen XML', extension: '.xml', mimeType: 'application/xml',
+  capabilities: { import: true, export: true, streaming: false },
+  parse: (buffer, { projectId, userId, vendor }) => parsePlcopenXml(buffer, projectId, userId, vendor),
+  // Tags, data types and the project's Logic Studio code are written in one transaction
+  // ?code=merge (default) | replace | skip controls how POUs are written to the project's code
+  commit: (buffer, { projectId, userId, vendor, options }) => {
+    const code = options.code || 'merge';
+    if (!['merge', 'replace', 'skip'].includes(code)) {
+      throw new TagFormatError('code must be merge, replace or skip', 400);
+    }
+    return importPlcopenXml(buffer, projectId, userId, { vendor, code: code as PlcopenCodeMode });
+  },
+  // Committing a preview writes tags and data types only; POUs need a regular import
+  previewDetails: (parsed) => {
+    const { pous, warnings } = parsed as ParsedPlcopenImport;
+    return { pous: pous.map(p => ({ name: p.name, pouType: p.pouType })), warnings };
+  },
+  serialize: (projectId, outStream) => exportPlcopenXml(projectId, outStream)
+});
+
+// Export only: an OPC UA information model for SCADA / MES servers (Ignition, Kepware)
+registerTagFormat({
+  id: 'opcua-nodeset2', vendor: null, format: 'nodeset2', label: 'OPC UA NodeSet2', extension: '.NodeSet2.xml', mimeType: 'application/xml',
+  capabilities: { import: false, export: true, streaming: false },
+  serialize: (projectId, outStream) => exportOpcUaNodeSet(projectId, outStream)
+});
+
+// Export only: HMI / SCADA tag databases; ?connection= names the HMI's PLC connection
+registerTagFormat({
+  id: 'ignition-json', vendor: null, format: 'json', label: 'Ignition tags (JSON)', extension: '.json', mimeType: 'application/json',
+  capabilities: { import: false, export: true, streaming: false },
+  serialize: (projectId, outStream, { connection, opcServer }) => exportIgnitionTags(projectId, outStream, { connection, opcServer })
+});
+
+registerTagFormat({
+  id: 'wincc-xlsx', vendor: null, format: 'xlsx', label: 'WinCC Unified / Comfort HMI tags', extension: '.xlsx', mimeType: XLSX_MIME_TYPE,
+  capabilities: { import: false, export: true, streaming: false },
+  serialize: (projectId, outStream, { connection }) => exportWinccHmiTags(projectId, outStream, { connection })
+});
+
+/**
+ * Look up a format by id ("siemens-xlsx"), or by vendor and format ("siemens", "xlsx").
+ */
+export function getTagFormat(id: string, format?: string): TagFormat | undefined {
+  const key = format ? `${id}-${format}` : id;
+  return registry.get(key.toLowerCase());
+}
+
+export function listTagFormats(): TagFormat[] {
+  return [...registry.values()];
+}
+
+/** A format without its functions, for API responses */
+export function describeTagFormat(tagFormat: TagFormat) {
+  const { id, vendor, format, label, extension, mimeType, capabilities } = tagFormat;
+  return { id, vendor, format, label, extension, mimeType, capabilities };
+}
+
+/**
+ * Resolve a format for an import or export request, failing with 404 for unknown
+ * formats and 400 when the format cannot do what was asked.
+ */
+export function requireTagFormat(id: string, capability: 'import' | 'export', format?: string): TagFormat {
+  const tagFormat = getTagFormat(id, format);
+  if (!tagFormat) {
+    throw new TagFormatError(`Unknown tag format '${format ? `${id}/${format}` : id}'`, 404);
+  }
+  if (!tagFormat.capabilities[capability]) {
+    throw new TagFormatError(`${tagFormat.label} does not support ${capability}`, 400);
+  }
+  return tagFormat;
+}
+
+/**
+ * Find a vendor's import format from a file name, for clients that only send the vendor.
+ */
+export function tagFormatForFile(vendor: string, fileName: string): TagFormat | undefined {
+  const lower = fileName.toLowerCase();
+  return listTagFormats().find(f => f.vendor === vendor && f.capabilities.import && lower.endsWith(f.extension.toLowerCase()));
+}
+
+/**
+ * Vendor whose tags a format imports: its own, or the project's target vendor for vendor-neutral formats.
+ */
+export async function importVendorFor(tagFormat: TagFormat, projectId: number): Promise<string> {
+  if (tagFormat.vendor) return tagFormat.vendor;
+  const project = await db('projects').where({ id: projectId }).select('target_plc_vendor').first();
+  return project?.target_plc_vendor || 'beckhoff';
+}
+
+/** Dry run: store a preview of the file's changes without writing tags */
+export async function previewTagFile(tagFormat: TagFormat, buffer: Buffer, context: TagFormatContext): Promise<ImportPreviewResponse & Record<string, any>> {
+  const parsed = await tagFormat.parse!(buffer, context);
+  const preview = await createImportPreview({
+    projectId: context.projectId,
+    userId: context.userId,
+    vendor: context.vendor,
+    format: tagFormat.vendor ? tagFormat.format : tagFormat.id,
+    parsed
+  });
+  return { ...preview, ...(tagFormat.previewDetails?.(parsed) || {}) };
+}
+
+/**
+ * Import a file: validate every row (types, naming rules), then write data types and
+ * tags in one transaction. Nothing is written when any row fails.
+ */
+export async function importTagFile(tagFormat: TagFormat, buffer: Buffer, context: TagFormatContext): Promise<TagFormatImportResult> {
+  if (tagFormat.commit) {
+    return tagFormat.commit(buffer, context);
+  }
+
+  const { projectId, userId, vendor } = context;
+  const parsedImport = await tagFormat.parse!(buffer, context);
+  const parsed = await prepareParsedImport(projectId, vendor, parsedImport);
+  if (parsed.errors.length > 0) {
+    return { success: false, errors: parsed.errors, processed: parsed.tags.length };
+  }
+
+  return { success: true, ...await persistPreparedImport(projectId, userId, parsed) };
+}
@@ -0,0 +1,271 @@
+import { promises as fs } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db/knex';
+import { TagImportJob, TagImportJobProgress } from '../db/tables/tag_import_jobs';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { getTagFormat, listTagFormats, TagFormat } from './tagFormatRegistry';
+import { persistPreparedImport, prepareParsedImport } from './tagImportPipeline';
+import { getTagSyncService } from './tagSyncSingleton';
+
+// Background tag imports: large files are queued as jobs and processed one at a time,
+// with progress stored on the job row and pushed over the tag sync WebSocket
+
+// Vendor formats that only write tags and data types can run as jobs; formats with their own commit (PLCopen) cannot
+function isJobFormat(tagFormat: TagFormat | undefined): tagFormat is TagFormat {
+  return !!tagFormat && !!tagFormat.vendor && tagFormat.capabilities.import && !tagFormat.commit;
+}
+
+export class ImportJobError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'ImportJobError';
+  }
+}
+
+// Thrown from inside the write transaction so a cancelled job leaves no partial import
+class ImportJobCancelled extends Error {}
+
+interface QueuedJob {
+  jobId: string;
+  filePath: string;
+}
+
+const queue: QueuedJob[] = [];
+let processing = false;
+
+export function isSupportedImportFormat(vendor: string, format: string): boolean {
+  return isJobFormat(getTagFormat(vendor, format));
+}
+
+export function supportedImportFormats(): Record<string, string[]> {
+  const formats: Record<string, string[]> = {};
+  for (const tagFormat of listTagFormats().filter(isJobFormat)) {
+    formats[tagFormat.vendor!] = [...(formats[tagFormat.vendor!] || []), tagFormat.format];
+  }
+  return formats;
+}
+
+async function updateJob(jobId: string, updates: Partial<TagImportJob>): Promise<TagImportJob> {
+  const values: Record<string, any> = { ...updates };
+  if (updates.progress) values.progress = JSON.stringify(updates.progress);
+  if (updates.errors) values.errors = JSON.stringify(updates.errors);
+  if (updates.result !== undefined) values.result = JSON.stringify(updates.result);
+
+  const [job] = await db('tag_import_jobs').where({ id: jobId }).update(values).returning('*');
+  getTagSyncService()?.notifyImportJobProgress(job);
+  return job;
+}
+
+async function isCancelRequested(jobId: string): Promise<boolean> {
+  const row = await db('tag_import_jobs').where({ id: jobId }).select('cancel_requested').first();
+  return !!row?.cancel_requested;
+}
+
+async function runJob(jobId: string, filePath: string): Promise<void> {
+  const job: TagImportJob | undefined = await db('tag_import_jobs').where({ id: jobId }).first();
+  if (!job || job.status !== 'queued') return;
+
+  const progress: TagImportJobProgress = {};
+  const finish = (updates: Partial<TagImportJob>) => updateJob(jobId, { ...updates, phase: null, progress, finished_at: new Date().toISOString() });
+
+  try {
+    await updateJob(jobId, { status: 'running', phase: 'parsing', started_at: new Date().toISOString() });
+
+    const buffer = await fs.readFile(filePath);
+    const parsedImport = await getTagFormat(job.vendor, job.format)!.parse!(buffer, {
+      projectId: job.project_id,
+      userId: job.user_id,
+      vendor: job.vendor,
+      options: {}
+    });
+    progress.parsed = parsedImport.tags.length + parsedImport.errors.length;
+    if (await isCancelRequested(jobId)) throw new ImportJobCancelled();
+
+    await updateJob(jobId, { phase: 'validating', progress });
+    const parsed = await prepareParsedImport(job.project_id, job.vendor, parsedImport);
+    progress.validated = parsed.tags.length;
+
+    if (parsed.errors.length > 0) {
+      await finish({
+        status: 'failed',
+        errors: parsed.errors,
+        error_message: `${parsed.errors.length} rows failed validation; download the error report for details`
+      });
+      console.log(`❌ Import job ${jobId} failed validation with ${parsed.errors.length} errors`);
+      return;
+    }
+    if (await isCancelRequested(jobId)) throw new ImportJobCancelled();
+
+    progress.written = 0;
+    await updateJob(jobId, { phase: 'writing', progress });
+
+    const result = await persistPreparedImport(job.project_id, job.user_id, parsed, undefined, async (written, total) => {
+      progress.written = written;
+      progress.total = total;
+      if (await isCancelRequested(jobId)) throw new ImportJobCancelled();
+      await updateJob(jobId, { progress });
+    });
+
+    await finish({ status: 'completed', result });
+    console.log(`✅ Import job ${jobId} completed: +${result.inserted} ~${result.updated} =${result.unchanged}`);
+
+    await logAuditEvent({
+      userId: job.user_id,
+      action: `Imported ${result.inserted} ${job.vendor} tags from ${job.format.toUpperCase()} (background job)`,
+      metadata: { projectId: job.project_id, jobId, fileName: job.file_name, imported: result.inserted, updated: result.updated }
+    });
+    await getTagSyncService()?.notifyProjectTagsUpdated(job.project_id);
+  } catch (error) {
+    if (error instanceof ImportJobCancelled) {
+      await finish({ status: 'cancelled' });
+      console.log(`🛑 Import job ${jobId} cancelled`);
+      return;
+    }
+    console.error(`Import job ${jobId} failed:`, error);
+    await finish({ status: 'failed', error_message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+async function processQueue(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    let next: QueuedJob | undefined;
+    while ((next = queue.shift())) {
+      try {
+        await runJob(next.jobId, next.filePath);
+      } catch (error) {
+        console.error(`Import job ${next.jobId} could not be processed:`, error);
+      } finally {
+        await fs.unlink(next.filePath).catch(() => undefined);
+      }
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Queue an uploaded file for import. The file at `filePath` is owned by the job and
+ * deleted once the job has finished.
+ */
+export async function submitImportJob(params: {
+  projectId: number;
+  userId: string;
+  vendor: string;
+  format: string;
+  fileName: string;
+  filePath: string;
+}): Promise<TagImportJob> {
+  const { projectId, userId, vendor, format, fileName, filePath } = params;
+  if (!isSupportedImportFormat(vendor, format)) {
+    await fs.unlink(filePath).catch(() => undefined);
+    throw new ImportJobError(`Unsupported import format ${vendor}/${format}`, 400);
+  }
+
+  const [job] = await db('tag_import_jobs')
+    .insert({
+      id: uuidv4(),
+      project_id: projectId,
+      user_id: userId,
+      vendor,
+      format,
+      file_name: fileName,
+      status: 'queued',
+      progress: JSON.stringify({}),
+      errors: JSON.stringify([]),
+      created_at: new Date().toISOString()
+    })
+    .returning('*');
+
+  console.log(`📥 Queued ${vendor} ${format} import job ${job.id} for project ${projectId} (${fileName})`);
+
+  queue.push({ jobId: job.id, filePath });
+  setImmediate(() => { processQueue(); });
+  return job;
+}
+
+export async function getImportJob(jobId: string, projectId: number): Promise<TagImportJob> {
+  const job = await db('tag_import_jobs').where({ id: jobId, project_id: projectId }).first();
+  if (!job) {
+    throw new ImportJobError('Import job not found', 404);
+  }
+  return job;
+}
+
+export async function listImportJobs(projectId: number, limit = 20): Promise<TagImportJob[]> {
+  return db('tag_import_jobs')
+    .where({ project_id: projectId })
+    .orderBy('created_at', 'desc')
+    .limit(limit);
+}
+
+/**
+ * Cancel a job. Queued jobs stop at once; running jobs stop at the next progress
+ * check and roll back anything they wrote.
+ */
+export async function cancelImportJob(jobId: string, projectId: number): Promise<TagImportJob> {
+  const job = await getImportJob(jobId, projectId);
+
+  if (job.status === 'queued') {
+    const index = queue.findIndex(q => q.jobId === jobId);
+    if (index >= 0) {
+      const [removed] = queue.splice(index, 1);
+      await fs.unlink(removed.filePath).catch(() => undefined);
+    }
+    return updateJob(jobId, { status: 'cancelled', cancel_requested: true, finished_at: new Date().toISOString() });
+  }
+
+  if (job.status === 'running') {
+    return updateJob(jobId, { cancel_requested: true });
+  }
+
+  throw new ImportJobError(`Import job is already ${job.status}`, 409);
+}
+
+// Quote a CSV cell that contains commas, quotes or line breaks
+function csvCell(value: any): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Row errors of a job as CSV: row, sheet and cell (spreadsheets), tag name, error messages, original row data */
+export function formatImportJobErrorReport(job: TagImportJob): string {
+  const lines = ['Row,Sheet,Cell,Name,Errors,Raw'];
+  for (const error of job.errors || []) {
+    lines.push([
+      error.row,
+      error.sheet || '',
+      error.cell || '',
+      error.raw?.name || error.raw?.Name || error.raw?.dataType || '',
+      (error.errors || []).join('; '),
+      error.raw !== undefined ? JSON.stringify(error.raw) : ''
+    ].map(csvCell).join(','));
+  }
+  if (job.status === 'failed' && (job.errors || []).length === 0 && job.error_message) {
+    lines.push(['', '', '', '', job.error_message, ''].map(csvCell).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Jobs live in this process; after a restart their uploads are gone, so unfinished jobs are failed.
+ */
+export async function failInterruptedImportJobs(): Promise<void> {
+  try {
+    const count = await db('tag_import_jobs')
+      .whereIn('status', ['queued', 'running'])
+      .update({
+        status: 'failed',
+        phase: null,
+        error_message: 'Interrupted by a server restart; submit the file again',
+        finished_at: new Date().toISOString()
+      });
+    if (count > 0) {
+      console.log(`⚠️ Marked ${count} interrupted import jobs as failed`);
+    }
+  } catch (error) {
+    console.error('Failed to clean up interrupted import jobs:', error);
+  }
+}
@@ -0,0 +1,443 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { CreateTagData } from '../db/tables/tags';
+import { TagImportPreview } from '../db/tables/tag_import_previews';
+import { AddressAnalysis, analyzeTagAddresses } from '../utils/addressSpace';
+import { assignMissingAddresses } from '../utils/addressAllocator';
+import { resolveImportedDataTypes, UdtDefinition, upsertUserDefinedTypes } from '../utils/udt';
+import { applyNamingRulesToImport } from '../utils/tagNamingRules';
+import { ENGINEERING_FIELDS } from '../utils/tagEngineering';
+
+// Shared import pipeline: diffing parsed tags against a project, dry-run previews
+// that can be reviewed and committed later, and transactional upserts
+
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+  raw: any;
+  // Spreadsheet imports: worksheet name and cell reference (e.g. "Tags!C7")
+  sheet?: string;
+  cell?: string;
+}
+
+/** Output of a vendor parser: tags that passed validation plus row-level errors */
+export interface ParsedTagImport {
+  tags: CreateTagData[];
+  errors: ImportRowError[];
+  // UDT / STRUCT definitions found in the file, persisted alongside the tags
+  dataTypes?: UdtDefinition[];
+}
+
+// Tag columns compared when deciding whether an imported tag changes an existing one
+const DIFF_FIELDS = [
+  'description',
+  'type',
+  'data_type',
+  'address',
+  'default_value',
+  'vendor',
+  'scope',
+  'tag_type'
+] as const;
+
+type DiffField = typeof DIFF_FIELDS[number] | typeof ENGINEERING_FIELDS[number];
+
+export interface TagFieldChange {
+  field: DiffField;
+  from: string | null;
+  to: string | null;
+}
+
+export interface TagImportDiff {
+  added: Array<{ name: string; tag: CreateTagData }>;
+  updated: Array<{ id: number; name: string; changes: TagFieldChange[] }>;
+  unchanged: Array<{ id: number; name: string }>;
+  orphaned: Array<{ id: number; name: string }>;
+  summary: {
+    added: number;
+    updated: number;
+    unchanged: number;
+    orphaned: number;
+  };
+}
+
+export interface ImportPreviewResponse {
+  success: boolean;
+  dryRun: true;
+  previewId: string;
+  vendor: string;
+  format: string;
+  status: TagImportPreview['status'];
+  expiresAt: string;
+  processed: number;
+  errors: ImportRowError[];
+  dataTypes: UdtDefinition[];
+  diff: TagImportDiff;
+  addressAnalysis: Pick<AddressAnalysis, 'summary' | 'issues'>;
+}
+
+/** Raised for preview lookups and commits that cannot proceed; carries the HTTP status */
+export class TagImportPreviewError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'TagImportPreviewError';
+  }
+}
+
+// Previews are only meaningful for a short time; after that the project has usually moved on
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+
+function normalizeValue(value: any): string | null {
+  if (value === undefined || value === null) return null;
+  const str = value.toString();
+  return str === '' ? null : str;
+}
+
+/** Fields of an imported tag that differ from the stored tag */
+function diffTagFields(existing: any, incoming: CreateTagData): TagFieldChange[] {
+  const changes: TagFieldChange[] = [];
+  // Engineering fields only count when the file carries them; formats without them leave stored values alone
+  const fields: DiffField[] = [...DIFF_FIELDS, ...ENGINEERING_FIELDS.filter(field => incoming[field] !== undefined)];
+  for (const field of fields) {
+    const from = normalizeValue(existing[field]);
+    const to = normalizeValue((incoming as any)[field]);
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare parsed tags with the project's current tags, matched by name.
+ * Later rows win when a file contains the same name twice, as with the upsert.
+ */
+export async function diffImportedTags(
+  projectId: number,
+  tags: CreateTagData[],
+  conn: Knex | Knex.Transaction = db
+): Promise<TagImportDiff> {
+  const existingTags = await conn('tags')
+    .where({ project_id: projectId })
+    .select('*');
+  const existingByName = new Map<string, any>(existingTags.map((t: any) => [t.name, t]));
+
+  const incomingByName = new Map<string, CreateTagData>();
+  for (const tag of tags) {
+    incomingByName.set(tag.name, tag);
+  }
+
+  const diff: TagImportDiff = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    orphaned: [],
+    summary: { added: 0, updated: 0, unchanged: 0, orphaned: 0 }
+  };
+
+  for (const [name, tag] of incomingByName) {
+    const existing = existingByName.get(name);
+    if (!existing) {
+      diff.added.push({ name, tag });
+      continue;
+    }
+
+    const changes = diffTagFields(existing, tag);
+    if (changes.length > 0) {
+      diff.updated.push({ id: existing.id, name, changes });
+    } else {
+      diff.unchanged.push({ id: existing.id, name });
+    }
+  }
+
+  for (const existing of existingTags) {
+    if (!incomingByName.has(existing.name)) {
+      diff.orphaned.push({ id: existing.id, name: existing.name });
+    }
+  }
+
+  diff.summary = {
+    added: diff.added.length,
+    updated: diff.updated.length,
+    unchanged: diff.unchanged.length,
+    orphaned: diff.orphaned.length
+  };
+
+  return diff;
+}
+
+// Rows written between progress callbacks of a long import
+const PROGRESS_INTERVAL = 250;
+
+/**
+ * Upsert parsed tags by name inside one transaction.
+ * Orphaned tags are left untouched; unchanged tags are not rewritten.
+ * New tags without an address get the next free one of their area.
+ * `onProgress` is called every few hundred written rows; throwing from it rolls the import back.
+ */
+export async function persistImportedTags(
+  projectId: number,
+  tags: CreateTagData[],
+  trx?: Knex.Transaction,
+  onProgress?: (written: number, total: number) => Promise<void>
+): Promise<{ inserted: number; updated: number; unchanged: number; addressesAllocated: number }> {
+  const run = async (conn: Knex.Transaction) => {
+    const diff = await diffImportedTags(projectId, tags, conn);
+    const now = new Date().toISOString();
+
+    const allocation = await assignMissingAddresses(projectId, diff.added.map(a => a.tag), conn);
+    allocation.tags.forEach((tag, i) => { diff.added[i].tag = tag; });
+    const total = diff.added.length + diff.updated.length;
+    let written = 0;
+
+    const reportProgress = async () => {
+      written++;
+      if (onProgress && (written % PROGRESS_INTERVAL === 0 || written === total)) {
+        await onProgress(written, total);
+      }
+    };
+
+    for (const { tag } of diff.added) {
+      await conn('tags').insert({
+        ...tag,
+        project_id: projectId,
+        created_at: now,
+        updated_at: now
+      });
+      await reportProgress();
+    }
+
+    for (const { id, changes } of diff.updated) {
+      const updates: Record<string, any> = { updated_at: now };
+      for (const change of changes) {
+        updates[change.field] = change.to;
+      }
+      await conn('tags').where({ id, project_id: projectId }).update(updates);
+      await reportProgress();
+    }
+
+    return {
+      inserted: diff.summary.added,
+      updated: diff.summary.updated,
+      unchanged: diff.summary.unchanged,
+      addressesAllocated: allocation.allocated
+    };
+  };
+
+  return trx ? run(trx) : db.transaction(run);
+}
+
+/**
+ * Checks every import makes before writing, whatever the source: data types must be defined in the
+ * project or the file, then the organization's naming rules apply. Failing tags move into row errors.
+ */
+export async function prepareParsedImport(
+  projectId: number,
+  vendor: string,
+  parsed: ParsedTagImport,
+  conn: Knex | Knex.Transaction = db
+): Promise<ParsedTagImport> {
+  return applyNamingRulesToImport(projectId, await resolveImportedDataTypes(projectId, vendor, parsed, conn), conn);
+}
+
+/**
+ * Write a prepared import in one transaction (the caller's, when given): the file's data types
+ * first, so imported tags never reference a missing definition, then the tags.
+ */
+export async function persistPreparedImport(
+  projectId: number,
+  userId: string,
+  parsed: ParsedTagImport,
+  trx?: Knex.Transaction,
+  onProgress?: (written: number, total: number) => Promise<void>
+): Promise<{ inserted: number; updated: number; unchanged: number; addressesAllocated: number; dataTypes: { inserted: number; updated: number } }> {
+  const run = async (conn: Knex.Transaction) => {
+    const dataTypes = parsed.dataTypes?.length
+      ? await upsertUserDefinedTypes(projectId, userId, parsed.dataTypes, conn)
+      : { inserted: 0, updated: 0 };
+    const tags = await persistImportedTags(projectId, parsed.tags, conn, onProgress);
+    return { ...tags, dataTypes };
+  };
+
+  return trx ? run(trx) : db.transaction(run);
+}
+
+// Snapshot used to detect whether the project's tags changed after a preview was taken
+async function getTagsBaseline(projectId: number, conn: Knex | Knex.Transaction = db): Promise<{ count: number; latest: string | null }> {
+  const row: any = await conn('tags')
+    .where({ project_id: projectId })
+    .count('id as count')
+    .max('updated_at as latest')
+    .first();
+
+  return {
+    count: parseInt(row?.count ?? '0'),
+    latest: row?.latest ? new Date(row.latest).toISOString() : null
+  };
+}
+
+// Address conflicts the project would have after the commit: imported tags replace stored ones by name
+async function previewAddressConflicts(projectId: number, tags: CreateTagData[]): Promise<Pick<AddressAnalysis, 'summary' | 'issues'>> {
+  const existingTags = await db('tags')
+    .where({ project_id: projectId })
+    .select('id', 'name', 'address', 'data_type', 'type', 'vendor');
+  const incomingNames = new Set(tags.map(t => t.name));
+  const merged = [...existingTags.filter((t: any) => !incomingNames.has(t.name)), ...tags];
+
+  const { summary, issues } = analyzeTagAddresses(merged, { includeGaps: false });
+  return { summary, issues };
+}
+
+function toPreviewResponse(preview: TagImportPreview, addressAnalysis: ImportPreviewResponse['addressAnalysis']): ImportPreviewResponse {
+  return {
+    success: preview.errors.length === 0,
+    dryRun: true,
+    previewId: preview.id,
+    vendor: preview.vendor,
+    format: preview.format,
+    status: preview.status,
+    expiresAt: new Date(preview.expires_at).toISOString(),
+    processed: preview.tags.length,
+    errors: preview.errors,
+    dataTypes: preview.data_types || [],
+    diff: preview.diff,
+    addressAnalysis
+  };
+}
+
+/**
+ * Store a dry-run import so it can be reviewed and committed later.
+ * Nothing is written to the tags table.
+ */
+export async function createImportPreview(params: {
+  projectId: number;
+  userId: string;
+  vendor: string;
+  format: string;
+  parsed: ParsedTagImport;
+}): Promise<ImportPreviewResponse> {
+  const { projectId, userId, vendor, format } = params;
+  const parsed = await prepareParsedImport(projectId, vendor, params.parsed);
+
+  const diff = await diffImportedTags(projectId, parsed.tags);
+  const baseline = await getTagsBaseline(projectId);
+
+  const [preview] = await db('tag_import_previews')
+    .insert({
+      id: uuidv4(),
+      project_id: projectId,
+      user_id: userId,
+      vendor,
+      format,
+      tags: JSON.stringify(parsed.tags),
+      errors: JSON.stringify(parsed.errors),
+      data_types: JSON.stringify(parsed.dataTypes || []),
+      diff: JSON.stringify(diff),
+      status: 'pending',
+      base_tag_count: baseline.count,
+      base_tags_updated_at: baseline.latest,
+      expires_at: new Date(Date.now() + PREVIEW_TTL_MS).toISOString(),
+      created_at: new Date().toISOString()
+    })
+    .returning('*');
+
+  console.log(`🔍 Created ${vendor} ${format} import preview ${preview.id} for project ${projectId}: +${diff.summary.added} ~${diff.summary.updated} =${diff.summary.unchanged} orphaned ${diff.summary.orphaned}`);
+
+  return toPreviewResponse(preview, await previewAddressConflicts(projectId, parsed.tags));
+}
+
+export async function getImportPreview(previewId: string, projectId: number, userId: string): Promise<ImportPreviewResponse> {
+  const preview = await db('tag_import_previews')
+    .where({ id: previewId, project_id: projectId, user_id: userId })
+    .first();
+
+  if (!preview) {
+    throw new TagImportPreviewError('Import preview not found', 404);
+  }
+
+  return toPreviewResponse(preview, await previewAddressConflicts(projectId, preview.tags));
+}
+
+/**
+ * Commit a stored preview exactly as it was reviewed.
+ * Refuses previews with row errors, and previews whose project tags changed
+ * since the diff was taken unless `force` is set. An expired preview is marked
+ * expired after the transaction rolls back, so the status sticks.
+ */
+export async function commitImportPreview(
+  previewId: string,
+  projectId: number,
+  userId: string,
+  options: { force?: boolean } = {},
+  conn: Knex = db
+): Promise<{ success: true; previewId: string; vendor: string; format: string; inserted: number; updated: number; unchanged: number; dataTypes: { inserted: number; updated: number } }> {
+  try {
+    return await commitPreviewInTransaction(previewId, projectId, userId, options, conn);
+  } catch (error) {
+    if (error instanceof TagImportPreviewError && error.statusCode === 410) {
+      await conn('tag_import_previews').where({ id: previewId }).update({ status: 'expired' });
+    }
+    throw error;
+  }
+}
+
+async function commitPreviewInTransaction(
+  previewId: string,
+  projectId: number,
+  userId: string,
+  options: { force?: boolean },
+  conn: Knex
+) {
+  return conn.transaction(async (trx) => {
+    // Lock the preview row so a double-click cannot commit it twice
+    const preview = await trx('tag_import_previews')
+      .where({ id: previewId, project_id: projectId, user_id: userId })
+      .forUpdate()
+      .first();
+
+    if (!preview) {
+      throw new TagImportPreviewError('Import preview not found', 404);
+    }
+
+    if (preview.status === 'committed') {
+      throw new TagImportPreviewError('Import preview has already been committed', 409);
+    }
+
+    if (preview.status === 'expired' || new Date(preview.expires_at).getTime() < Date.now()) {
+      throw new TagImportPreviewError('Import preview has expired; run the dry run again', 410);
+    }
+
+    if (preview.errors.length > 0) {
+      throw new TagImportPreviewError('Import preview has validation errors and cannot be committed', 400);
+    }
+
+    if (!options.force) {
+      const baseline = await getTagsBaseline(projectId, trx);
+      const previewLatest = preview.base_tags_updated_at ? new Date(preview.base_tags_updated_at).toISOString() : null;
+      if (baseline.count !== preview.base_tag_count || baseline.latest !== previewLatest) {
+        throw new TagImportPreviewError('Project tags changed since this preview was created; review a new dry run or commit with force', 409);
+      }
+    }
+
+    const { dataTypes, ...result } = await persistPreparedImport(
+      projectId,
+      userId,
+      { tags: preview.tags, errors: [], dataTypes: preview.data_types || [] },
+      trx
+    );
+
+    await trx('tag_import_previews')
+      .where({ id: previewId })
+      .update({ status: 'committed', committed_at: new Date().toISOString() });
+
+    return {
+      success: true as const,
+      previewId,
+      vendor: preview.vendor,
+      format: preview.format,
+      ...result,
+      dataTypes
+    };
+  });
+}
@@ -1,9 +1,13 @@
 // Real-time WebSocket service for tag synchronization
 import { WebSocketServer, WebSocket } from 'ws';
 import jwt from 'jsonwebtoken';
-import { parseSTVariablesDetailed } from '../utils/stParser';
+import { parseSTDeclarations } from '../utils/stParser';
 import { formatTagForVendor, validateTagForVendor } from '../utils/vendorFormatters';
+import { AddressAllocator } from '../utils/addressAllocator';
 import db from '../db/knex';
+import { AddressAnalysis, analyzeTagAddresses } from '../utils/addressSpace';
+import { checkTagNaming, hasNamingRules, loadProjectNamingRules, NamingRuleViolation } from '../utils/tagNamingRules';
+import { TagImportJob } from '../db/tables/tag_import_jobs';
 
 interface AuthenticatedWebSocket extends WebSocket {
   user?: {
@@ -28,7 +32,7 @@ interface WebSocketMessage {
 }
 
 interface TagSyncResponse {
-  type: 'tags_updated' | 'error' | 'sync_queued' | 'pong';
+  type: 'tags_updated' | 'error' | 'sync_queued' | 'pong' | 'import_job_progress';
   success: boolean;
   projectId?: string;
   tags?: any[];
@@ -36,6 +40,17 @@ interface TagSyncResponse {
   timestamp: string;
   parsedCount?: number;
   syncId?: string;
+  addressAnalysis?: Pick<AddressAnalysis, 'summary' | 'issues'>;
+  namingViolations?: SkippedTagNaming[];
+  syntaxErrors?: Array<{ line: number; column: number; message: string }>;
+  job?: Omit<TagImportJob, 'errors'> & { errorCount: number };
+}
+
+// A synced tag that was not created because its name breaks the organization's naming rules
+interface SkippedTagNaming {
+  name: string;
+  violations: NamingRuleViolation[];
+  suggestedName?: string;
 }
 
 export class TagSyncService {
@@ -299,8 +314,11 @@ export class TagSyncService {
       // console.log(`🔍 DEBUG: ST Code length:`, message.stCode.length);
 
       // Parse variables from ST code using project vendor
-      const parsedTags = parseSTVariablesDetailed(message.stCode, projectVendor);
+      const { variables: parsedTags, errors: syntaxErrors } = parseSTDeclarations(message.stCode, projectVendor);
       console.log(`📝 Parsed ${parsedTags.length} tags from ST code`);
+      if (syntaxErrors.length > 0) {
+        console.warn(`⚠️ ST code for project ${message.projectId} has ${syntaxErrors.length} syntax error(s); syncing the declarations that parsed`);
+      }
       console.log(`📝 Raw parsed tags:`, JSON.stringify(parsedTags, null, 2));
 
       // Format tags for the project's vendor (ignore the vendor from message)
@@ -322,7 +340,10 @@ export class TagSyncService {
 
       // Upsert tags in database
       // console.log(`🔍 Debug: Project ID: ${message.projectId}, User ID: ${ws.user!.userId}`);
-      await this.upsertTagsInDB(message.projectId, formattedTags, ws.user!.userId);
+      const namingViolations = await this.upsertTagsInDB(message.projectId, formattedTags, ws.user!.userId);
+      if (namingViolations.length > 0) {
+        console.warn(`⚠️ Tag sync for project ${message.projectId} skipped ${namingViolations.length} tag(s) breaking naming rules`);
+      }
       // console.log(`💾 Upserted ${formattedTags.length} tags to database`);
 
       // Fetch updated tags using Knex
@@ -330,6 +351,12 @@ export class TagSyncService {
         .where('project_id', parseInt(message.projectId))
         .orderBy('name');
 
+      // Check the synced project for conflicting addresses
+      const { summary: addressSummary, issues: addressIssues } = analyzeTagAddresses(updatedTags, { includeGaps: false });
+      if (addressSummary.errors > 0) {
+        console.warn(`⚠️ Tag sync for project ${message.projectId} left ${addressSummary.errors} address conflict(s)`);
+      }
+
       const duration = Date.now() - startTime;
       // console.log(`✅ Tag sync completed in ${duration}ms for project ${message.projectId}`);
 
@@ -344,6 +371,9 @@ export class TagSyncService {
         tags: updatedTags,
         parsedCount: parsedTags.length,
         syncId,
+        addressAnalysis: { summary: addressSummary, issues: addressIssues },
+        namingViolations,
+        syntaxErrors: syntaxErrors.map(({ line, column, message }) => ({ line, column, message })),
         timestamp: new Date().toISOString()
       });
 
@@ -380,9 +410,14 @@ export class TagSyncService {
   }
 
   /**
-   * Enhanced upsert tags in database with real-time validation and intelligent updates
+   * Enhanced upsert tags in database with real-time validation and intelligent updates.
+   * New tags breaking the organization's naming rules are skipped and returned.
    */
-  private async upsertTagsInDB(projectId: string, tags: any[], userId: string) {
+  private async upsertTagsInDB(
+    projectId: string,
+    tags: any[],
+    userId: string
+  ): Promise<SkippedTagNaming[]> {
     console.log(`🔍 Starting intelligent tag upsert for project ${projectId}, user ${userId}`);
     console.log(`🔍 Processing ${tags.length} tags from Logic Studio`);
 
@@ -406,6 +441,14 @@ export class TagSyncService {
       .where('project_id', projectIdNum)
       .orderBy('name');
 
+    const namingRules = await loadProjectNamingRules(projectIdNum);
+    const takenNames = new Set<string>(existingTags.map((t: any) => t.name));
+    const namingViolations: SkippedTagNaming[] = [];
+
+    // New tags declared without an address get the next free one
+    const allocator = await AddressAllocator.forProject(projectIdNum);
+    tags.forEach(tag => allocator.markUsed({ name: tag.Name || tag.TagName || tag.name, address: tag.Address || tag.address, data_type: tag.DataType || tag.dataType, vendor: projectVendor }));
+
     for (const tag of tags) {
       try {
         // Try to find an existing tag by name
@@ -430,7 +473,7 @@ export class TagSyncService {
             .update({
               type: normalizedDataTypeForUpdate,
               data_type: normalizedDataTypeForUpdate,
-              address: tag.Address || tag.address,
+              address: tag.Address || tag.address || existingTag.address,
               default_value: tag.DefaultValue || tag.defaultValue,
               // vendor: normalizedVendorForUpdate, // REMOVED: Don't change vendor of existing tags
               scope: normalizedScopeForUpdate,
@@ -466,6 +509,24 @@ export class TagSyncService {
             updated_at: new Date().toISOString()
           };
 
+          // Existing tags keep their names; only new ones are held to the naming rules
+          if (hasNamingRules(namingRules)) {
+            const naming = checkTagNaming(tagData, namingRules, takenNames);
+            if (!naming.isValid) {
+              namingViolations.push({ name: tagName, violations: naming.violations, suggestedName: naming.suggestedName });
+              continue;
+            }
+          }
+
+          if (!tagData.address) {
+            const allocation = allocator.allocate(tagData);
+            if ('address' in allocation) {
+              tagData.address = allocation.address;
+            } else {
+              console.log(`⚠️ TagSync: no address allocated for ${tagName}: ${allocation.error}`);
+            }
+          }
+
           console.log(`🔍 Creating tag with data:`, JSON.stringify(tagData, null, 2));
           console.log(`🔍 Data type being inserted: "${tagData.data_type}" (length: ${tagData.data_type?.length})`);
           
@@ -477,6 +538,8 @@ export class TagSyncService {
         // Continue with other tags even if one fails
       }
     }
+
+    return namingViolations;
   }
 
   /**
@@ -618,6 +681,20 @@ export class TagSyncService {
     }
   }
 
+  /**
+   * Push the state of a background import job to the project's subscribers
+   */
+  public notifyImportJobProgress(job: TagImportJob) {
+    const { errors, ...state } = job;
+    this.broadcastToProject(String(job.project_id), {
+      type: 'import_job_progress',
+      success: job.status !== 'failed',
+      projectId: String(job.project_id),
+      job: { ...state, errorCount: errors.length },
+      timestamp: new Date().toISOString()
+    });
+  }
+
   /**
    * Cleanup method for graceful shutdown
    */
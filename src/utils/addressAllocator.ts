@@ -0,0 +1,269 @@
+// addressAllocator.ts
+// Automatic address allocation: hands out the next free address of the right width per vendor
+// area (I/Q/M, DB offsets, %IX/%QX, Rockwell data files), around existing tags and reserved ranges
+
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { AddressReservation } from '../db/tables';
+import { dataTypeBitWidth, resolveTagAddress } from './addressSpace';
+
+export interface AllocatableTag {
+  name: string;
+  address?: string | null;
+  data_type?: string | null;
+  type?: string | null;
+  tag_type?: string | null;
+  scope?: string | null;
+  vendor?: string | null;
+}
+
+export type AllocationResult = { address: string } | { error: string };
+
+interface Interval {
+  start: number; // bit offset
+  end: number;   // exclusive
+}
+
+// Where a value of a given width goes and how its bit offset is written
+interface AreaSlot {
+  area: string;
+  align: number;     // bits
+  limit: number;     // bits available in the area
+  format: (start: number) => string;
+}
+
+// Siemens / Beckhoff process images and markers, DB sizes: 64 KB each
+const BYTE_AREA_BITS = 65536 * 8;
+
+// SLC / PLC-5 data files hold 256 elements; discrete modules 16 points per slot
+const ROCKWELL_FILE_ELEMENTS = 256;
+const ROCKWELL_SLOT_POINTS = 16;
+const ROCKWELL_MAX_SLOT = 30;
+
+const WIDTH_LETTERS: Record<number, string> = { 8: 'B', 16: 'W', 32: 'D', 64: 'L' };
+
+// Multi-byte values start on a word boundary, as TIA Portal and TwinCAT lay them out
+function alignmentFor(bits: number): number {
+  return bits >= 16 ? 16 : bits;
+}
+
+/** Process area a tag belongs in: its tag type, else an input/output scope, else memory */
+function processArea(tag: AllocatableTag): 'input' | 'output' | 'memory' {
+  for (const value of [tag.tag_type, tag.scope]) {
+    const kind = (value || '').toLowerCase();
+    if (kind === 'input' || kind === 'output') return kind;
+  }
+  return 'memory';
+}
+
+function siemensSlots(tag: AllocatableTag, bits: number): AreaSlot[] | string {
+  if (bits === 64) return 'Siemens has no absolute 64-bit addresses; give the tag a symbolic address';
+
+  const kind = processArea(tag);
+  const dataBlock = (tag.scope || '').match(/^DB(\d+)$/i);
+  const letter = WIDTH_LETTERS[bits];
+
+  if (kind === 'memory' && dataBlock) {
+    const db = `DB${parseInt(dataBlock[1])}`;
+    return [{
+      area: db,
+      align: alignmentFor(bits),
+      limit: BYTE_AREA_BITS,
+      format: start => bits === 1 ? `${db}.DBX${start >> 3}.${start & 7}` : `${db}.DB${letter}${start >> 3}`
+    }];
+  }
+
+  const area = kind === 'input' ? 'I' : kind === 'output' ? 'Q' : 'M';
+  return [{
+    area,
+    align: alignmentFor(bits),
+    limit: BYTE_AREA_BITS,
+    format: start => bits === 1 ? `${area}${start >> 3}.${start & 7}` : `${area}${letter}${start >> 3}`
+  }];
+}
+
+function beckhoffSlots(tag: AllocatableTag, bits: number): AreaSlot[] {
+  const kind = processArea(tag);
+  const area = kind === 'input' ? 'I' : kind === 'output' ? 'Q' : 'M';
+  return [{
+    area,
+    align: alignmentFor(bits),
+    limit: BYTE_AREA_BITS,
+    format: start => bits === 1 ? `%${area}X${start >> 3}.${start & 7}` : `%${area}${WIDTH_LETTERS[bits]}${start >> 3}`
+  }];
+}
+
+function rockwellSlots(tag: AllocatableTag, bits: number, dataType: string): AreaSlot[] | string {
+  const kind = processArea(tag);
+
+  // Discrete I/O points fill one module slot after the other
+  if (bits === 1 && kind !== 'memory') {
+    const letter = kind === 'input' ? 'I' : 'O';
+    const slots: AreaSlot[] = [];
+    for (let slot = 1; slot <= ROCKWELL_MAX_SLOT; slot++) {
+      slots.push({ area: `${letter}:${slot}`, align: 1, limit: ROCKWELL_SLOT_POINTS, format: start => `${letter}:${slot}/${start}` });
+    }
+    return slots;
+  }
+
+  // Data files by element type: B3 bits, N7 integers, F8 floats, L9 long integers
+  let file: { area: string; elementBits: number };
+  if (bits === 1) file = { area: 'B3', elementBits: 16 };
+  else if (bits <= 16) file = { area: 'N7', elementBits: 16 };
+  else if (bits === 32 && dataType === 'REAL') file = { area: 'F8', elementBits: 32 };
+  else if (bits === 32) file = { area: 'L9', elementBits: 32 };
+  else return `Rockwell data files have no ${dataType} elements; give the tag a symbolic address`;
+
+  const { area, elementBits } = file;
+  return [{
+    area,
+    align: bits === 1 ? 1 : elementBits,
+    limit: ROCKWELL_FILE_ELEMENTS * elementBits,
+    format: start => bits === 1 ? `${area}:${Math.floor(start / 16)}/${start % 16}` : `${area}:${start / elementBits}`
+  }];
+}
+
+/**
+ * Bit range covered by a reservation, or an error message. Both ends must resolve in the
+ * same area; the end address is inclusive of its full width (MB199 reserves through M199.7).
+ */
+export function resolveReservedRange(vendor: string, startAddress: string, endAddress: string): { area: string; start: number; end: number } | { error: string } {
+  const from = resolveTagAddress({ name: 'reservation', vendor, address: startAddress });
+  const to = resolveTagAddress({ name: 'reservation', vendor, address: endAddress });
+  if (!from) return { error: `Invalid ${vendor} address: ${startAddress}` };
+  if (!to) return { error: `Invalid ${vendor} address: ${endAddress}` };
+  if (from.area !== to.area) return { error: `${startAddress} and ${endAddress} are in different areas` };
+
+  const end = to.start + to.length;
+  if (end <= from.start) return { error: `${endAddress} comes before ${startAddress}` };
+  return { area: from.area, start: from.start, end };
+}
+
+/**
+ * Hands out free addresses for one project. Occupancy is built from the project's tags and
+ * reservations when created; every allocation is recorded, so a batch never gets the same
+ * address twice.
+ */
+export class AddressAllocator {
+  private occupied = new Map<string, Interval[]>();
+
+  constructor(tags: AllocatableTag[], reservations: Array<Pick<AddressReservation, 'vendor' | 'start_address' | 'end_address'>> = []) {
+    tags.forEach(tag => this.markUsed(tag));
+    for (const reservation of reservations) {
+      const range = resolveReservedRange(reservation.vendor, reservation.start_address, reservation.end_address);
+      if (!('error' in range)) this.occupy(reservation.vendor, range.area, range);
+    }
+  }
+
+  /** Occupancy of a project; tags listed in excludeTagIds (e.g. tags about to be readdressed) take no space */
+  static async forProject(
+    projectId: number,
+    conn: Knex | Knex.Transaction = db,
+    options: { excludeTagIds?: number[] } = {}
+  ): Promise<AddressAllocator> {
+    const [tags, reservations] = await Promise.all([
+      conn('tags').where({ project_id: projectId }).select('id', 'name', 'address', 'data_type', 'type', 'vendor'),
+      conn('address_reservations').where({ project_id: projectId }).select('vendor', 'start_address', 'end_address')
+    ]);
+    const excluded = new Set(options.excludeTagIds || []);
+    return new AddressAllocator(tags.filter((tag: any) => !excluded.has(tag.id)), reservations);
+  }
+
+  /** Record a tag's own address as taken, e.g. addressed tags of a batch not stored yet */
+  markUsed(tag: AllocatableTag): void {
+    const range = resolveTagAddress(tag);
+    if (range) this.occupy(range.vendor, range.area, { start: range.start, end: range.start + range.length });
+  }
+
+  /** Whether a tag's address overlaps no reservation and no address recorded so far; symbolic addresses always fit */
+  isFree(tag: AllocatableTag): boolean {
+    const range = resolveTagAddress(tag);
+    if (!range) return true;
+    const end = range.start + range.length;
+    return !(this.occupied.get(`${range.vendor}|${range.area}`) || []).some(i => i.start < end && range.start < i.end);
+  }
+
+  private occupy(vendor: string, area: string, interval: Interval): void {
+    const key = `${vendor}|${area}`;
+    const intervals = this.occupied.get(key) || [];
+    const index = intervals.findIndex(i => i.start > interval.start);
+    intervals.splice(index < 0 ? intervals.length : index, 0, interval);
+    this.occupied.set(key, intervals);
+  }
+
+  // Lowest aligned offset where `bits` fit between occupied intervals (sorted by start)
+  private firstFree(vendor: string, slot: AreaSlot, bits: number): number | null {
+    const alignUp = (n: number) => Math.ceil(n / slot.align) * slot.align;
+    let candidate = 0;
+    for (const interval of this.occupied.get(`${vendor}|${slot.area}`) || []) {
+      if (candidate + bits <= interval.start) break;
+      candidate = Math.max(candidate, alignUp(interval.end));
+    }
+    return candidate + bits <= slot.limit ? candidate : null;
+  }
+
+  /** Next free address for a tag, recorded as taken */
+  allocate(tag: AllocatableTag): AllocationResult {
+    const vendor = (tag.vendor || '').toLowerCase();
+    const dataType = (tag.data_type || tag.type || '').trim().toUpperCase();
+    const bits = dataTypeBitWidth(dataType);
+    if (bits === undefined) {
+      return { error: `No absolute address can be allocated for data type ${dataType || '(none)'}` };
+    }
+
+    let slots: AreaSlot[] | string;
+    switch (vendor) {
+      case 'siemens':
+        slots = siemensSlots(tag, bits);
+        break;
+      case 'beckhoff':
+        slots = beckhoffSlots(tag, bits);
+        break;
+      case 'rockwell':
+        slots = rockwellSlots(tag, bits, dataType);
+        break;
+      default:
+        return { error: `Address allocation is not supported for vendor ${tag.vendor || '(none)'}` };
+    }
+    if (typeof slots === 'string') return { error: slots };
+
+    for (const slot of slots) {
+      const start = this.firstFree(vendor, slot, bits);
+      if (start === null) continue;
+      this.occupy(vendor, slot.area, { start, end: start + bits });
+      return { address: slot.format(start) };
+    }
+    return { error: `No free ${bits}-bit address left in ${slots[slots.length - 1].area}` };
+  }
+}
+
+/**
+ * Give every tag without an address the next free one. Tags that cannot be addressed
+ * (structures, strings, full areas) keep their empty address and are listed in `failed`.
+ */
+export async function assignMissingAddresses<T extends AllocatableTag>(
+  projectId: number,
+  tags: T[],
+  conn: Knex | Knex.Transaction = db
+): Promise<{ tags: T[]; allocated: number; failed: Array<{ name: string; error: string }> }> {
+  const failed: Array<{ name: string; error: string }> = [];
+  if (tags.every(tag => tag.address && tag.address.trim())) {
+    return { tags, allocated: 0, failed };
+  }
+
+  const allocator = await AddressAllocator.forProject(projectId, conn);
+  tags.forEach(tag => allocator.markUsed(tag));
+  let allocated = 0;
+  const result = tags.map(tag => {
+    if (tag.address && tag.address.trim()) return tag;
+    const allocation = allocator.allocate(tag);
+    if ('error' in allocation) {
+      failed.push({ name: tag.name, error: allocation.error });
+      return tag;
+    }
+    allocated++;
+    return { ...tag, address: allocation.address };
+  });
+
+  return { tags: result, allocated, failed };
+}
@@ -0,0 +1,295 @@
+// addressSpace.ts
+// Address-space analysis for project tags: resolves vendor addresses to bit ranges and
+// reports overlapping, aliased and duplicate addresses plus unused gaps
+
+import db from '../db/knex';
+
+export interface AddressRange {
+  tagId?: number;
+  name: string;
+  vendor: string;
+  address: string;
+  dataType?: string;
+  area: string;      // I, Q, M, DB1, I:1, N7 ...
+  start: number;     // bit offset within the area
+  length: number;    // size in bits
+  byteAddressed: boolean;
+}
+
+export type AddressIssueKind = 'duplicate' | 'overlap' | 'alias' | 'width_mismatch';
+
+export interface AddressIssue {
+  kind: AddressIssueKind;
+  severity: 'error' | 'warning';
+  area: string;
+  tags: Array<{ tagId?: number; name: string; address: string }>;
+  message: string;
+}
+
+export interface AddressGap {
+  area: string;
+  fromByte: number;
+  toByte: number;
+  bytes: number;
+}
+
+export interface AddressAnalysis {
+  analyzed: number;
+  skipped: number; // symbolic or unparseable addresses
+  issues: AddressIssue[];
+  gaps: AddressGap[];
+  summary: {
+    errors: number;
+    warnings: number;
+    duplicates: number;
+    overlaps: number;
+    aliases: number;
+    widthMismatches: number;
+    gaps: number;
+  };
+}
+
+interface AnalyzableTag {
+  id?: number;
+  name: string;
+  address?: string | null;
+  data_type?: string | null;
+  type?: string | null;
+  vendor?: string | null;
+}
+
+// Storage size in bits per data type; used for width checks and width-less addresses
+const DATA_TYPE_BITS: Record<string, number> = {
+  'BOOL': 1,
+  'BYTE': 8, 'SINT': 8, 'USINT': 8, 'CHAR': 8,
+  'WORD': 16, 'INT': 16, 'UINT': 16, 'S5TIME': 16, 'DATE': 16,
+  'DWORD': 32, 'DINT': 32, 'UDINT': 32, 'REAL': 32, 'TIME': 32, 'TOD': 32, 'TIME_OF_DAY': 32,
+  'LWORD': 64, 'LINT': 64, 'ULINT': 64, 'LREAL': 64, 'DATE_AND_TIME': 64
+};
+
+const WIDTH_LETTER_BITS: Record<string, number> = { X: 1, B: 8, W: 16, D: 32, L: 64 };
+
+// Element size of Rockwell PLC-5/SLC data files, by file type letter
+const ROCKWELL_FILE_BITS: Record<string, number> = { N: 16, B: 16, F: 32, L: 32 };
+
+/** Storage size of an elementary data type in bits; undefined for strings, arrays and structures */
+export function dataTypeBitWidth(dataType: string): number | undefined {
+  return DATA_TYPE_BITS[dataType.trim().toUpperCase()];
+}
+
+function dataTypeBits(tag: AnalyzableTag): number | undefined {
+  return dataTypeBitWidth(tag.data_type || tag.type || '');
+}
+
+// Siemens: I0.0, QW2, MD10, DB1.DBX0.0, DB1.DBW4 (leading % tolerated)
+function parseSiemensRange(address: string): Omit<AddressRange, 'name' | 'vendor' | 'address'> | null {
+  const dataBlock = address.match(/^DB(\d+)\.DB([XBWD])(\d+)(?:\.([0-7]))?$/i);
+  if (dataBlock) {
+    const [, num, width, byte, bit] = dataBlock;
+    const w = width.toUpperCase();
+    if ((w === 'X') !== (bit !== undefined)) return null;
+    return { area: `DB${num}`, start: parseInt(byte) * 8 + (bit ? parseInt(bit) : 0), length: WIDTH_LETTER_BITS[w], byteAddressed: true };
+  }
+
+  const pi = address.match(/^%?([IQM])([BWD])?(\d+)(?:\.([0-7]))?$/i);
+  if (!pi) return null;
+  const [, area, width, byte, bit] = pi;
+  if (width && bit !== undefined) return null;
+  if (!width && bit === undefined) return null;
+  return {
+    area: area.toUpperCase(),
+    start: parseInt(byte) * 8 + (bit !== undefined ? parseInt(bit) : 0),
+    length: width ? WIDTH_LETTER_BITS[width.toUpperCase()] : 1,
+    byteAddressed: true
+  };
+}
+
+// Beckhoff: %I0.0, %IX0.0, %QB1, %MW100, %ML8; %Q2 takes its size from the data type
+function parseBeckhoffRange(tag: AnalyzableTag, address: string): Omit<AddressRange, 'name' | 'vendor' | 'address'> | null {
+  const match = address.match(/^%([IQM])([XBWDL])?(\d+)(?:\.([0-7]))?$/i);
+  if (!match) return null;
+  const [, area, width, byte, bit] = match;
+  const w = width?.toUpperCase();
+
+  if (bit !== undefined) {
+    if (w && w !== 'X') return null;
+    return { area: area.toUpperCase(), start: parseInt(byte) * 8 + parseInt(bit), length: 1, byteAddressed: true };
+  }
+  if (w === 'X') return null;
+
+  return {
+    area: area.toUpperCase(),
+    start: parseInt(byte) * 8,
+    length: w ? WIDTH_LETTER_BITS[w] : dataTypeBits(tag) ?? 8,
+    byteAddressed: true
+  };
+}
+
+// Rockwell: I:1/0 and O:2/3 (slot/bit), N7:0, F8:1, B3:0 and N7:0/5 (file:element[/bit])
+function parseRockwellRange(address: string): Omit<AddressRange, 'name' | 'vendor' | 'address'> | null {
+  const io = address.match(/^([IO]):(\d+)\/(\d+)$/i);
+  if (io) {
+    const [, area, slot, bit] = io;
+    return { area: `${area.toUpperCase()}:${slot}`, start: parseInt(bit), length: 1, byteAddressed: false };
+  }
+
+  const file = address.match(/^([NBFL])(\d+):(\d+)(?:\/(\d+))?$/i);
+  if (!file) return null;
+  const [, letter, num, element, bit] = file;
+  const elementBits = ROCKWELL_FILE_BITS[letter.toUpperCase()];
+  if (bit !== undefined && parseInt(bit) >= elementBits) return null;
+
+  return {
+    area: `${letter.toUpperCase()}${num}`,
+    start: parseInt(element) * elementBits + (bit !== undefined ? parseInt(bit) : 0),
+    length: bit !== undefined ? 1 : elementBits,
+    byteAddressed: false
+  };
+}
+
+/**
+ * Resolve a tag's address to a bit range, or null for symbolic / unparseable addresses.
+ */
+export function resolveTagAddress(tag: AnalyzableTag): AddressRange | null {
+  const address = (tag.address || '').trim();
+  const vendor = (tag.vendor || '').toLowerCase();
+  if (!address) return null;
+
+  let range: Omit<AddressRange, 'name' | 'vendor' | 'address'> | null = null;
+  switch (vendor) {
+    case 'siemens':
+      range = parseSiemensRange(address);
+      break;
+    case 'beckhoff':
+      range = parseBeckhoffRange(tag, address);
+      break;
+    case 'rockwell':
+      range = parseRockwellRange(address);
+      break;
+  }
+
+  if (!range) return null;
+  return {
+    ...range,
+    tagId: tag.id,
+    name: tag.name,
+    vendor,
+    address,
+    dataType: tag.data_type || tag.type || undefined
+  };
+}
+
+function describe(range: AddressRange): { tagId?: number; name: string; address: string } {
+  return { tagId: range.tagId, name: range.name, address: range.address };
+}
+
+function classifyPair(a: AddressRange, b: AddressRange): AddressIssue {
+  const tags = [describe(a), describe(b)];
+
+  if (a.start === b.start && a.length === b.length) {
+    return { kind: 'duplicate', severity: 'error', area: a.area, tags, message: `${a.name} and ${b.name} use the same address ${a.address}` };
+  }
+
+  // A single bit inside a larger value is usually deliberate bit access, e.g. M10.3 in MW10
+  const [small, large] = a.length <= b.length ? [a, b] : [b, a];
+  const contained = small.start >= large.start && small.start + small.length <= large.start + large.length;
+  if (contained && small.length === 1) {
+    return { kind: 'alias', severity: 'warning', area: a.area, tags, message: `${small.name} (${small.address}) is a bit of ${large.name} (${large.address})` };
+  }
+
+  return { kind: 'overlap', severity: 'error', area: a.area, tags, message: `${a.name} (${a.address}) overlaps ${b.name} (${b.address})` };
+}
+
+/**
+ * Analyze a set of tags: duplicates, overlaps and bit aliases per vendor and area,
+ * width mismatches between address and data type, and gaps in byte-addressed areas.
+ */
+export function analyzeTagAddresses(tags: AnalyzableTag[], options: { includeGaps?: boolean } = {}): AddressAnalysis {
+  const ranges: AddressRange[] = [];
+  const issues: AddressIssue[] = [];
+  let skipped = 0;
+
+  for (const tag of tags) {
+    const range = resolveTagAddress(tag);
+    if (!range) {
+      skipped++;
+      continue;
+    }
+    ranges.push(range);
+
+    // An explicit address width should match the data type (REAL at MW10 loses half the value)
+    const expected = dataTypeBits(tag);
+    if (expected !== undefined && range.byteAddressed && expected !== range.length) {
+      issues.push({
+        kind: 'width_mismatch',
+        severity: 'warning',
+        area: range.area,
+        tags: [describe(range)],
+        message: `${tag.name} is ${tag.data_type || tag.type} (${expected} bits) but ${range.address} addresses ${range.length} bits`
+      });
+    }
+  }
+
+  // Group by vendor + area, then sweep each group sorted by start offset
+  const groups = new Map<string, AddressRange[]>();
+  for (const range of ranges) {
+    const key = `${range.vendor}|${range.area}`;
+    groups.set(key, [...(groups.get(key) || []), range]);
+  }
+
+  const gaps: AddressGap[] = [];
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.start - b.start || b.length - a.length);
+
+    let active: AddressRange[] = [];
+    for (const range of group) {
+      active = active.filter(r => r.start + r.length > range.start);
+      for (const other of active) {
+        issues.push(classifyPair(other, range));
+      }
+      active.push(range);
+    }
+
+    if (options.includeGaps !== false && group[0].byteAddressed) {
+      let coveredTo = Math.floor(group[0].start / 8);
+      for (const range of group) {
+        const fromByte = Math.floor(range.start / 8);
+        if (fromByte > coveredTo) {
+          gaps.push({ area: range.area, fromByte: coveredTo, toByte: fromByte - 1, bytes: fromByte - coveredTo });
+        }
+        coveredTo = Math.max(coveredTo, Math.ceil((range.start + range.length) / 8));
+      }
+    }
+  }
+
+  const count = (kind: AddressIssueKind) => issues.filter(i => i.kind === kind).length;
+  return {
+    analyzed: ranges.length,
+    skipped,
+    issues,
+    gaps,
+    summary: {
+      errors: issues.filter(i => i.severity === 'error').length,
+      warnings: issues.filter(i => i.severity === 'warning').length,
+      duplicates: count('duplicate'),
+      overlaps: count('overlap'),
+      aliases: count('alias'),
+      widthMismatches: count('width_mismatch'),
+      gaps: gaps.length
+    }
+  };
+}
+
+export async function analyzeProjectAddresses(
+  projectId: number,
+  options: { vendor?: string; includeGaps?: boolean } = {}
+): Promise<AddressAnalysis> {
+  const query = db('tags')
+    .where({ project_id: projectId })
+    .select('id', 'name', 'address', 'data_type', 'type', 'vendor');
+  if (options.vendor) {
+    query.whereRaw('LOWER(vendor) = ?', [options.vendor.toLowerCase()]);
+  }
+
+  return analyzeTagAddresses(await query, { includeGaps: options.includeGaps });
+}
@@ -10,6 +10,10 @@ import * as xmlbuilder from 'xmlbuilder';
 import * as XLSX from 'xlsx';
 import { CreateTagData, Tag } from '../db/tables/tags';
 import db from '../db/knex';
+import { ParsedTagImport } from '../services/tagImportPipeline';
+import { compositeTypeCategory, formatStructDeclaration, loadProjectUdts, normalizeDataTypeName, normalizeUdtDefinition, parseStructDeclarations, UdtDefinition } from '../utils/udt';
+import { applyEngineeringComment, formatEngineeringComment } from '../utils/tagEngineering';
+import { locateXlsxErrors, readXlsxTagSheets, readXlsxWorkbook } from '../utils/xlsxTagSheets';
 import { Writable } from 'stream';
 
 // --- Beckhoff CSV headers normalization map (common variants from TwinCAT CSV exports)
@@ -102,7 +106,7 @@ const DATA_TYPE_NORMALIZE: Record<string, string> = {
   'struct': 'STRUCT'
 };
 
-interface ParsedRow {
+export interface ParsedRow {
   name?: string;
   data_type?: string;
   address?: string;
@@ -127,17 +131,6 @@ interface ValidationResult {
   };
 }
 
-interface ImportResult {
-  success: boolean;
-  inserted?: number;
-  errors?: Array<{
-    row: number;
-    errors: string[];
-    raw: any;
-  }>;
-  processed?: number;
-}
-
 // Utility: normalize header row to canonical keys
 function normalizeHeaders(rawHeaders: string[]): (string | null)[] {
   return rawHeaders.map(h => {
@@ -233,6 +226,7 @@ function validateAndMapBeckhoffRow(row: ParsedRow): ValidationResult {
     // Supports: %I, %Q, %M addresses with various formats, symbolic names
     const validAddressFormats = [
       /^%[IQMT]\d+(\.\d+)?$/i,      // %I0.0, %Q2, %M1.5, %T0
+      /^%[IQM]X\d+\.\d+$/i,         // Explicit bit access: %IX0.0, %QX1.7
       /^%[IQMT][BWDL]\d+$/i,        // %IB0, %QW1, %MD200, %ML100
       /^%[IQMT][BWDL]*\d+$/i,       // %MW100, %MB400 (memory addresses)
       /^[a-zA-Z_][\w]*$/,           // Symbolic names
@@ -249,115 +243,74 @@ function validateAndMapBeckhoffRow(row: ParsedRow): ValidationResult {
   return { errors, mapped };
 }
 
-// Create or update tags in database (upsert functionality)
-async function upsertTagsInDB(projectId: number, userId: string, tags: CreateTagData[]): Promise<void> {
-  for (const tagData of tags) {
-    try {
-      // Try to find existing tag
-      const existingTag = await db('tags')
-        .where({ project_id: projectId, name: tagData.name })
-        .first();
-      
-      if (existingTag) {
-        // Update existing tag
-        await db('tags')
-          .where({ id: existingTag.id })
-          .update({
-            description: tagData.description,
-            type: tagData.type,
-            data_type: tagData.data_type,
-            address: tagData.address,
-            default_value: tagData.default_value,
-            vendor: tagData.vendor,
-            scope: tagData.scope,
-            tag_type: tagData.tag_type,
-            is_ai_generated: tagData.is_ai_generated,
-            updated_at: new Date().toISOString()
-          });
-      } else {
-        // Create new tag
-        await db('tags').insert({
-          ...tagData,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-      }
-    } catch (error) {
-      console.error(`Error upserting tag ${tagData.name}:`, error);
-      throw error;
-    }
+/**
+ * Parse and validate a Beckhoff CSV variable list without touching the database
+ */
+export function parseBeckhoffCsvTags(buffer: Buffer, projectId: number, userId: string): ParsedTagImport {
+  const rows = parseBeckhoffCsvBuffer(buffer);
+  if (!rows || rows.length === 0) {
+    throw new Error('No rows parsed from Beckhoff CSV file');
   }
+
+  return validateBeckhoffRows(rows, projectId, userId);
 }
 
 /**
- * importBeckhoffCsv
- * - buffer: Buffer of Beckhoff CSV file upload
- * - projectId: number
- * - userId: string
- *
- * Returns: { success: true, inserted: N } or detailed errors
+ * Validate canonical Beckhoff rows (name, data_type, address, comment, ...) from any tabular source
  */
-export async function importBeckhoffCsv(buffer: Buffer, projectId: number, userId: string): Promise<ImportResult> {
-  try {
-    const rows = parseBeckhoffCsvBuffer(buffer);
-    if (!rows || rows.length === 0) {
-      throw new Error('No rows parsed from Beckhoff CSV file');
-    }
+export function validateBeckhoffRows(rows: ParsedRow[], projectId: number, userId: string): ParsedTagImport {
+  const result: ParsedTagImport = { tags: [], errors: [] };
 
-    const validTags: CreateTagData[] = [];
-    const errors: Array<{ row: number; errors: string[]; raw: any }> = [];
-
-    for (let i = 0; i < rows.length; i++) {
-      const r = rows[i];
-      const { errors: rowErrors, mapped } = validateAndMapBeckhoffRow(r);
-      
-      if (rowErrors.length) {
-        errors.push({ row: i + 1, errors: rowErrors, raw: r });
-        continue;
-      }
+  for (let i = 0; i < rows.length; i++) {
+    const r = rows[i];
+    const { errors: rowErrors, mapped } = validateAndMapBeckhoffRow(r);
+    
+    if (rowErrors.length) {
+      result.errors.push({ row: i + 1, errors: rowErrors, raw: r });
+      continue;
+    }
 
-      if (!mapped.name || !mapped.standardType || !mapped.dataType) {
-        errors.push({ row: i + 1, errors: ['Missing required fields after validation'], raw: r });
-        continue;
-      }
+    if (!mapped.name || !mapped.standardType || !mapped.dataType) {
+      result.errors.push({ row: i + 1, errors: ['Missing required fields after validation'], raw: r });
+      continue;
+    }
 
-      // Determine tag_type based on address or default to memory
-      let tagType: 'input' | 'output' | 'memory' | 'temp' | 'constant' = 'memory';
-      if (mapped.address) {
-        if (mapped.address.match(/^%I/i)) {
-          tagType = 'input';
-        } else if (mapped.address.match(/^%Q/i)) {
-          tagType = 'output';
-        }
+    // Determine tag_type based on address or default to memory
+    let tagType: 'input' | 'output' | 'memory' | 'temp' | 'constant' = 'memory';
+    if (mapped.address) {
+      if (mapped.address.match(/^%I/i)) {
+        tagType = 'input';
+      } else if (mapped.address.match(/^%Q/i)) {
+        tagType = 'output';
       }
-
-      const tag: CreateTagData = {
-        project_id: projectId,
-        user_id: userId,
-        name: mapped.name,
-        description: mapped.comment,
-        type: mapped.standardType,
-        data_type: mapped.dataType,
-        address: mapped.address || '',
-        default_value: mapped.defaultValue || undefined,
-        vendor: 'beckhoff',
-        scope: mapped.scope,
-        tag_type: tagType,
-        is_ai_generated: false
-      };
-
-      validTags.push(tag);
     }
 
-    if (errors.length) {
-      return { success: false, errors, processed: validTags.length };
+    const tag: CreateTagData = {
+      project_id: projectId,
+      user_id: userId,
+      name: mapped.name,
+      description: mapped.comment,
+      type: mapped.standardType,
+      data_type: mapped.dataType,
+      address: mapped.address || '',
+      default_value: mapped.defaultValue || undefined,
+      vendor: 'beckhoff',
+      scope: mapped.scope,
+      tag_type: tagType,
+      is_ai_generated: false
+    };
+
+    // Units, scaling and alarm limits travel in the comment
+    const engineeringErrors = applyEngineeringComment(tag);
+    if (engineeringErrors.length > 0) {
+      result.errors.push({ row: i + 1, errors: engineeringErrors, raw: r });
+      continue;
     }
 
-    await upsertTagsInDB(projectId, userId, validTags);
-    return { success: true, inserted: validTags.length };
-  } catch (error) {
-    throw new Error(`Failed to import Beckhoff CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    result.tags.push(tag);
   }
+
+  return result;
 }
 
 // --- Export Beckhoff CSV ---
@@ -392,7 +345,7 @@ export async function exportBeckhoffCsv(projectId: number, outStream: Writable,
         Name: tag.name,
         DataType: tag.data_type || '',
         Address: tag.address || '',
-        Comment: tag.description || '',
+        Comment: formatEngineeringComment(tag.description, tag),
         InitialValue: tag.default_value || '',
         Scope: tag.scope || 'Global',
         AccessMode: '' // Not stored in our current schema
@@ -406,92 +359,124 @@ export async function exportBeckhoffCsv(projectId: number, outStream: Writable,
   }
 }
 
-// --- Beckhoff XML Import (e.g. TwinCAT ADS XML format) ---
-// This is a simplified parser assuming tags under <Variables><Variable>...</Variable></Variables>
-// Extend as needed to support more TwinCAT XML features
-export async function importBeckhoffXml(buffer: Buffer, projectId: number, userId: string): Promise<ImportResult> {
-  try {
-    const xmlStr = buffer.toString('utf8');
-    const parser = new xml2js.Parser({ explicitArray: false, mergeAttrs: true });
-    
-    let parsedXml: any;
-    try {
-      parsedXml = await parser.parseStringPromise(xmlStr);
-    } catch (err) {
-      throw new Error('Failed to parse Beckhoff XML: ' + (err instanceof Error ? err.message : 'Unknown error'));
-    }
+function asArray<T>(node: T | T[] | undefined): T[] {
+  if (node === undefined || node === null) return [];
+  return Array.isArray(node) ? node : [node];
+}
 
-    const variablesNode = parsedXml?.Variables?.Variable;
-    if (!variablesNode) {
-      throw new Error('No Variables found in Beckhoff XML');
+/**
+ * STRUCT DUTs from our export (Variables > DataTypes > DataType with an ST Declaration or Members)
+ * or a TwinCAT .TcDUT file (TcPlcObject > DUT > Declaration).
+ */
+function extractBeckhoffDataTypes(parsedXml: any): UdtDefinition[] {
+  const definitions: UdtDefinition[] = [];
+  const nodes = [
+    ...asArray<any>(parsedXml?.Variables?.DataTypes?.DataType),
+    ...asArray<any>(parsedXml?.TcPlcObject?.DUT)
+  ];
+
+  for (const node of nodes) {
+    const declaration = typeof node?.Declaration === 'string' ? node.Declaration : node?.Declaration?._;
+    if (declaration) {
+      for (const def of parseStructDeclarations(declaration)) {
+        definitions.push({ ...def, description: node.Comment || '', vendor: 'beckhoff' });
+      }
+    } else if (node?.Members) {
+      definitions.push(normalizeUdtDefinition({
+        name: node.Name,
+        description: node.Comment,
+        vendor: 'beckhoff',
+        members: asArray<any>(node.Members.Member).map(m => ({
+          name: m.Name,
+          data_type: m.DataType || m.Type,
+          description: m.Comment,
+          default_value: m.DefaultValue
+        }))
+      }));
     }
+  }
 
-    const varsArray = Array.isArray(variablesNode) ? variablesNode : [variablesNode];
-    const validTags: CreateTagData[] = [];
-    const errors: Array<{ row: number; errors: string[]; raw: any }> = [];
-
-    for (let i = 0; i < varsArray.length; i++) {
-      const v = varsArray[i];
-      const name = v.Name || null;
-      const dataTypeRaw = v.DataType || v.Type || null;
-      const comment = v.Comment || '';
-      const address = v.PhysicalAddress || null;
-      const scope = 'global'; // Beckhoff XML often doesn't specify scope explicitly
-
-      if (!name) {
-        errors.push({ row: i + 1, errors: ['Missing variable name'], raw: v });
-        continue;
-      }
+  return definitions;
+}
 
-      // Handle missing data type with default
-      const finalDataType = dataTypeRaw || 'BOOL';
-      if (!dataTypeRaw) {
-        console.log(`⚠️ Missing data type for tag '${name}' in XML, using default: ${finalDataType}`);
-      }
+/**
+ * Parse and validate a Beckhoff XML variable list without touching the database
+ */
+export async function parseBeckhoffXmlTags(buffer: Buffer, projectId: number, userId: string): Promise<ParsedTagImport> {
+  const xmlStr = buffer.toString('utf8');
+  const parser = new xml2js.Parser({ explicitArray: false, mergeAttrs: true });
+  
+  let parsedXml: any;
+  try {
+    parsedXml = await parser.parseStringPromise(xmlStr);
+  } catch (err) {
+    throw new Error('Failed to parse Beckhoff XML: ' + (err instanceof Error ? err.message : 'Unknown error'));
+  }
 
-      const raw = finalDataType.toString().trim();
-      const key = raw.toLowerCase().replace(/\s+/g, '_');
-      const canonical = DATA_TYPE_NORMALIZE[key] || raw.toUpperCase();
-
-      // Accept any Beckhoff data type. If known, map to a standard type, otherwise fallback to DINT
-      const standardType = BECKHOFF_TO_STANDARD_TYPE[canonical] || 'DINT';
-      const dtNorm = canonical;
-
-      // Determine tag_type based on address or default to memory
-      let tagType: 'input' | 'output' | 'memory' | 'temp' | 'constant' = 'memory';
-      if (address) {
-        if (address.match(/^%I/i)) {
-          tagType = 'input';
-        } else if (address.match(/^%Q/i)) {
-          tagType = 'output';
-        }
-      }
+  const varsArray = asArray<any>(parsedXml?.Variables?.Variable);
+  const dataTypes = extractBeckhoffDataTypes(parsedXml);
+  if (varsArray.length === 0 && dataTypes.length === 0) {
+    throw new Error('No Variables found in Beckhoff XML');
+  }
 
-      validTags.push({
-        project_id: projectId,
-        user_id: userId,
-        name,
-        description: comment,
-        type: standardType,
-        data_type: dtNorm,
-        address: address || '',
-        default_value: undefined,
-        vendor: 'beckhoff',
-        scope: scope as 'global' | 'local' | 'input' | 'output',
-        tag_type: tagType,
-        is_ai_generated: false
-      });
+  const result: ParsedTagImport = { tags: [], errors: [], dataTypes };
+
+  for (let i = 0; i < varsArray.length; i++) {
+    const v = varsArray[i];
+    const name = v.Name || null;
+    const dataTypeRaw = v.DataType || v.Type || null;
+    const comment = v.Comment || '';
+    const address = v.PhysicalAddress || null;
+    const scope = 'global'; // Beckhoff XML often doesn't specify scope explicitly
+
+    if (!name) {
+      result.errors.push({ row: i + 1, errors: ['Missing variable name'], raw: v });
+      continue;
     }
 
-    if (errors.length) {
-      return { success: false, errors, processed: validTags.length };
+    // Handle missing data type with default
+    const finalDataType = dataTypeRaw || 'BOOL';
+    if (!dataTypeRaw) {
+      console.log(`⚠️ Missing data type for tag '${name}' in XML, using default: ${finalDataType}`);
     }
 
-    await upsertTagsInDB(projectId, userId, validTags);
-    return { success: true, inserted: validTags.length };
-  } catch (error) {
-    throw new Error(`Failed to import Beckhoff XML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const raw = finalDataType.toString().trim();
+    const key = raw.toLowerCase().replace(/\s+/g, '_');
+    // Arrays and DUT names keep their declared spelling
+    const composite = DATA_TYPE_NORMALIZE[key] ? null : compositeTypeCategory(raw);
+    const canonical = DATA_TYPE_NORMALIZE[key] || (composite ? normalizeDataTypeName(raw) : raw.toUpperCase());
+
+    // Accept any Beckhoff data type. If known, map to a standard type, otherwise fallback to DINT
+    const standardType = composite || BECKHOFF_TO_STANDARD_TYPE[canonical] || 'DINT';
+    const dtNorm = canonical;
+
+    // Determine tag_type based on address or default to memory
+    let tagType: 'input' | 'output' | 'memory' | 'temp' | 'constant' = 'memory';
+    if (address) {
+      if (address.match(/^%I/i)) {
+        tagType = 'input';
+      } else if (address.match(/^%Q/i)) {
+        tagType = 'output';
+      }
+    }
+
+    result.tags.push({
+      project_id: projectId,
+      user_id: userId,
+      name,
+      description: comment,
+      type: standardType,
+      data_type: dtNorm,
+      address: address || '',
+      default_value: undefined,
+      vendor: 'beckhoff',
+      scope: scope as 'global' | 'local' | 'input' | 'output',
+      tag_type: tagType,
+      is_ai_generated: false
+    });
   }
+
+  return result;
 }
 
 // --- Beckhoff XML Export (simplified) ---
@@ -504,6 +489,18 @@ export async function exportBeckhoffXml(projectId: number, outStream: Writable):
 
     const root = xmlbuilder.create('Variables', { encoding: 'utf-8' });
 
+    // DUTs as ST declarations, the form TwinCAT shows them in
+    const dataTypes = await loadProjectUdts(projectId);
+    if (dataTypes.length > 0) {
+      const typesNode = root.ele('DataTypes');
+      for (const def of dataTypes) {
+        const typeNode = typesNode.ele('DataType');
+        typeNode.ele('Name', {}, def.name);
+        if (def.description) typeNode.ele('Comment', {}, def.description);
+        typeNode.ele('Declaration').dat(formatStructDeclaration(def));
+      }
+    }
+
     for (const tag of tags) {
       const varNode = root.ele('Variable');
       varNode.ele('Name', {}, tag.name);
@@ -522,6 +519,32 @@ export async function exportBeckhoffXml(projectId: number, outStream: Writable):
   }
 }
 
+// --- XLSX Import ---
+
+/**
+ * Parse and validate a Beckhoff XLSX variable list (our export or one sheet per GVL / POU) without touching the database
+ */
+export function parseBeckhoffXlsxTags(buffer: Buffer, projectId: number, userId: string): ParsedTagImport {
+  const workbook = readXlsxWorkbook(buffer, 'Beckhoff');
+  const rows = readXlsxTagSheets<ParsedRow>(workbook, {
+    headerMap: HEADER_MAP as Record<string, keyof ParsedRow>,
+    nameField: 'name',
+    scopeField: 'scope',
+    defaultSheetNames: ['Beckhoff Tags']
+  });
+  if (rows.length === 0) {
+    throw new Error('No variables found in Beckhoff XLSX');
+  }
+
+  return locateXlsxErrors(validateBeckhoffRows(rows.map(r => r.values), projectId, userId), rows, {
+    name: 'name',
+    dataType: 'data_type',
+    address: 'address',
+    defaultValue: 'default_value',
+    comment: 'comment'
+  });
+}
+
 // --- XLSX Export Function ---
 export async function exportBeckhoffXlsx(projectId: number, outStream: Writable): Promise<boolean> {
   try {
@@ -560,7 +583,7 @@ export async function exportBeckhoffXlsx(projectId: number, outStream: Writable)
         tag.data_type || tag.type || '',
         tag.address || '',
         tag.default_value || '',
-        tag.description || '',
+        formatEngineeringComment(tag.description, tag),
         tag.scope || 'global'
       ]);
     }
@@ -608,6 +631,5 @@ export async function exportBeckhoffXlsx(projectId: number, outStream: Writable)
 // Export helper functions for unit tests if needed
 export {
   parseBeckhoffCsvBuffer,
-  validateAndMapBeckhoffRow,
-  upsertTagsInDB
+  validateAndMapBeckhoffRow
 };
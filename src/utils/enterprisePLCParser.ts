@@ -51,9 +51,18 @@ export function detectVendor(filePath: string, fileContent?: Buffer): string {
   // File extension based detection
   if (extension === '.ap11' || extension === '.ap16') return 'Siemens';
   if (extension === '.acd' || extension === '.l5x') return 'Rockwell';
-  if (extension === '.tsproj' || extension === '.plcproj') return 'Beckhoff';
+  if (extension === '.tsproj' || extension === '.plcproj' || extension === '.tnzip') return 'Beckhoff';
+  if (extension === '.tcpou' || extension === '.tcgvl' || extension === '.tcdut') return 'Beckhoff';
   if (extension === '.st' || extension === '.scl') return 'Generic';
   
+  // Zipped TwinCAT solutions: entry names are stored uncompressed in the archive directory
+  if (extension === '.zip' && fileContent) {
+    const contentStr = fileContent.toString('latin1');
+    if (/\.(tsproj|plcproj|TcPOU|TcGVL)\b/i.test(contentStr)) {
+      return 'Beckhoff';
+    }
+  }
+
   // Content-based detection for XML files
   if (extension === '.xml' && fileContent) {
     const contentStr = fileContent.toString('utf-8');
@@ -141,12 +150,12 @@ async function parseSiemensXML(xmlContent: string, output: StandardPLCOutput): P
       const vars = findNodes(db, 'SW.Blocks.GlobalDB.Var') || [];
       for (const varNode of vars) {
         output.tags.push({
-          TagName: varNode.Name || varNode.$.Name || '',
-          DataType: varNode.DataType || varNode.$.DataType || '',
+          TagName: varNode.Name || varNode.$?.Name || '',
+          DataType: varNode.DataType || varNode.$?.DataType || '',
           Scope: 'Global',
-          Address: varNode.Address || varNode.$.Address || '',
-          Direction: determineDirection(varNode.Address || varNode.$.Address || ''),
-          Description: varNode.Comment || varNode.$.Comment || ''
+          Address: varNode.Address || varNode.$?.Address || '',
+          Direction: determineDirection(varNode.Address || varNode.$?.Address || ''),
+          Description: varNode.Comment || varNode.$?.Comment || ''
         });
       }
     }
@@ -155,9 +164,9 @@ async function parseSiemensXML(xmlContent: string, output: StandardPLCOutput): P
     const functionBlocks = findNodes(result, 'SW.Blocks.FB');
     for (const fb of functionBlocks) {
       output.routines.push({
-        Name: fb.Name || fb.$.Name || '',
+        Name: fb.Name || fb.$?.Name || '',
         Type: 'FB',
-        Program: fb.Program || fb.$.Program || '',
+        Program: fb.Program || fb.$?.Program || '',
         Code: extractSTCode(fb),
         File: ''
       });
@@ -167,17 +176,17 @@ async function parseSiemensXML(xmlContent: string, output: StandardPLCOutput): P
       for (const iface of interfaces) {
         const sections = findNodes(iface, 'Section') || [];
         for (const section of sections) {
-          const sectionName = section.Name || section.$.Name || '';
+          const sectionName = section.Name || section.$?.Name || '';
           const members = findNodes(section, 'Member') || [];
           
           for (const member of members) {
             output.tags.push({
-              TagName: member.Name || member.$.Name || '',
-              DataType: member.Datatype || member.$.Datatype || '',
+              TagName: member.Name || member.$?.Name || '',
+              DataType: member.Datatype || member.$?.Datatype || '',
               Scope: sectionName,
               Address: '',
               Direction: mapSectionToDirection(sectionName),
-              Description: member.Comment || member.$.Comment || ''
+              Description: member.Comment || member.$?.Comment || ''
             });
           }
         }
@@ -210,25 +219,25 @@ export async function parseRockwellProject(filePath: string, fileBuffer: Buffer)
     const controllerTags = findNodes(result, 'Tag');
     for (const tag of controllerTags) {
       output.tags.push({
-        TagName: tag.Name || tag.$.Name || '',
-        DataType: tag.DataType || tag.$.DataType || '',
+        TagName: tag.Name || tag.$?.Name || '',
+        DataType: tag.DataType || tag.$?.DataType || '',
         Scope: 'Controller',
-        Address: tag.Address || tag.$.Address || '',
+        Address: tag.Address || tag.$?.Address || '',
         Direction: 'Internal',
-        Description: tag.Description || tag.$.Description || ''
+        Description: tag.Description || tag.$?.Description || ''
       });
     }
     
     // Parse Programs and Routines
     const programs = findNodes(result, 'Program');
     for (const program of programs) {
-      const programName = program.Name || program.$.Name || '';
+      const programName = program.Name || program.$?.Name || '';
       const routines = findNodes(program, 'Routine') || [];
       
       for (const routine of routines) {
         output.routines.push({
-          Name: routine.Name || routine.$.Name || '',
-          Type: routine.Type || routine.$.Type || 'Routine',
+          Name: routine.Name || routine.$?.Name || '',
+          Type: routine.Type || routine.$?.Type || 'Routine',
           Program: programName,
           Code: extractRockwellCode(routine),
           File: ''
@@ -240,7 +249,7 @@ export async function parseRockwellProject(filePath: string, fileBuffer: Buffer)
     const aois = findNodes(result, 'AddOnInstruction');
     for (const aoi of aois) {
       output.routines.push({
-        Name: aoi.Name || aoi.$.Name || '',
+        Name: aoi.Name || aoi.$?.Name || '',
         Type: 'AOI',
         Program: '',
         Code: extractRockwellCode(aoi),
@@ -251,12 +260,12 @@ export async function parseRockwellProject(filePath: string, fileBuffer: Buffer)
       const parameters = findNodes(aoi, 'Parameter') || [];
       for (const param of parameters) {
         output.tags.push({
-          TagName: param.Name || param.$.Name || '',
-          DataType: param.DataType || param.$.DataType || '',
+          TagName: param.Name || param.$?.Name || '',
+          DataType: param.DataType || param.$?.DataType || '',
           Scope: 'AOI',
           Address: '',
-          Direction: mapUsageToDirection(param.Usage || param.$.Usage || ''),
-          Description: param.Description || param.$.Description || ''
+          Direction: mapUsageToDirection(param.Usage || param.$?.Usage || ''),
+          Description: param.Description || param.$?.Description || ''
         });
       }
     }
@@ -288,47 +297,96 @@ export async function parseBeckhoffProject(filePath: string, fileBuffer: Buffer)
   };
 
   try {
-    const xmlContent = fileBuffer.toString('utf-8');
-    const parser = new xml2js.Parser({ explicitArray: false, mergeAttrs: true });
+    let fileCount = 1;
+
+    // Handle TwinCAT archives (.tnzip, zipped solution folders)
+    if (/\.(tnzip|zip)$/i.test(filePath)) {
+      const zip = new JSZip();
+      const zipData = await zip.loadAsync(fileBuffer);
+      fileCount = 0;
+
+      for (const [fileName, file] of Object.entries(zipData.files)) {
+        if (!file.dir && /\.(TcPOU|TcGVL|TcDUT)$/i.test(fileName)) {
+          await parseBeckhoffXML(await file.async('text'), output, path.basename(fileName));
+          fileCount++;
+        }
+      }
+    } else {
+      await parseBeckhoffXML(fileBuffer.toString('utf-8'), output, path.basename(filePath));
+    }
+    
+    output.metadata = {
+      file_count: fileCount,
+      total_size: fileBuffer.length,
+      plc_type: 'Beckhoff TwinCAT',
+      software_version: 'TwinCAT 3'
+    };
+    
+  } catch (error) {
+    console.error('[ERROR] Beckhoff parsing failed:', error);
+  }
+
+  return output;
+}
+
+async function parseBeckhoffXML(xmlContent: string, output: StandardPLCOutput, fileName: string): Promise<void> {
+  const parser = new xml2js.Parser({ explicitArray: false, mergeAttrs: true });
+
+  try {
     const result = await parser.parseStringPromise(xmlContent);
     
     // Parse Global Variables
     const globalVars = findNodes(result, 'Variable');
     for (const variable of globalVars) {
       output.tags.push({
-        TagName: variable.Name || variable.$.Name || '',
-        DataType: variable.Type || variable.$.Type || '',
-        Scope: variable.Scope || variable.$.Scope || 'Global',
-        Address: variable.Address || variable.$.Address || '',
-        Direction: determineDirection(variable.Address || variable.$.Address || ''),
-        Description: variable.Comment || variable.$.Comment || ''
+        TagName: variable.Name || variable.$?.Name || '',
+        DataType: variable.Type || variable.$?.Type || '',
+        Scope: variable.Scope || variable.$?.Scope || 'Global',
+        Address: variable.Address || variable.$?.Address || '',
+        Direction: determineDirection(variable.Address || variable.$?.Address || ''),
+        Description: variable.Comment || variable.$?.Comment || ''
       });
     }
+
+    // Parse global variable lists (.TcGVL)
+    const gvls = findNodes(result, 'GVL');
+    for (const gvl of gvls) {
+      for (const variable of parseGlobalVarDeclarations(textOf(gvl.Declaration))) {
+        output.tags.push({
+          ...variable,
+          Scope: 'Global',
+          Direction: determineDirection(variable.Address)
+        });
+      }
+    }
     
     // Parse POUs (Program Organization Units)
     const pous = findNodes(result, 'POU');
     for (const pou of pous) {
       output.routines.push({
-        Name: pou.Name || pou.$.Name || '',
-        Type: pou.Type || pou.$.Type || 'POU',
+        Name: pou.Name || pou.$?.Name || '',
+        Type: pou.Type || pou.$?.Type || pouTypeOf(textOf(pou.Declaration)) || 'POU',
         Program: '',
         Code: extractBeckhoffCode(pou),
-        File: ''
+        File: fileName
+      });
+    }
+
+    // Parse data types (.TcDUT); the declaration is kept as the routine code
+    const duts = findNodes(result, 'DUT');
+    for (const dut of duts) {
+      output.routines.push({
+        Name: dut.Name || dut.$?.Name || '',
+        Type: 'DUT',
+        Program: '',
+        Code: textOf(dut.Declaration).trim(),
+        File: fileName
       });
     }
-    
-    output.metadata = {
-      file_count: 1,
-      total_size: fileBuffer.length,
-      plc_type: 'Beckhoff TwinCAT',
-      software_version: 'TwinCAT 3'
-    };
     
   } catch (error) {
-    console.error('[ERROR] Beckhoff parsing failed:', error);
+    console.error('Error parsing Beckhoff XML:', error);
   }
-
-  return output;
 }
 
 // ------------------------------
@@ -487,7 +545,7 @@ function extractRockwellCode(node: any): string {
   const rllContent = findNodes(node, 'RLLContent')[0];
   if (rllContent) {
     const rungs = findNodes(rllContent, 'Rung') || [];
-    return rungs.map((rung: any) => rung.Text || rung.$.Text || '').join('\n');
+    return rungs.map((rung: any) => rung.Text || rung.$?.Text || '').join('\n');
   }
   
   return '';
@@ -495,11 +553,46 @@ function extractRockwellCode(node: any): string {
 
 function extractBeckhoffCode(node: any): string {
   const implementation = findNodes(node, 'Implementation')[0];
-  if (implementation) {
-    const st = findNodes(implementation, 'ST')[0];
-    return typeof st === 'string' ? st : st._ || '';
+  const st = implementation ? findNodes(implementation, 'ST')[0] : undefined;
+  const body = textOf(st);
+
+  // TcPOU files split the header and VAR blocks (Declaration) from the body; join them into one POU
+  const declaration = textOf(node.Declaration).trim();
+  const pouType = pouTypeOf(declaration);
+  if (declaration && pouType) {
+    return `${declaration}\n${body.trim()}\nEND_${pouType}`;
   }
-  return '';
+  return body;
+}
+
+function textOf(node: any): string {
+  if (node === undefined || node === null) return '';
+  return typeof node === 'string' ? node : node._ || '';
+}
+
+function pouTypeOf(declaration: string): string {
+  const match = declaration.match(/^\s*(?:\{[^}]*\}\s*)*(PROGRAM|FUNCTION_BLOCK|FUNCTION)\b/i);
+  return match ? match[1].toUpperCase() : '';
+}
+
+// name [AT %addr] : type [:= init]; [// comment] inside VAR_GLOBAL blocks
+function parseGlobalVarDeclarations(declaration: string): Array<Pick<PLCTag, 'TagName' | 'DataType' | 'Address' | 'Description'>> {
+  const variables: Array<Pick<PLCTag, 'TagName' | 'DataType' | 'Address' | 'Description'>> = [];
+  const pattern = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:AT\s+(%\S+)\s*)?:\s*([^:;]+?)\s*(?::=[^;]*)?;\s*(?:\/\/\s*(.*)|\(\*\s*(.*?)\s*\*\))?\s*$/i;
+
+  for (const line of declaration.split(/\r?\n/)) {
+    const match = line.match(pattern);
+    if (match) {
+      variables.push({
+        TagName: match[1],
+        DataType: match[3],
+        Address: match[2] || '',
+        Description: (match[4] || match[5] || '').trim()
+      });
+    }
+  }
+
+  return variables;
 }
 
 function determineDirection(address: string): 'Input' | 'Output' | 'Internal' {
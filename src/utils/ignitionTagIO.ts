@@ -0,0 +1,236 @@
+// ignitionTagIO.ts
+// Ignition (Inductive Automation) tag JSON export for Pandaura AS: project UDTs as UDT definitions
+// in _types_, one folder per scope with OPC tags addressed through an Ignition device connection,
+// plus scaling, engineering units and alarm limits. Import it in the Designer's Tag Browser.
+
+import { Writable } from 'stream';
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { TagEngineeringFields } from '../db/tables/tags';
+import { ALARM_LEVELS, AlarmLevel } from './tagEngineering';
+import { expandDataType, loadProjectUdts, parseArrayType, TypeMemberNode, UdtDefinition } from './udt';
+import { plcTagSymbol } from './vendorFormatters';
+
+export interface IgnitionExportOptions {
+  // Ignition device connection the PLC is configured as
+  connection?: string;
+  opcServer?: string;
+}
+
+const DEFAULT_CONNECTION = 'PLC';
+const DEFAULT_OPC_SERVER = 'Ignition OPC UA Server';
+
+// IEC elementary types -> Ignition tag data types
+const IGNITION_DATA_TYPES: Record<string, string> = {
+  BOOL: 'Boolean',
+  SINT: 'Int1', USINT: 'Int1', BYTE: 'Int1', CHAR: 'Int1',
+  INT: 'Int2', UINT: 'Int4', WORD: 'Int4',
+  DINT: 'Int4', UDINT: 'Int8', DWORD: 'Int8',
+  LINT: 'Int8', ULINT: 'Int8', LWORD: 'Int8',
+  REAL: 'Float4', LREAL: 'Float8',
+  STRING: 'String', WSTRING: 'String',
+  TIME: 'Int4', LTIME: 'Int8', TIME_OF_DAY: 'Int4', TOD: 'Int4',
+  DATE: 'DateTime', DATE_AND_TIME: 'DateTime', DT: 'DateTime'
+};
+
+// Ignition S7 driver item syntax per data type: DB1,REAL4 / MW10 / IX0.0
+const S7_ITEM_TYPES: Record<string, string> = {
+  BOOL: 'X', BYTE: 'B', USINT: 'B', SINT: 'B', CHAR: 'C',
+  WORD: 'W', UINT: 'W', INT: 'I',
+  DWORD: 'D', UDINT: 'D', DINT: 'DI', REAL: 'REAL'
+};
+
+/** Ignition data type of a tag data type; arrays map to the ...Array types, unknown types to String */
+export function ignitionDataType(dataType: string | null | undefined): string {
+  const array = parseArrayType(dataType || '');
+  const base = (array ? array.baseType : dataType || '').trim().toUpperCase().replace(/^(W?STRING)\s*[\[(]\s*\d+\s*[\])]$/, '$1');
+  const type = IGNITION_DATA_TYPES[base] || 'String';
+  return array ? `${type}Array` : type;
+}
+
+// Siemens absolute address in Ignition S7 syntax, or null when it has no driver equivalent
+function s7ItemPath(address: string, dataType: string): string | null {
+  const type = S7_ITEM_TYPES[dataType.toUpperCase()];
+  if (!type) return null;
+
+  const dataBlock = address.match(/^DB(\d+)\.DB[XBWD](\d+)(?:\.([0-7]))?$/i);
+  if (dataBlock) {
+    const [, num, byte, bit] = dataBlock;
+    return `DB${num},${type}${byte}${bit !== undefined ? `.${bit}` : ''}`;
+  }
+  const area = address.match(/^%?([IQM])[BWD]?(\d+)(?:\.([0-7]))?$/i);
+  if (area) {
+    const [, letter, byte, bit] = area;
+    return `${letter.toUpperCase()}${type}${byte}${bit !== undefined ? `.${bit}` : ''}`;
+  }
+  return null;
+}
+
+function opcItemPath(tag: any, connection: string): string {
+  const dataType = tag.data_type || tag.type || '';
+  const item = (tag.vendor || '').toLowerCase() === 'siemens' && tag.address
+    ? s7ItemPath(tag.address.trim(), dataType) || plcTagSymbol(tag)
+    : plcTagSymbol(tag);
+  return `ns=1;s=[${connection}]${item}`;
+}
+
+function isSet(value: number | null | undefined): value is number {
+  return value !== null && value !== undefined;
+}
+
+// Tag priorities follow OPC UA severity (1-1000); Ignition has five named priorities
+function ignitionPriority(level: AlarmLevel, priority: number | null | undefined): string {
+  if (!isSet(priority)) return level === 'hh' || level === 'll' ? 'High' : 'Medium';
+  if (priority > 800) return 'Critical';
+  if (priority > 600) return 'High';
+  if (priority > 400) return 'Medium';
+  if (priority > 200) return 'Low';
+  return 'Diagnostic';
+}
+
+// Scaling, engineering range and alarms of an atomic tag
+function engineeringProperties(tag: TagEngineeringFields): Record<string, any> {
+  const props: Record<string, any> = {};
+  if (tag.engineering_unit) props.engUnit = tag.engineering_unit;
+  if (isSet(tag.eng_min) && isSet(tag.eng_max)) {
+    props.engLow = tag.eng_min;
+    props.engHigh = tag.eng_max;
+  }
+  if (isSet(tag.raw_min) && isSet(tag.raw_max) && isSet(tag.eng_min) && isSet(tag.eng_max)) {
+    Object.assign(props, { scaleMode: 'Linear', rawLow: tag.raw_min, rawHigh: tag.raw_max, scaledLow: tag.eng_min, scaledHigh: tag.eng_max });
+  }
+  if (isSet(tag.clamp_min) || isSet(tag.clamp_max)) {
+    // Ignition clamps to the engineering range, so the clamp limits become that range
+    props.clampMode = isSet(tag.clamp_min) && isSet(tag.clamp_max) ? 'Clamp_Both' : isSet(tag.clamp_min) ? 'Clamp_Low' : 'Clamp_High';
+    if (isSet(tag.clamp_min)) props.engLow = tag.clamp_min;
+    if (isSet(tag.clamp_max)) props.engHigh = tag.clamp_max;
+  }
+
+  const field = (name: string) => tag[name as keyof TagEngineeringFields] as number | null | undefined;
+  const alarms = ALARM_LEVELS
+    .filter(level => isSet(field(`alarm_${level}`)))
+    .map(level => {
+      const alarm: Record<string, any> = {
+        name: level.toUpperCase(),
+        mode: level.startsWith('h') ? 'AboveValue' : 'BelowValue',
+        setpointA: field(`alarm_${level}`),
+        priority: ignitionPriority(level, field(`alarm_${level}_priority`))
+      };
+      const deadband = field(`alarm_${level}_deadband`);
+      if (isSet(deadband)) alarm.deadband = deadband;
+      return alarm;
+    });
+  if (alarms.length > 0) props.alarms = alarms;
+  return props;
+}
+
+function isStructured(node: TypeMemberNode): boolean {
+  return node.kind === 'struct' && !node.truncated;
+}
+
+// UDT definition: members are OPC tags relative to the instance's {BasePath} parameter
+function udtDefinition(def: UdtDefinition, definitions: UdtDefinition[]): Record<string, any> {
+  const tree = expandDataType(def.name, def.name, definitions);
+  const tags = (tree.members || []).map(member => {
+    if (isStructured(member)) {
+      return {
+        name: member.name,
+        tagType: 'UdtInstance',
+        typeId: member.data_type,
+        parameters: { BasePath: { dataType: 'String', value: { bindType: 'parameter', binding: `{BasePath}.${member.name}` } } }
+      };
+    }
+    const tag: Record<string, any> = {
+      name: member.name,
+      tagType: 'AtomicTag',
+      valueSource: 'opc',
+      dataType: ignitionDataType(member.data_type),
+      opcServer: { bindType: 'parameter', binding: '{OpcServer}' },
+      opcItemPath: { bindType: 'parameter', binding: `ns=1;s=[{Connection}]{BasePath}.${member.name}` }
+    };
+    if (member.description) tag.documentation = member.description;
+    return tag;
+  });
+
+  const udt: Record<string, any> = {
+    name: def.name,
+    tagType: 'UdtType',
+    parameters: {
+      Connection: { dataType: 'String', value: DEFAULT_CONNECTION },
+      OpcServer: { dataType: 'String', value: DEFAULT_OPC_SERVER },
+      BasePath: { dataType: 'String', value: '' }
+    },
+    tags
+  };
+  if (def.description) udt.documentation = def.description;
+  return udt;
+}
+
+function scopeFolderName(scope: string | null | undefined): string {
+  const name = (scope || '').trim();
+  return !name || name.toLowerCase() === 'global' ? 'Global' : name;
+}
+
+/**
+ * Write the project's tags as an Ignition tag export (JSON)
+ */
+export async function exportIgnitionTags(projectId: number, outStream: Writable, options: IgnitionExportOptions = {}, conn: Knex | Knex.Transaction = db): Promise<boolean> {
+  try {
+    console.log(`🔄 Starting Ignition tag export for project ${projectId}`);
+
+    const connection = options.connection || DEFAULT_CONNECTION;
+    const opcServer = options.opcServer || DEFAULT_OPC_SERVER;
+    const tags = await conn('tags').where({ project_id: projectId }).orderBy(['scope', 'name']);
+    const definitions = await loadProjectUdts(projectId, conn);
+
+    const folders = new Map<string, any[]>();
+    for (const tag of tags) {
+      const folder = scopeFolderName(tag.scope);
+      if (!folders.has(folder)) folders.set(folder, []);
+
+      const dataType = tag.data_type || tag.type || 'BOOL';
+      const tree = expandDataType(tag.name, dataType, definitions);
+      const entry: Record<string, any> = isStructured(tree)
+        ? {
+          name: tag.name,
+          tagType: 'UdtInstance',
+          typeId: tree.data_type,
+          parameters: {
+            Connection: { dataType: 'String', value: connection },
+            OpcServer: { dataType: 'String', value: opcServer },
+            BasePath: { dataType: 'String', value: plcTagSymbol(tag) }
+          }
+        }
+        : {
+          name: tag.name,
+          tagType: 'AtomicTag',
+          valueSource: 'opc',
+          dataType: ignitionDataType(dataType),
+          opcServer,
+          opcItemPath: opcItemPath(tag, connection),
+          ...engineeringProperties(tag)
+        };
+      if (tag.description) entry.documentation = tag.description;
+      // Inputs and constants are read-only in the HMI
+      if (tag.tag_type === 'input' || tag.tag_type === 'constant') entry.readOnly = true;
+      folders.get(folder)!.push(entry);
+    }
+
+    const provider = {
+      name: '',
+      tagType: 'Provider',
+      tags: [
+        { name: '_types_', tagType: 'Folder', tags: definitions.map(def => udtDefinition(def, definitions)) },
+        ...[...folders.entries()].map(([name, folderTags]) => ({ name, tagType: 'Folder', tags: folderTags }))
+      ]
+    };
+
+    outStream.write(JSON.stringify(provider, null, 2));
+    outStream.end();
+
+    console.log(`✅ Successfully exported ${tags.length} tags to Ignition JSON`);
+    return true;
+  } catch (error) {
+    throw new Error(`Failed to export Ignition tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,164 @@
+// logicTests.ts
+// Unit tests for PLC logic: each case drives the ST simulator through a list of steps (force inputs,
+// run scans, let time pass) and checks variable values along the way
+
+import { LogicTest, LogicTestCaseResult, LogicTestStep } from '../db/tables/logic_tests';
+import {
+  createSimulator,
+  isRunBudgetExhausted,
+  SimulationError,
+  STRunBudget,
+  STRuntimeError,
+  STSimulationGlobal,
+  STSimulator
+} from './stInterpreter';
+import { parseDurationMs } from './stSyntax';
+
+export class LogicTestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LogicTestError';
+  }
+}
+
+const MAX_STEPS = 500;
+const MAX_SCANS_PER_CASE = 200000;
+const STEP_ACTIONS = ['force', 'step', 'advance', 'assert'];
+
+/** Project tags (current or from a version snapshot) as simulator globals */
+export function tagsToSimulationGlobals(tags: any[]): STSimulationGlobal[] {
+  return (tags || [])
+    .filter(tag => tag && typeof tag.name === 'string')
+    .map(tag => ({ name: tag.name, dataType: tag.data_type || tag.type, defaultValue: tag.default_value }));
+}
+
+/** Validate the steps of a test case; durations are stored in ms */
+export function normalizeTestSteps(raw: any): LogicTestStep[] {
+  if (!Array.isArray(raw)) {
+    throw new LogicTestError('steps must be an array');
+  }
+  if (raw.length > MAX_STEPS) {
+    throw new LogicTestError(`A test case can have at most ${MAX_STEPS} steps`);
+  }
+
+  return raw.map((step: any, i: number): LogicTestStep => {
+    const where = `Step ${i + 1}`;
+    if (!step || typeof step !== 'object' || !STEP_ACTIONS.includes(step.action)) {
+      throw new LogicTestError(`${where}: action must be one of: ${STEP_ACTIONS.join(', ')}`);
+    }
+
+    switch (step.action) {
+      case 'force':
+        if (!step.values || typeof step.values !== 'object' || Array.isArray(step.values) || Object.keys(step.values).length === 0) {
+          throw new LogicTestError(`${where}: values must map variable paths to values`);
+        }
+        return { action: 'force', values: step.values };
+      case 'step': {
+        const scans = step.scans === undefined ? 1 : step.scans;
+        if (!Number.isInteger(scans) || scans < 1 || scans > MAX_SCANS_PER_CASE) {
+          throw new LogicTestError(`${where}: scans must be a whole number between 1 and ${MAX_SCANS_PER_CASE}`);
+        }
+        return { action: 'step', scans };
+      }
+      case 'advance': {
+        const ms = typeof step.time === 'string'
+          ? parseDurationMs(step.time.trim().replace(/^L?(T|TIME)#/i, ''))
+          : step.ms;
+        if (typeof ms !== 'number' || !Number.isFinite(ms) || ms <= 0) {
+          throw new LogicTestError(`${where}: send ms as a positive number or time as a duration (T#5s)`);
+        }
+        return { action: 'advance', ms };
+      }
+      default: {
+        if (typeof step.path !== 'string' || !step.path.trim()) {
+          throw new LogicTestError(`${where}: path is required`);
+        }
+        if (step.expected === undefined || step.expected === null) {
+          throw new LogicTestError(`${where}: expected is required`);
+        }
+        if (step.tolerance !== undefined && (typeof step.tolerance !== 'number' || step.tolerance < 0)) {
+          throw new LogicTestError(`${where}: tolerance must be a non-negative number`);
+        }
+        const assertion: LogicTestStep = { action: 'assert', path: step.path.trim(), expected: step.expected };
+        if (step.tolerance !== undefined) assertion.tolerance = step.tolerance;
+        if (step.message) assertion.message = String(step.message);
+        return assertion;
+      }
+    }
+  });
+}
+
+/**
+ * Run one test case on a fresh simulator. Assertions are recorded with the scan count at the time
+ * they were checked; a runtime error, an invalid step or running out of the budget shared by the
+ * cases of a run ends the case as failed with an error.
+ */
+export function runLogicTest(code: string, test: LogicTest, globals: STSimulationGlobal[], budget: STRunBudget): LogicTestCaseResult {
+  const result: LogicTestCaseResult = { test_id: test.id, name: test.name, passed: true, assertions: [] };
+  let simulator: STSimulator | undefined;
+  let index = 0;
+  let scans = 0;
+
+  if (isRunBudgetExhausted(budget)) {
+    result.passed = false;
+    result.error = { step: 0, scan: 0, message: 'Not run: the test run used up its statement or time budget' };
+    return result;
+  }
+
+  try {
+    simulator = createSimulator(code, {
+      entry: test.pou || undefined,
+      cycleTimeMs: test.cycle_time_ms || undefined,
+      globals
+    });
+
+    for (; index < test.steps.length; index++) {
+      const step = test.steps[index];
+      switch (step.action) {
+        case 'force':
+          for (const [path, value] of Object.entries(step.values)) {
+            if (value === null) simulator.release(path);
+            else simulator.force(path, value);
+          }
+          break;
+        case 'step':
+        case 'advance': {
+          const count = step.action === 'step' ? step.scans : Math.ceil(step.ms / simulator.cycleTimeMs);
+          scans += count;
+          if (scans > MAX_SCANS_PER_CASE) {
+            throw new SimulationError(`The case runs more than ${MAX_SCANS_PER_CASE} scans`);
+          }
+          simulator.step(count, budget);
+          break;
+        }
+        case 'assert': {
+          const { actual, passed } = simulator.check(step.path, step.expected, step.tolerance);
+          result.assertions.push({
+            step: index + 1,
+            path: step.path,
+            expected: step.expected,
+            actual,
+            passed,
+            scan: simulator.scanCount,
+            time_ms: simulator.timeMs,
+            ...(step.message ? { message: step.message } : {})
+          });
+          if (!passed) result.passed = false;
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof SimulationError || error instanceof STRuntimeError)) throw error;
+    result.passed = false;
+    // A runtime error happens during the scan after the last completed one; before the first step it is a setup error
+    result.error = {
+      step: simulator ? index + 1 : 0,
+      scan: simulator ? simulator.scanCount + (error instanceof STRuntimeError ? 1 : 0) : 0,
+      message: error.message,
+      ...(error instanceof STRuntimeError ? { line: error.line, column: error.column } : {})
+    };
+  }
+
+  return result;
+}
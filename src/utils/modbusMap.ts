@@ -0,0 +1,361 @@
+// modbusMap.ts
+// Modbus register maps of project tags: register widths, append-only address allocation and CSV / XLSX export
+
+import type { Knex } from 'knex';
+import type { Writable } from 'stream';
+import * as XLSX from 'xlsx';
+import db from '../db/knex';
+import { ModbusMap, ModbusMapEntry, ModbusMapSelection, ModbusRegisterType } from '../db/tables';
+import { parseArrayType } from './udt';
+import { applyTagFilters, parseTagQuery } from './tagQuery';
+
+/** Raised for invalid map settings or selections; routes answer with 400 */
+export class ModbusMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModbusMapError';
+  }
+}
+
+export const MODBUS_REGISTER_TYPES: ModbusRegisterType[] = ['coil', 'discrete_input', 'holding_register', 'input_register'];
+
+// Each register type is its own 0..65535 address space
+export const MODBUS_ADDRESS_SPACE = 65536;
+
+// Modicon 5/6-digit reference prefixes (00001 coil, 10001 discrete input, 30001 input register, 40001 holding register)
+const MODICON_PREFIX: Record<ModbusRegisterType, number> = {
+  coil: 0,
+  discrete_input: 1,
+  input_register: 3,
+  holding_register: 4
+};
+
+// 16-bit registers per elementary type
+const REGISTER_WIDTHS: Record<string, number> = {
+  BOOL: 1,
+  SINT: 1, USINT: 1, BYTE: 1, CHAR: 1,
+  INT: 1, UINT: 1, WORD: 1, WCHAR: 1,
+  DINT: 2, UDINT: 2, DWORD: 2, REAL: 2, TIME: 2, TOD: 2, TIME_OF_DAY: 2, DATE: 2,
+  LINT: 4, ULINT: 4, LWORD: 4, LREAL: 4, DT: 4, DATE_AND_TIME: 4, LTIME: 4
+};
+
+// IEC default STRING length when no [n] is given
+const DEFAULT_STRING_LENGTH = 80;
+
+const isBitArea = (registerType: ModbusRegisterType) => registerType === 'coil' || registerType === 'discrete_input';
+
+/** Registers one element of a type occupies, or null when it has no fixed Modbus layout (UDTs) */
+function elementWidth(dataType: string): number | null {
+  const type = dataType.trim().toUpperCase();
+  const string = type.match(/^(W?)STRING(?:\s*\[\s*(\d+)\s*\])?$/);
+  if (string) {
+    const length = string[2] ? parseInt(string[2]) : DEFAULT_STRING_LENGTH;
+    // Two characters per register, one per register for WSTRING
+    return string[1] ? length : Math.ceil(length / 2);
+  }
+  return REGISTER_WIDTHS[type] ?? null;
+}
+
+// Word order only matters for numeric values spanning several registers, not for strings or INT arrays
+function isMultiWordValue(dataType: string): boolean {
+  const array = parseArrayType(dataType || '');
+  const base = (array ? array.baseType : dataType || '').trim().toUpperCase();
+  return (REGISTER_WIDTHS[base] ?? 0) > 1;
+}
+
+/** Register type a tag maps to when the map has no override: inputs are read-only areas, BOOLs are bits */
+export function defaultRegisterType(tag: { data_type?: string | null; tag_type?: string | null }): ModbusRegisterType {
+  const array = parseArrayType(tag.data_type || '');
+  const base = (array ? array.baseType : tag.data_type || '').trim().toUpperCase();
+  const input = (tag.tag_type || '').toLowerCase() === 'input';
+  if (base === 'BOOL') return input ? 'discrete_input' : 'coil';
+  return input ? 'input_register' : 'holding_register';
+}
+
+/**
+ * Coils / registers a data type occupies in a register type. Arrays take one slot per
+ * element; BOOLs take a whole register outside the bit areas.
+ */
+export function modbusLength(dataType: string, registerType: ModbusRegisterType): { length: number } | { error: string } {
+  const array = parseArrayType(dataType || '');
+  const base = array ? array.baseType : (dataType || '').trim();
+  const count = array ? array.dimensions.reduce((n, d) => n * (d.upper - d.lower + 1), 1) : 1;
+
+  if (isBitArea(registerType)) {
+    if (base.toUpperCase() !== 'BOOL') {
+      return { error: `Only BOOL tags can be mapped to ${registerType === 'coil' ? 'coils' : 'discrete inputs'} (${dataType})` };
+    }
+    return { length: count };
+  }
+
+  const width = elementWidth(base);
+  if (width === null) {
+    return { error: `Data type ${dataType} has no fixed Modbus layout; map its members as separate tags` };
+  }
+  return { length: width * count };
+}
+
+/** Modicon reference of a 0-based offset: holding register 0 -> 400001 */
+export function modiconAddress(registerType: ModbusRegisterType, offset: number): string {
+  return `${MODICON_PREFIX[registerType]}${String(offset + 1).padStart(5, '0')}`;
+}
+
+export interface ModbusTag {
+  id: number;
+  name: string;
+  data_type: string;
+  tag_type?: string | null;
+  description?: string | null;
+}
+
+export type PlannedModbusEntry = Pick<ModbusMapEntry, 'tag_id' | 'tag_name' | 'data_type' | 'register_type' | 'offset' | 'length' | 'access' | 'description'>;
+
+export interface ModbusAllocationPlan {
+  entries: PlannedModbusEntry[];
+  nextOffsets: Partial<Record<ModbusRegisterType, number>>;
+  added: string[];
+  kept: string[];
+  moved: Array<{ tag: string; from: string; to: string }>;
+  removed: string[];
+  skipped: Array<{ tag: string; reason: string }>;
+}
+
+export interface ModbusAllocationOptions {
+  startOffsets?: Partial<Record<ModbusRegisterType, number>>;
+  nextOffsets?: Partial<Record<ModbusRegisterType, number>>;
+  registerTypes?: Record<string, ModbusRegisterType>;
+  // Repack every tag from the start offsets instead of keeping existing addresses
+  compact?: boolean;
+}
+
+/**
+ * Allocate addresses for `tags` against a map's current entries. Addresses only ever grow:
+ * a tag keeps its range while its register type and width are unchanged, new and resized
+ * tags are appended after the highest address ever allocated, and freed ranges are not
+ * reused, so clients configured against an earlier map keep working.
+ */
+export function planModbusAllocation(existing: ModbusMapEntry[], tags: ModbusTag[], options: ModbusAllocationOptions = {}): ModbusAllocationPlan {
+  const startOffsets = options.startOffsets || {};
+  const overrides = options.registerTypes || {};
+  const current = new Map<number, ModbusMapEntry>();
+  if (!options.compact) {
+    for (const entry of existing) {
+      if (entry.tag_id !== null) current.set(entry.tag_id, entry);
+    }
+  }
+
+  const next: Record<ModbusRegisterType, number> = {} as any;
+  for (const registerType of MODBUS_REGISTER_TYPES) {
+    const start = startOffsets[registerType] ?? 0;
+    next[registerType] = options.compact ? start : Math.max(start, options.nextOffsets?.[registerType] ?? 0);
+  }
+  // Entries from before the high-water mark was recorded still bound the next offset
+  for (const entry of current.values()) {
+    next[entry.register_type] = Math.max(next[entry.register_type], entry.offset + entry.length);
+  }
+
+  const plan: ModbusAllocationPlan = { entries: [], nextOffsets: next, added: [], kept: [], moved: [], removed: [], skipped: [] };
+
+  for (const tag of tags) {
+    const registerType = overrides[String(tag.id)] || defaultRegisterType(tag);
+    const size = modbusLength(tag.data_type, registerType);
+    if ('error' in size) {
+      plan.skipped.push({ tag: tag.name, reason: size.error });
+      continue;
+    }
+
+    const access = registerType === 'coil' || registerType === 'holding_register' ? 'read_write' : 'read';
+    const entry = { tag_id: tag.id, tag_name: tag.name, data_type: tag.data_type, register_type: registerType, length: size.length, access, description: tag.description ?? null } as const;
+    const previous = current.get(tag.id);
+
+    if (previous && previous.register_type === registerType && previous.length === size.length) {
+      plan.entries.push({ ...entry, offset: previous.offset });
+      plan.kept.push(tag.name);
+      continue;
+    }
+
+    const offset = next[registerType];
+    if (offset + size.length > MODBUS_ADDRESS_SPACE) {
+      plan.skipped.push({ tag: tag.name, reason: `No room left in the ${registerType.replace('_', ' ')} address space` });
+      continue;
+    }
+    next[registerType] = offset + size.length;
+    plan.entries.push({ ...entry, offset });
+
+    if (previous) {
+      plan.moved.push({ tag: tag.name, from: modiconAddress(previous.register_type, previous.offset), to: modiconAddress(registerType, offset) });
+    } else {
+      plan.added.push(tag.name);
+    }
+  }
+
+  const mapped = new Set(plan.entries.map(entry => entry.tag_id));
+  for (const entry of existing) {
+    if (entry.tag_id === null || !mapped.has(entry.tag_id)) {
+      plan.removed.push(entry.tag_name);
+    }
+  }
+
+  plan.entries.sort((a, b) =>
+    MODBUS_REGISTER_TYPES.indexOf(a.register_type) - MODBUS_REGISTER_TYPES.indexOf(b.register_type) || a.offset - b.offset
+  );
+  return plan;
+}
+
+/** Validate a selection from a request body; returns the normalized form stored on the map */
+export function normalizeModbusSelection(raw: any): ModbusMapSelection {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ModbusMapError('selection must be an object');
+  }
+
+  const selection: ModbusMapSelection = {};
+  if (raw.tagIds !== undefined) {
+    if (!Array.isArray(raw.tagIds) || raw.tagIds.some((id: any) => !Number.isInteger(id) || id <= 0)) {
+      throw new ModbusMapError('selection.tagIds must be an array of tag ids');
+    }
+    selection.tagIds = [...new Set<number>(raw.tagIds)];
+  }
+  if (raw.filter !== undefined) {
+    if (selection.tagIds) {
+      throw new ModbusMapError('selection takes either tagIds or filter, not both');
+    }
+    if (typeof raw.filter !== 'object' || raw.filter === null || Array.isArray(raw.filter)) {
+      throw new ModbusMapError('selection.filter must be an object');
+    }
+    // Fails early on malformed filters
+    parseTagQuery(raw.filter, 'name');
+    selection.filter = raw.filter;
+  }
+  if (raw.registerTypes !== undefined) {
+    if (typeof raw.registerTypes !== 'object' || raw.registerTypes === null || Array.isArray(raw.registerTypes)) {
+      throw new ModbusMapError('selection.registerTypes must map tag ids to register types');
+    }
+    for (const [tagId, registerType] of Object.entries(raw.registerTypes)) {
+      if (!MODBUS_REGISTER_TYPES.includes(registerType as ModbusRegisterType)) {
+        throw new ModbusMapError(`Invalid register type for tag ${tagId}: ${registerType}. Use one of: ${MODBUS_REGISTER_TYPES.join(', ')}`);
+      }
+    }
+    selection.registerTypes = raw.registerTypes;
+  }
+  return selection;
+}
+
+/** Validate per-register-type start offsets from a request body */
+export function normalizeStartOffsets(raw: any): Partial<Record<ModbusRegisterType, number>> {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ModbusMapError('start_offsets must be an object');
+  }
+  const offsets: Partial<Record<ModbusRegisterType, number>> = {};
+  for (const [registerType, offset] of Object.entries(raw)) {
+    if (!MODBUS_REGISTER_TYPES.includes(registerType as ModbusRegisterType)) {
+      throw new ModbusMapError(`Unknown register type in start_offsets: ${registerType}`);
+    }
+    if (!Number.isInteger(offset) || (offset as number) < 0 || (offset as number) >= MODBUS_ADDRESS_SPACE) {
+      throw new ModbusMapError(`start_offsets.${registerType} must be between 0 and ${MODBUS_ADDRESS_SPACE - 1}`);
+    }
+    offsets[registerType as ModbusRegisterType] = offset as number;
+  }
+  return offsets;
+}
+
+/** The project tags a selection covers, ordered by scope and name so fresh maps group related tags */
+export async function selectModbusTags(projectId: number, selection: ModbusMapSelection, conn: Knex | Knex.Transaction = db): Promise<ModbusTag[]> {
+  const query = conn('tags')
+    .select('id', 'name', 'data_type', 'tag_type', 'description')
+    .orderByRaw('COALESCE(scope, \'\'), name');
+
+  if (selection.filter) {
+    applyTagFilters(query, projectId, parseTagQuery(selection.filter, 'name'));
+  } else {
+    query.where('project_id', projectId);
+    if (selection.tagIds) query.whereIn('id', selection.tagIds);
+  }
+  return query;
+}
+
+/**
+ * Re-run allocation for a map and store the result. Runs in one transaction so a
+ * concurrent regeneration cannot interleave entries.
+ */
+export async function regenerateModbusMap(map: ModbusMap, options: { compact?: boolean } = {}): Promise<{ map: ModbusMap; plan: ModbusAllocationPlan }> {
+  return db.transaction(async trx => {
+    // Serialize regenerations of the same map
+    await trx('modbus_maps').where({ id: map.id }).forUpdate().first();
+
+    const existing: ModbusMapEntry[] = await trx('modbus_map_entries').where({ map_id: map.id });
+    const tags = await selectModbusTags(map.project_id, map.selection || {}, trx);
+    const plan = planModbusAllocation(existing, tags, {
+      startOffsets: map.start_offsets,
+      nextOffsets: map.next_offsets,
+      registerTypes: map.selection?.registerTypes,
+      compact: options.compact
+    });
+
+    await trx('modbus_map_entries').where({ map_id: map.id }).del();
+    if (plan.entries.length > 0) {
+      await trx.batchInsert('modbus_map_entries', plan.entries.map(entry => ({ ...entry, map_id: map.id })) as any[], 500);
+    }
+
+    const [updated] = await trx('modbus_maps')
+      .where({ id: map.id })
+      .update({ next_offsets: JSON.stringify(plan.nextOffsets), updated_at: new Date().toISOString() })
+      .returning('*');
+
+    return { map: updated, plan };
+  });
+}
+
+const EXPORT_HEADER = ['Tag', 'Data Type', 'Register Type', 'Address', 'Offset', 'Length', 'Access', 'Word Order', 'Unit ID', 'Description'];
+
+function exportRows(map: ModbusMap, entries: ModbusMapEntry[]): any[][] {
+  return entries.map(entry => [
+    entry.tag_name,
+    entry.data_type,
+    entry.register_type,
+    modiconAddress(entry.register_type, entry.offset),
+    entry.offset,
+    entry.length,
+    entry.access,
+    !isBitArea(entry.register_type) && isMultiWordValue(entry.data_type) ? map.word_order : '',
+    map.unit_id,
+    entry.description || ''
+  ]);
+}
+
+function csvField(value: any): string {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportModbusMapCsv(map: ModbusMap, entries: ModbusMapEntry[], outStream: Writable): void {
+  const lines = [EXPORT_HEADER, ...exportRows(map, entries)].map(row => row.map(csvField).join(','));
+  outStream.write(lines.join('\n') + '\n');
+  outStream.end();
+}
+
+/** One sheet per register type in use, so gateway tools can import each area separately */
+export function exportModbusMapXlsx(map: ModbusMap, entries: ModbusMapEntry[], outStream: Writable): void {
+  const workbook = XLSX.utils.book_new();
+  const sheetNames: Record<ModbusRegisterType, string> = {
+    coil: 'Coils',
+    discrete_input: 'Discrete Inputs',
+    input_register: 'Input Registers',
+    holding_register: 'Holding Registers'
+  };
+
+  for (const registerType of MODBUS_REGISTER_TYPES) {
+    const rows = exportRows(map, entries.filter(e => e.register_type === registerType));
+    if (rows.length === 0) continue;
+    const worksheet = XLSX.utils.aoa_to_sheet([EXPORT_HEADER, ...rows]);
+    worksheet['!cols'] = [{ width: 30 }, { width: 18 }, { width: 18 }, { width: 10 }, { width: 8 }, { width: 8 }, { width: 12 }, { width: 12 }, { width: 8 }, { width: 40 }];
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetNames[registerType]);
+  }
+  if (workbook.SheetNames.length === 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([EXPORT_HEADER]), 'Modbus Map');
+  }
+
+  outStream.write(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+  outStream.end();
+}
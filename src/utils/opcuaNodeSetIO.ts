@@ -0,0 +1,350 @@
+// opcuaNodeSetIO.ts
+// OPC UA NodeSet2 (UANodeSet XML, OPC 10000-6 Annex F) export of project tags for Pandaura AS:
+// one folder per scope / program, tags as variables with built-in data types, descriptions,
+// and EURange / EngineeringUnits / InstrumentRange properties from the engineering metadata.
+// The file can be loaded into an OPC UA server, Ignition or Kepware as an information model.
+// Dependencies: xmlbuilder
+
+import * as xmlbuilder from 'xmlbuilder';
+import { Writable } from 'stream';
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { TagEngineeringFields } from '../db/tables/tags';
+import { expandDataType, loadProjectUdts, parseArrayType, TypeMemberNode } from './udt';
+
+const NODESET_NAMESPACE = 'http://opcfoundation.org/UA/2011/03/UANodeSet.xsd';
+const UA_TYPES_NAMESPACE = 'http://opcfoundation.org/UA/2008/02/Types.xsd';
+const UA_NAMESPACE = 'http://opcfoundation.org/UA/';
+const UNECE_UNITS_NAMESPACE = 'http://www.opcfoundation.org/UA/units/un/cefact';
+
+// Well-known nodes of namespace 0
+const NODES = {
+  objectsFolder: 'i=85',
+  folderType: 'i=61',
+  baseObjectType: 'i=58',
+  baseDataVariableType: 'i=63',
+  propertyType: 'i=68',
+  analogItemType: 'i=2368',
+  rangeEncoding: 'i=886',
+  euInformationEncoding: 'i=888'
+};
+
+// Built-in data types with their NodeIds, written as aliases so variables can use the names
+const DATA_TYPE_ALIASES: Record<string, string> = {
+  Boolean: 'i=1',
+  SByte: 'i=2',
+  Byte: 'i=3',
+  Int16: 'i=4',
+  UInt16: 'i=5',
+  Int32: 'i=6',
+  UInt32: 'i=7',
+  Int64: 'i=8',
+  UInt64: 'i=9',
+  Float: 'i=10',
+  Double: 'i=11',
+  String: 'i=12',
+  DateTime: 'i=13',
+  BaseDataType: 'i=24',
+  Duration: 'i=290',
+  Range: 'i=884',
+  EUInformation: 'i=887'
+};
+
+const REFERENCE_ALIASES: Record<string, string> = {
+  Organizes: 'i=35',
+  HasTypeDefinition: 'i=40',
+  HasProperty: 'i=46',
+  HasComponent: 'i=47'
+};
+
+// IEC 61131-3 / vendor elementary types -> OPC UA built-in types
+const IEC_TO_OPCUA: Record<string, string> = {
+  BOOL: 'Boolean',
+  SINT: 'SByte',
+  USINT: 'Byte',
+  BYTE: 'Byte',
+  CHAR: 'Byte',
+  INT: 'Int16',
+  UINT: 'UInt16',
+  WORD: 'UInt16',
+  DINT: 'Int32',
+  UDINT: 'UInt32',
+  DWORD: 'UInt32',
+  LINT: 'Int64',
+  ULINT: 'UInt64',
+  LWORD: 'UInt64',
+  REAL: 'Float',
+  LREAL: 'Double',
+  STRING: 'String',
+  WSTRING: 'String',
+  // Durations are milliseconds in OPC UA
+  TIME: 'Duration',
+  LTIME: 'Duration',
+  S5TIME: 'Duration',
+  // Time of day as milliseconds since midnight
+  TIME_OF_DAY: 'UInt32',
+  TOD: 'UInt32',
+  DATE: 'DateTime',
+  DATE_AND_TIME: 'DateTime',
+  DT: 'DateTime'
+};
+
+const INTEGER_TYPES = new Set(['SByte', 'Byte', 'Int16', 'UInt16', 'Int32', 'UInt32', 'Int64', 'UInt64']);
+
+// OPC UA AccessLevel bits: CurrentRead = 1, CurrentWrite = 2
+const READ_ONLY = 1;
+const READ_WRITE = 3;
+
+/**
+ * Map a tag data type to an OPC UA built-in type; UDTs and unknown types map to BaseDataType.
+ */
+export function opcUaDataType(dataType: string | null | undefined): string {
+  const base = (dataType || '').trim().replace(/^"(.*)"$/, '$1').toUpperCase();
+  // STRING[20] and STRING(20) carry a length OPC UA does not model
+  const elementary = base.replace(/^(W?STRING)\s*[\[(]\s*\d+\s*[\])]$/, '$1');
+  return IEC_TO_OPCUA[elementary] || 'BaseDataType';
+}
+
+// String NodeIds may hold any text; ';' is replaced because some clients split NodeIds on it
+function nodeId(path: string): string {
+  return `ns=1;s=${path.replace(/;/g, '_')}`;
+}
+
+function scopeFolderName(scope: string | null | undefined): string {
+  const name = (scope || '').trim();
+  return !name || name.toLowerCase() === 'global' ? 'Global' : name;
+}
+
+// Initial value of a scalar variable as its uax element, when the tag's default value fits the type
+function appendValue(variable: xmlbuilder.XMLElement, uaType: string, defaultValue: string | null | undefined): void {
+  const text = (defaultValue ?? '').toString().trim();
+  if (text === '') return;
+
+  if (uaType === 'Boolean') {
+    const lower = text.toLowerCase();
+    if (!['true', 'false', '1', '0'].includes(lower)) return;
+    variable.ele('Value').ele('uax:Boolean', {}, lower === 'true' || lower === '1' ? 'true' : 'false');
+  } else if (INTEGER_TYPES.has(uaType)) {
+    if (!/^[+-]?\d+$/.test(text)) return;
+    variable.ele('Value').ele(`uax:${uaType}`, {}, text.replace(/^\+/, ''));
+  } else if (uaType === 'Float' || uaType === 'Double') {
+    if (!Number.isFinite(Number(text))) return;
+    variable.ele('Value').ele(`uax:${uaType}`, {}, String(Number(text)));
+  } else if (uaType === 'String') {
+    variable.ele('Value').ele('uax:String', {}, text.replace(/^'(.*)'$/, '$1'));
+  }
+}
+
+interface VariableOptions {
+  path: string;
+  browseName: string;
+  parentPath: string;
+  // Folders organize their tags; structured tags have their members as components
+  parentReference: 'Organizes' | 'HasComponent';
+  dataType: string;
+  description?: string | null;
+  accessLevel: number;
+  typeDefinition?: string;
+  defaultValue?: string | null;
+}
+
+function appendVariable(root: xmlbuilder.XMLElement, options: VariableOptions): xmlbuilder.XMLElement {
+  const array = parseArrayType(options.dataType);
+  const uaType = opcUaDataType(array ? array.baseType : options.dataType);
+
+  const attributes: Record<string, any> = {
+    NodeId: nodeId(options.path),
+    BrowseName: `1:${options.browseName}`,
+    ParentNodeId: nodeId(options.parentPath),
+    DataType: uaType,
+    AccessLevel: options.accessLevel,
+    UserAccessLevel: options.accessLevel
+  };
+  if (array) {
+    attributes.ValueRank = array.dimensions.length;
+    attributes.ArrayDimensions = array.dimensions.map(d => d.upper - d.lower + 1).join(',');
+  }
+
+  const variable = root.ele('UAVariable', attributes);
+  variable.ele('DisplayName', {}, options.browseName);
+  if (options.description) variable.ele('Description', {}, options.description);
+
+  const references = variable.ele('References');
+  references.ele('Reference', { ReferenceType: 'HasTypeDefinition' }, options.typeDefinition || NODES.baseDataVariableType);
+  references.ele('Reference', { ReferenceType: options.parentReference, IsForward: 'false' }, nodeId(options.parentPath));
+
+  if (!array) appendValue(variable, uaType, options.defaultValue);
+  return variable;
+}
+
+function appendObject(
+  root: xmlbuilder.XMLElement,
+  path: string,
+  browseName: string,
+  parentId: string,
+  typeDefinition: string,
+  parentReference: 'Organizes' | 'HasComponent',
+  description?: string | null
+): void {
+  const object = root.ele('UAObject', { NodeId: nodeId(path), BrowseName: `1:${browseName}`, ParentNodeId: parentId });
+  object.ele('DisplayName', {}, browseName);
+  if (description) object.ele('Description', {}, description);
+
+  const references = object.ele('References');
+  references.ele('Reference', { ReferenceType: 'HasTypeDefinition' }, typeDefinition);
+  references.ele('Reference', { ReferenceType: parentReference, IsForward: 'false' }, parentId);
+}
+
+// Property holding an ExtensionObject value (Range, EUInformation)
+function appendProperty(
+  root: xmlbuilder.XMLElement,
+  parentPath: string,
+  name: string,
+  dataType: 'Range' | 'EUInformation',
+  encoding: string,
+  body: Record<string, any>
+): void {
+  const property = root.ele('UAVariable', {
+    NodeId: nodeId(`${parentPath}.${name}`),
+    BrowseName: name,
+    ParentNodeId: nodeId(parentPath),
+    DataType: dataType
+  });
+  property.ele('DisplayName', {}, name);
+
+  const references = property.ele('References');
+  references.ele('Reference', { ReferenceType: 'HasTypeDefinition' }, NODES.propertyType);
+  references.ele('Reference', { ReferenceType: 'HasProperty', IsForward: 'false' }, nodeId(parentPath));
+
+  const extensionObject = property.ele('Value').ele('uax:ExtensionObject');
+  extensionObject.ele('uax:TypeId').ele('uax:Identifier', {}, encoding);
+  extensionObject.ele('uax:Body').ele({ [dataType]: { '@xmlns': UA_TYPES_NAMESPACE, ...body } });
+}
+
+function hasRange(min: number | null | undefined, max: number | null | undefined): boolean {
+  return min !== null && min !== undefined && max !== null && max !== undefined;
+}
+
+function appendEngineeringProperties(root: xmlbuilder.XMLElement, path: string, tag: TagEngineeringFields): void {
+  if (hasRange(tag.eng_min, tag.eng_max)) {
+    appendProperty(root, path, 'EURange', 'Range', NODES.rangeEncoding, { Low: tag.eng_min, High: tag.eng_max });
+  }
+  if (hasRange(tag.raw_min, tag.raw_max)) {
+    appendProperty(root, path, 'InstrumentRange', 'Range', NODES.rangeEncoding, { Low: tag.raw_min, High: tag.raw_max });
+  }
+  if (tag.engineering_unit) {
+    // Free-text units have no UNECE code, so UnitId is -1 (unknown)
+    appendProperty(root, path, 'EngineeringUnits', 'EUInformation', NODES.euInformationEncoding, {
+      NamespaceUri: UNECE_UNITS_NAMESPACE,
+      UnitId: -1,
+      DisplayName: { Text: tag.engineering_unit },
+      Description: { Text: tag.engineering_unit }
+    });
+  }
+}
+
+function isStructured(node: TypeMemberNode): boolean {
+  return !node.truncated && (node.kind === 'struct' || (node.kind === 'array' && !!node.members?.some(m => m.kind === 'struct')));
+}
+
+// Structured tags become objects with one component per member; arrays of elementary types stay single variables.
+// Member paths ("Motor.Speed", "Motors[2].Speed") are relative to the tag's folder.
+function appendMembers(root: xmlbuilder.XMLElement, node: TypeMemberNode, folderPath: string, accessLevel: number): void {
+  const parentPath = `${folderPath}.${node.path}`;
+  for (const member of node.members || []) {
+    if (isStructured(member)) {
+      appendObject(root, `${folderPath}.${member.path}`, member.name, nodeId(parentPath), NODES.baseObjectType, 'HasComponent', member.description);
+      appendMembers(root, member, folderPath, accessLevel);
+    } else {
+      appendVariable(root, {
+        path: `${folderPath}.${member.path}`,
+        browseName: member.name,
+        parentPath,
+        parentReference: 'HasComponent',
+        dataType: member.data_type,
+        description: member.description,
+        accessLevel
+      });
+    }
+  }
+}
+
+/**
+ * Write the project's tags as an OPC UA NodeSet2 information model
+ */
+export async function exportOpcUaNodeSet(projectId: number, outStream: Writable, conn: Knex | Knex.Transaction = db): Promise<boolean> {
+  try {
+    console.log(`🔄 Starting OPC UA NodeSet2 export for project ${projectId}`);
+
+    const project = await conn('projects').where({ id: projectId }).first();
+    const tags = await conn('tags').where({ project_id: projectId }).orderBy(['scope', 'name']);
+    const dataTypes = await loadProjectUdts(projectId, conn);
+    const now = new Date().toISOString();
+    const modelUri = `urn:pandaura:project:${projectId}`;
+    const projectName = project?.project_name || `Project ${projectId}`;
+
+    const root = xmlbuilder.create('UANodeSet', { encoding: 'utf-8' })
+      .att('xmlns', NODESET_NAMESPACE)
+      .att('xmlns:uax', UA_TYPES_NAMESPACE)
+      .att('xmlns:xsi', 'http://www.w3.org/2001/XMLSchema-instance')
+      .att('LastModified', now);
+
+    root.ele('NamespaceUris').ele('Uri', {}, modelUri);
+    root.ele('Models')
+      .ele('Model', { ModelUri: modelUri, Version: '1.0.0', PublicationDate: now })
+      .ele('RequiredModel', { ModelUri: UA_NAMESPACE, Version: '1.04', PublicationDate: '2019-05-01T00:00:00Z' });
+
+    const aliases = root.ele('Aliases');
+    for (const [alias, id] of Object.entries({ ...DATA_TYPE_ALIASES, ...REFERENCE_ALIASES })) {
+      aliases.ele('Alias', { Alias: alias }, id);
+    }
+
+    // Project folder under Objects, then one folder per scope / program
+    const projectPath = 'Project';
+    appendObject(root, projectPath, projectName, NODES.objectsFolder, NODES.folderType, 'Organizes', project?.description);
+
+    const folders = new Set<string>();
+    for (const tag of tags) {
+      const folder = scopeFolderName(tag.scope);
+      const folderPath = `${projectPath}.${folder}`;
+      if (!folders.has(folder)) {
+        folders.add(folder);
+        appendObject(root, folderPath, folder, nodeId(projectPath), NODES.folderType, 'Organizes');
+      }
+
+      const path = `${folderPath}.${tag.name}`;
+      const dataType = tag.data_type || tag.type || 'BOOL';
+      const accessLevel = tag.tag_type === 'input' || tag.tag_type === 'constant' ? READ_ONLY : READ_WRITE;
+      const tree = expandDataType(tag.name, dataType, dataTypes);
+
+      if (isStructured(tree)) {
+        appendObject(root, path, tag.name, nodeId(folderPath), NODES.baseObjectType, 'Organizes', tag.description);
+        appendMembers(root, tree, folderPath, accessLevel);
+        continue;
+      }
+
+      // Analog tags with an engineering range use AnalogItemType, which requires EURange
+      const analog = hasRange(tag.eng_min, tag.eng_max);
+      appendVariable(root, {
+        path,
+        browseName: tag.name,
+        parentPath: folderPath,
+        parentReference: 'Organizes',
+        dataType,
+        description: tag.description,
+        accessLevel,
+        typeDefinition: analog ? NODES.analogItemType : NODES.baseDataVariableType,
+        defaultValue: tag.default_value
+      });
+      appendEngineeringProperties(root, path, tag);
+    }
+
+    outStream.write(root.end({ pretty: true }));
+    outStream.end();
+
+    console.log(`✅ Successfully exported ${tags.length} tags to OPC UA NodeSet2`);
+    return true;
+  } catch (error) {
+    throw new Error(`Failed to export OPC UA NodeSet2: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,751 @@
+// plcopenIO.ts
+// PLCopen XML (IEC 61131-10 / TC6 XML v2.01) import and export for Pandaura AS:
+// project tags as global variables, user-defined types as data types and
+// Logic Studio ST code as POUs. Vendor-neutral; CODESYS reads and writes this format.
+// Dependencies: xml2js, xmlbuilder
+
+import * as xml2js from 'xml2js';
+import * as xmlbuilder from 'xmlbuilder';
+import { Writable } from 'stream';
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { CreateTagData } from '../db/tables/tags';
+import { ParsedTagImport, persistPreparedImport, prepareParsedImport } from '../services/tagImportPipeline';
+import { compositeTypeCategory, formatArrayType, loadProjectUdts, normalizeDataTypeName, parseArrayType, UdtDefinition } from './udt';
+import { validateDataTypeForVendor } from './vendorFormatters';
+
+const TC6_NAMESPACE = 'http://www.plcopen.org/xml/tc6_0201';
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// Elementary types with their own element in TC6 (<BOOL/>, <TOD/> ...); everything else is <derived>
+const TC6_ELEMENTARY = new Set([
+  'BOOL', 'BYTE', 'WORD', 'DWORD', 'LWORD',
+  'SINT', 'INT', 'DINT', 'LINT', 'USINT', 'UINT', 'UDINT', 'ULINT',
+  'REAL', 'LREAL', 'TIME', 'DATE', 'DT', 'TOD'
+]);
+
+const TC6_TYPE_ALIASES: Record<string, string> = {
+  'TIME_OF_DAY': 'TOD',
+  'DATE_AND_TIME': 'DT'
+};
+
+export type PouType = 'program' | 'functionBlock' | 'function';
+
+export type PouVarSection = 'inputVars' | 'outputVars' | 'inOutVars' | 'localVars' | 'tempVars' | 'externalVars' | 'globalVars';
+
+export interface PouVariable {
+  section: PouVarSection;
+  name: string;
+  dataType: string;
+  initialValue?: string;
+  address?: string;
+  description?: string;
+  constant?: boolean;
+  retain?: boolean;
+}
+
+export interface StPou {
+  name: string;
+  pouType: PouType;
+  returnType?: string;
+  description?: string;
+  variables: PouVariable[];
+  body: string;
+}
+
+export interface ParsedPlcopenImport extends ParsedTagImport {
+  pous: StPou[];
+  warnings: string[];
+}
+
+export type PlcopenCodeMode = 'merge' | 'replace' | 'skip';
+
+// --- ST code <-> POUs ---
+
+const POU_KEYWORDS: Record<string, PouType> = {
+  'PROGRAM': 'program',
+  'FUNCTION_BLOCK': 'functionBlock',
+  'FUNCTION': 'function'
+};
+
+const POU_END_KEYWORDS: Record<PouType, string> = {
+  program: 'END_PROGRAM',
+  functionBlock: 'END_FUNCTION_BLOCK',
+  function: 'END_FUNCTION'
+};
+
+const VAR_SECTIONS: Record<string, PouVarSection> = {
+  'VAR_INPUT': 'inputVars',
+  'VAR_OUTPUT': 'outputVars',
+  'VAR_IN_OUT': 'inOutVars',
+  'VAR': 'localVars',
+  'VAR_TEMP': 'tempVars',
+  'VAR_EXTERNAL': 'externalVars',
+  'VAR_GLOBAL': 'globalVars'
+};
+
+const SECTION_KEYWORDS: Record<PouVarSection, string> = {
+  inputVars: 'VAR_INPUT',
+  outputVars: 'VAR_OUTPUT',
+  inOutVars: 'VAR_IN_OUT',
+  localVars: 'VAR',
+  tempVars: 'VAR_TEMP',
+  externalVars: 'VAR_EXTERNAL',
+  globalVars: 'VAR_GLOBAL'
+};
+
+// Blank out comments and string literals, keeping offsets, so keyword searches can't match inside them
+function maskCode(code: string): string {
+  return code.replace(/\(\*[\s\S]*?\*\)|\/\/[^\n]*|'(?:[^'$\n]|\$.)*'|"(?:[^"$\n]|\$.)*"/g, m => m.replace(/[^\n]/g, ' '));
+}
+
+interface PouLocation {
+  name: string;
+  pouType: PouType;
+  returnType?: string;
+  start: number;       // offset of the POU keyword
+  headerEnd: number;   // end of the header line
+  bodyEnd: number;     // offset of the END_ keyword
+  end: number;         // offset after the END_ keyword
+}
+
+function locatePous(code: string): PouLocation[] {
+  const masked = maskCode(code);
+  const header = /\b(PROGRAM|FUNCTION_BLOCK|FUNCTION)\s+([A-Za-z_][A-Za-z0-9_]*)([^\n]*)/gi;
+  const locations: PouLocation[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(masked)) !== null) {
+    const pouType = POU_KEYWORDS[match[1].toUpperCase()];
+    const endKeyword = new RegExp(`\\b${POU_END_KEYWORDS[pouType]}\\b`, 'gi');
+    endKeyword.lastIndex = match.index + match[0].length;
+    const endMatch = endKeyword.exec(masked);
+    if (!endMatch) break;
+
+    const returnType = pouType === 'function' ? match[3].match(/^\s*:\s*([^;]+?)\s*;?\s*$/)?.[1] : undefined;
+    locations.push({
+      name: match[2],
+      pouType,
+      returnType: returnType ? normalizeDataTypeName(returnType) : undefined,
+      start: match.index,
+      headerEnd: match.index + match[0].length,
+      bodyEnd: endMatch.index,
+      end: endMatch.index + endMatch[0].length
+    });
+    header.lastIndex = endMatch.index + endMatch[0].length;
+  }
+
+  return locations;
+}
+
+// name [, name] [AT %addr] : type [:= init];  with an optional comment on the same line
+function parseDeclarations(block: string, section: PouVarSection, qualifiers: string): PouVariable[] {
+  const variables: PouVariable[] = [];
+  const constant = /\bCONSTANT\b/i.test(qualifiers);
+  const retain = /\b(RETAIN|PERSISTENT)\b/i.test(qualifiers);
+  const masked = maskCode(block);
+
+  const statement = /[^;]+;/g;
+  let match: RegExpExecArray | null;
+  while ((match = statement.exec(masked)) !== null) {
+    const end = match.index + match[0].length;
+    const code = block.slice(match.index, end).replace(/\(\*[\s\S]*?\*\)|\/\/[^\n]*/g, ' ').replace(/\s+/g, ' ').trim();
+    const lineEnd = block.indexOf('\n', end);
+    const comment = block.slice(end, lineEnd === -1 ? block.length : lineEnd).match(/^\s*(?:\(\*(.*?)\*\)|\/\/(.*))/);
+
+    const decl = code.match(/^([A-Za-z_][A-Za-z0-9_]*(?:\s*,\s*[A-Za-z_][A-Za-z0-9_]*)*)\s*(?:AT\s+(%\S+)\s*)?:\s*(.+?)(?:\s*:=\s*(.+?))?\s*;$/i);
+    if (!decl) continue;
+
+    for (const name of decl[1].split(',').map(n => n.trim())) {
+      variables.push({
+        section,
+        name,
+        dataType: normalizeDataTypeName(decl[3]),
+        initialValue: decl[4]?.trim(),
+        address: decl[2],
+        description: comment ? (comment[1] ?? comment[2] ?? '').trim() || undefined : undefined,
+        constant: constant || undefined,
+        retain: retain || undefined
+      });
+    }
+  }
+
+  return variables;
+}
+
+// VAR sections of a POU or code fragment, and where the statements after them begin
+function parseVarSections(code: string, from: number, to: number): { variables: PouVariable[]; bodyStart: number } {
+  const masked = maskCode(code);
+  const section = /\b(VAR_INPUT|VAR_OUTPUT|VAR_IN_OUT|VAR_TEMP|VAR_EXTERNAL|VAR_GLOBAL|VAR)\b((?:[ \t]+(?:CONSTANT|RETAIN|PERSISTENT|NON_RETAIN))*)/gi;
+  const variables: PouVariable[] = [];
+  let bodyStart = from;
+
+  section.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = section.exec(masked)) !== null && match.index < to) {
+    // Declarations precede the statements; stop at the first non-blank text between sections
+    if (masked.slice(bodyStart, match.index).trim()) break;
+
+    const endVar = /\bEND_VAR\b/gi;
+    endVar.lastIndex = match.index + match[0].length;
+    const endMatch = endVar.exec(masked);
+    if (!endMatch || endMatch.index > to) break;
+
+    variables.push(...parseDeclarations(
+      code.slice(match.index + match[0].length, endMatch.index),
+      VAR_SECTIONS[match[1].toUpperCase()],
+      match[2]
+    ));
+    bodyStart = endMatch.index + endMatch[0].length;
+    section.lastIndex = bodyStart;
+  }
+
+  return { variables, bodyStart };
+}
+
+// Trim surrounding blank lines and the common indentation of a body
+function tidyBody(body: string): string {
+  const lines = body.replace(/^\s*\n/, '').replace(/\s+$/, '').split(/\r?\n/);
+  const indents = lines.filter(l => l.trim()).map(l => l.match(/^[ \t]*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(l => l.slice(common)).join('\n');
+}
+
+/**
+ * Split Logic Studio code into POUs. Code without any PROGRAM / FUNCTION_BLOCK / FUNCTION
+ * is treated as the body of one program named `defaultProgram`.
+ */
+export function splitStPous(code: string, defaultProgram = 'Main'): StPou[] {
+  const locations = locatePous(code);
+
+  if (locations.length === 0) {
+    if (!code.trim()) return [];
+    const { variables, bodyStart } = parseVarSections(code, 0, code.length);
+    return [{ name: defaultProgram, pouType: 'program', variables, body: tidyBody(code.slice(bodyStart)) }];
+  }
+
+  return locations.map(location => {
+    const { variables, bodyStart } = parseVarSections(code, location.headerEnd, location.bodyEnd);
+    return {
+      name: location.name,
+      pouType: location.pouType,
+      returnType: location.returnType,
+      variables,
+      body: tidyBody(code.slice(bodyStart, location.bodyEnd))
+    };
+  });
+}
+
+/** Render a POU as IEC 61131-3 structured text */
+export function formatStPou(pou: StPou): string {
+  const keyword = Object.keys(POU_KEYWORDS).find(k => POU_KEYWORDS[k] === pou.pouType)!;
+  const lines: string[] = [];
+  if (pou.description) lines.push(`(* ${pou.description.replace(/\*\)/g, '* )')} *)`);
+  lines.push(pou.returnType ? `${keyword} ${pou.name} : ${pou.returnType}` : `${keyword} ${pou.name}`);
+
+  for (const section of Object.keys(SECTION_KEYWORDS) as PouVarSection[]) {
+    for (const qualifier of ['', ' CONSTANT', ' RETAIN']) {
+      const variables = pou.variables.filter(v => v.section === section &&
+        qualifier === (v.constant ? ' CONSTANT' : v.retain ? ' RETAIN' : ''));
+      if (variables.length === 0) continue;
+
+      lines.push(`${SECTION_KEYWORDS[section]}${qualifier}`);
+      for (const v of variables) {
+        const at = v.address ? ` AT ${v.address}` : '';
+        const init = v.initialValue ? ` := ${v.initialValue}` : '';
+        const comment = v.description ? ` // ${v.description}` : '';
+        lines.push(`\t${v.name}${at} : ${v.dataType}${init};${comment}`);
+      }
+      lines.push('END_VAR');
+    }
+  }
+
+  if (pou.body.trim()) {
+    lines.push('', ...pou.body.split(/\r?\n/).map(l => l ? `\t${l}` : l));
+  }
+  lines.push(POU_END_KEYWORDS[pou.pouType]);
+  return lines.join('\n');
+}
+
+/**
+ * Put imported POUs into existing code: POUs with a name already in the code replace it
+ * in place, new ones are appended.
+ */
+export function mergeStPous(code: string, pous: StPou[]): string {
+  const locations = locatePous(code);
+  const byName = new Map(pous.map(p => [p.name.toUpperCase(), p]));
+  const replaced = new Set<string>();
+
+  let merged = '';
+  let cursor = 0;
+  for (const location of locations) {
+    const pou = byName.get(location.name.toUpperCase());
+    if (!pou) continue;
+    merged += code.slice(cursor, location.start) + formatStPou(pou);
+    cursor = location.end;
+    replaced.add(pou.name.toUpperCase());
+  }
+  merged += code.slice(cursor);
+
+  const appended = pous.filter(p => !replaced.has(p.name.toUpperCase())).map(formatStPou);
+  if (appended.length === 0) return merged;
+  return merged.trim() ? `${merged.replace(/\s+$/, '')}\n\n${appended.join('\n\n')}\n` : `${appended.join('\n\n')}\n`;
+}
+
+// --- Data types ---
+
+function appendType(node: xmlbuilder.XMLElement, dataType: string): void {
+  const array = parseArrayType(dataType);
+  if (array) {
+    const arrayNode = node.ele('array');
+    for (const dimension of array.dimensions) {
+      arrayNode.ele('dimension', { lower: dimension.lower, upper: dimension.upper });
+    }
+    appendType(arrayNode.ele('baseType'), array.baseType);
+    return;
+  }
+
+  const text = dataType.trim();
+  const stringType = text.match(/^(W?STRING)\s*(?:[\[(]\s*(\d+)\s*[\])])?$/i);
+  if (stringType) {
+    node.ele(stringType[1].toLowerCase(), stringType[2] ? { length: stringType[2] } : {});
+    return;
+  }
+
+  const upper = text.toUpperCase();
+  const elementary = TC6_TYPE_ALIASES[upper] || upper;
+  if (TC6_ELEMENTARY.has(elementary)) {
+    node.ele(elementary);
+  } else {
+    node.ele('derived', { name: text.replace(/^"(.*)"$/, '$1') });
+  }
+}
+
+// Canonical data type of a TC6 <type>; null for anonymous enums, structs and subranges
+function typeFromXml(node: any): string | null {
+  if (!node || typeof node !== 'object') return null;
+  const key = Object.keys(node).find(k => k !== '$' && k !== '_');
+  if (!key) return null;
+  const value = node[key]?.[0];
+
+  switch (key) {
+    case 'derived':
+      return value?.$?.name || null;
+    case 'string':
+    case 'wstring': {
+      const length = value?.$?.length;
+      return `${key.toUpperCase()}${length ? `[${length}]` : ''}`;
+    }
+    case 'array': {
+      const dimensions = (value?.dimension || []).map((d: any) => ({ lower: parseInt(d.$?.lower), upper: parseInt(d.$?.upper) }));
+      const baseType = typeFromXml(value?.baseType?.[0]);
+      if (!baseType || dimensions.length === 0 || dimensions.some((d: any) => isNaN(d.lower) || isNaN(d.upper))) return null;
+      return formatArrayType(baseType, dimensions);
+    }
+    default: {
+      const elementary = key.toUpperCase();
+      if (!TC6_ELEMENTARY.has(elementary)) return null;
+      // Store the long forms the vendor type lists use
+      return Object.keys(TC6_TYPE_ALIASES).find(k => TC6_TYPE_ALIASES[k] === elementary) || elementary;
+    }
+  }
+}
+
+// Text of a <documentation> or <ST> node, whatever XHTML wrapping the tool used
+function xmlTextContent(node: any): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string') return node;
+  if (Array.isArray(node)) return node.map(xmlTextContent).join('');
+  if (typeof node === 'object') {
+    return Object.keys(node)
+      .filter(k => k !== '$')
+      .map(k => xmlTextContent(node[k]))
+      .join('');
+  }
+  return '';
+}
+
+function documentationText(node: any): string | undefined {
+  const text = xmlTextContent(node?.documentation).trim();
+  return text || undefined;
+}
+
+function appendDocumentation(node: xmlbuilder.XMLElement, text?: string | null): void {
+  if (!text) return;
+  node.ele('documentation').ele('xhtml', { xmlns: XHTML_NAMESPACE }).txt(text);
+}
+
+function appendVariable(parent: xmlbuilder.XMLElement, variable: { name: string; dataType: string; address?: string | null; initialValue?: string | null; description?: string | null }): void {
+  const node = parent.ele('variable', variable.address ? { name: variable.name, address: variable.address } : { name: variable.name });
+  appendType(node.ele('type'), variable.dataType);
+  if (variable.initialValue) {
+    node.ele('initialValue').ele('simpleValue', { value: variable.initialValue });
+  }
+  appendDocumentation(node, variable.description);
+}
+
+// --- Addresses ---
+
+// Stored vendor address to an IEC located address; Rockwell and DB addresses have no IEC form
+function toIecAddress(address: string | null | undefined, vendor: string | null | undefined): string | undefined {
+  const text = (address || '').trim();
+  if (!text) return undefined;
+
+  const match = text.match(/^%?([IQM])([XBWDL])?(\d+)(?:\.([0-7]))?$/i);
+  if (!match || (vendor || '').toLowerCase() === 'rockwell') return undefined;
+  const [, area, width, byte, bit] = match;
+  if (bit !== undefined) return `%${area.toUpperCase()}X${byte}.${bit}`;
+  return `%${area.toUpperCase()}${(width || 'B').toUpperCase()}${byte}`;
+}
+
+// IEC located address to the project vendor's notation
+function fromIecAddress(address: string | undefined, vendor: string): string {
+  if (!address) return '';
+  const match = address.trim().match(/^%([IQM])([XBWDL])?(\d+)(?:\.(\d+))?$/i);
+  if (!match) return '';
+  const [, area, width, byte, bit] = match;
+
+  switch (vendor) {
+    case 'beckhoff':
+      return address.trim().toUpperCase();
+    case 'siemens':
+      if (bit !== undefined) return `${area.toUpperCase()}${byte}.${bit}`;
+      return `${area.toUpperCase()}${(width || 'B').toUpperCase() === 'L' ? 'D' : (width || 'B').toUpperCase()}${byte}`;
+    default:
+      // Rockwell tags are symbolic
+      return '';
+  }
+}
+
+function tagTypeFromAddress(address: string | undefined, constant?: boolean): CreateTagData['tag_type'] {
+  if (constant) return 'constant';
+  if (/^%I/i.test(address || '')) return 'input';
+  if (/^%Q/i.test(address || '')) return 'output';
+  return 'memory';
+}
+
+// Standard `type` column for an imported data type, falling back to DINT like the vendor importers
+function standardTypeFor(dataType: string, vendor: string): string {
+  const composite = compositeTypeCategory(dataType);
+  if (composite) return composite;
+  if (/^W?STRING/i.test(dataType)) return 'STRING';
+  const upper = dataType.toUpperCase();
+  return validateDataTypeForVendor(upper, vendor as 'rockwell' | 'siemens' | 'beckhoff') ? upper : 'DINT';
+}
+
+// --- Export ---
+
+/**
+ * exportPlcopenXml
+ * Writes the project's tags (resource global variables), user-defined types and
+ * Logic Studio POUs as one PLCopen TC6 XML project.
+ */
+export async function exportPlcopenXml(projectId: number, outStream: Writable, conn: Knex | Knex.Transaction = db): Promise<boolean> {
+  try {
+    const project = await conn('projects').where({ id: projectId }).first();
+    const tags = await conn('tags').where({ project_id: projectId }).orderBy('name');
+    const dataTypes = await loadProjectUdts(projectId, conn);
+    const logicStudio = await conn('logic_studio').where({ project_id: projectId }).first();
+    const pous = splitStPous(logicStudio?.code || '');
+    const now = new Date().toISOString();
+
+    const root = xmlbuilder.create('project', { encoding: 'utf-8' })
+      .att('xmlns', TC6_NAMESPACE)
+      .att('xmlns:xhtml', XHTML_NAMESPACE);
+
+    root.ele('fileHeader', {
+      companyName: 'Pandaura',
+      productName: 'Pandaura AS',
+      productVersion: '1.0',
+      creationDateTime: now
+    });
+    const contentHeader = root.ele('contentHeader', { name: project?.project_name || `Project ${projectId}`, modificationDateTime: now });
+    const coordinateInfo = contentHeader.ele('coordinateInfo');
+    for (const language of ['fbd', 'ld', 'sfc']) {
+      coordinateInfo.ele(language).ele('scaling', { x: 1, y: 1 });
+    }
+
+    const types = root.ele('types');
+    const dataTypesNode = types.ele('dataTypes');
+    for (const def of dataTypes) {
+      const typeNode = dataTypesNode.ele('dataType', { name: def.name });
+      const struct = typeNode.ele('baseType').ele('struct');
+      for (const member of def.members) {
+        appendVariable(struct, {
+          name: member.name,
+          dataType: member.data_type,
+          initialValue: member.default_value,
+          description: member.description
+        });
+      }
+      appendDocumentation(typeNode, def.description);
+    }
+
+    const pousNode = types.ele('pous');
+    for (const pou of pous) {
+      const pouNode = pousNode.ele('pou', { name: pou.name, pouType: pou.pouType });
+      const iface = pouNode.ele('interface');
+      if (pou.returnType) appendType(iface.ele('returnType'), pou.returnType);
+
+      for (const section of Object.keys(SECTION_KEYWORDS) as PouVarSection[]) {
+        for (const qualifier of ['', 'constant', 'retain']) {
+          const variables = pou.variables.filter(v => v.section === section &&
+            qualifier === (v.constant ? 'constant' : v.retain ? 'retain' : ''));
+          if (variables.length === 0) continue;
+          const sectionNode = iface.ele(section, qualifier ? { [qualifier]: 'true' } : {});
+          variables.forEach(v => appendVariable(sectionNode, v));
+        }
+      }
+
+      pouNode.ele('body').ele('ST').ele('xhtml', { xmlns: XHTML_NAMESPACE }).txt(pou.body);
+      appendDocumentation(pouNode, pou.description);
+    }
+
+    // One resource holding the tags, with a cyclic task running every program
+    const resource = root.ele('instances').ele('configurations')
+      .ele('configuration', { name: 'Config' })
+      .ele('resource', { name: 'Resource' });
+
+    const programs = pous.filter(p => p.pouType === 'program');
+    if (programs.length > 0) {
+      const task = resource.ele('task', { name: 'MainTask', interval: 'T#10ms', priority: 1 });
+      programs.forEach(p => task.ele('pouInstance', { name: `${p.name}_Instance`, typeName: p.name }));
+    }
+
+    const globalVars = resource.ele('globalVars', { name: 'GlobalVars' });
+    for (const tag of tags) {
+      appendVariable(globalVars, {
+        name: tag.name,
+        dataType: tag.data_type || tag.type || 'BOOL',
+        address: toIecAddress(tag.address, tag.vendor),
+        initialValue: tag.default_value,
+        description: tag.description
+      });
+    }
+
+    outStream.write(root.end({ pretty: true }));
+    outStream.end();
+    return true;
+  } catch (error) {
+    throw new Error(`Failed to export PLCopen XML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// --- Import ---
+
+function extractDataTypes(project: any, warnings: string[]): UdtDefinition[] {
+  const definitions: UdtDefinition[] = [];
+
+  for (const dataType of project?.types?.[0]?.dataTypes?.[0]?.dataType || []) {
+    const name = dataType?.$?.name;
+    const struct = dataType?.baseType?.[0]?.struct?.[0];
+    if (!name) continue;
+    if (!struct) {
+      warnings.push(`Data type ${name} is not a STRUCT and was skipped`);
+      continue;
+    }
+
+    definitions.push({
+      name,
+      description: documentationText(dataType) || '',
+      members: (struct.variable || []).map((member: any) => ({
+        name: member?.$?.name || '',
+        data_type: typeFromXml(member?.type?.[0]) || '',
+        description: documentationText(member),
+        default_value: member?.initialValue?.[0]?.simpleValue?.[0]?.$?.value
+      }))
+    });
+  }
+
+  return definitions;
+}
+
+// Global variable lists: configuration and resource globalVars, plus CODESYS GVLs kept in addData
+function collectGlobalVarLists(project: any): Array<{ list: any; constant: boolean }> {
+  const lists: any[] = [];
+  for (const configuration of project?.instances?.[0]?.configurations?.[0]?.configuration || []) {
+    lists.push(...(configuration.globalVars || []));
+    for (const resource of configuration.resource || []) {
+      lists.push(...(resource.globalVars || []));
+    }
+  }
+  for (const data of project?.addData?.[0]?.data || []) {
+    lists.push(...(data.globalVars || []));
+  }
+  return lists.map(list => ({ list, constant: list?.$?.constant === 'true' }));
+}
+
+function extractPous(project: any, warnings: string[]): StPou[] {
+  const pous: StPou[] = [];
+
+  for (const pou of project?.types?.[0]?.pous?.[0]?.pou || []) {
+    const name = pou?.$?.name;
+    const pouType = pou?.$?.pouType as PouType;
+    if (!name || !['program', 'functionBlock', 'function'].includes(pouType)) continue;
+
+    const body = pou.body?.[0];
+    if (!body?.ST) {
+      const language = Object.keys(body || {}).find(k => k !== '$') || 'no';
+      warnings.push(`POU ${name} has a ${language} body; only ST bodies are imported`);
+      continue;
+    }
+
+    const iface = pou.interface?.[0] || {};
+    const variables: PouVariable[] = [];
+    for (const section of Object.keys(SECTION_KEYWORDS) as PouVarSection[]) {
+      for (const list of iface[section] || []) {
+        for (const variable of list.variable || []) {
+          variables.push({
+            section,
+            name: variable?.$?.name,
+            dataType: typeFromXml(variable?.type?.[0]) || 'DINT',
+            initialValue: variable?.initialValue?.[0]?.simpleValue?.[0]?.$?.value,
+            address: variable?.$?.address,
+            description: documentationText(variable),
+            constant: list?.$?.constant === 'true' || undefined,
+            retain: list?.$?.retain === 'true' || list?.$?.persistent === 'true' || undefined
+          });
+        }
+      }
+    }
+
+    pous.push({
+      name,
+      pouType,
+      returnType: iface.returnType ? typeFromXml(iface.returnType[0]) || undefined : undefined,
+      description: documentationText(pou),
+      variables: variables.filter(v => v.name),
+      body: tidyBody(xmlTextContent(body.ST))
+    });
+  }
+
+  return pous;
+}
+
+/**
+ * Parse a PLCopen XML project without touching the database. Global variables become
+ * tags for the project's vendor, STRUCT data types become user-defined types.
+ */
+export async function parsePlcopenXml(buffer: Buffer, projectId: number, userId: string, vendor: string): Promise<ParsedPlcopenImport> {
+  let parsedXml: any;
+  try {
+    parsedXml = await new xml2js.Parser({ explicitArray: true }).parseStringPromise(buffer.toString('utf8'));
+  } catch (err) {
+    throw new Error('Failed to parse PLCopen XML: ' + (err instanceof Error ? err.message : 'Unknown error'));
+  }
+
+  const project = parsedXml?.project;
+  if (!project) {
+    throw new Error('Not a PLCopen XML file: missing <project> root element');
+  }
+
+  const warnings: string[] = [];
+  const result: ParsedPlcopenImport = {
+    tags: [],
+    errors: [],
+    dataTypes: extractDataTypes(project, warnings),
+    pous: extractPous(project, warnings),
+    warnings
+  };
+
+  let row = 0;
+  for (const { list, constant } of collectGlobalVarLists(project)) {
+    for (const variable of list.variable || []) {
+      row++;
+      const name = variable?.$?.name;
+      const dataType = typeFromXml(variable?.type?.[0]);
+
+      const errors: string[] = [];
+      if (!name) errors.push('Missing variable name');
+      if (!dataType) errors.push(`Unsupported type for variable ${name || `#${row}`}; anonymous enums, structs and subranges are not imported`);
+      if (errors.length > 0) {
+        result.errors.push({ row, errors, raw: variable });
+        continue;
+      }
+
+      const iecAddress = variable.$.address;
+      const address = fromIecAddress(iecAddress, vendor);
+      if (iecAddress && !address) {
+        warnings.push(`Address ${iecAddress} of ${name} has no ${vendor} equivalent and was dropped`);
+      }
+
+      result.tags.push({
+        project_id: projectId,
+        user_id: userId,
+        name,
+        description: documentationText(variable) || '',
+        type: standardTypeFor(dataType!, vendor),
+        data_type: normalizeDataTypeName(dataType!),
+        address,
+        default_value: variable?.initialValue?.[0]?.simpleValue?.[0]?.$?.value,
+        vendor,
+        scope: 'global',
+        tag_type: tagTypeFromAddress(iecAddress, constant),
+        is_ai_generated: false
+      });
+    }
+  }
+
+  if (result.tags.length === 0 && result.errors.length === 0 && result.dataTypes!.length === 0 && result.pous.length === 0) {
+    throw new Error('No global variables, data types or POUs found in PLCopen XML');
+  }
+
+  return result;
+}
+
+/**
+ * importPlcopenXml
+ * Upserts data types and tags and writes POUs into the Logic Studio code in one transaction.
+ * `code`: merge (default) replaces POUs of the same name and appends new ones, replace
+ * overwrites the code, skip leaves it alone.
+ */
+export async function importPlcopenXml(
+  buffer: Buffer,
+  projectId: number,
+  userId: string,
+  options: { vendor: string; code?: PlcopenCodeMode }
+): Promise<{ success: boolean; inserted?: number; updated?: number; dataTypes?: { inserted: number; updated: number }; pous?: string[]; warnings?: string[]; errors?: any[] }> {
+  const parsedImport = await parsePlcopenXml(buffer, projectId, userId, options.vendor);
+  const parsed = await prepareParsedImport(projectId, options.vendor, parsedImport);
+  if (parsed.errors.length > 0) {
+    return { success: false, errors: parsed.errors, warnings: parsedImport.warnings };
+  }
+
+  const mode = options.code || 'merge';
+  const pous = mode === 'skip' ? [] : parsedImport.pous;
+
+  return db.transaction(async (trx) => {
+    const { dataTypes, ...tags } = await persistPreparedImport(projectId, userId, parsed, trx);
+
+    if (pous.length > 0) {
+      const existing = await trx('logic_studio').where({ project_id: projectId }).first();
+      const code = mode === 'replace' || !existing
+        ? `${pous.map(formatStPou).join('\n\n')}\n`
+        : mergeStPous(existing.code || '', pous);
+
+      if (existing) {
+        await trx('logic_studio').where({ project_id: projectId }).update({ code, updated_at: new Date().toISOString() });
+      } else {
+        await trx('logic_studio').insert({
+          project_id: projectId,
+          user_id: userId,
+          code,
+          ai_prompt: '',
+          version_id: null,
+          ui_state: {},
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        });
+      }
+    }
+
+    return {
+      success: true,
+      inserted: tags.inserted,
+      updated: tags.updated,
+      dataTypes,
+      pous: pous.map(p => p.name),
+      warnings: parsedImport.warnings
+    };
+  });
+}
@@ -0,0 +1,41 @@
+// projectCodeSettings.ts
+// Per-project settings for the Structured Text tooling (lint rules, formatter options), stored in project_code_settings
+
+import { Knex } from 'knex';
+import db from '../db/knex';
+import { normalizeLintRules, STLintRuleSettings } from './stLinter';
+import { normalizeFormatOptions, STFormatOptions } from './stFormatter';
+
+/**
+ * Lint rule settings of a project; an empty object (all defaults) when none are saved.
+ */
+export async function loadProjectLintRules(
+  projectId: number,
+  conn: Knex | Knex.Transaction = db
+): Promise<STLintRuleSettings> {
+  const row = await conn('project_code_settings').where({ project_id: projectId }).select('lint_rules').first();
+  if (!row) return {};
+  try {
+    return normalizeLintRules(row.lint_rules);
+  } catch (error) {
+    console.error(`⚠️ Ignoring invalid lint rules for project ${projectId}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Formatter options of a project; an empty object (all defaults) when none are saved.
+ */
+export async function loadProjectFormatOptions(
+  projectId: number,
+  conn: Knex | Knex.Transaction = db
+): Promise<Partial<STFormatOptions>> {
+  const row = await conn('project_code_settings').where({ project_id: projectId }).select('format_options').first();
+  if (!row) return {};
+  try {
+    return normalizeFormatOptions(row.format_options);
+  } catch (error) {
+    console.error(`⚠️ Ignoring invalid format options for project ${projectId}:`, error);
+    return {};
+  }
+}
@@ -0,0 +1,23 @@
+// projectOrganization.ts
+// The organization a project belongs to. Projects have no organization column: they belong to
+// their owner's organization, found through team_members since invited members have no users.org_id
+
+import type { Knex } from 'knex';
+import db from '../db/knex';
+
+/**
+ * Organization of the project owner, or null. An owner in several organizations
+ * counts toward the one they joined first.
+ */
+export async function projectOrganizationId(
+  projectId: number,
+  conn: Knex | Knex.Transaction = db
+): Promise<string | null> {
+  const membership = await conn('projects')
+    .join('team_members', 'team_members.user_id', 'projects.user_id')
+    .where('projects.id', projectId)
+    .orderBy('team_members.created_at')
+    .select('team_members.organization_id')
+    .first();
+  return membership?.organization_id || null;
+}
@@ -10,6 +10,10 @@ import * as xmlbuilder from 'xmlbuilder';
 import * as XLSX from 'xlsx';
 import { CreateTagData, Tag } from '../db/tables/tags';
 import db from '../db/knex';
+import { ParsedTagImport } from '../services/tagImportPipeline';
+import { arrayTypeFromDimensions, compositeTypeCategory, dimensionsFromArrayType, loadProjectUdts, UdtDefinition } from '../utils/udt';
+import { applyEngineeringComment, formatEngineeringComment } from '../utils/tagEngineering';
+import { locateXlsxErrors, readXlsxTagSheets, readXlsxWorkbook } from '../utils/xlsxTagSheets';
 import { Writable } from 'stream';
 
 // Rockwell tag CSV headers mapping & normalization
@@ -76,7 +80,7 @@ const DATA_TYPE_NORMALIZE: Record<string, string> = {
   'STRUCT': 'STRUCT'
 };
 
-interface ParsedRockwellRow {
+export interface ParsedRockwellRow {
   name?: string;
   data_type?: string;
   scope?: string;
@@ -213,60 +217,49 @@ function validateAndMapRockwellRow(row: ParsedRockwellRow, projectId: number, us
     is_ai_generated: false
   };
 
+  // Units, scaling and alarm limits travel in the description
+  const engineeringErrors = applyEngineeringComment(mapped);
+  if (engineeringErrors.length > 0) {
+    return { errors: engineeringErrors, mapped: null };
+  }
+
   return { errors: [], mapped };
 }
 
 /**
- * importRockwellCsv
- * - buffer: Buffer of Rockwell CSV file upload
- * - projectId: number
- * - userId: string
- * - tagsTable: TagsTable instance
- *
- * Returns: { success: true, inserted: N } or throws detailed errors
+ * Parse and validate a Rockwell CSV tag export without touching the database
  */
-export async function importRockwellCsv(
-  buffer: Buffer, 
-  projectId: number, 
-  userId: string
-): Promise<{ success: boolean; inserted?: number; errors?: any[] }> {
+export function parseRockwellCsvTags(buffer: Buffer, projectId: number, userId: string): ParsedTagImport {
   const rows = parseRockwellCsvBuffer(buffer);
   
   if (!rows || rows.length === 0) {
     throw new Error('No rows parsed from Rockwell CSV file');
   }
 
-  const validTags: CreateTagData[] = [];
-  const errors: any[] = [];
+  return validateRockwellRows(rows, projectId, userId);
+}
+
+/**
+ * Validate canonical Rockwell rows (name, data_type, scope, description, ...) from any tabular source
+ */
+export function validateRockwellRows(rows: ParsedRockwellRow[], projectId: number, userId: string): ParsedTagImport {
+  const result: ParsedTagImport = { tags: [], errors: [] };
 
   for (let i = 0; i < rows.length; i++) {
     const r = rows[i];
     const { errors: rowErrors, mapped } = validateAndMapRockwellRow(r, projectId, userId);
     
     if (rowErrors.length > 0) {
-      errors.push({ row: i + 1, errors: rowErrors, raw: r });
+      result.errors.push({ row: i + 1, errors: rowErrors, raw: r });
       continue;
     }
 
     if (mapped) {
-      validTags.push(mapped);
+      result.tags.push(mapped);
     }
   }
 
-  if (errors.length > 0) {
-    return { success: false, errors, inserted: validTags.length };
-  }
-
-  // Upsert tags into database
-  for (const tag of validTags) {
-    await db('tags').insert({
-      ...tag,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    });
-  }
-
-  return { success: true, inserted: validTags.length };
+  return result;
 }
 
 /**
@@ -312,7 +305,7 @@ export async function exportRockwellCsv(
       'Tag Name': tag.name,
       'Data Type': tag.data_type || '',
       'Scope': tag.scope || 'Global',
-      'Description': tag.description || '',
+      'Description': formatEngineeringComment(tag.description, tag),
       'External Access': '', // Default empty for now
       'Default Value': tag.default_value || '',
       'Address': tag.address || ''
@@ -323,22 +316,47 @@ export async function exportRockwellCsv(
   return true;
 }
 
+function asArray<T>(node: T | T[] | undefined): T[] {
+  if (node === undefined || node === null) return [];
+  return Array.isArray(node) ? node : [node];
+}
+
+// Text of an L5X element that may be plain text or carry attributes ({ _: text })
+function l5xText(node: any): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string') return node.trim();
+  return typeof node._ === 'string' ? node._.trim() : '';
+}
+
 /**
- * importRockwellL5X
- * - buffer: Buffer of L5X XML file upload
- * - projectId: number
- * - userId: string
- * - tagsTable: TagsTable instance
- *
- * Parses Rockwell Studio 5000 L5X XML tag export, validates tags, and upserts.
- *
- * Returns: { success: true, inserted: N } or throws detailed errors
+ * Map L5X <DataType> elements to UDT definitions.
+ * Hidden members are the SINT hosts Studio 5000 creates for BOOL members (BIT) and are skipped.
  */
-export async function importRockwellL5X(
-  buffer: Buffer, 
-  projectId: number, 
+function extractL5XDataTypes(dataTypeNodes: any[]): UdtDefinition[] {
+  return dataTypeNodes
+    .filter(dt => dt?.Name)
+    .map(dt => ({
+      name: dt.Name,
+      description: l5xText(dt.Description),
+      vendor: 'rockwell',
+      members: asArray<any>(dt.Members?.Member)
+        .filter(m => m?.Name && String(m.Hidden).toLowerCase() !== 'true')
+        .map(m => ({
+          name: m.Name,
+          data_type: arrayTypeFromDimensions(m.DataType === 'BIT' ? 'BOOL' : (m.DataType || ''), m.Dimension),
+          description: l5xText(m.Description) || undefined
+        }))
+    }));
+}
+
+/**
+ * Parse and validate a Rockwell L5X tag export without touching the database
+ */
+export async function parseRockwellL5XTags(
+  buffer: Buffer,
+  projectId: number,
   userId: string
-): Promise<{ success: boolean; inserted?: number; errors?: any[] }> {
+): Promise<ParsedTagImport> {
   const xmlStr = buffer.toString('utf8');
   const parser = new xml2js.Parser({ explicitArray: false, mergeAttrs: true });
   
@@ -349,36 +367,44 @@ export async function importRockwellL5X(
     throw new Error('Failed to parse L5X XML: ' + err.message);
   }
 
-  // Navigate XML: Root > ControllerTags > Tag (array or single)
-  const tagsNode = parsedXml?.ControllerTags?.Tag;
-  if (!tagsNode) {
+  // Studio 5000 export: RSLogix5000Content > Controller > DataTypes / Tags;
+  // our own export: ControllerTags > DataTypes / Tag
+  const controller = parsedXml?.RSLogix5000Content?.Controller;
+  const tagsArray = asArray<any>(controller ? controller.Tags?.Tag : parsedXml?.ControllerTags?.Tag);
+  const dataTypes = extractL5XDataTypes(asArray<any>(
+    controller ? controller.DataTypes?.DataType : parsedXml?.ControllerTags?.DataTypes?.DataType
+  ));
+
+  if (tagsArray.length === 0 && dataTypes.length === 0) {
     throw new Error('No Tags found in L5X XML');
   }
 
-  // Tags can be array or single object
-  const tagsArray = Array.isArray(tagsNode) ? tagsNode : [tagsNode];
-  const validTags: CreateTagData[] = [];
-  const errors: any[] = [];
+  const result: ParsedTagImport = { tags: [], errors: [], dataTypes };
 
   // Map L5X Tag to internal model
   for (let i = 0; i < tagsArray.length; i++) {
     const t = tagsArray[i];
     const name = t.Name || null;
     const dataType = t.DataType || null;
-    const description = t.Comment || '';
+    const description = l5xText(t.Comment) || l5xText(t.Description);
     const scope = t.Scope || 'Global';
 
     if (!name) {
-      errors.push({ row: i + 1, errors: ['Missing tag name'], raw: t });
+      result.errors.push({ row: i + 1, errors: ['Missing tag name'], raw: t });
       continue;
     }
 
-    if (!dataType || !ROCKWELL_TYPES.has(dataType.toUpperCase())) {
-      errors.push({ row: i + 1, errors: [`Unsupported or missing data type: ${dataType}`], raw: t });
+    // Elementary types are upper-cased; anything else is a UDT name, checked against known types on import
+    const baseType = dataType && ROCKWELL_TYPES.has(dataType.toUpperCase()) ? dataType.toUpperCase() : dataType;
+    const fullType = baseType ? arrayTypeFromDimensions(baseType, t.Dimensions) : null;
+    const composite = fullType ? compositeTypeCategory(fullType) : null;
+
+    if (!fullType || (!composite && !ROCKWELL_TYPES.has(fullType))) {
+      result.errors.push({ row: i + 1, errors: [`Unsupported or missing data type: ${dataType}`], raw: t });
       continue;
     }
 
-    const standardType = ROCKWELL_TO_STANDARD_TYPE[dataType.toUpperCase()] || 'STRING';
+    const standardType = composite || ROCKWELL_TO_STANDARD_TYPE[fullType] || 'STRING';
 
     const tag: CreateTagData = {
       project_id: projectId,
@@ -386,7 +412,7 @@ export async function importRockwellL5X(
       name,
       description,
       type: standardType,
-      data_type: dataType.toUpperCase(),
+      data_type: fullType,
       address: '', // L5X typically doesn't include physical addresses
       default_value: '',
       vendor: 'rockwell',
@@ -395,23 +421,10 @@ export async function importRockwellL5X(
       is_ai_generated: false
     };
 
-    validTags.push(tag);
+    result.tags.push(tag);
   }
 
-  if (errors.length > 0) {
-    return { success: false, errors, inserted: validTags.length };
-  }
-
-  // Upsert tags into database
-  for (const tag of validTags) {
-    await db('tags').insert({
-      ...tag,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    });
-  }
-
-  return { success: true, inserted: validTags.length };
+  return result;
 }
 
 /**
@@ -433,11 +446,33 @@ export async function exportRockwellL5X(
 
   // Build XML root
   const root = xmlbuilder.create('ControllerTags', { encoding: 'utf-8' });
+
+  // UDT definitions first so the file re-imports on its own
+  const dataTypes = await loadProjectUdts(projectId);
+  if (dataTypes.length > 0) {
+    const typesNode = root.ele('DataTypes');
+    for (const def of dataTypes) {
+      const typeNode = typesNode.ele('DataType');
+      typeNode.ele('Name', {}, def.name);
+      if (def.description) typeNode.ele('Description', {}, def.description);
+      const membersNode = typeNode.ele('Members');
+      for (const member of def.members) {
+        const { dataType, dimensions } = dimensionsFromArrayType(member.data_type);
+        const memberNode = membersNode.ele('Member');
+        memberNode.ele('Name', {}, member.name);
+        memberNode.ele('DataType', {}, dataType);
+        memberNode.ele('Dimension', {}, dimensions || '0');
+        if (member.description) memberNode.ele('Description', {}, member.description);
+      }
+    }
+  }
   
   for (const tag of tags) {
+    const { dataType, dimensions } = dimensionsFromArrayType(tag.data_type || 'DINT');
     const tagNode = root.ele('Tag');
     tagNode.ele('Name', {}, tag.name);
-    tagNode.ele('DataType', {}, tag.data_type || 'DINT');
+    tagNode.ele('DataType', {}, dataType);
+    if (dimensions) tagNode.ele('Dimensions', {}, dimensions);
     if (tag.description) {
       tagNode.ele('Comment', {}, tag.description);
     }
@@ -450,6 +485,32 @@ export async function exportRockwellL5X(
   return true;
 }
 
+// --- XLSX Import ---
+
+/**
+ * Parse and validate a Rockwell XLSX tag list (our export or one sheet per program) without touching the database
+ */
+export function parseRockwellXlsxTags(buffer: Buffer, projectId: number, userId: string): ParsedTagImport {
+  const workbook = readXlsxWorkbook(buffer, 'Rockwell');
+  const rows = readXlsxTagSheets<ParsedRockwellRow>(workbook, {
+    headerMap: HEADER_MAP as Record<string, keyof ParsedRockwellRow>,
+    nameField: 'name',
+    scopeField: 'scope',
+    defaultSheetNames: ['Rockwell Tags', 'Controller Tags']
+  });
+  if (rows.length === 0) {
+    throw new Error('No tags found in Rockwell XLSX');
+  }
+
+  return locateXlsxErrors(validateRockwellRows(rows.map(r => r.values), projectId, userId), rows, {
+    name: 'name',
+    dataType: 'data_type',
+    address: 'address',
+    defaultValue: 'default_value',
+    comment: 'description'
+  });
+}
+
 // --- XLSX Export Function ---
 export async function exportRockwellXlsx(projectId: number, outStream: Writable): Promise<boolean> {
   try {
@@ -488,7 +549,7 @@ export async function exportRockwellXlsx(projectId: number, outStream: Writable)
         tag.data_type || tag.type || 'DINT',
         tag.address || '',
         tag.default_value || '',
-        tag.description || '',
+        formatEngineeringComment(tag.description, tag),
         tag.scope || 'Global'
       ]);
     }
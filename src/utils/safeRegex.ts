@@ -0,0 +1,126 @@
+// safeRegex.ts
+// Screening for regular expressions that users write and the server runs over many tag names.
+// JavaScript regexes backtrack, so a repeated group that can split the same text several ways
+// ((a+)+, (a|ab)*) takes exponential time on a near miss and stalls every other request meanwhile.
+
+interface RegexAtom {
+  source: string;      // without its quantifier
+  repeated: boolean;   // quantifier allows more than one match
+  group?: RegexGroup;
+}
+
+interface RegexGroup {
+  atoms: RegexAtom[];
+  alternation: boolean;
+}
+
+// Length of the group opener: '(', '(?:', '(?=', '(?!', '(?<=', '(?<!' or '(?<name>'
+function groupPrefixLength(pattern: string, start: number): number {
+  if (pattern[start + 1] !== '?') return 1;
+  if (pattern[start + 2] === '<' && pattern[start + 3] !== '=' && pattern[start + 3] !== '!') {
+    return pattern.indexOf('>', start) - start + 1;
+  }
+  return pattern[start + 2] === '<' ? 4 : 3;
+}
+
+function classEnd(pattern: string, start: number): number {
+  let i = start + 1;
+  if (pattern[i] === '^') i++;
+  if (pattern[i] === ']') i++;
+  while (i < pattern.length && pattern[i] !== ']') {
+    i += pattern[i] === '\\' ? 2 : 1;
+  }
+  return i;
+}
+
+// Parse a syntactically valid pattern into groups of atoms, from `start` to the closing ')'
+function readGroup(pattern: string, start: number): { group: RegexGroup; end: number } {
+  const group: RegexGroup = { atoms: [], alternation: false };
+  let i = start;
+
+  while (i < pattern.length && pattern[i] !== ')') {
+    if (pattern[i] === '|') {
+      group.alternation = true;
+      i++;
+      continue;
+    }
+
+    const atomStart = i;
+    let inner: RegexGroup | undefined;
+    if (pattern[i] === '(') {
+      const read = readGroup(pattern, i + groupPrefixLength(pattern, i));
+      inner = read.group;
+      i = read.end + 1;
+    } else if (pattern[i] === '[') {
+      i = classEnd(pattern, i) + 1;
+    } else if (pattern[i] === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1])) throw new Error('uses a backreference');
+      i += 2;
+    } else {
+      i++;
+    }
+
+    const source = pattern.slice(atomStart, i);
+    const quantifier = /^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/.exec(pattern.slice(i));
+    let repeated = false;
+    if (quantifier) {
+      const [, min, comma, max] = quantifier;
+      repeated = quantifier[0][0] === '*' || quantifier[0][0] === '+' ||
+        (min !== undefined && (comma !== undefined ? max === '' || parseInt(max, 10) > 1 : parseInt(min, 10) > 1));
+      i += quantifier[0].length;
+    }
+    group.atoms.push({ source, repeated, group: inner });
+  }
+
+  return { group, end: i };
+}
+
+function containsRepetition(group: RegexGroup): boolean {
+  return group.atoms.some(atom => atom.repeated || (atom.group && containsRepetition(atom.group)));
+}
+
+function containsAlternation(group: RegexGroup): boolean {
+  return group.alternation || group.atoms.some(atom => atom.group && containsAlternation(atom.group));
+}
+
+// A single literal character: plain, or escaped punctuation such as \. or \-
+function literalCharacter(atom: RegexAtom): string | undefined {
+  if (atom.group || atom.repeated) return undefined;
+  if (atom.source.length === 1 && !'.^$'.includes(atom.source)) return atom.source;
+  if (atom.source.length === 2 && atom.source[0] === '\\' && /[^A-Za-z0-9]/.test(atom.source[1])) return atom.source[1];
+  return undefined;
+}
+
+// (_[A-Z0-9]+)* is unambiguous: every repetition starts at a '_' its inner quantifier cannot consume
+function isDelimitedRepetition(group: RegexGroup, flags: string): boolean {
+  const delimiter = group.atoms.length > 0 ? literalCharacter(group.atoms[0]) : undefined;
+  if (delimiter === undefined) return false;
+  return group.atoms.every(atom => !atom.group && (!atom.repeated || !new RegExp(`^(?:${atom.source})$`, flags).test(delimiter)));
+}
+
+function checkGroup(group: RegexGroup, flags: string): void {
+  for (const atom of group.atoms) {
+    if (!atom.group) continue;
+    if (atom.repeated && containsAlternation(atom.group)) {
+      throw new Error('repeats a group with alternatives, e.g. (a|ab)*');
+    }
+    if (atom.repeated && containsRepetition(atom.group) && !isDelimitedRepetition(atom.group, flags)) {
+      throw new Error('nests quantifiers, e.g. (a+)+; a repeated group may only contain quantifiers when it starts with a character they cannot match, as in (_[A-Z0-9]+)*');
+    }
+    checkGroup(atom.group, flags);
+  }
+}
+
+/**
+ * Why a valid pattern could backtrack catastrophically, or null when it is safe to run over
+ * untrusted names. Rejects backreferences, repeated groups with alternatives and nested
+ * quantifiers other than delimited repetitions.
+ */
+export function unsafeRegexReason(pattern: string, flags = ''): string | null {
+  try {
+    checkGroup(readGroup(pattern, 0).group, flags.replace(/[gy]/g, ''));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'could not be checked';
+  }
+}
@@ -1,10 +1,15 @@
 import { Writable } from 'stream';
 import { parse } from 'csv-parse';
 import * as XLSX from 'xlsx';
+import * as xml2js from 'xml2js';
 import { CreateTagData } from '../db/tables/tags';
 import db from '../db/knex';
+import { ParsedTagImport } from '../services/tagImportPipeline';
+import { compositeTypeCategory, loadProjectUdts, normalizeDataTypeName, UdtDefinition } from '../utils/udt';
+import { applyEngineeringComment, formatEngineeringComment } from '../utils/tagEngineering';
+import { locateXlsxErrors, readXlsxTagSheets, readXlsxWorkbook } from '../utils/xlsxTagSheets';
 
-interface ParsedSiemensRow {
+export interface ParsedSiemensRow {
   Name: string;
   DataType: string;
   Address: string;
@@ -46,9 +51,14 @@ function validateAndMapSiemensRow(row: ParsedSiemensRow, projectId: number, user
   let finalDataType: string;
 
   if (row.DataType && row.DataType.trim() !== '') {
-    // Use provided data type
+    // Use provided data type; "UDT" references and Array[..] of .. are checked against known types on import
     finalDataType = row.DataType.trim();
     standardType = dataTypeMap[finalDataType.toUpperCase()];
+    const composite = standardType ? null : compositeTypeCategory(finalDataType);
+    if (composite) {
+      finalDataType = normalizeDataTypeName(finalDataType);
+      standardType = composite;
+    }
     if (!standardType) {
       errors.push(`Unsupported Siemens data type: ${finalDataType}`);
     }
@@ -89,7 +99,7 @@ function validateAndMapSiemensRow(row: ParsedSiemensRow, projectId: number, user
     user_id: userId,
     name: row.Name.trim(),
     description: row.Comment || '',
-    type: standardType as 'BOOL' | 'INT' | 'DINT' | 'REAL' | 'STRING',
+    type: standardType,
     data_type: finalDataType,
     address: row.Address || '',
     default_value: row.InitialValue,
@@ -99,6 +109,12 @@ function validateAndMapSiemensRow(row: ParsedSiemensRow, projectId: number, user
     is_ai_generated: false
   };
 
+  // Units, scaling and alarm limits travel in the comment
+  const engineeringErrors = applyEngineeringComment(mapped);
+  if (engineeringErrors.length > 0) {
+    return { errors: engineeringErrors };
+  }
+
   return { errors: [], mapped };
 }
 
@@ -114,12 +130,206 @@ function determineTagType(address: string): 'input' | 'output' | 'memory' | 'tem
   return 'memory';
 }
 
-export async function importSiemensCsv(
+/**
+ * Validate canonical Siemens rows (Name, DataType, Address, Comment, ...) from any tabular source
+ */
+export function validateSiemensRows(rows: ParsedSiemensRow[], projectId: number, userId: string): ParsedTagImport {
+  const result: ParsedTagImport = { tags: [], errors: [] };
+
+  for (let i = 0; i < rows.length; i++) {
+    const { errors: rowErrors, mapped } = validateAndMapSiemensRow(rows[i], projectId, userId);
+
+    if (rowErrors.length > 0) {
+      result.errors.push({ row: i + 1, errors: rowErrors, raw: rows[i] });
+      continue;
+    }
+
+    if (mapped) {
+      result.tags.push(mapped);
+    }
+  }
+
+  return result;
+}
+
+// TIA Portal writes logical addresses with a leading '%' (e.g. %I0.0); we store them without it
+function normalizeSiemensAddress(address?: string): string {
+  return (address || '').toString().trim().replace(/^%/, '');
+}
+
+// Read the text content of an xml2js node (plain string or { _: text, $: attrs })
+function xmlText(node: any): string | undefined {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === 'string') return node;
+  if (typeof node === 'object' && typeof node._ === 'string') return node._;
+  return undefined;
+}
+
+function asArray<T>(node: T | T[] | undefined): T[] {
+  if (node === undefined || node === null) return [];
+  return Array.isArray(node) ? node : [node];
+}
+
+// Extract the comment of a TIA Portal Openness object (MultilingualText → MultilingualTextItem → Text)
+function extractTiaComment(objectList: any): string | undefined {
+  for (const text of asArray(objectList?.MultilingualText)) {
+    if (text?.$?.CompositionName && text.$.CompositionName !== 'Comment') continue;
+    const items = asArray(text?.ObjectList?.MultilingualTextItem);
+    // Prefer English, otherwise the first culture that has text
+    const english = items.find((item: any) => (xmlText(item?.AttributeList?.Culture) || '').startsWith('en'));
+    for (const item of english ? [english, ...items] : items) {
+      const value = xmlText(item?.AttributeList?.Text);
+      if (value) return value;
+    }
+  }
+  return undefined;
+}
+
+// Map either our own exporter's XML or a TIA Portal tag-table export to parsed rows
+function extractSiemensXmlRows(parsedXml: any): ParsedSiemensRow[] {
+  const rows: ParsedSiemensRow[] = [];
+
+  // Pandaura export: Siemens.TIA.Portal.TagTable > TagTable > Tags > Tag
+  const ownTable = parsedXml?.['Siemens.TIA.Portal.TagTable']?.TagTable || parsedXml?.TagTable;
+  for (const t of asArray(ownTable?.Tags?.Tag)) {
+    rows.push({
+      Name: xmlText(t.Name) || '',
+      DataType: xmlText(t.DataType) || '',
+      Address: normalizeSiemensAddress(xmlText(t.Address)),
+      Comment: xmlText(t.Comment),
+      InitialValue: xmlText(t.InitialValue),
+      Scope: xmlText(t.Scope)
+    });
+  }
+
+  // TIA Portal Openness export: Document > SW.Tags.PlcTagTable > ObjectList > SW.Tags.PlcTag / SW.Tags.PlcUserConstant
+  for (const table of asArray(parsedXml?.Document?.['SW.Tags.PlcTagTable'])) {
+    const objects = (table as any)?.ObjectList;
+
+    for (const tag of asArray(objects?.['SW.Tags.PlcTag'])) {
+      const attrs = (tag as any)?.AttributeList || {};
+      rows.push({
+        Name: xmlText(attrs.Name) || '',
+        DataType: xmlText(attrs.DataTypeName) || '',
+        Address: normalizeSiemensAddress(xmlText(attrs.LogicalAddress)),
+        Comment: extractTiaComment((tag as any)?.ObjectList),
+        Scope: 'global'
+      });
+    }
+
+    for (const constant of asArray(objects?.['SW.Tags.PlcUserConstant'])) {
+      const attrs = (constant as any)?.AttributeList || {};
+      rows.push({
+        Name: xmlText(attrs.Name) || '',
+        DataType: xmlText(attrs.DataTypeName) || '',
+        Address: '',
+        Comment: extractTiaComment((constant as any)?.ObjectList),
+        InitialValue: xmlText(attrs.Value),
+        Scope: 'global'
+      });
+    }
+  }
+
+  return rows;
+}
+
+// Comment of a TIA PLC data type member: <Comment><MultiLanguageText Lang="en-US">..</MultiLanguageText></Comment>
+function extractTiaMemberComment(member: any): string | undefined {
+  const texts = asArray<any>(member?.Comment?.MultiLanguageText);
+  const english = texts.find(t => (t?.$?.Lang || '').startsWith('en'));
+  return xmlText(english) || texts.map(xmlText).find(Boolean);
+}
+
+/**
+ * Map TIA Openness PLC data type members (Interface > Sections > Section > Member) to UDT members.
+ * Anonymous Struct members become their own types named <Parent>_<Member>.
+ */
+function extractTiaStructMembers(typeName: string, members: any[], definitions: UdtDefinition[]): UdtDefinition['members'] {
+  return members
+    .filter(m => m?.$?.Name)
+    .map(m => {
+      let dataType = m.$.Datatype || '';
+      if (dataType.toLowerCase() === 'struct') {
+        const nestedName = `${typeName}_${m.$.Name}`;
+        definitions.push({
+          name: nestedName,
+          vendor: 'siemens',
+          members: extractTiaStructMembers(nestedName, asArray(m.Member), definitions)
+        });
+        dataType = nestedName;
+      }
+      return {
+        name: m.$.Name,
+        data_type: normalizeDataTypeName(dataType),
+        description: extractTiaMemberComment(m),
+        default_value: xmlText(m.StartValue)
+      };
+    });
+}
+
+// PLC data types from our own export (TagTable > DataTypes) or TIA Openness (Document > SW.Types.PlcStruct)
+function extractSiemensXmlDataTypes(parsedXml: any): UdtDefinition[] {
+  const definitions: UdtDefinition[] = [];
+
+  const ownTable = parsedXml?.['Siemens.TIA.Portal.TagTable']?.TagTable || parsedXml?.TagTable;
+  for (const dt of asArray<any>(ownTable?.DataTypes?.DataType)) {
+    definitions.push({
+      name: xmlText(dt.Name) || '',
+      description: xmlText(dt.Comment) || '',
+      vendor: 'siemens',
+      members: asArray<any>(dt.Members?.Member).map(m => ({
+        name: xmlText(m.Name) || '',
+        data_type: normalizeDataTypeName(xmlText(m.DataType) || ''),
+        description: xmlText(m.Comment),
+        default_value: xmlText(m.InitialValue)
+      }))
+    });
+  }
+
+  for (const struct of asArray<any>(parsedXml?.Document?.['SW.Types.PlcStruct'])) {
+    const name = xmlText(struct?.AttributeList?.Name) || '';
+    const sections = asArray<any>(struct?.AttributeList?.Interface?.Sections?.Section);
+    const members = sections.flatMap(section => asArray<any>(section?.Member));
+    const definition: UdtDefinition = {
+      name,
+      description: extractTiaComment(struct?.ObjectList) || '',
+      vendor: 'siemens',
+      members: []
+    };
+    definitions.push(definition);
+    definition.members = extractTiaStructMembers(name, members, definitions);
+  }
+
+  return definitions;
+}
+
+// Header aliases for our own XLSX export and TIA Portal "PLC tags" / "User constants" sheets
+const XLSX_HEADER_MAP: Record<string, keyof ParsedSiemensRow> = {
+  'name': 'Name',
+  'tag name': 'Name',
+  'data type': 'DataType',
+  'datatype': 'DataType',
+  'data_type': 'DataType',
+  'address': 'Address',
+  'logical address': 'Address',
+  'comment': 'Comment',
+  'description': 'Comment',
+  'initial value': 'InitialValue',
+  'initialvalue': 'InitialValue',
+  'start value': 'InitialValue',
+  'value': 'InitialValue',
+  'scope': 'Scope'
+};
+
+/**
+ * Parse and validate a Siemens CSV tag table without touching the database
+ */
+export async function parseSiemensCsvTags(
   buffer: Buffer,
   projectId: number,
   userId: string
-): Promise<{ success: boolean; inserted?: number; errors?: any[] }> {
-  return new Promise((resolve, reject) => {
+): Promise<ParsedTagImport> {
+  const rows = await new Promise<ParsedSiemensRow[]>((resolve, reject) => {
     const rows: ParsedSiemensRow[] = [];
     
     // Auto-detect delimiter by checking the first line
@@ -144,51 +354,78 @@ export async function importSiemensCsv(
       reject(new Error(`Failed to parse Siemens CSV: ${err.message}`));
     });
 
-    parser.on('end', async () => {
-      try {
-        if (rows.length === 0) {
-          throw new Error('No rows parsed from Siemens CSV file');
-        }
+    parser.on('end', () => resolve(rows));
 
-        const validTags: CreateTagData[] = [];
-        const errors: any[] = [];
+    parser.write(buffer);
+    parser.end();
+  });
 
-        for (let i = 0; i < rows.length; i++) {
-          const { errors: rowErrors, mapped } = validateAndMapSiemensRow(rows[i], projectId, userId);
-          
-          if (rowErrors.length > 0) {
-            errors.push({ row: i + 1, errors: rowErrors, raw: rows[i] });
-            continue;
-          }
+  if (rows.length === 0) {
+    throw new Error('No rows parsed from Siemens CSV file');
+  }
 
-          if (mapped) {
-            validTags.push(mapped);
-          }
-        }
+  return validateSiemensRows(rows, projectId, userId);
+}
 
-        if (errors.length > 0) {
-          resolve({ success: false, errors, inserted: validTags.length });
-          return;
-        }
+/**
+ * Parse and validate a Siemens XML tag table (our export or TIA Portal Openness) without touching the database
+ */
+export async function parseSiemensXmlTags(
+  buffer: Buffer,
+  projectId: number,
+  userId: string
+): Promise<ParsedTagImport> {
+  const parser = new xml2js.Parser({ explicitArray: false });
 
-        // Insert valid tags
-        for (const tag of validTags) {
-          await db('tags').insert({
-            ...tag,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          });
-        }
+  let parsedXml: any;
+  try {
+    parsedXml = await parser.parseStringPromise(buffer.toString('utf8'));
+  } catch (err) {
+    throw new Error('Failed to parse Siemens XML: ' + (err instanceof Error ? err.message : 'Unknown error'));
+  }
 
-        resolve({ success: true, inserted: validTags.length });
-      } catch (error) {
-        reject(error);
-      }
-    });
+  const rows = extractSiemensXmlRows(parsedXml);
+  const dataTypes = extractSiemensXmlDataTypes(parsedXml);
+  if (rows.length === 0 && dataTypes.length === 0) {
+    throw new Error('No tags found in Siemens XML');
+  }
 
-    parser.write(buffer);
-    parser.end();
+  return { ...validateSiemensRows(rows, projectId, userId), dataTypes };
+}
+
+/**
+ * Parse and validate a Siemens XLSX tag table (our export or TIA Portal "PLC tags") without touching the database.
+ * Every sheet with a name column is read; row errors point at their sheet and cell.
+ */
+export async function parseSiemensXlsxTags(
+  buffer: Buffer,
+  projectId: number,
+  userId: string
+): Promise<ParsedTagImport> {
+  const workbook = readXlsxWorkbook(buffer, 'Siemens');
+  const rows = readXlsxTagSheets<ParsedSiemensRow>(workbook, {
+    headerMap: XLSX_HEADER_MAP,
+    nameField: 'Name',
+    scopeField: 'Scope',
+    defaultSheetNames: ['Siemens Tags', 'PLC tags', 'User constants', 'System constants']
   });
+  if (rows.length === 0) {
+    throw new Error('No tags found in Siemens XLSX');
+  }
+
+  const values = rows.map(r => ({ ...r.values, Name: r.values.Name || '', DataType: r.values.DataType || '', Address: normalizeSiemensAddress(r.values.Address) }));
+  return locateXlsxErrors(validateSiemensRows(values, projectId, userId), rows, {
+    name: 'Name',
+    dataType: 'DataType',
+    address: 'Address',
+    defaultValue: 'InitialValue',
+    comment: 'Comment'
+  });
+}
+
+// Quote a CSV cell that contains the delimiter, quotes or line breaks
+function csvCell(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
 }
 
 export async function exportSiemensCsv(
@@ -220,7 +457,7 @@ export async function exportSiemensCsv(
         Name: tag.name,
         DataType: tag.data_type,
         Address: tag.address || '',
-        Comment: tag.description || '',
+        Comment: csvCell(formatEngineeringComment(tag.description, tag), delimiter),
         InitialValue: tag.default_value || '',
         Scope: tag.scope || ''
       };
@@ -265,6 +502,25 @@ export async function exportSiemensXml(
     const tagTable = xml.ele('TagTable');
     tagTable.ele('Name').txt(`Project_${projectId}_Tags`);
 
+    // PLC data types used by the tags, so the file re-imports on its own
+    const dataTypes = await loadProjectUdts(projectId);
+    if (dataTypes.length > 0) {
+      const typesElement = tagTable.ele('DataTypes');
+      for (const def of dataTypes) {
+        const typeElement = typesElement.ele('DataType');
+        typeElement.ele('Name').txt(def.name);
+        if (def.description) typeElement.ele('Comment').txt(def.description);
+        const membersElement = typeElement.ele('Members');
+        for (const member of def.members) {
+          const memberElement = membersElement.ele('Member');
+          memberElement.ele('Name').txt(member.name);
+          memberElement.ele('DataType').txt(member.data_type);
+          if (member.description) memberElement.ele('Comment').txt(member.description);
+          if (member.default_value) memberElement.ele('InitialValue').txt(member.default_value);
+        }
+      }
+    }
+
     const tagsElement = tagTable.ele('Tags');
 
     for (const tag of tags) {
@@ -335,7 +591,7 @@ export async function exportSiemensXlsx(projectId: number, outStream: Writable):
         tag.data_type || tag.type || '',
         tag.address || '',
         tag.default_value || '',
-        tag.description || '',
+        formatEngineeringComment(tag.description, tag),
         tag.scope || 'global'
       ]);
     }
@@ -0,0 +1,295 @@
+// stAst.ts
+// Syntax tree for IEC 61131-3 Structured Text as produced by stSyntax.ts. Every node carries
+// its 1-based line / column and source offsets (end exclusive).
+
+export interface STNodeBase {
+  line: number;
+  column: number;
+  offset: number;
+  end: number;
+}
+
+export interface STSourceFile extends STNodeBase {
+  kind: 'SourceFile';
+  declarations: STDeclaration[];
+  body: STStatement[]; // statements outside any POU, only when parsed as a routine body
+}
+
+// Top level: POUs, TYPE blocks and free VAR_GLOBAL lists (TwinCAT GVLs)
+export type STDeclaration = STPou | STTypeBlock | STVarSection;
+
+export type STPouType = 'PROGRAM' | 'FUNCTION_BLOCK' | 'FUNCTION' | 'METHOD' | 'ORGANIZATION_BLOCK' | 'DATA_BLOCK';
+
+export interface STPou extends STNodeBase {
+  kind: 'Pou';
+  pouType: STPouType;
+  name: string;
+  quoted?: boolean;
+  returnType?: STTypeSpec;         // FUNCTION / METHOD result
+  modifiers: string[];             // PUBLIC, ABSTRACT, FINAL, ...
+  extends?: string;
+  implements: string[];
+  attributes: Record<string, string>; // SCL header: TITLE, VERSION, AUTHOR, FAMILY, NAME
+  varSections: STVarSection[];
+  dataType?: STTypeSpec;           // DATA_BLOCK declared as a STRUCT or UDT
+  methods: STPou[];
+  body: STStatement[];
+}
+
+export interface STTypeBlock extends STNodeBase {
+  kind: 'TypeBlock';
+  types: STTypeDeclaration[];
+}
+
+export interface STTypeDeclaration extends STNodeBase {
+  kind: 'TypeDeclaration';
+  name: string;
+  quoted?: boolean;
+  type: STTypeSpec;
+  initialValue?: STInitializer;
+}
+
+export interface STVarSection extends STNodeBase {
+  kind: 'VarSection';
+  section: string;       // VAR, VAR_INPUT, VAR_GLOBAL, ...
+  qualifiers: string[];  // CONSTANT, RETAIN, NON_RETAIN, PERSISTENT
+  declarations: STVarDeclaration[];
+}
+
+export interface STDeclaredName extends STNodeBase {
+  name: string;
+}
+
+export interface STVarDeclaration extends STNodeBase {
+  kind: 'VarDeclaration';
+  names: STDeclaredName[];  // a, b, c : INT;
+  address?: string;         // AT %IX0.0
+  type: STTypeSpec;
+  initialValue?: STInitializer;
+}
+
+// ---- Types ----
+
+export type STTypeSpec = STNamedType | STArrayType | STPointerType | STStructType | STEnumType;
+
+export interface STNamedType extends STNodeBase {
+  kind: 'NamedType';
+  name: string;
+  quoted?: boolean;
+  length?: STExpression;                          // STRING[80], STRING(80)
+  range?: { lower: STExpression; upper: STExpression }; // INT(0..100)
+}
+
+export interface STArrayDimension {
+  lower?: STExpression; // both omitted for ARRAY[*]
+  upper?: STExpression;
+}
+
+export interface STArrayType extends STNodeBase {
+  kind: 'ArrayType';
+  dimensions: STArrayDimension[];
+  elementType: STTypeSpec;
+}
+
+export interface STPointerType extends STNodeBase {
+  kind: 'PointerType';
+  pointerKind: 'POINTER' | 'REFERENCE' | 'REF_TO';
+  target: STTypeSpec;
+}
+
+export interface STStructType extends STNodeBase {
+  kind: 'StructType';
+  union?: boolean;
+  extends?: string;
+  members: STVarDeclaration[];
+}
+
+export interface STEnumValue extends STNodeBase {
+  name: string;
+  value?: STExpression;
+}
+
+export interface STEnumType extends STNodeBase {
+  kind: 'EnumType';
+  values: STEnumValue[];
+  baseType?: STTypeSpec; // (A, B, C) INT
+}
+
+// ---- Initial values ----
+
+export type STInitializer = STExpression | STArrayInitializer | STStructInitializer;
+
+export interface STArrayInitializer extends STNodeBase {
+  kind: 'ArrayInitializer';
+  elements: Array<{ repeat?: STExpression; value?: STInitializer }>; // [1, 2, 3(0)]
+}
+
+export interface STStructInitializer extends STNodeBase {
+  kind: 'StructInitializer';
+  fields: Array<{ name: string; value: STInitializer }>; // (Speed := 10, Enabled := TRUE)
+}
+
+// ---- Statements ----
+
+export type STStatement =
+  | STAssignment
+  | STCallStatement
+  | STIf
+  | STCase
+  | STFor
+  | STWhile
+  | STRepeat
+  | STRegion
+  | STJump;
+
+export interface STAssignment extends STNodeBase {
+  kind: 'Assignment';
+  target: STExpression;
+  operator: ':=' | 'S=' | 'R=' | 'REF=';
+  value: STExpression;
+}
+
+export interface STCallStatement extends STNodeBase {
+  kind: 'CallStatement';
+  call: STCall;
+}
+
+export interface STConditionalBranch extends STNodeBase {
+  condition: STExpression;
+  body: STStatement[];
+}
+
+export interface STIf extends STNodeBase {
+  kind: 'If';
+  branches: STConditionalBranch[]; // IF, then each ELSIF
+  elseBody?: STStatement[];
+}
+
+export interface STCaseLabel extends STNodeBase {
+  value: STExpression;
+  upper?: STExpression; // 1..5
+}
+
+export interface STCaseBranch extends STNodeBase {
+  labels: STCaseLabel[];
+  body: STStatement[];
+}
+
+export interface STCase extends STNodeBase {
+  kind: 'Case';
+  selector: STExpression;
+  branches: STCaseBranch[];
+  elseBody?: STStatement[];
+}
+
+export interface STFor extends STNodeBase {
+  kind: 'For';
+  variable: STExpression;
+  from: STExpression;
+  to: STExpression;
+  by?: STExpression;
+  body: STStatement[];
+}
+
+export interface STWhile extends STNodeBase {
+  kind: 'While';
+  condition: STExpression;
+  body: STStatement[];
+}
+
+export interface STRepeat extends STNodeBase {
+  kind: 'Repeat';
+  body: STStatement[];
+  condition: STExpression;
+}
+
+export interface STRegion extends STNodeBase {
+  kind: 'Region';
+  name: string;
+  body: STStatement[];
+}
+
+export interface STJump extends STNodeBase {
+  kind: 'Return' | 'Exit' | 'Continue';
+}
+
+// ---- Expressions ----
+
+export type STExpression =
+  | STLiteral
+  | STName
+  | STDirectAddress
+  | STMemberAccess
+  | STIndexAccess
+  | STDeref
+  | STCall
+  | STUnary
+  | STBinary;
+
+export type STLiteralType = 'bool' | 'integer' | 'real' | 'string' | 'duration' | 'date' | 'time_of_day' | 'date_and_time' | 'enum';
+
+export interface STLiteral extends STNodeBase {
+  kind: 'Literal';
+  literalType: STLiteralType;
+  text: string;
+  // booleans, numbers, strings (unescaped), durations in ms; dates and enum values as text
+  value: boolean | number | string;
+  typePrefix?: string; // INT#5 -> INT, E_Mode#Auto -> E_Mode
+}
+
+export interface STName extends STNodeBase {
+  kind: 'Name';
+  name: string;
+  quoted?: boolean;
+  local?: boolean;
+}
+
+export interface STDirectAddress extends STNodeBase {
+  kind: 'DirectAddress';
+  address: string;
+}
+
+export interface STMemberAccess extends STNodeBase {
+  kind: 'MemberAccess';
+  object: STExpression;
+  member: string; // member name, bit number (x.3) or partial access (x.%X3)
+}
+
+export interface STIndexAccess extends STNodeBase {
+  kind: 'IndexAccess';
+  object: STExpression;
+  indices: STExpression[];
+}
+
+export interface STDeref extends STNodeBase {
+  kind: 'Deref';
+  operand: STExpression;
+}
+
+export interface STCallArgument extends STNodeBase {
+  name?: string;     // formal parameter; absent for positional arguments
+  output?: boolean;  // Q => target
+  value?: STExpression;
+}
+
+export interface STCall extends STNodeBase {
+  kind: 'Call';
+  callee: STExpression;
+  args: STCallArgument[];
+}
+
+export interface STUnary extends STNodeBase {
+  kind: 'Unary';
+  operator: '-' | '+' | 'NOT';
+  operand: STExpression;
+}
+
+// '&' is reported as AND
+export type STBinaryOperator = 'OR' | 'OR_ELSE' | 'XOR' | 'AND' | 'AND_THEN' | '=' | '<>' | '<' | '>' | '<=' | '>=' | '+' | '-' | '*' | '/' | 'MOD' | '**';
+
+export interface STBinary extends STNodeBase {
+  kind: 'Binary';
+  operator: STBinaryOperator;
+  left: STExpression;
+  right: STExpression;
+}
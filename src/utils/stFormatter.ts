@@ -0,0 +1,489 @@
+// stFormatter.ts
+// Deterministic formatter for Structured Text (IEC 61131-3, Siemens SCL, TwinCAT ST). Works on
+// the token stream of stLexer.ts: line breaks, comments and pragmas stay where they are, while
+// keyword case, block indentation, VAR alignment and operator spacing are normalized.
+
+import { STSyntaxError, STToken, STTrivia, tokenizeST } from './stLexer';
+
+export interface STFormatOptions {
+  keywordCase: 'upper' | 'lower' | 'preserve'; // keywords and elementary data types
+  indentSize: number;                           // spaces per level
+  useTabs: boolean;
+  alignDeclarations: boolean;                   // line up the ':' of declarations in a VAR section
+  spaceAroundOperators: boolean;
+  maxBlankLines: number;                        // longer runs of blank lines are collapsed
+}
+
+export const DEFAULT_FORMAT_OPTIONS: STFormatOptions = {
+  keywordCase: 'upper',
+  indentSize: 4,
+  useTabs: false,
+  alignDeclarations: true,
+  spaceAroundOperators: true,
+  maxBlankLines: 1
+};
+
+export interface STFormatResult {
+  code: string;
+  changed: boolean;
+  // Lexical errors; code that does not tokenize cleanly is returned unchanged
+  errors: STSyntaxError[];
+}
+
+/** Raised for invalid format options; routes answer with 400 */
+export class FormatOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormatOptionsError';
+  }
+}
+
+/**
+ * Validate format options from the API or the database; options left out use the defaults.
+ */
+export function normalizeFormatOptions(input: any): Partial<STFormatOptions> {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new FormatOptionsError('Format options must be an object');
+  }
+
+  const options: Partial<STFormatOptions> = {};
+  for (const [key, value] of Object.entries<any>(input)) {
+    switch (key) {
+      case 'keywordCase':
+        if (!['upper', 'lower', 'preserve'].includes(value)) {
+          throw new FormatOptionsError('keywordCase must be one of: upper, lower, preserve');
+        }
+        options.keywordCase = value;
+        break;
+      case 'indentSize':
+        if (!Number.isInteger(value) || value < 1 || value > 8) {
+          throw new FormatOptionsError('indentSize must be an integer from 1 to 8');
+        }
+        options.indentSize = value;
+        break;
+      case 'maxBlankLines':
+        if (!Number.isInteger(value) || value < 0 || value > 3) {
+          throw new FormatOptionsError('maxBlankLines must be an integer from 0 to 3');
+        }
+        options.maxBlankLines = value;
+        break;
+      case 'useTabs':
+      case 'alignDeclarations':
+      case 'spaceAroundOperators':
+        if (typeof value !== 'boolean') {
+          throw new FormatOptionsError(`${key} must be true or false`);
+        }
+        options[key] = value;
+        break;
+      default:
+        throw new FormatOptionsError(`Unknown format option: ${key}`);
+    }
+  }
+  return options;
+}
+
+export function resolveFormatOptions(options: Partial<STFormatOptions> = {}): STFormatOptions {
+  return { ...DEFAULT_FORMAT_OPTIONS, ...options };
+}
+
+// Elementary data types get the keyword case too
+const ELEMENTARY_TYPES = new Set([
+  'BOOL', 'BYTE', 'WORD', 'DWORD', 'LWORD', 'SINT', 'INT', 'DINT', 'LINT', 'USINT', 'UINT', 'UDINT', 'ULINT',
+  'REAL', 'LREAL', 'TIME', 'LTIME', 'DATE', 'TIME_OF_DAY', 'TOD', 'DATE_AND_TIME', 'DT', 'STRING', 'WSTRING', 'CHAR', 'WCHAR'
+]);
+
+// Blocks that keep their contents at their own level, like TwinCAT and TIA Portal exports
+const POU_OPENERS = new Set(['PROGRAM', 'FUNCTION_BLOCK', 'FUNCTION', 'METHOD', 'ORGANIZATION_BLOCK', 'DATA_BLOCK', 'TYPE']);
+// Blocks whose contents are indented one level
+const BLOCK_OPENERS = new Set([
+  'IF', 'CASE', 'FOR', 'WHILE', 'REPEAT', 'REGION', 'STRUCT', 'UNION',
+  'VAR', 'VAR_INPUT', 'VAR_OUTPUT', 'VAR_IN_OUT', 'VAR_GLOBAL', 'VAR_LOCAL', 'VAR_TEMP', 'VAR_STAT',
+  'VAR_EXTERNAL', 'VAR_CONFIG', 'VAR_INST', 'VAR_ACCESS'
+]);
+const VAR_SECTIONS = new Set([...BLOCK_OPENERS].filter(keyword => keyword.startsWith('VAR')));
+
+// Closing keyword -> opening keywords it matches
+const CLOSERS: Record<string, string[]> = {
+  END_IF: ['IF'], END_CASE: ['CASE'], END_FOR: ['FOR'], END_WHILE: ['WHILE'], UNTIL: ['REPEAT'], END_REPEAT: ['REPEAT'],
+  END_REGION: ['REGION'], END_STRUCT: ['STRUCT'], END_UNION: ['UNION'], END_VAR: [...VAR_SECTIONS],
+  END_PROGRAM: ['PROGRAM'], END_FUNCTION_BLOCK: ['FUNCTION_BLOCK'], END_FUNCTION: ['FUNCTION'], END_METHOD: ['METHOD'],
+  END_ORGANIZATION_BLOCK: ['ORGANIZATION_BLOCK'], END_DATA_BLOCK: ['DATA_BLOCK'], END_TYPE: ['TYPE']
+};
+
+const BINARY_OPERATORS = new Set([':=', '=>', '=', '<>', '<', '>', '<=', '>=', '+', '-', '*', '/', '**', '&']);
+// A line ending in one of these continues on the next line
+const CONTINUING_OPERATORS = new Set([...BINARY_OPERATORS, ',']);
+const CONTINUING_KEYWORDS = new Set(['AND', 'OR', 'XOR', 'NOT', 'MOD', 'AND_THEN', 'OR_ELSE']);
+
+type Item = { token: STToken; trivia?: undefined } | { trivia: STTrivia; token?: undefined };
+
+interface Frame {
+  keyword: string;
+  indent: number;
+  inElse?: boolean;
+}
+
+interface Row {
+  items: Item[];
+  firstLine: number;
+  lastLine: number;
+}
+
+interface RenderedRow {
+  indent: number;
+  head: string;       // whole row, or the declared names when aligned
+  tail?: string;      // ': TYPE := ...;' of an aligned declaration
+  group?: Frame;      // VAR section the declaration belongs to
+  blankLinesBefore: number;
+}
+
+function itemStart(item: Item): number {
+  return item.token ? item.token.offset : item.trivia!.offset;
+}
+
+function isOperator(token: STToken | undefined, ...values: string[]): boolean {
+  return !!token && token.type === 'operator' && (values.length === 0 || values.includes(token.value));
+}
+
+function isKeyword(token: STToken | undefined, ...values: string[]): boolean {
+  return !!token && token.type === 'keyword' && (values.length === 0 || values.includes(token.value));
+}
+
+// Physical lines: an item starts a new row when it begins below the end of the previous one
+function splitRows(tokens: STToken[], trivia: STTrivia[]): Row[] {
+  const items: Item[] = [
+    ...tokens.filter(token => token.type !== 'eof').map(token => ({ token })),
+    ...trivia.map(t => ({ trivia: t }))
+  ].sort((a, b) => itemStart(a) - itemStart(b));
+
+  const rows: Row[] = [];
+  for (const item of items) {
+    const line = item.token ? item.token.line : item.trivia!.line;
+    const lastLine = item.token ? line : line + (item.trivia!.text.match(/\n/g) || []).length;
+    const row = rows[rows.length - 1];
+    if (row && line <= row.lastLine) {
+      row.items.push(item);
+      row.lastLine = lastLine;
+    } else {
+      rows.push({ items: [item], firstLine: line, lastLine });
+    }
+  }
+  return rows;
+}
+
+class STFormatter {
+  private stack: Frame[] = [];
+  private level = 0;
+  private parenDepth = 0;
+  private lastToken?: STToken;
+
+  constructor(private options: STFormatOptions) {}
+
+  format(rows: Row[]): string {
+    const rendered: RenderedRow[] = [];
+    let previous: Row | undefined;
+    for (const row of rows) {
+      const blankLines = previous ? Math.min(row.firstLine - previous.lastLine - 1, this.options.maxBlankLines) : 0;
+      rendered.push({ ...this.formatRow(row), blankLinesBefore: blankLines });
+      previous = row;
+    }
+    if (this.options.alignDeclarations) this.align(rendered);
+
+    const indentUnit = this.options.useTabs ? '\t' : ' '.repeat(this.options.indentSize);
+    const lines: string[] = [];
+    for (const row of rendered) {
+      for (let i = 0; i < row.blankLinesBefore; i++) lines.push('');
+      lines.push((indentUnit.repeat(row.indent) + row.head + (row.tail ?? '')).trimEnd());
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  // ---- Indentation ----
+
+  private findFrame(keywords: string[]): Frame | undefined {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      if (keywords.includes(this.stack[i].keyword)) return this.stack[i];
+    }
+    return undefined;
+  }
+
+  private closeFrame(keywords: string[]): Frame | undefined {
+    const frame = this.findFrame(keywords);
+    if (frame) this.stack.length = this.stack.lastIndexOf(frame);
+    return frame;
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  // Index of the ':' ending a CASE label ("1, 2..5:") that begins at `start`, or -1
+  private labelColon(tokens: STToken[], start: number): number {
+    if (tokens[start].type === 'keyword' && !isKeyword(tokens[start], 'TRUE', 'FALSE')) return -1;
+    let depth = 0;
+    for (let i = start; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (isOperator(token, '(', '[')) depth++;
+      else if (isOperator(token, ')', ']')) depth--;
+      else if (depth === 0 && isOperator(token, ';', ':=')) return -1;
+      else if (depth === 0 && isOperator(token, ':')) return i;
+    }
+    return -1;
+  }
+
+  // CASE labels of a row: one at the start of a row in a CASE body, or after OF or a ';' on the
+  // same row ("CASE x OF 1: a := 2; 3: a := 4;"). Blocks the row opens and closes are followed as advance does.
+  private caseLabels(tokens: STToken[]): Array<{ start: number; colon: number }> {
+    const stack = this.stack.map(frame => ({ keyword: frame.keyword, inElse: !!frame.inElse }));
+    const inCaseBody = () => stack[stack.length - 1]?.keyword === 'CASE' && !stack[stack.length - 1].inElse;
+    const labels: Array<{ start: number; colon: number }> = [];
+    let labelMayStart = inCaseBody();
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (labelMayStart) {
+        labelMayStart = false;
+        const colon = this.labelColon(tokens, i);
+        if (colon >= 0) {
+          labels.push({ start: i, colon });
+          i = colon;
+          continue;
+        }
+      }
+
+      if (isOperator(token, '(', '[')) depth++;
+      else if (isOperator(token, ')', ']')) depth--;
+      else if (depth === 0 && isOperator(token, ';')) labelMayStart = inCaseBody();
+      else if (token.type === 'keyword') {
+        const keyword = token.value;
+        if (CLOSERS[keyword]) {
+          const index = stack.map(frame => frame.keyword).reverse().findIndex(k => CLOSERS[keyword].includes(k));
+          if (index >= 0) stack.length = stack.length - 1 - index;
+        } else if (keyword === 'ELSE') {
+          const frame = [...stack].reverse().find(f => f.keyword === 'IF' || f.keyword === 'CASE');
+          if (frame?.keyword === 'CASE') frame.inElse = true;
+        } else if (keyword === 'OF' && stack[stack.length - 1]?.keyword === 'CASE') {
+          labelMayStart = true;
+        } else if (POU_OPENERS.has(keyword) || BLOCK_OPENERS.has(keyword)) {
+          stack.push({ keyword, inElse: false });
+        }
+      }
+    }
+    return labels;
+  }
+
+  // Index of the ':' after the declared names of a VAR / STRUCT member declaration, or -1
+  private declarationColon(tokens: STToken[]): number {
+    const top = this.top();
+    if (!top || !(VAR_SECTIONS.has(top.keyword) || top.keyword === 'STRUCT' || top.keyword === 'UNION')) return -1;
+    if (tokens[0]?.type !== 'identifier' || this.parenDepth > 0) return -1;
+    for (let i = 1; i < tokens.length; i++) {
+      if (isOperator(tokens[i], ':')) return i;
+      if (!(tokens[i].type === 'identifier' || tokens[i].type === 'address' || isOperator(tokens[i], ',') || isKeyword(tokens[i], 'AT'))) return -1;
+    }
+    return -1;
+  }
+
+  private rowIndent(tokens: STToken[], caseLabel: boolean): number {
+    const first = tokens[0];
+    if (!first) return this.level;
+
+    if (first.type === 'keyword') {
+      if (CLOSERS[first.value]) return this.findFrame(CLOSERS[first.value])?.indent ?? this.level;
+      if (first.value === 'ELSE' || first.value === 'ELSIF') return this.findFrame(['IF', 'CASE'])?.indent ?? this.level;
+      if (first.value === 'BEGIN') return this.findFrame([...POU_OPENERS])?.indent ?? this.level;
+      const top = this.top();
+      if (['THEN', 'DO', 'OF'].includes(first.value) && top && ['IF', 'CASE', 'FOR', 'WHILE'].includes(top.keyword)) return top.indent;
+    }
+    if (caseLabel) return this.top()!.indent + 1;
+
+    if (this.parenDepth > 0) return isOperator(first, ')', ']') ? this.level : this.level + 1;
+    const continues = (isOperator(this.lastToken) && CONTINUING_OPERATORS.has(this.lastToken!.value)) ||
+      (isKeyword(this.lastToken) && CONTINUING_KEYWORDS.has(this.lastToken!.value)) ||
+      (isOperator(first) && BINARY_OPERATORS.has(first.value) && first.value !== ':=') ||
+      (isKeyword(first) && CONTINUING_KEYWORDS.has(first.value) && first.value !== 'NOT');
+    return continues ? this.level + 1 : this.level;
+  }
+
+  // Track blocks opened and closed by the tokens of a row
+  private advance(tokens: STToken[], indent: number, labelColons: number[]): void {
+    tokens.forEach((token, i) => {
+      if (token.type === 'operator') {
+        if (token.value === '(' || token.value === '[') this.parenDepth++;
+        else if (token.value === ')' || token.value === ']') this.parenDepth = Math.max(0, this.parenDepth - 1);
+        else if (labelColons.includes(i)) this.level = this.top()!.indent + 2;
+        return;
+      }
+      if (token.type !== 'keyword') return;
+
+      const keyword = token.value;
+      if (CLOSERS[keyword]) {
+        const frame = this.closeFrame(CLOSERS[keyword]);
+        if (frame) this.level = frame.indent;
+      } else if (keyword === 'ELSE' || keyword === 'ELSIF') {
+        const frame = this.findFrame(['IF', 'CASE']);
+        if (frame) {
+          this.level = frame.indent + 1;
+          if (frame.keyword === 'CASE') frame.inElse = true;
+        }
+      } else if (keyword === 'BEGIN') {
+        this.level = this.findFrame([...POU_OPENERS])?.indent ?? this.level;
+      } else if (POU_OPENERS.has(keyword)) {
+        this.stack.push({ keyword, indent: i === 0 ? indent : this.level });
+        this.level = this.top()!.indent;
+      } else if (BLOCK_OPENERS.has(keyword)) {
+        this.stack.push({ keyword, indent: i === 0 ? indent : this.level });
+        this.level = this.top()!.indent + 1;
+      }
+    });
+    if (tokens.length > 0) this.lastToken = tokens[tokens.length - 1];
+  }
+
+  // ---- Rendering ----
+
+  private caseOf(text: string): string {
+    if (this.options.keywordCase === 'upper') return text.toUpperCase();
+    if (this.options.keywordCase === 'lower') return text.toLowerCase();
+    return text;
+  }
+
+  private text(item: Item): string {
+    if (item.trivia) return item.trivia.type === 'line_comment' ? item.trivia.text.trimEnd() : item.trivia.text;
+    const token = item.token!;
+    if (token.type === 'keyword') return this.caseOf(token.text);
+    if (token.type === 'identifier' && !token.quoted && !token.local && ELEMENTARY_TYPES.has(token.value.toUpperCase())) {
+      return this.caseOf(token.text);
+    }
+    return token.text;
+  }
+
+  // Unary + / -: at the start of an operand rather than after one
+  private isUnary(before: STToken | undefined): boolean {
+    if (!before) return true;
+    if (before.type === 'operator') return !isOperator(before, ')', ']', '^');
+    return before.type === 'keyword' && !isKeyword(before, 'TRUE', 'FALSE');
+  }
+
+  private spacing(prev: Item, cur: Item, beforePrev: STToken | undefined, labelColon: boolean): string {
+    if (prev.trivia || cur.trivia) return ' ';
+    const p = prev.token!;
+    const c = cur.token!;
+
+    if (isOperator(c, ',', ';', ')', ']', '.', '^', '..') || isOperator(p, '(', '[', '.', '..')) return '';
+    if (isOperator(c, '(', '[')) {
+      // Calls, indexes, STRING[80], ARRAY[..] and repeated initial values 3(0)
+      return p.type === 'identifier' || p.type === 'number' || isOperator(p, ')', ']', '^') || isKeyword(p, 'ARRAY') ? '' : ' ';
+    }
+    if (isOperator(c, ':')) return labelColon ? '' : ' ';
+    if (isOperator(p, ':', ',', ';')) return ' ';
+    if (isOperator(p, '#') || isOperator(c, '#')) return c.offset > p.end ? ' ' : '';
+    if (isOperator(p, '+', '-') && this.isUnary(beforePrev)) return '';
+    // S= / R= / REF= are one operator written as a name and '='
+    if (isOperator(c, '=') && p.type === 'identifier' && /^(S|R|REF)$/i.test(p.value) && c.offset === p.end) return '';
+
+    const binary = (isOperator(c) && BINARY_OPERATORS.has(c.value)) || (isOperator(p) && BINARY_OPERATORS.has(p.value));
+    if (binary && !this.options.spaceAroundOperators) return c.offset > p.end ? ' ' : '';
+    return ' ';
+  }
+
+  private render(items: Item[], labelItems: Set<Item>, before: STToken | undefined): string {
+    let out = '';
+    const emitted: STToken[] = before ? [before] : [];
+    items.forEach((item, i) => {
+      if (i > 0) out += this.spacing(items[i - 1], item, emitted[emitted.length - 2], labelItems.has(item));
+      out += this.text(item);
+      if (item.token) emitted.push(item.token);
+    });
+    return out;
+  }
+
+  private formatRow(row: Row): Omit<RenderedRow, 'blankLinesBefore'> {
+    const tokens = row.items.filter(item => item.token).map(item => item.token!);
+    const labels = this.caseLabels(tokens);
+    const labelColons = labels.map(label => label.colon);
+    const declarationColon = labels.length === 0 ? this.declarationColon(tokens) : -1;
+    const indent = this.rowIndent(tokens, labels[0]?.start === 0);
+    const group = declarationColon >= 0 ? this.top() : undefined;
+
+    const labelItems = new Set(row.items.filter(item => item.token && labelColons.includes(tokens.indexOf(item.token))));
+    const before = this.lastToken;
+    this.advance(tokens, indent, labelColons);
+
+    if (group) {
+      const split = row.items.findIndex(item => item.token === tokens[declarationColon]);
+      const names = row.items.slice(0, split);
+      return { indent, head: this.render(names, new Set(), before), tail: ' ' + this.render(row.items.slice(split), new Set(), tokens[declarationColon - 1]), group };
+    }
+    return { indent, head: this.render(row.items, labelItems, before) };
+  }
+
+  // Pad declared names so the ':' of every declaration in a VAR section lines up
+  private align(rows: RenderedRow[]): void {
+    const widths = new Map<Frame, number>();
+    for (const row of rows) {
+      if (row.group) widths.set(row.group, Math.max(widths.get(row.group) || 0, row.head.length));
+    }
+    for (const row of rows) {
+      if (row.group) row.head = row.head.padEnd(widths.get(row.group)!);
+    }
+  }
+}
+
+// Tokens and comments that must survive formatting; keyword case is allowed to change
+function fingerprint(tokens: STToken[], trivia: STTrivia[]): string {
+  const tokenText = tokens.map(token => token.type === 'keyword' || (token.type === 'identifier' && !token.quoted)
+    ? token.text.toUpperCase()
+    : token.text);
+  return JSON.stringify([tokenText, trivia.map(t => t.text.trimEnd())]);
+}
+
+/**
+ * Format ST / SCL source. Formatting is idempotent and never changes the token sequence;
+ * code with lexical errors (unterminated strings or comments) is returned as is.
+ */
+export function formatST(code: string, options: Partial<STFormatOptions> = {}): STFormatResult {
+  const crlf = code.includes('\r\n');
+  const source = crlf ? code.replace(/\r\n/g, '\n') : code;
+  const { tokens, trivia, errors } = tokenizeST(source);
+  if (errors.length > 0) {
+    return { code, changed: false, errors };
+  }
+
+  let formatted = new STFormatter(resolveFormatOptions(options)).format(splitRows(tokens, trivia));
+
+  const check = tokenizeST(formatted);
+  if (check.errors.length > 0 || fingerprint(check.tokens, check.trivia) !== fingerprint(tokens, trivia)) {
+    throw new Error('Formatting changed the code structure');
+  }
+
+  if (crlf) formatted = formatted.replace(/\n/g, '\r\n');
+  return { code: formatted, changed: formatted !== code, errors: [] };
+}
+
+export interface FormattableArtifact {
+  language?: string;
+  filename?: string;
+  content?: string;
+  code?: string;
+}
+
+/**
+ * Format the Structured Text entries of AI code artifacts; other languages and code that
+ * does not tokenize are passed through.
+ */
+export function formatCodeArtifacts<T extends FormattableArtifact>(artifacts: T[], options: Partial<STFormatOptions> = {}): T[] {
+  return artifacts.map(artifact => {
+    // The file name wins over the language; generated docs and tag maps are labelled ST too
+    const structuredText = artifact.filename
+      ? /\.(st|scl)$/i.test(artifact.filename)
+      : /^(st|scl|structured ?text|iec ?61131-3( st)?)$/i.test((artifact.language || '').trim());
+    if (!structuredText) return artifact;
+
+    const field = typeof artifact.content === 'string' ? 'content' : typeof artifact.code === 'string' ? 'code' : null;
+    if (!field) return artifact;
+    const result = formatST(artifact[field] as string, options);
+    return result.errors.length > 0 ? artifact : { ...artifact, [field]: result.code };
+  });
+}
@@ -0,0 +1,1414 @@
+// stInterpreter.ts
+// Scan-cycle interpreter for Structured Text on the syntax tree of stSyntax.ts, for testing logic
+// without hardware. Every scan runs the entry POU once at the simulated clock time, then the clock
+// moves on by the cycle time. Standard timers, counters, edge triggers and bistables are built in.
+
+import {
+  STCall,
+  STExpression,
+  STInitializer,
+  STLiteral,
+  STNodeBase,
+  STPou,
+  STSourceFile,
+  STStatement,
+  STTypeDeclaration,
+  STTypeSpec,
+  STVarDeclaration
+} from './stAst';
+import { expressionText, parseDurationMs, parseST, typeSpecText } from './stSyntax';
+
+/** Error while executing code; line and column point at the statement or expression */
+export class STRuntimeError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'STRuntimeError';
+  }
+}
+
+/** Invalid simulation request: unknown entry POU, bad variable path or value */
+export class SimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationError';
+  }
+}
+
+/** A run budget was used up; the scans before it completed and the simulation can continue */
+export class SimulationBudgetError extends SimulationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationBudgetError';
+  }
+}
+
+// A project tag made available as a global variable
+export interface STSimulationGlobal {
+  name: string;
+  dataType?: string | null;
+  defaultValue?: string | null;
+}
+
+export interface STSimulatorOptions {
+  entry?: string;        // PROGRAM / FUNCTION_BLOCK to scan; the first PROGRAM by default
+  cycleTimeMs?: number;
+  globals?: STSimulationGlobal[];
+}
+
+export type STJsonValue = boolean | number | string;
+
+export interface STVariableValue {
+  path: string;
+  type: string;
+  value: STJsonValue; // TIME in ms, enumeration values by name
+  forced: boolean;
+}
+
+// Work allowed across several step() / advance() calls, e.g. one API request or one test run
+export interface STRunBudget {
+  statements: number; // statements left
+  deadline: number;   // Date.now() value after which no further scan starts
+}
+
+export function createRunBudget(maxStatements: number, timeoutMs: number): STRunBudget {
+  return { statements: maxStatements, deadline: Date.now() + timeoutMs };
+}
+
+export function isRunBudgetExhausted(budget: STRunBudget): boolean {
+  return budget.statements <= 0 || Date.now() > budget.deadline;
+}
+
+export const DEFAULT_CYCLE_TIME_MS = 10;
+const DEFAULT_STRING_LENGTH = 80;
+const MAX_STATEMENTS_PER_SCAN = 100000;
+const MAX_CALL_DEPTH = 32;
+const MAX_SNAPSHOT_VARIABLES = 5000;
+
+// ---- Types and values ----
+
+type RType =
+  | { kind: 'BOOL'; name: string }
+  | { kind: 'INT'; name: string; bits: number; signed: boolean }
+  | { kind: 'REAL'; name: string }
+  | { kind: 'TIME'; name: string }
+  | { kind: 'STRING'; name: string; length: number }
+  | { kind: 'ENUM'; name: string; values: Map<string, number>; labels: Map<number, string> }
+  | { kind: 'ARRAY'; name: string; dims: Array<{ lower: number; upper: number }>; element: RType }
+  | { kind: 'STRUCT'; name: string; members: STVarDeclaration[] }
+  | { kind: 'FB'; name: string; pou?: STPou }; // no POU for standard FBs
+
+interface Instance {
+  typeName: string;
+  vars: Map<string, Variable>;
+  state: Record<string, any>; // internal state of standard FBs
+}
+
+type Value = boolean | number | string | Value[] | Instance;
+
+interface Variable {
+  name: string;
+  type: RType;
+  value: Value;
+  section: string;
+}
+
+interface Typed {
+  type: RType;
+  value: Value;
+}
+
+interface Ref {
+  type: RType;
+  get(): Value;
+  set(value: Value): void;
+}
+
+interface Scope {
+  vars: Map<string, Variable>;
+  parent?: Scope;
+}
+
+const BOOL: RType = { kind: 'BOOL', name: 'BOOL' };
+const DINT: RType = { kind: 'INT', name: 'DINT', bits: 32, signed: true };
+const LREAL: RType = { kind: 'REAL', name: 'LREAL' };
+const TIME: RType = { kind: 'TIME', name: 'TIME' };
+// Untyped literals take the type of the other operand
+const ANY_INT: RType = { kind: 'INT', name: 'ANY_INT', bits: 64, signed: true };
+const ANY_REAL: RType = { kind: 'REAL', name: 'ANY_REAL' };
+
+const INTEGER_TYPES: Record<string, [number, boolean]> = {
+  SINT: [8, true], USINT: [8, false], BYTE: [8, false],
+  INT: [16, true], UINT: [16, false], WORD: [16, false],
+  DINT: [32, true], UDINT: [32, false], DWORD: [32, false],
+  LINT: [64, true], ULINT: [64, false], LWORD: [64, false]
+};
+
+// Interfaces of the standard function blocks: [name, type, section]
+const TIMER_INTERFACE: Array<[string, string, string]> = [['IN', 'BOOL', 'VAR_INPUT'], ['PT', 'TIME', 'VAR_INPUT'], ['Q', 'BOOL', 'VAR_OUTPUT'], ['ET', 'TIME', 'VAR_OUTPUT']];
+const STANDARD_FBS: Record<string, Array<[string, string, string]>> = {
+  TON: TIMER_INTERFACE,
+  TOF: TIMER_INTERFACE,
+  TP: TIMER_INTERFACE,
+  IEC_TIMER: TIMER_INTERFACE, // Siemens, called as #Timer.TON(...)
+  CTU: [['CU', 'BOOL', 'VAR_INPUT'], ['R', 'BOOL', 'VAR_INPUT'], ['PV', 'INT', 'VAR_INPUT'], ['Q', 'BOOL', 'VAR_OUTPUT'], ['CV', 'INT', 'VAR_OUTPUT']],
+  CTD: [['CD', 'BOOL', 'VAR_INPUT'], ['LD', 'BOOL', 'VAR_INPUT'], ['PV', 'INT', 'VAR_INPUT'], ['Q', 'BOOL', 'VAR_OUTPUT'], ['CV', 'INT', 'VAR_OUTPUT']],
+  R_TRIG: [['CLK', 'BOOL', 'VAR_INPUT'], ['Q', 'BOOL', 'VAR_OUTPUT']],
+  F_TRIG: [['CLK', 'BOOL', 'VAR_INPUT'], ['Q', 'BOOL', 'VAR_OUTPUT']],
+  SR: [['S1', 'BOOL', 'VAR_INPUT'], ['R', 'BOOL', 'VAR_INPUT'], ['Q1', 'BOOL', 'VAR_OUTPUT']],
+  RS: [['S', 'BOOL', 'VAR_INPUT'], ['R1', 'BOOL', 'VAR_INPUT'], ['Q1', 'BOOL', 'VAR_OUTPUT']]
+};
+
+// Parameter names of the TwinCAT / CODESYS counters: CTU(CU := x, RESET := r), CTD(CD := x, LOAD := l)
+const STANDARD_FB_ALIASES: Record<string, Record<string, string>> = {
+  CTU: { RESET: 'R' },
+  CTD: { LOAD: 'LD' }
+};
+
+const REAL_FUNCTIONS: Record<string, (x: number) => number> = {
+  SQRT: Math.sqrt, LN: Math.log, LOG: Math.log10, EXP: Math.exp,
+  SIN: Math.sin, COS: Math.cos, TAN: Math.tan, ASIN: Math.asin, ACOS: Math.acos, ATAN: Math.atan
+};
+
+// Control flow out of loops and POUs
+const EXIT = Symbol('EXIT');
+const CONTINUE = Symbol('CONTINUE');
+const RETURN = Symbol('RETURN');
+
+function isInstance(value: Value): value is Instance {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+function instanceMember(instance: Instance, name: string): Variable | undefined {
+  const key = name.toUpperCase();
+  const alias = STANDARD_FB_ALIASES[instance.typeName]?.[key];
+  return instance.vars.get(key) ?? (alias ? instance.vars.get(alias) : undefined);
+}
+
+function isElementary(type: RType): boolean {
+  return !['ARRAY', 'STRUCT', 'FB'].includes(type.kind);
+}
+
+function wrapInteger(value: number, type: Extract<RType, { kind: 'INT' }>): number {
+  const integer = Math.trunc(value);
+  // 64-bit types are held as doubles; their overflow is not simulated
+  if (type === ANY_INT || type.bits >= 64) return integer;
+  const range = 2 ** type.bits;
+  let wrapped = ((integer % range) + range) % range;
+  if (type.signed && wrapped >= range / 2) wrapped -= range;
+  return wrapped;
+}
+
+// REAL -> integer conversions round half away from zero
+function roundHalfAway(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+function storeReal(value: number, type: RType): number {
+  return type.name === 'REAL' ? Math.fround(value) : value;
+}
+
+function cloneValue(value: Value): Value {
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (isInstance(value)) {
+    const vars = new Map<string, Variable>();
+    value.vars.forEach((variable, key) => vars.set(key, { ...variable, value: cloneValue(variable.value) }));
+    return { typeName: value.typeName, vars, state: { ...value.state } };
+  }
+  return value;
+}
+
+function formatDuration(ms: number): string {
+  if (ms === 0) return 'T#0ms';
+  const units: Array<[string, number]> = [['d', 86400000], ['h', 3600000], ['m', 60000], ['s', 1000], ['ms', 1]];
+  let rest = Math.abs(ms);
+  let text = '';
+  for (const [unit, size] of units) {
+    const count = unit === 'ms' ? rest : Math.floor(rest / size);
+    if (count > 0) text += `${count}${unit}`;
+    rest -= count * size;
+  }
+  return `T#${ms < 0 ? '-' : ''}${text}`;
+}
+
+/**
+ * Runs one entry POU of a parsed source file scan by scan. Variables can be forced (held at a
+ * value before and after every scan) and read back by path: Motor.Speed, Values[3], Timer.ET.
+ */
+export class STSimulator {
+  readonly entry: string;
+  readonly cycleTimeMs: number;
+  scanCount = 0;
+  timeMs = 0;
+  readonly warnings: string[] = [];
+
+  private types = new Map<string, STTypeDeclaration>();
+  private pous = new Map<string, STPou>();
+  private enumValues = new Map<string, { type: RType; value: number }>();
+  private globals: Scope = { vars: new Map() };
+  private addresses = new Map<string, Variable>();
+  private main: Scope;
+  private body: STStatement[];
+  private forces = new Map<string, { target: STExpression; value: Value }>();
+  private statements = 0; // statements run in the current scan
+  private depth = 0;
+
+  constructor(file: STSourceFile, options: STSimulatorOptions = {}) {
+    this.cycleTimeMs = options.cycleTimeMs ?? DEFAULT_CYCLE_TIME_MS;
+
+    for (const declaration of file.declarations) {
+      if (declaration.kind === 'TypeBlock') {
+        declaration.types.forEach(type => this.types.set(type.name.toUpperCase(), type));
+      } else if (declaration.kind === 'Pou') {
+        this.pous.set(declaration.name.toUpperCase(), declaration);
+      }
+    }
+    this.collectEnumValues();
+
+    // Globals: VAR_GLOBAL lists, data blocks, then project tags not declared in the code
+    for (const declaration of file.declarations) {
+      if (declaration.kind === 'VarSection') {
+        declaration.declarations.forEach(d => this.declare(this.globals.vars, d, declaration.section, this.globals));
+      }
+    }
+    for (const pou of this.pous.values()) {
+      if (pou.pouType === 'DATA_BLOCK') this.createDataBlock(pou);
+    }
+    for (const tag of options.globals || []) this.declareGlobal(tag);
+
+    const entry = this.findEntry(file, options.entry);
+    if (entry) {
+      const instance = this.createInstance({ kind: 'FB', name: entry.name, pou: entry });
+      this.entry = entry.name;
+      this.main = { vars: instance.vars, parent: this.globals };
+      this.body = entry.body;
+    } else {
+      this.entry = '';
+      this.main = { vars: new Map(), parent: this.globals };
+      this.body = file.body;
+    }
+  }
+
+  // ---- Setup ----
+
+  private findEntry(file: STSourceFile, name?: string): STPou | undefined {
+    if (name) {
+      const pou = this.pous.get(name.toUpperCase());
+      if (!pou || !['PROGRAM', 'FUNCTION_BLOCK', 'ORGANIZATION_BLOCK'].includes(pou.pouType)) {
+        throw new SimulationError(`No PROGRAM or FUNCTION_BLOCK named ${name}`);
+      }
+      return pou;
+    }
+    const pous = [...this.pous.values()];
+    const entry = pous.find(p => p.pouType === 'PROGRAM') || pous.find(p => p.pouType === 'ORGANIZATION_BLOCK');
+    if (entry) return entry;
+    // Bare statements (Logic Studio snippets) run as they are
+    if (file.body.length > 0) return undefined;
+    const block = pous.find(p => p.pouType === 'FUNCTION_BLOCK');
+    if (!block) throw new SimulationError('The code has no PROGRAM, FUNCTION_BLOCK or statements to run');
+    return block;
+  }
+
+  private collectEnumValues(): void {
+    for (const declaration of this.types.values()) {
+      if (declaration.type.kind !== 'EnumType') continue;
+      const type = this.resolveType(declaration.type, declaration.name);
+      if (type.kind !== 'ENUM') continue;
+      type.values.forEach((value, name) => {
+        if (!this.enumValues.has(name)) this.enumValues.set(name, { type, value });
+      });
+    }
+  }
+
+  private createDataBlock(pou: STPou): void {
+    let instance: Instance;
+    if (pou.dataType) {
+      const type = this.resolveType(pou.dataType, pou.name);
+      const value = this.defaultValue(type);
+      if (!isInstance(value)) throw new STRuntimeError(`Data block ${pou.name} must be a structure`, pou.line, pou.column);
+      instance = value;
+    } else {
+      instance = { typeName: pou.name, vars: new Map(), state: {} };
+    }
+    const scope: Scope = { vars: instance.vars, parent: this.globals };
+    pou.varSections.forEach(section => section.declarations.forEach(d => this.declare(instance.vars, d, section.section, scope)));
+    this.globals.vars.set(pou.name.toUpperCase(), { name: pou.name, type: { kind: 'STRUCT', name: pou.name, members: [] }, value: instance, section: 'VAR_GLOBAL' });
+    // BEGIN section of a data block: start values
+    this.runBody(pou.body, scope);
+  }
+
+  private declareGlobal(tag: STSimulationGlobal): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tag.name)) {
+      this.warnings.push(`Tag ${tag.name} is not a valid ST name and is not simulated`);
+      return;
+    }
+    if (this.globals.vars.has(tag.name.toUpperCase())) return;
+
+    const dataType = (tag.dataType || 'BOOL').trim();
+    const initial = tag.defaultValue !== null && tag.defaultValue !== undefined && String(tag.defaultValue).trim() !== ''
+      ? ` := ${tag.defaultValue}`
+      : '';
+    for (const source of [`VAR_GLOBAL ${tag.name} : ${dataType}${initial}; END_VAR`, `VAR_GLOBAL ${tag.name} : ${dataType}; END_VAR`]) {
+      const { ast, errors } = parseST(source);
+      const section = ast.declarations[0];
+      if (errors.length > 0 || section?.kind !== 'VarSection') continue;
+      try {
+        this.declare(this.globals.vars, section.declarations[0], 'VAR_GLOBAL', this.globals);
+        return;
+      } catch (error) {
+        if (!(error instanceof STRuntimeError)) throw error;
+      }
+    }
+    this.warnings.push(`Tag ${tag.name} has a data type that cannot be simulated (${dataType})`);
+  }
+
+  private declare(vars: Map<string, Variable>, declaration: STVarDeclaration, section: string, scope: Scope): void {
+    // VAR_EXTERNAL refers to a global; declaring it locally would hide the global
+    if (section === 'VAR_EXTERNAL') return;
+    const type = this.resolveType(declaration.type);
+    for (const declared of declaration.names) {
+      const value = declaration.initialValue ? this.initialValue(declaration.initialValue, type, scope) : this.defaultValue(type);
+      const variable: Variable = { name: declared.name, type, value, section };
+      vars.set(declared.name.toUpperCase(), variable);
+      // AT %IX0.0: the variable and the address are the same storage
+      if (declaration.address && !declaration.address.includes('*')) {
+        this.addresses.set(declaration.address.toUpperCase(), variable);
+      }
+    }
+  }
+
+  private namedType(name: string, node: STNodeBase, length?: STExpression): RType {
+    const upper = name.toUpperCase();
+    if (upper === 'BOOL') return BOOL;
+    if (INTEGER_TYPES[upper]) return { kind: 'INT', name: upper, bits: INTEGER_TYPES[upper][0], signed: INTEGER_TYPES[upper][1] };
+    if (upper === 'REAL' || upper === 'LREAL') return { kind: 'REAL', name: upper };
+    if (upper === 'TIME' || upper === 'LTIME') return { kind: 'TIME', name: upper };
+    if (upper === 'STRING' || upper === 'WSTRING') {
+      return { kind: 'STRING', name: upper, length: length ? this.constant(length) : DEFAULT_STRING_LENGTH };
+    }
+    if (STANDARD_FBS[upper]) return { kind: 'FB', name: upper };
+
+    const declared = this.types.get(upper);
+    if (declared) return this.resolveType(declared.type, declared.name);
+    const pou = this.pous.get(upper);
+    if (pou?.pouType === 'FUNCTION_BLOCK') return { kind: 'FB', name: pou.name, pou };
+    throw new STRuntimeError(`Data type ${name} is not supported in simulation`, node.line, node.column);
+  }
+
+  private resolveType(spec: STTypeSpec, name?: string): RType {
+    switch (spec.kind) {
+      case 'NamedType':
+        return this.namedType(spec.name, spec, spec.length);
+      case 'ArrayType': {
+        const dims = spec.dimensions.map(d => {
+          if (!d.lower || !d.upper) throw new STRuntimeError('ARRAY[*] is not supported in simulation', spec.line, spec.column);
+          return { lower: this.constant(d.lower), upper: this.constant(d.upper) };
+        });
+        return { kind: 'ARRAY', name: name || typeSpecText(spec), dims, element: this.resolveType(spec.elementType) };
+      }
+      case 'StructType': {
+        const base = spec.extends ? this.namedType(spec.extends, spec) : undefined;
+        const members = base?.kind === 'STRUCT' ? [...base.members, ...spec.members] : spec.members;
+        return { kind: 'STRUCT', name: name || 'STRUCT', members };
+      }
+      case 'EnumType': {
+        const values = new Map<string, number>();
+        const labels = new Map<number, string>();
+        let next = 0;
+        for (const value of spec.values) {
+          if (value.value) next = this.constant(value.value);
+          values.set(value.name.toUpperCase(), next);
+          if (!labels.has(next)) labels.set(next, value.name);
+          next++;
+        }
+        return { kind: 'ENUM', name: name || 'ENUM', values, labels };
+      }
+      case 'PointerType':
+        throw new STRuntimeError('Pointers and references are not supported in simulation', spec.line, spec.column);
+    }
+  }
+
+  private constant(expr: STExpression): number {
+    const { value } = this.evaluate(expr, this.globals);
+    if (typeof value !== 'number') throw new STRuntimeError(`${expressionText(expr)} is not a numeric constant`, expr.line, expr.column);
+    return value;
+  }
+
+  private defaultValue(type: RType): Value {
+    switch (type.kind) {
+      case 'BOOL': return false;
+      case 'STRING': return '';
+      case 'ENUM': return type.values.values().next().value ?? 0;
+      case 'ARRAY': {
+        const length = type.dims.reduce((n, d) => n * (d.upper - d.lower + 1), 1);
+        return Array.from({ length }, () => this.defaultValue(type.element));
+      }
+      case 'STRUCT':
+      case 'FB':
+        return this.createInstance(type);
+      default:
+        return 0;
+    }
+  }
+
+  private createInstance(type: Extract<RType, { kind: 'STRUCT' | 'FB' }>): Instance {
+    const instance: Instance = { typeName: type.name, vars: new Map(), state: {} };
+    const scope: Scope = { vars: instance.vars, parent: this.globals };
+    if (type.kind === 'STRUCT') {
+      type.members.forEach(member => this.declare(instance.vars, member, 'VAR', scope));
+    } else if (!type.pou) {
+      for (const [name, typeName, section] of STANDARD_FBS[type.name]) {
+        const memberType = this.namedType(typeName, { line: 0, column: 0, offset: 0, end: 0 });
+        instance.vars.set(name, { name, type: memberType, value: this.defaultValue(memberType), section });
+      }
+    } else {
+      // Variables of a base FB come first: FB_Derived EXTENDS FB_Base
+      const chain: STPou[] = [];
+      for (let pou: STPou | undefined = type.pou; pou && !chain.includes(pou); pou = pou.extends ? this.pous.get(pou.extends.toUpperCase()) : undefined) {
+        chain.unshift(pou);
+      }
+      chain.forEach(pou => pou.varSections.forEach(section => section.declarations.forEach(d => this.declare(instance.vars, d, section.section, scope))));
+    }
+    return instance;
+  }
+
+  private initialValue(init: STInitializer, type: RType, scope: Scope): Value {
+    if (init.kind === 'ArrayInitializer') {
+      if (type.kind !== 'ARRAY') throw new STRuntimeError('Array initial value for a variable that is not an array', init.line, init.column);
+      const value = this.defaultValue(type) as Value[];
+      let index = 0;
+      for (const element of init.elements) {
+        const count = element.repeat ? this.constant(element.repeat) : 1;
+        for (let i = 0; i < count && index < value.length; i++, index++) {
+          value[index] = element.value ? this.initialValue(element.value, type.element, scope) : this.defaultValue(type.element);
+        }
+      }
+      return value;
+    }
+    if (init.kind === 'StructInitializer') {
+      if (type.kind !== 'STRUCT' && type.kind !== 'FB') throw new STRuntimeError('Structure initial value for a variable that is not a structure', init.line, init.column);
+      const instance = this.createInstance(type);
+      for (const field of init.fields) {
+        const variable = instance.vars.get(field.name.toUpperCase());
+        if (!variable) throw new STRuntimeError(`${type.name} has no member ${field.name}`, init.line, init.column);
+        variable.value = this.initialValue(field.value, variable.type, scope);
+      }
+      return instance;
+    }
+    return this.coerce(this.evaluate(init, scope), type, init);
+  }
+
+  // ---- Scans ----
+
+  /**
+   * Run scans; each one executes the entry POU and advances the clock by the cycle time. With a budget,
+   * its statements are charged after every scan and no scan starts once it is used up.
+   */
+  step(scans = 1, budget?: STRunBudget): void {
+    for (let i = 0; i < scans; i++) {
+      if (budget && isRunBudgetExhausted(budget)) {
+        throw new SimulationBudgetError(`Stopped after ${i} of ${scans} scans: the run used up its statement or time budget`);
+      }
+      this.applyForces();
+      this.statements = 0;
+      try {
+        this.runBody(this.body, this.main);
+      } finally {
+        if (budget) budget.statements -= this.statements;
+      }
+      this.applyForces();
+      this.scanCount++;
+      this.timeMs += this.cycleTimeMs;
+    }
+  }
+
+  /** Let time pass with the PLC running: as many scans as fit into `ms`. Returns the number of scans. */
+  advance(ms: number, budget?: STRunBudget): number {
+    const scans = Math.max(0, Math.ceil(ms / this.cycleTimeMs));
+    this.step(scans, budget);
+    return scans;
+  }
+
+  private runBody(body: STStatement[], scope: Scope): void {
+    try {
+      this.execute(body, scope);
+    } catch (signal) {
+      if (signal !== RETURN) throw signal;
+    }
+  }
+
+  // ---- Forcing and reading ----
+
+  private parsePath(path: unknown): STExpression {
+    if (typeof path !== 'string' || !path.trim()) throw new SimulationError('Variable path is required');
+    const { ast, errors } = parseST(`${path} := 0;`, { routineBody: true });
+    const statement = ast.body[0];
+    if (errors.length > 0 || ast.body.length !== 1 || statement.kind !== 'Assignment') {
+      throw new SimulationError(`Invalid variable path: ${path}`);
+    }
+    return statement.target;
+  }
+
+  private pathRef(path: unknown): { target: STExpression; ref: Ref } {
+    const target = this.parsePath(path);
+    try {
+      return { target, ref: this.ref(target, this.main) };
+    } catch (error) {
+      if (error instanceof STRuntimeError) throw new SimulationError(`${path}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /** Hold a variable at a value until released */
+  force(path: string, value: unknown): void {
+    const { target, ref } = this.pathRef(path);
+    if (!isElementary(ref.type)) throw new SimulationError(`${path} is not an elementary variable`);
+    const converted = this.fromJson(value, ref.type, path);
+    this.forces.set(expressionText(target).toUpperCase(), { target, value: converted });
+    ref.set(converted);
+  }
+
+  /** Release one forced variable, or all of them */
+  release(path?: string): void {
+    if (path === undefined) {
+      this.forces.clear();
+      return;
+    }
+    this.forces.delete(expressionText(this.parsePath(path)).toUpperCase());
+  }
+
+  get forcedPaths(): string[] {
+    return [...this.forces.values()].map(force => expressionText(force.target));
+  }
+
+  private applyForces(): void {
+    for (const force of this.forces.values()) this.ref(force.target, this.main).set(force.value);
+  }
+
+  /** Current value of a variable; structures and arrays come back as objects and arrays */
+  read(path: string): unknown {
+    const { ref } = this.pathRef(path);
+    return this.toJson(ref.get(), ref.type);
+  }
+
+  /** Compare a variable with an expected value written as for force(); numbers may differ by the tolerance */
+  check(path: string, expected: unknown, tolerance = 0): { actual: unknown; passed: boolean } {
+    const { ref } = this.pathRef(path);
+    if (!isElementary(ref.type)) throw new SimulationError(`${path} is not an elementary variable`);
+    const wanted = this.fromJson(expected, ref.type, path);
+    const value = ref.get();
+    const passed = typeof value === 'number' && typeof wanted === 'number' ? Math.abs(value - wanted) <= tolerance : value === wanted;
+    return { actual: this.toJson(value, ref.type), passed };
+  }
+
+  /** Every elementary variable of the entry POU and the globals, flattened to paths */
+  snapshot(): STVariableValue[] {
+    const values: STVariableValue[] = [];
+    const visit = (path: string, type: RType, value: Value): void => {
+      if (values.length >= MAX_SNAPSHOT_VARIABLES) return;
+      if (type.kind === 'ARRAY') {
+        (value as Value[]).forEach((element, i) => visit(`${path}[${this.arrayIndices(type, i).join(', ')}]`, type.element, element));
+      } else if (isInstance(value)) {
+        value.vars.forEach(variable => visit(`${path}.${variable.name}`, variable.type, variable.value));
+      } else {
+        values.push({ path, type: type.name, value: this.toJson(value, type) as STJsonValue, forced: this.forces.has(path.toUpperCase()) });
+      }
+    };
+
+    this.main.vars.forEach(variable => visit(variable.name, variable.type, variable.value));
+    this.globals.vars.forEach(variable => visit(variable.name, variable.type, variable.value));
+    this.addresses.forEach((variable, address) => {
+      if (variable.name === address) visit(address, variable.type, variable.value);
+    });
+    return values;
+  }
+
+  private arrayIndices(type: Extract<RType, { kind: 'ARRAY' }>, flat: number): number[] {
+    const indices: number[] = [];
+    for (let d = type.dims.length - 1; d >= 0; d--) {
+      const size = type.dims[d].upper - type.dims[d].lower + 1;
+      indices.unshift(type.dims[d].lower + (flat % size));
+      flat = Math.floor(flat / size);
+    }
+    return indices;
+  }
+
+  private toJson(value: Value, type: RType): unknown {
+    if (type.kind === 'ENUM') return type.labels.get(value as number) ?? value;
+    if (type.kind === 'ARRAY') return (value as Value[]).map(element => this.toJson(element, type.element));
+    if (isInstance(value)) {
+      const object: Record<string, unknown> = {};
+      value.vars.forEach(variable => { object[variable.name] = this.toJson(variable.value, variable.type); });
+      return object;
+    }
+    return value;
+  }
+
+  private fromJson(value: unknown, type: RType, path: string): Value {
+    const invalid = () => new SimulationError(`${JSON.stringify(value)} is not a valid ${type.name} value for ${path}`);
+    switch (type.kind) {
+      case 'BOOL':
+        if (typeof value === 'boolean') return value;
+        if (value === 1 || value === 0) return value === 1;
+        if (typeof value === 'string' && /^(TRUE|FALSE)$/i.test(value)) return value.toUpperCase() === 'TRUE';
+        throw invalid();
+      case 'INT': {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isInteger(number)) throw invalid();
+        return wrapInteger(number, type);
+      }
+      case 'REAL': {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number)) throw invalid();
+        return storeReal(number, type);
+      }
+      case 'TIME': {
+        if (typeof value === 'number' && Number.isFinite(value)) return Math.round(value);
+        const ms = typeof value === 'string' ? parseDurationMs(value.replace(/^L?(T|TIME)#/i, '')) : null;
+        if (ms === null) throw invalid();
+        return Math.round(ms);
+      }
+      case 'STRING':
+        if (typeof value !== 'string') throw invalid();
+        return value.slice(0, type.length);
+      case 'ENUM': {
+        const name = typeof value === 'string' ? value.replace(/^.*[.#]/, '').toUpperCase() : '';
+        if (type.values.has(name)) return type.values.get(name)!;
+        if (typeof value === 'number' && [...type.values.values()].includes(value)) return value;
+        throw invalid();
+      }
+      default:
+        throw invalid();
+    }
+  }
+
+  // ---- Statements ----
+
+  private tick(node: STNodeBase): void {
+    if (++this.statements > MAX_STATEMENTS_PER_SCAN) {
+      throw new STRuntimeError(`Scan exceeded ${MAX_STATEMENTS_PER_SCAN} statements; check for an endless loop`, node.line, node.column);
+    }
+  }
+
+  private execute(statements: STStatement[], scope: Scope): void {
+    for (const statement of statements) {
+      this.tick(statement);
+      switch (statement.kind) {
+        case 'Assignment': {
+          if (statement.operator === 'REF=') {
+            throw new STRuntimeError('REF= is not supported in simulation', statement.line, statement.column);
+          }
+          const target = this.ref(statement.target, scope);
+          const value = this.evaluate(statement.value, scope);
+          if (statement.operator === ':=') {
+            target.set(this.coerce(value, target.type, statement.value));
+          } else if (this.bool(value, statement.value)) {
+            target.set(statement.operator === 'S=');
+          }
+          break;
+        }
+        case 'CallStatement':
+          this.call(statement.call, scope);
+          break;
+        case 'If': {
+          const branch = statement.branches.find(b => this.bool(this.evaluate(b.condition, scope), b.condition));
+          if (branch) this.execute(branch.body, scope);
+          else if (statement.elseBody) this.execute(statement.elseBody, scope);
+          break;
+        }
+        case 'Case': {
+          const selector = this.evaluate(statement.selector, scope).value;
+          const branch = statement.branches.find(b => b.labels.some(label => {
+            const value = this.evaluate(label.value, scope).value;
+            if (!label.upper) return value === selector;
+            return selector >= value && selector <= this.evaluate(label.upper, scope).value;
+          }));
+          if (branch) this.execute(branch.body, scope);
+          else if (statement.elseBody) this.execute(statement.elseBody, scope);
+          break;
+        }
+        case 'For': {
+          const variable = this.ref(statement.variable, scope);
+          if (variable.type.kind !== 'INT') throw new STRuntimeError('FOR variable must be an integer', statement.line, statement.column);
+          const to = this.evaluate(statement.to, scope).value as number;
+          const by = statement.by ? this.evaluate(statement.by, scope).value as number : 1;
+          if (by === 0) throw new STRuntimeError('FOR loop with BY 0 never ends', statement.line, statement.column);
+          variable.set(this.coerce(this.evaluate(statement.from, scope), variable.type, statement.from));
+          while (by > 0 ? (variable.get() as number) <= to : (variable.get() as number) >= to) {
+            if (this.loopBody(statement.body, scope)) break;
+            variable.set(wrapInteger((variable.get() as number) + by, variable.type));
+            this.tick(statement);
+          }
+          break;
+        }
+        case 'While':
+          while (this.bool(this.evaluate(statement.condition, scope), statement.condition)) {
+            if (this.loopBody(statement.body, scope)) break;
+            this.tick(statement);
+          }
+          break;
+        case 'Repeat':
+          do {
+            if (this.loopBody(statement.body, scope)) break;
+            this.tick(statement);
+          } while (!this.bool(this.evaluate(statement.condition, scope), statement.condition));
+          break;
+        case 'Region':
+          this.execute(statement.body, scope);
+          break;
+        case 'Return':
+          throw RETURN;
+        case 'Exit':
+          throw EXIT;
+        case 'Continue':
+          throw CONTINUE;
+      }
+    }
+  }
+
+  // Returns true when the loop was left with EXIT
+  private loopBody(body: STStatement[], scope: Scope): boolean {
+    try {
+      this.execute(body, scope);
+    } catch (signal) {
+      if (signal === EXIT) return true;
+      if (signal !== CONTINUE) throw signal;
+    }
+    return false;
+  }
+
+  private bool(typed: Typed, node: STNodeBase): boolean {
+    if (typeof typed.value !== 'boolean') {
+      throw new STRuntimeError(`Expected a BOOL, found ${typed.type.name}`, node.line, node.column);
+    }
+    return typed.value;
+  }
+
+  // ---- Variables ----
+
+  private lookup(scope: Scope, name: string): Variable | undefined {
+    const key = name.toUpperCase();
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const variable = current.vars.get(key);
+      if (variable) return variable;
+    }
+    return undefined;
+  }
+
+  private variableRef(variable: Variable): Ref {
+    return { type: variable.type, get: () => variable.value, set: value => { variable.value = value; } };
+  }
+
+  private constantRef(type: RType, value: Value, node: STNodeBase): Ref {
+    return {
+      type,
+      get: () => value,
+      set: () => { throw new STRuntimeError(`${expressionText(node as STExpression)} is a constant`, node.line, node.column); }
+    };
+  }
+
+  private addressVariable(address: string, node: STNodeBase): Variable {
+    const key = address.toUpperCase();
+    const existing = this.addresses.get(key);
+    if (existing) return existing;
+
+    const size = key.match(/^%[IQM]([XBWDL]?)\d/);
+    if (!size) throw new STRuntimeError(`Address ${address} is not supported in simulation`, node.line, node.column);
+    const bit = size[1] === 'X' || (size[1] === '' && key.includes('.'));
+    const type = bit ? BOOL : this.namedType({ B: 'BYTE', W: 'WORD', D: 'DWORD', L: 'LWORD', '': 'BYTE', X: 'BOOL' }[size[1]]!, node);
+    const variable: Variable = { name: key, type, value: this.defaultValue(type), section: 'ADDRESS' };
+    this.addresses.set(key, variable);
+    return variable;
+  }
+
+  private ref(expr: STExpression, scope: Scope): Ref {
+    switch (expr.kind) {
+      case 'Name': {
+        const variable = this.lookup(scope, expr.name);
+        if (variable) return this.variableRef(variable);
+        const enumValue = this.enumValues.get(expr.name.toUpperCase());
+        if (enumValue) return this.constantRef(enumValue.type, enumValue.value, expr);
+        throw new STRuntimeError(`${expr.name} is not declared`, expr.line, expr.column);
+      }
+      case 'DirectAddress':
+        return this.variableRef(this.addressVariable(expr.address, expr));
+      case 'MemberAccess': {
+        // E_Mode.Auto
+        if (expr.object.kind === 'Name' && !this.lookup(scope, expr.object.name)) {
+          const declared = this.types.get(expr.object.name.toUpperCase());
+          if (declared?.type.kind === 'EnumType') {
+            const type = this.resolveType(declared.type, declared.name);
+            const value = type.kind === 'ENUM' ? type.values.get(expr.member.toUpperCase()) : undefined;
+            if (value === undefined) throw new STRuntimeError(`${declared.name} has no value ${expr.member}`, expr.line, expr.column);
+            return this.constantRef(type, value, expr);
+          }
+        }
+        const base = this.ref(expr.object, scope);
+        const value = base.get();
+        if (isInstance(value)) {
+          const variable = instanceMember(value, expr.member);
+          if (!variable) throw new STRuntimeError(`${base.type.name} has no member ${expr.member}`, expr.line, expr.column);
+          return this.variableRef(variable);
+        }
+        // Bit access: Word.3, Word.%X3
+        const bit = expr.member.match(/^(?:%X)?(\d+)$/i);
+        if (bit && base.type.kind === 'INT') {
+          const type = base.type;
+          const mask = 2 ** parseInt(bit[1], 10);
+          return {
+            type: BOOL,
+            get: () => Math.floor((base.get() as number) / mask) % 2 !== 0,
+            set: on => {
+              const current = base.get() as number;
+              const isSet = Math.floor(current / mask) % 2 !== 0;
+              if (on !== isSet) base.set(wrapInteger(current + (on ? mask : -mask), type));
+            }
+          };
+        }
+        throw new STRuntimeError(`${expressionText(expr.object)} has no member ${expr.member}`, expr.line, expr.column);
+      }
+      case 'IndexAccess': {
+        const base = this.ref(expr.object, scope);
+        if (base.type.kind !== 'ARRAY') throw new STRuntimeError(`${expressionText(expr.object)} is not an array`, expr.line, expr.column);
+        const type = base.type;
+        if (expr.indices.length !== type.dims.length) {
+          throw new STRuntimeError(`${expressionText(expr.object)} needs ${type.dims.length} index value(s)`, expr.line, expr.column);
+        }
+        let flat = 0;
+        expr.indices.forEach((indexExpr, d) => {
+          const index = this.evaluate(indexExpr, scope).value;
+          const { lower, upper } = type.dims[d];
+          if (typeof index !== 'number' || index < lower || index > upper) {
+            throw new STRuntimeError(`Index ${index} is outside ${lower}..${upper} of ${expressionText(expr.object)}`, indexExpr.line, indexExpr.column);
+          }
+          flat = flat * (upper - lower + 1) + (index - lower);
+        });
+        return { type: type.element, get: () => (base.get() as Value[])[flat], set: value => { (base.get() as Value[])[flat] = value; } };
+      }
+      default:
+        throw new STRuntimeError(`${expressionText(expr)} is not a variable`, expr.line, expr.column);
+    }
+  }
+
+  // ---- Expressions ----
+
+  private literal(expr: STLiteral): Typed {
+    switch (expr.literalType) {
+      case 'bool':
+        return { type: BOOL, value: expr.value as boolean };
+      case 'integer': {
+        if (!expr.typePrefix) return { type: ANY_INT, value: expr.value as number };
+        const type = this.namedType(expr.typePrefix, expr);
+        return { type, value: this.coerce({ type: ANY_INT, value: expr.value as number }, type, expr) };
+      }
+      case 'real':
+        return { type: expr.typePrefix ? this.namedType(expr.typePrefix, expr) : ANY_REAL, value: expr.value as number };
+      case 'string':
+        return { type: { kind: 'STRING', name: 'STRING', length: (expr.value as string).length }, value: expr.value as string };
+      case 'duration':
+        return { type: expr.typePrefix?.toUpperCase().startsWith('L') ? { kind: 'TIME', name: 'LTIME' } : TIME, value: expr.value as number };
+      case 'enum': {
+        const type = this.namedType(expr.typePrefix || '', expr);
+        const value = type.kind === 'ENUM' ? type.values.get(String(expr.value).toUpperCase()) : undefined;
+        if (value === undefined) throw new STRuntimeError(`Invalid enumeration value ${expr.text}`, expr.line, expr.column);
+        return { type, value };
+      }
+      default:
+        throw new STRuntimeError(`${expr.literalType.replace(/_/g, ' ')} values are not supported in simulation`, expr.line, expr.column);
+    }
+  }
+
+  private evaluate(expr: STExpression, scope: Scope): Typed {
+    switch (expr.kind) {
+      case 'Literal':
+        return this.literal(expr);
+      case 'Call': {
+        const result = this.call(expr, scope);
+        if (!result) throw new STRuntimeError(`${expressionText(expr.callee)} does not return a value`, expr.line, expr.column);
+        return result;
+      }
+      case 'Unary': {
+        const operand = this.evaluate(expr.operand, scope);
+        if (expr.operator === 'NOT') {
+          if (typeof operand.value === 'boolean') return { type: BOOL, value: !operand.value };
+          if (operand.type.kind === 'INT') return { type: operand.type, value: wrapInteger(~(operand.value as number), operand.type) };
+          throw new STRuntimeError(`NOT needs a BOOL or integer, found ${operand.type.name}`, expr.line, expr.column);
+        }
+        if (typeof operand.value !== 'number' || operand.type.kind === 'ENUM') {
+          throw new STRuntimeError(`Unary ${expr.operator} needs a number, found ${operand.type.name}`, expr.line, expr.column);
+        }
+        if (expr.operator === '+') return operand;
+        const value = -operand.value;
+        return { type: operand.type, value: operand.type.kind === 'INT' ? wrapInteger(value, operand.type) : storeReal(value, operand.type) };
+      }
+      case 'Binary':
+        return this.binary(expr, scope);
+      case 'Deref':
+        throw new STRuntimeError('Pointers and references are not supported in simulation', expr.line, expr.column);
+      default: {
+        const ref = this.ref(expr, scope);
+        return { type: ref.type, value: ref.get() };
+      }
+    }
+  }
+
+  private numericType(a: RType, b: RType): RType | undefined {
+    if (a.kind === 'REAL' || b.kind === 'REAL') {
+      if (![a, b].every(t => t.kind === 'REAL' || t.kind === 'INT')) return undefined;
+      if (a.name === 'LREAL' || b.name === 'LREAL') return LREAL;
+      return a.name === 'REAL' || b.name === 'REAL' ? { kind: 'REAL', name: 'REAL' } : LREAL;
+    }
+    if (a.kind === 'INT' && b.kind === 'INT') {
+      if (a === ANY_INT) return b;
+      if (b === ANY_INT) return a;
+      return a.bits >= b.bits ? a : b;
+    }
+    return undefined;
+  }
+
+  private binary(expr: Extract<STExpression, { kind: 'Binary' }>, scope: Scope): Typed {
+    const op = expr.operator;
+    const left = this.evaluate(expr.left, scope);
+
+    if (op === 'AND_THEN' || op === 'OR_ELSE') {
+      const l = this.bool(left, expr.left);
+      if (op === 'AND_THEN' ? !l : l) return { type: BOOL, value: l };
+      return { type: BOOL, value: this.bool(this.evaluate(expr.right, scope), expr.right) };
+    }
+
+    const right = this.evaluate(expr.right, scope);
+    const a = left.value;
+    const b = right.value;
+    const fail = (): never => {
+      throw new STRuntimeError(`Operator ${op} cannot combine ${left.type.name} and ${right.type.name}`, expr.line, expr.column);
+    };
+
+    switch (op) {
+      case 'AND':
+      case 'OR':
+      case 'XOR': {
+        if (typeof a === 'boolean' && typeof b === 'boolean') {
+          return { type: BOOL, value: op === 'AND' ? a && b : op === 'OR' ? a || b : a !== b };
+        }
+        const type = left.type.kind === 'INT' && right.type.kind === 'INT' ? this.numericType(left.type, right.type) : undefined;
+        if (type?.kind !== 'INT') return fail();
+        const x = a as number;
+        const y = b as number;
+        return { type, value: wrapInteger(op === 'AND' ? x & y : op === 'OR' ? x | y : x ^ y, type) };
+      }
+      case '=':
+      case '<>':
+      case '<':
+      case '>':
+      case '<=':
+      case '>=': {
+        if (typeof a !== typeof b || isInstance(a) || Array.isArray(a)) return fail();
+        const result = op === '=' ? a === b : op === '<>' ? a !== b : op === '<' ? a < b : op === '>' ? a > b : op === '<=' ? a <= b : a >= b;
+        return { type: BOOL, value: result };
+      }
+    }
+
+    if (typeof a !== 'number' || typeof b !== 'number' || left.type.kind === 'ENUM' || right.type.kind === 'ENUM') return fail();
+
+    // TIME arithmetic: TIME +/- TIME, TIME * n, TIME / n
+    if (left.type.kind === 'TIME' || right.type.kind === 'TIME') {
+      const timeType = left.type.kind === 'TIME' ? left.type : right.type;
+      if ((op === '+' || op === '-') && left.type.kind === 'TIME' && right.type.kind === 'TIME') {
+        return { type: timeType, value: op === '+' ? a + b : a - b };
+      }
+      if (op === '*' && (left.type.kind !== 'TIME' || right.type.kind !== 'TIME')) return { type: timeType, value: Math.trunc(a * b) };
+      if (op === '/' && left.type.kind === 'TIME' && right.type.kind !== 'TIME') {
+        if (b === 0) throw new STRuntimeError('Division by zero', expr.line, expr.column);
+        return { type: timeType, value: Math.trunc(a / b) };
+      }
+      return fail();
+    }
+
+    const type = this.numericType(left.type, right.type);
+    if (!type) return fail();
+    if (op === '**') return { type: type.kind === 'REAL' ? type : LREAL, value: a ** b };
+
+    if (type.kind === 'REAL') {
+      if (op === 'MOD') return fail();
+      const value = op === '+' ? a + b : op === '-' ? a - b : op === '*' ? a * b : a / b;
+      return { type, value: storeReal(value, type) };
+    }
+    if ((op === '/' || op === 'MOD') && b === 0) throw new STRuntimeError('Division by zero', expr.line, expr.column);
+    const value = op === '+' ? a + b : op === '-' ? a - b : op === '*' ? a * b : op === '/' ? Math.trunc(a / b) : a % b;
+    return { type, value: wrapInteger(value, type as Extract<RType, { kind: 'INT' }>) };
+  }
+
+  /** Implicit conversion on assignment and parameter passing */
+  private coerce(typed: Typed, target: RType, node: STNodeBase): Value {
+    const { value, type } = typed;
+    const fail = (): never => {
+      throw new STRuntimeError(`Cannot assign ${type.name} to ${target.name}`, node.line, node.column);
+    };
+    switch (target.kind) {
+      case 'BOOL':
+        return typeof value === 'boolean' ? value : fail();
+      case 'INT':
+        if (typeof value !== 'number' || type.kind === 'TIME') return fail();
+        return wrapInteger(type.kind === 'REAL' ? roundHalfAway(value) : value, target);
+      case 'REAL':
+        if (typeof value !== 'number' || type.kind === 'TIME' || type.kind === 'ENUM') return fail();
+        return storeReal(value, target);
+      case 'TIME':
+        return typeof value === 'number' && (type.kind === 'TIME' || type === ANY_INT) ? Math.trunc(value) : fail();
+      case 'STRING':
+        return typeof value === 'string' ? value.slice(0, target.length) : fail();
+      case 'ENUM':
+        return typeof value === 'number' && (type.kind === 'ENUM' || type.kind === 'INT') ? value : fail();
+      default:
+        return type.kind === target.kind && typeof value === 'object' ? cloneValue(value) : fail();
+    }
+  }
+
+  /** Explicit conversion: INT_TO_REAL, REAL_TO_INT, TIME_TO_DINT, TO_STRING, ... */
+  private convert(typed: Typed, target: RType, node: STNodeBase): Value {
+    const { value, type } = typed;
+    switch (target.kind) {
+      case 'BOOL':
+        if (typeof value === 'string') return value.toUpperCase() === 'TRUE';
+        return typeof value === 'boolean' ? value : value !== 0;
+      case 'INT':
+      case 'TIME': {
+        let number: number;
+        if (typeof value === 'boolean') number = value ? 1 : 0;
+        else if (typeof value === 'string') number = target.kind === 'TIME' ? parseDurationMs(value.replace(/^L?(T|TIME)#/i, '')) ?? 0 : parseInt(value, 10) || 0;
+        else number = type.kind === 'REAL' ? roundHalfAway(value as number) : value as number;
+        return target.kind === 'INT' ? wrapInteger(number, target) : Math.trunc(number);
+      }
+      case 'REAL':
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        return storeReal(typeof value === 'string' ? parseFloat(value) || 0 : value as number, target);
+      case 'STRING': {
+        const text = typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE')
+          : type.kind === 'TIME' ? formatDuration(value as number)
+            : String(value);
+        return text.slice(0, target.length);
+      }
+      default:
+        return this.coerce(typed, target, node);
+    }
+  }
+
+  // ---- Calls ----
+
+  private call(call: STCall, scope: Scope): Typed | undefined {
+    const callee = call.callee;
+    if (callee.kind === 'Name') {
+      const variable = this.lookup(scope, callee.name);
+      if (variable) {
+        if (variable.type.kind !== 'FB' || !isInstance(variable.value)) {
+          throw new STRuntimeError(`${callee.name} is not a function block instance`, call.line, call.column);
+        }
+        this.callBlock(variable.value, variable.type, call, scope);
+        return undefined;
+      }
+      const pou = this.pous.get(callee.name.toUpperCase());
+      if (pou?.pouType === 'FUNCTION') return this.callFunction(pou, call, scope);
+      return this.callStandardFunction(callee.name.toUpperCase(), call, scope);
+    }
+
+    if (callee.kind === 'MemberAccess') {
+      const base = this.ref(callee.object, scope);
+      const value = base.get();
+      const member = callee.member.toUpperCase();
+      // Siemens IEC_TIMER multi-instances: #Timer.TON(IN := ..., PT := ...)
+      if (base.type.kind === 'FB' && base.type.name === 'IEC_TIMER' && ['TON', 'TOF', 'TP'].includes(member) && isInstance(value)) {
+        this.callBlock(value, base.type, call, scope, member);
+        return undefined;
+      }
+      if (isInstance(value) && !instanceMember(value, member)) {
+        throw new STRuntimeError(`Method calls are not supported in simulation (${expressionText(callee)})`, call.line, call.column);
+      }
+      const target = this.ref(callee, scope);
+      const instance = target.get();
+      if (target.type.kind === 'FB' && isInstance(instance)) {
+        this.callBlock(instance, target.type, call, scope);
+        return undefined;
+      }
+    }
+    throw new STRuntimeError(`${expressionText(callee)} cannot be called`, call.line, call.column);
+  }
+
+  private enter(node: STNodeBase): void {
+    if (++this.depth > MAX_CALL_DEPTH) {
+      this.depth--;
+      throw new STRuntimeError(`Calls nested deeper than ${MAX_CALL_DEPTH} levels`, node.line, node.column);
+    }
+  }
+
+  // Bind call arguments to the parameters of a block or function; returns the copy-back for VAR_IN_OUT and outputs
+  private bindArguments(parameters: (name: string) => Variable | undefined, call: STCall, scope: Scope, positional: Variable[]): () => void {
+    const after: Array<() => void> = [];
+    call.args.forEach((arg, i) => {
+      if (!arg.value) return;
+      const parameter = arg.name ? parameters(arg.name) : positional[i];
+      if (!parameter) {
+        throw new STRuntimeError(arg.name ? `Unknown parameter ${arg.name}` : 'Too many arguments', arg.line, arg.column);
+      }
+      const argValue = arg.value;
+      if (arg.output) {
+        after.push(() => {
+          const target = this.ref(argValue, scope);
+          target.set(this.coerce({ type: parameter.type, value: parameter.value }, target.type, arg));
+        });
+      } else if (parameter.section === 'VAR_IN_OUT') {
+        const target = this.ref(argValue, scope);
+        parameter.value = this.coerce({ type: target.type, value: target.get() }, parameter.type, arg);
+        after.push(() => target.set(this.coerce({ type: parameter.type, value: parameter.value }, target.type, arg)));
+      } else {
+        parameter.value = this.coerce(this.evaluate(argValue, scope), parameter.type, argValue);
+      }
+    });
+    return () => after.forEach(copy => copy());
+  }
+
+  private callBlock(instance: Instance, type: Extract<RType, { kind: 'FB' }>, call: STCall, scope: Scope, timer?: string): void {
+    if (call.args.some(arg => !arg.name)) {
+      throw new STRuntimeError('Function block calls need named parameters (IN := ...)', call.line, call.column);
+    }
+    const copyBack = this.bindArguments(name => instanceMember(instance, name), call, scope, []);
+    this.enter(call);
+    try {
+      if (type.pou) this.runBody(type.pou.body, { vars: instance.vars, parent: this.globals });
+      else this.runStandardBlock(timer || type.name, instance);
+    } finally {
+      this.depth--;
+    }
+    copyBack();
+  }
+
+  private callFunction(pou: STPou, call: STCall, scope: Scope): Typed | undefined {
+    const vars = new Map<string, Variable>();
+    const local: Scope = { vars, parent: this.globals };
+    pou.varSections.forEach(section => section.declarations.forEach(d => this.declare(vars, d, section.section, local)));
+    const resultType = pou.returnType ? this.resolveType(pou.returnType) : undefined;
+    if (resultType) vars.set(pou.name.toUpperCase(), { name: pou.name, type: resultType, value: this.defaultValue(resultType), section: 'RESULT' });
+
+    const inputs = [...vars.values()].filter(v => v.section === 'VAR_INPUT' || v.section === 'VAR_IN_OUT');
+    const copyBack = this.bindArguments(name => vars.get(name.toUpperCase()), call, scope, inputs);
+    this.enter(call);
+    try {
+      this.runBody(pou.body, local);
+    } finally {
+      this.depth--;
+    }
+    copyBack();
+    return resultType ? { type: resultType, value: vars.get(pou.name.toUpperCase())!.value } : undefined;
+  }
+
+  private runStandardBlock(kind: string, instance: Instance): void {
+    const get = (name: string) => instance.vars.get(name)!.value;
+    const set = (name: string, value: Value) => { instance.vars.get(name)!.value = value; };
+    const state = instance.state;
+    const now = this.timeMs;
+
+    switch (kind) {
+      case 'TON': {
+        const pt = get('PT') as number;
+        if (!get('IN')) {
+          state.start = undefined;
+          set('Q', false);
+          set('ET', 0);
+        } else {
+          state.start ??= now;
+          const et = Math.min(now - state.start, pt);
+          set('ET', et);
+          set('Q', et >= pt);
+        }
+        break;
+      }
+      case 'TOF': {
+        const pt = get('PT') as number;
+        if (get('IN')) {
+          state.start = undefined;
+          state.on = true;
+          set('Q', true);
+          set('ET', 0);
+        } else if (state.on) {
+          state.start ??= now;
+          const et = Math.min(now - state.start, pt);
+          set('ET', et);
+          set('Q', et < pt);
+        }
+        break;
+      }
+      case 'TP': {
+        const pt = get('PT') as number;
+        const input = get('IN') as boolean;
+        if (state.start === undefined && input && !state.lastIn) state.start = now;
+        state.lastIn = input;
+        if (state.start === undefined) {
+          set('Q', false);
+          set('ET', 0);
+        } else {
+          const et = Math.min(now - state.start, pt);
+          set('Q', et < pt);
+          set('ET', et);
+          if (et >= pt && !input) {
+            state.start = undefined;
+            set('ET', 0);
+          }
+        }
+        break;
+      }
+      case 'CTU': {
+        const type = instance.vars.get('CV')!.type as Extract<RType, { kind: 'INT' }>;
+        const rising = get('CU') === true && !state.last;
+        state.last = get('CU');
+        if (get('R')) set('CV', 0);
+        else if (rising && (get('CV') as number) < 2 ** (type.bits - 1) - 1) set('CV', (get('CV') as number) + 1);
+        set('Q', (get('CV') as number) >= (get('PV') as number));
+        break;
+      }
+      case 'CTD': {
+        const type = instance.vars.get('CV')!.type as Extract<RType, { kind: 'INT' }>;
+        const rising = get('CD') === true && !state.last;
+        state.last = get('CD');
+        if (get('LD')) set('CV', get('PV'));
+        else if (rising && (get('CV') as number) > -(2 ** (type.bits - 1))) set('CV', (get('CV') as number) - 1);
+        set('Q', (get('CV') as number) <= 0);
+        break;
+      }
+      case 'R_TRIG':
+        set('Q', get('CLK') === true && !state.last);
+        state.last = get('CLK');
+        break;
+      case 'F_TRIG':
+        set('Q', get('CLK') === false && state.last === true);
+        state.last = get('CLK');
+        break;
+      case 'SR':
+        set('Q1', get('S1') === true || (get('R') !== true && get('Q1') === true));
+        break;
+      case 'RS':
+        set('Q1', get('R1') !== true && (get('S') === true || get('Q1') === true));
+        break;
+    }
+  }
+
+  private callStandardFunction(name: string, call: STCall, scope: Scope): Typed {
+    const args = call.args.filter(arg => !arg.output && arg.value).map(arg => this.evaluate(arg.value!, scope));
+    const fail = (message: string): never => {
+      throw new STRuntimeError(message, call.line, call.column);
+    };
+    const arity = (count: number) => {
+      if (args.length !== count) fail(`${name} takes ${count} argument(s)`);
+    };
+    const number = (typed: Typed): number => typeof typed.value === 'number' && typed.type.kind !== 'ENUM' ? typed.value : fail(`${name} needs numeric arguments`);
+    const text = (typed: Typed): string => typeof typed.value === 'string' ? typed.value : fail(`${name} needs STRING arguments`);
+    const widest = (values: Typed[]): RType => values.reduce<RType>((type, arg) => this.numericType(type, arg.type) ?? fail(`${name} needs numeric arguments`), ANY_INT);
+    const STRING_RESULT: RType = { kind: 'STRING', name: 'STRING', length: 254 };
+
+    const conversion = name.match(/^(?:\w+?_)?TO_(\w+)$/);
+    if (conversion) {
+      arity(1);
+      const target = this.namedType(conversion[1], call);
+      return { type: target, value: this.convert(args[0], target, call) };
+    }
+
+    if (REAL_FUNCTIONS[name]) {
+      arity(1);
+      const type = args[0].type.name === 'REAL' ? args[0].type : LREAL;
+      return { type, value: storeReal(REAL_FUNCTIONS[name](number(args[0])), type) };
+    }
+
+    switch (name) {
+      case 'ABS': {
+        arity(1);
+        const value = Math.abs(number(args[0]));
+        return { type: args[0].type, value: args[0].type.kind === 'INT' ? wrapInteger(value, args[0].type) : value };
+      }
+      case 'EXPT':
+        arity(2);
+        return { type: LREAL, value: number(args[0]) ** number(args[1]) };
+      case 'MIN':
+      case 'MAX': {
+        if (args.length < 2) fail(`${name} takes at least 2 arguments`);
+        const values = args.map(number);
+        return { type: widest(args), value: name === 'MIN' ? Math.min(...values) : Math.max(...values) };
+      }
+      case 'LIMIT': {
+        arity(3);
+        const [mn, value, mx] = args.map(number);
+        return { type: widest(args), value: Math.min(Math.max(value, mn), mx) };
+      }
+      case 'SEL':
+        arity(3);
+        return this.bool(args[0], call) ? args[2] : args[1];
+      case 'MUX': {
+        const k = number(args[0]);
+        if (k < 0 || k >= args.length - 1) fail(`MUX selector ${k} is out of range`);
+        return args[k + 1];
+      }
+      case 'MOVE':
+        arity(1);
+        return args[0];
+      case 'TRUNC':
+        arity(1);
+        return { type: DINT, value: wrapInteger(number(args[0]), DINT as Extract<RType, { kind: 'INT' }>) };
+      case 'ROUND':
+        arity(1);
+        return { type: DINT, value: wrapInteger(roundHalfAway(number(args[0])), DINT as Extract<RType, { kind: 'INT' }>) };
+      case 'SHL':
+      case 'SHR':
+      case 'ROL':
+      case 'ROR': {
+        arity(2);
+        const type = args[0].type;
+        if (type.kind !== 'INT' || type === ANY_INT) return fail(`${name} needs a typed integer (BYTE, WORD, DWORD, ...)`);
+        const bits = type.bits;
+        const range = 2 ** bits;
+        const unsigned = ((number(args[0]) % range) + range) % range;
+        const n = number(args[1]);
+        let value: number;
+        if (name === 'SHL') value = n >= bits ? 0 : (unsigned * 2 ** n) % range;
+        else if (name === 'SHR') value = Math.floor(unsigned / 2 ** n);
+        else {
+          const shift = (name === 'ROL' ? n : bits - (n % bits)) % bits;
+          value = ((unsigned * 2 ** shift) % range) + Math.floor(unsigned / 2 ** (bits - shift));
+        }
+        return { type, value: wrapInteger(value, type) };
+      }
+      case 'LEN':
+        arity(1);
+        return { type: { kind: 'INT', name: 'INT', bits: 16, signed: true }, value: text(args[0]).length };
+      case 'LEFT':
+        arity(2);
+        return { type: STRING_RESULT, value: text(args[0]).slice(0, Math.max(0, number(args[1]))) };
+      case 'RIGHT': {
+        arity(2);
+        const length = Math.max(0, number(args[1]));
+        return { type: STRING_RESULT, value: length === 0 ? '' : text(args[0]).slice(-length) };
+      }
+      case 'MID': {
+        arity(3);
+        const position = number(args[2]);
+        return { type: STRING_RESULT, value: text(args[0]).substr(Math.max(0, position - 1), Math.max(0, number(args[1]))) };
+      }
+      case 'CONCAT':
+        return { type: STRING_RESULT, value: args.map(text).join('') };
+      case 'FIND':
+        arity(2);
+        return { type: { kind: 'INT', name: 'INT', bits: 16, signed: true }, value: text(args[0]).indexOf(text(args[1])) + 1 };
+      default:
+        return fail(`${name} is not declared or not supported in simulation`);
+    }
+  }
+}
+
+/**
+ * Parse ST source and set up a simulation of one of its POUs. Syntax errors are reported
+ * as a SimulationError listing the first of them.
+ */
+export function createSimulator(code: string, options: STSimulatorOptions = {}): STSimulator {
+  const { ast, errors } = parseST(code, { routineBody: true });
+  if (errors.length > 0) {
+    const listed = errors.slice(0, 5).map(e => `line ${e.line}:${e.column} ${e.message}`);
+    if (errors.length > listed.length) listed.push(`${errors.length - listed.length} more`);
+    throw new SimulationError(`The code has syntax errors: ${listed.join(', ')}`);
+  }
+  return new STSimulator(ast, options);
+}
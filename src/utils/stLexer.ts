@@ -0,0 +1,237 @@
+// stLexer.ts
+// Tokenizer for IEC 61131-3 Structured Text, including the Siemens SCL and Beckhoff TwinCAT
+// dialects. Comments and pragmas are kept aside as trivia so tools can put them back.
+
+export type STTokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'typed_literal' // T#5s, INT#5, DT#2024-01-01-12:00:00, E_Mode#Auto
+  | 'string'
+  | 'address'       // %IX0.1, %MW10, %I*
+  | 'operator'
+  | 'text'          // free text running to the end of a line: REGION names, SCL TITLE
+  | 'eof';
+
+export interface STToken {
+  type: STTokenType;
+  value: string;    // keywords upper-cased, quoted names and #locals without their markers
+  text: string;     // exact source text
+  line: number;
+  column: number;
+  offset: number;
+  end: number;      // exclusive offset
+  quoted?: boolean; // Siemens "GlobalTag"
+  local?: boolean;  // Siemens #localVar
+}
+
+export interface STTrivia {
+  type: 'line_comment' | 'block_comment' | 'pragma';
+  text: string;
+  line: number;
+  column: number;
+  offset: number;
+  end: number;
+}
+
+/** Syntax error at a source position; line and column are 1-based */
+export class STSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'STSyntaxError';
+  }
+}
+
+export const ST_KEYWORDS = new Set([
+  'PROGRAM', 'END_PROGRAM', 'FUNCTION', 'END_FUNCTION', 'FUNCTION_BLOCK', 'END_FUNCTION_BLOCK',
+  'METHOD', 'END_METHOD', 'ORGANIZATION_BLOCK', 'END_ORGANIZATION_BLOCK', 'DATA_BLOCK', 'END_DATA_BLOCK',
+  'TYPE', 'END_TYPE', 'STRUCT', 'END_STRUCT', 'UNION', 'END_UNION', 'BEGIN', 'EXTENDS', 'IMPLEMENTS',
+  'VAR', 'VAR_INPUT', 'VAR_OUTPUT', 'VAR_IN_OUT', 'VAR_GLOBAL', 'VAR_LOCAL', 'VAR_TEMP', 'VAR_STAT',
+  'VAR_EXTERNAL', 'VAR_CONFIG', 'VAR_INST', 'VAR_ACCESS', 'END_VAR',
+  'CONSTANT', 'RETAIN', 'NON_RETAIN', 'PERSISTENT', 'AT',
+  'ARRAY', 'OF', 'POINTER', 'REFERENCE', 'REF_TO', 'TO',
+  'IF', 'THEN', 'ELSIF', 'ELSE', 'END_IF', 'CASE', 'END_CASE', 'FOR', 'BY', 'DO', 'END_FOR',
+  'WHILE', 'END_WHILE', 'REPEAT', 'UNTIL', 'END_REPEAT', 'RETURN', 'EXIT', 'CONTINUE',
+  'REGION', 'END_REGION',
+  'AND', 'OR', 'XOR', 'NOT', 'MOD', 'AND_THEN', 'OR_ELSE', 'TRUE', 'FALSE'
+]);
+
+// Longest first so ':=' wins over ':'
+const OPERATORS = [':=', '=>', '<=', '>=', '<>', '..', '**', '+', '-', '*', '/', '=', '<', '>', '&', '(', ')', '[', ']', ',', ';', ':', '.', '^', '#'];
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*/;
+const NUMBER = /^\d[\d_]*(?:#[0-9A-Fa-f_]+|\.\d[\d_]*(?:[eE][+-]?\d+)?|[eE][+-]?\d+)?/;
+// Value after the '#' of a typed literal: INT#16#FF, T#-1h2m, D#2024-01-31, E_Mode#Auto
+const TYPED_VALUE = /^[+-]?(?:\d+#[0-9A-Fa-f_]+|[A-Za-z0-9_.:]+(?:-\d[A-Za-z0-9_.:]*)*)/;
+// Direct addresses, TwinCAT placeholders (%I*) and SCL partial access (Word.%X3)
+const DIRECT_ADDRESS = /^%(?:[IQM]\*|DB\d+\.DB[XBWD]\d+(?:\.\d)?|[IQM][XBWDL]?\d+(?:\.\d+)*|[XBWD]\d+)/i;
+
+export interface STLexResult {
+  tokens: STToken[];
+  trivia: STTrivia[];
+  errors: STSyntaxError[];
+}
+
+/**
+ * Split ST source into tokens. The token list always ends with an 'eof' token; lexical
+ * problems (unterminated strings or comments, stray characters) are reported, not thrown.
+ */
+export function tokenizeST(code: string): STLexResult {
+  const tokens: STToken[] = [];
+  const trivia: STTrivia[] = [];
+  const errors: STSyntaxError[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  // Advance to `stop`, keeping line bookkeeping for multi-line comments and strings
+  const advanceTo = (stop: number) => {
+    for (; i < stop; i++) {
+      if (code[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+  };
+
+  const push = (type: STTokenType, start: number, startLine: number, startColumn: number, extra: Partial<STToken> = {}) => {
+    const text = code.slice(start, i);
+    tokens.push({ type, value: text, text, line: startLine, column: startColumn, offset: start, end: i, ...extra });
+  };
+
+  // Rest of the current line, up to a trailing comment, as one free-text token
+  const pushRestOfLine = () => {
+    while (i < code.length && code[i] !== '\n' && /\s/.test(code[i])) i++;
+    const start = i;
+    while (i < code.length && code[i] !== '\n' && !code.startsWith('//', i) && !code.startsWith('(*', i)) i++;
+    const text = code.slice(start, i).trimEnd();
+    if (text) {
+      tokens.push({ type: 'text', value: text, text, line, column: start - lineStart + 1, offset: start, end: start + text.length });
+    }
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    const start = i;
+    const startLine = line;
+    const column = i - lineStart + 1;
+
+    if (ch === '\n') {
+      advanceTo(i + 1);
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Comments: // line, (* block *), /* block */; pragmas: {attribute 'x'}, { S7_Optimized_Access := 'TRUE' }
+    if (code.startsWith('//', i)) {
+      while (i < code.length && code[i] !== '\n') i++;
+      trivia.push({ type: 'line_comment', text: code.slice(start, i), line: startLine, column, offset: start, end: i });
+      continue;
+    }
+    if (code.startsWith('(*', i) || code.startsWith('/*', i) || ch === '{') {
+      const close = ch === '{' ? '}' : code[i] === '(' ? '*)' : '*/';
+      const found = code.indexOf(close, i + 1);
+      if (found === -1) {
+        errors.push(new STSyntaxError(ch === '{' ? 'Unterminated pragma' : 'Unterminated comment', startLine, column));
+      }
+      advanceTo(found === -1 ? code.length : found + close.length);
+      trivia.push({ type: ch === '{' ? 'pragma' : 'block_comment', text: code.slice(start, i), line: startLine, column, offset: start, end: i });
+      continue;
+    }
+
+    if (ch === "'") {
+      i++;
+      while (i < code.length && code[i] !== "'" && code[i] !== '\n') {
+        if (code[i] === '$') i++;
+        i++;
+      }
+      if (code[i] !== "'") {
+        errors.push(new STSyntaxError('Unterminated string literal', startLine, column));
+        push('string', start, startLine, column);
+        continue;
+      }
+      i++;
+      push('string', start, startLine, column);
+      continue;
+    }
+
+    // "Quoted" names are Siemens identifiers (blocks, UDTs, global tags)
+    if (ch === '"') {
+      const found = code.indexOf('"', i + 1);
+      if (found === -1 || code.slice(i, found).includes('\n')) {
+        errors.push(new STSyntaxError('Unterminated quoted identifier', startLine, column));
+        i++;
+        continue;
+      }
+      i = found + 1;
+      push('identifier', start, startLine, column, { value: code.slice(start + 1, found), quoted: true });
+      continue;
+    }
+
+    if (ch === '%') {
+      const match = code.slice(i).match(DIRECT_ADDRESS);
+      if (match) {
+        i += match[0].length;
+        push('address', start, startLine, column);
+        continue;
+      }
+    }
+
+    if (ch === '#' && /[A-Za-z_]/.test(code[i + 1] || '')) {
+      const match = code.slice(i + 1).match(IDENTIFIER)!;
+      i += match[0].length + 1;
+      push('identifier', start, startLine, column, { value: match[0], local: true });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const word = code.slice(i).match(IDENTIFIER)![0];
+      i += word.length;
+      if (code[i] === '#') {
+        const value = code.slice(i + 1).match(TYPED_VALUE);
+        if (value) {
+          i += value[0].length + 1;
+          push('typed_literal', start, startLine, column);
+          continue;
+        }
+      }
+      const upper = word.toUpperCase();
+      if (ST_KEYWORDS.has(upper)) {
+        push('keyword', start, startLine, column, { value: upper });
+        if (upper === 'REGION') pushRestOfLine();
+        continue;
+      }
+      push('identifier', start, startLine, column);
+      // SCL block header: TITLE = free text
+      if (upper === 'TITLE' && code.slice(lineStart, start).trim() === '' && /^\s*=/.test(code.slice(i))) {
+        const eq = code.indexOf('=', i);
+        const eqColumn = eq - lineStart + 1;
+        i = eq + 1;
+        tokens.push({ type: 'operator', value: '=', text: '=', line, column: eqColumn, offset: eq, end: eq + 1 });
+        pushRestOfLine();
+      }
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      i += code.slice(i).match(NUMBER)![0].length;
+      push('number', start, startLine, column);
+      continue;
+    }
+
+    const op = OPERATORS.find(o => code.startsWith(o, i));
+    if (!op) {
+      errors.push(new STSyntaxError(`Unexpected character '${ch}'`, startLine, column));
+      i++;
+      continue;
+    }
+    i += op.length;
+    push('operator', start, startLine, column);
+  }
+
+  tokens.push({ type: 'eof', value: '', text: '', line, column: i - lineStart + 1, offset: i, end: i });
+  return { tokens, trivia, errors };
+}
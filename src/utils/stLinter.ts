@@ -0,0 +1,758 @@
+// stLinter.ts
+// Static analysis of Structured Text / SCL on the syntax tree of stSyntax.ts: declarations,
+// writes to inputs and outputs, timer placement, CASE coverage and data type conversions.
+// Every rule can be switched off or given another severity per project.
+
+import {
+  STCall,
+  STExpression,
+  STName,
+  STNodeBase,
+  STPou,
+  STSourceFile,
+  STStatement,
+  STStructType,
+  STTypeSpec,
+  STVarDeclaration,
+  STVarSection
+} from './stAst';
+import { expressionText, parseST, typeSpecText } from './stSyntax';
+
+export type STLintSeverity = 'error' | 'warning' | 'info';
+
+export type STLintRuleId =
+  | 'undeclared_variable'
+  | 'unused_variable'
+  | 'input_assignment'
+  | 'multiple_output_writes'
+  | 'timer_in_conditional'
+  | 'case_without_else'
+  | 'real_equality'
+  | 'implicit_narrowing'
+  | 'uninitialized_fb_instance';
+
+export interface STLintRule {
+  id: STLintRuleId;
+  description: string;
+  defaultSeverity: STLintSeverity;
+}
+
+export const ST_LINT_RULES: STLintRule[] = [
+  { id: 'undeclared_variable', description: 'Variable used without a declaration or project tag', defaultSeverity: 'error' },
+  { id: 'unused_variable', description: 'Local variable declared but never used', defaultSeverity: 'warning' },
+  { id: 'input_assignment', description: 'Assignment to a VAR_INPUT inside its own POU', defaultSeverity: 'warning' },
+  { id: 'multiple_output_writes', description: 'Output written in more than one place in the same scan', defaultSeverity: 'warning' },
+  { id: 'timer_in_conditional', description: 'Timer called inside an IF or CASE branch', defaultSeverity: 'warning' },
+  { id: 'case_without_else', description: 'CASE statement without an ELSE branch', defaultSeverity: 'info' },
+  { id: 'real_equality', description: 'REAL / LREAL values compared with = or <>', defaultSeverity: 'warning' },
+  { id: 'implicit_narrowing', description: 'Implicit conversion to a smaller data type', defaultSeverity: 'warning' },
+  { id: 'uninitialized_fb_instance', description: 'FB instance without preset, never called or held in VAR_TEMP', defaultSeverity: 'warning' }
+];
+
+const SEVERITIES: STLintSeverity[] = ['error', 'warning', 'info'];
+
+// Stored per project; rules left out use their defaults
+export type STLintRuleSettings = Partial<Record<STLintRuleId, { enabled?: boolean; severity?: STLintSeverity }>>;
+
+export type ResolvedLintRules = Record<STLintRuleId, { enabled: boolean; severity: STLintSeverity }>;
+
+export interface STLintFinding {
+  rule: STLintRuleId | 'syntax_error';
+  severity: STLintSeverity;
+  message: string;
+  line: number;
+  column: number;
+  pou?: string;
+}
+
+export interface STLintResult {
+  findings: STLintFinding[];
+  summary: Record<STLintSeverity, number>;
+}
+
+// A name declared outside the code being linted, typically a project tag
+export interface STExternalName {
+  name: string;
+  dataType?: string | null;
+  tagType?: string | null;
+}
+
+export interface STLintOptions {
+  rules?: STLintRuleSettings;
+  externals?: STExternalName[];
+  // Other sources whose POUs, types and globals are visible (the rest of a generated project)
+  library?: STSourceFile[];
+  routineBody?: boolean;
+}
+
+/** Raised for invalid rule settings; routes answer with 400 */
+export class LintSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LintSettingsError';
+  }
+}
+
+/**
+ * Validate lint rule settings from the API or the database: { rule_id: { enabled?, severity? } }
+ */
+export function normalizeLintRules(input: any): STLintRuleSettings {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new LintSettingsError('Lint rules must be an object keyed by rule id');
+  }
+
+  const settings: STLintRuleSettings = {};
+  for (const [id, value] of Object.entries<any>(input)) {
+    if (!ST_LINT_RULES.some(rule => rule.id === id)) {
+      throw new LintSettingsError(`Unknown lint rule: ${id}`);
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new LintSettingsError(`${id} must be an object with enabled and/or severity`);
+    }
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+      throw new LintSettingsError(`${id}.enabled must be true or false`);
+    }
+    if (value.severity !== undefined && !SEVERITIES.includes(value.severity)) {
+      throw new LintSettingsError(`${id}.severity must be one of: ${SEVERITIES.join(', ')}`);
+    }
+    settings[id as STLintRuleId] = {
+      ...(value.enabled !== undefined ? { enabled: value.enabled } : {}),
+      ...(value.severity !== undefined ? { severity: value.severity } : {})
+    };
+  }
+  return settings;
+}
+
+/** Effective configuration of every rule: project settings over the defaults */
+export function resolveLintRules(settings: STLintRuleSettings = {}): ResolvedLintRules {
+  const resolved = {} as ResolvedLintRules;
+  for (const rule of ST_LINT_RULES) {
+    resolved[rule.id] = {
+      enabled: settings[rule.id]?.enabled ?? true,
+      severity: settings[rule.id]?.severity ?? rule.defaultSeverity
+    };
+  }
+  return resolved;
+}
+
+// ---- Data types ----
+
+const NUMERIC_TYPES: Record<string, { bits: number; kind: 'signed' | 'unsigned' | 'real' }> = {
+  SINT: { bits: 8, kind: 'signed' }, USINT: { bits: 8, kind: 'unsigned' }, BYTE: { bits: 8, kind: 'unsigned' },
+  INT: { bits: 16, kind: 'signed' }, UINT: { bits: 16, kind: 'unsigned' }, WORD: { bits: 16, kind: 'unsigned' },
+  DINT: { bits: 32, kind: 'signed' }, UDINT: { bits: 32, kind: 'unsigned' }, DWORD: { bits: 32, kind: 'unsigned' },
+  LINT: { bits: 64, kind: 'signed' }, ULINT: { bits: 64, kind: 'unsigned' }, LWORD: { bits: 64, kind: 'unsigned' },
+  REAL: { bits: 32, kind: 'real' }, LREAL: { bits: 64, kind: 'real' }
+};
+
+// Untyped literals take the type of whatever they meet
+const ANY_INT = 'ANY_INT';
+const ANY_REAL = 'ANY_REAL';
+
+// Interfaces of the standard function blocks
+const STANDARD_FBS: Record<string, Record<string, string>> = {
+  TON: { IN: 'BOOL', PT: 'TIME', Q: 'BOOL', ET: 'TIME' },
+  TOF: { IN: 'BOOL', PT: 'TIME', Q: 'BOOL', ET: 'TIME' },
+  TP: { IN: 'BOOL', PT: 'TIME', Q: 'BOOL', ET: 'TIME' },
+  TONR: { IN: 'BOOL', PT: 'TIME', R: 'BOOL', Q: 'BOOL', ET: 'TIME' },
+  TON_TIME: { IN: 'BOOL', PT: 'TIME', Q: 'BOOL', ET: 'TIME' },
+  TOF_TIME: { IN: 'BOOL', PT: 'TIME', Q: 'BOOL', ET: 'TIME' },
+  TP_TIME: { IN: 'BOOL', PT: 'TIME', Q: 'BOOL', ET: 'TIME' },
+  IEC_TIMER: { IN: 'BOOL', PT: 'TIME', Q: 'BOOL', ET: 'TIME' },
+  CTU: { CU: 'BOOL', R: 'BOOL', PV: 'INT', Q: 'BOOL', CV: 'INT' },
+  CTD: { CD: 'BOOL', LD: 'BOOL', PV: 'INT', Q: 'BOOL', CV: 'INT' },
+  CTUD: { CU: 'BOOL', CD: 'BOOL', R: 'BOOL', LD: 'BOOL', PV: 'INT', QU: 'BOOL', QD: 'BOOL', CV: 'INT' },
+  R_TRIG: { CLK: 'BOOL', Q: 'BOOL' },
+  F_TRIG: { CLK: 'BOOL', Q: 'BOOL' },
+  SR: { S1: 'BOOL', R: 'BOOL', Q1: 'BOOL' },
+  RS: { S: 'BOOL', R1: 'BOOL', Q1: 'BOOL' }
+};
+
+const TIMER_TYPES = new Set(['TON', 'TOF', 'TP', 'TONR', 'TON_TIME', 'TOF_TIME', 'TP_TIME', 'IEC_TIMER']);
+// Siemens multi-instance timers are called through the instruction: #Timer.TON(IN := ..., PT := ...)
+const TIMER_INSTRUCTIONS = new Set(['TON', 'TOF', 'TP', 'TONR']);
+// Preset input a timer / counter does nothing useful without
+const PRESET_INPUTS: Record<string, string> = {
+  TON: 'PT', TOF: 'PT', TP: 'PT', TONR: 'PT', TON_TIME: 'PT', TOF_TIME: 'PT', TP_TIME: 'PT', IEC_TIMER: 'PT',
+  CTU: 'PV', CTD: 'PV', CTUD: 'PV'
+};
+
+const REAL_FUNCTIONS = new Set(['SQRT', 'LN', 'LOG', 'EXP', 'EXPT', 'SIN', 'COS', 'TAN', 'ASIN', 'ACOS', 'ATAN', 'ATAN2', 'NORM_X']);
+const SAME_TYPE_FUNCTIONS = new Set(['ABS', 'MIN', 'MAX', 'LIMIT', 'MOVE', 'SCALE_X']);
+
+// Names that are always in scope
+const BUILTIN_NAMES = new Set(['THIS', 'SUPER', 'EN', 'ENO']);
+
+const LOCAL_SECTIONS = new Set(['VAR', 'VAR_TEMP', 'VAR_STAT', 'VAR_INST', 'VAR_LOCAL']);
+
+function numericRange(type: string): [number, number] | null {
+  const info = NUMERIC_TYPES[type];
+  if (!info || info.kind === 'real') return null;
+  return info.kind === 'signed' ? [-(2 ** (info.bits - 1)), 2 ** (info.bits - 1) - 1] : [0, 2 ** info.bits - 1];
+}
+
+// Wider of two operand types, as an arithmetic result
+function widerType(a: string, b: string): string {
+  if (a === ANY_INT) return b || ANY_INT;
+  if (b === ANY_INT) return a;
+  if (a === ANY_REAL) return NUMERIC_TYPES[b]?.kind === 'real' ? b : ANY_REAL;
+  if (b === ANY_REAL) return NUMERIC_TYPES[a]?.kind === 'real' ? a : ANY_REAL;
+  const left = NUMERIC_TYPES[a];
+  const right = NUMERIC_TYPES[b];
+  if (!left || !right) return left ? a : right ? b : '';
+  if ((left.kind === 'real') !== (right.kind === 'real')) return left.kind === 'real' ? a : b;
+  return left.bits >= right.bits ? a : b;
+}
+
+function isRealType(type: string): boolean {
+  return type === ANY_REAL || NUMERIC_TYPES[type]?.kind === 'real';
+}
+
+// Constant integer value of a literal, also behind a unary minus
+function constantInteger(expr: STExpression): number | null {
+  if (expr.kind === 'Literal' && expr.literalType === 'integer' && typeof expr.value === 'number') return expr.value;
+  if (expr.kind === 'Unary' && expr.operator === '-') {
+    const inner = constantInteger(expr.operand);
+    return inner === null ? null : -inner;
+  }
+  return null;
+}
+
+// Base name of an access path: Motor in Motor.Speed, Values in Values[i]
+function rootOf(expr: STExpression): STExpression {
+  switch (expr.kind) {
+    case 'MemberAccess':
+    case 'IndexAccess':
+      return rootOf(expr.object);
+    case 'Deref':
+      return rootOf(expr.operand);
+    default:
+      return expr;
+  }
+}
+
+// ---- Analysis ----
+
+interface SymbolInfo {
+  name: string;
+  section: string;  // VAR_INPUT, ..., RESULT for a function's own name, EXTERNAL for project tags
+  typeName: string; // upper-cased type text, '' when unknown
+  type?: STTypeSpec;
+  node?: STNodeBase;
+  declaration?: STVarDeclaration;
+  tagType?: string | null;
+  used: boolean;
+  called: boolean;
+  presetGiven: boolean;
+}
+
+class Scope {
+  readonly symbols = new Map<string, SymbolInfo>();
+
+  constructor(readonly parent?: Scope) {}
+
+  lookup(name: string, localOnly = false): SymbolInfo | undefined {
+    const symbol = this.symbols.get(name.toUpperCase());
+    if (symbol) return symbol;
+    // #locals never resolve to globals, the outermost scope
+    if (localOnly && this.parent && !this.parent.parent) return undefined;
+    return this.parent?.lookup(name, localOnly);
+  }
+}
+
+// Position inside IF / CASE branches; writes in different branches of one statement exclude each other
+type BranchPath = Array<{ statement: number; branch: number }>;
+
+interface WalkContext {
+  pou?: string;
+  scope: Scope;
+  path: BranchPath;
+  conditional: boolean;
+  writes: Map<string, Array<{ path: BranchPath; node: STNodeBase }>>;
+  undeclared: Set<string>;
+}
+
+function exclusive(a: BranchPath, b: BranchPath): boolean {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i].statement !== b[i].statement) return false;
+    if (a[i].branch !== b[i].branch) return true;
+  }
+  return false;
+}
+
+class STLintAnalyzer {
+  readonly findings: STLintFinding[] = [];
+  private globals = new Scope();
+  private structs = new Map<string, STStructType>();
+  private typeNames = new Set<string>();
+  private enumValues = new Set<string>();
+  private pous = new Map<string, STPou>();
+
+  constructor(private rules: ResolvedLintRules, files: STSourceFile[], externals: STExternalName[]) {
+    for (const external of externals) {
+      this.globals.symbols.set(external.name.toUpperCase(), {
+        name: external.name,
+        section: 'EXTERNAL',
+        typeName: (external.dataType || '').trim().toUpperCase(),
+        tagType: external.tagType?.toLowerCase(),
+        used: false,
+        called: false,
+        presetGiven: false
+      });
+    }
+
+    for (const file of files) {
+      for (const declaration of file.declarations) {
+        if (declaration.kind === 'TypeBlock') {
+          for (const type of declaration.types) {
+            const name = type.name.toUpperCase();
+            this.typeNames.add(name);
+            if (type.type.kind === 'StructType') this.structs.set(name, type.type);
+            if (type.type.kind === 'EnumType') type.type.values.forEach(v => this.enumValues.add(v.name.toUpperCase()));
+          }
+        } else if (declaration.kind === 'Pou') {
+          this.pous.set(declaration.name.toUpperCase(), declaration);
+        } else {
+          this.declareSection(this.globals, declaration);
+        }
+      }
+    }
+  }
+
+  private report(rule: STLintRuleId, node: STNodeBase, message: string, pou?: string): void {
+    const config = this.rules[rule];
+    if (!config.enabled) return;
+    this.findings.push({ rule, severity: config.severity, message, line: node.line, column: node.column, ...(pou ? { pou } : {}) });
+  }
+
+  private declareSection(scope: Scope, section: STVarSection): void {
+    for (const declaration of section.declarations) this.declare(scope, declaration, section.section);
+  }
+
+  private declare(scope: Scope, declaration: STVarDeclaration, section: string): void {
+    for (const declared of declaration.names) {
+      scope.symbols.set(declared.name.toUpperCase(), {
+        name: declared.name,
+        section,
+        typeName: typeSpecText(declaration.type).toUpperCase(),
+        type: declaration.type,
+        node: declared,
+        declaration,
+        used: false,
+        called: false,
+        presetGiven: declaration.initialValue?.kind === 'StructInitializer' &&
+          declaration.initialValue.fields.some(f => ['PT', 'PV'].includes(f.name.toUpperCase()))
+      });
+    }
+  }
+
+  private isFbInstance(symbol: SymbolInfo): boolean {
+    return !!STANDARD_FBS[symbol.typeName] || this.pous.get(symbol.typeName)?.pouType === 'FUNCTION_BLOCK';
+  }
+
+  // ---- POUs ----
+
+  analyzeFile(file: STSourceFile): void {
+    for (const declaration of file.declarations) {
+      if (declaration.kind === 'Pou') this.analyzePou(declaration, this.globals);
+    }
+    if (file.body.length > 0) {
+      const ctx = this.context(undefined, new Scope(this.globals));
+      this.walkStatements(file.body, ctx);
+      this.reportOutputWrites(ctx);
+    }
+  }
+
+  private context(pou: string | undefined, scope: Scope): WalkContext {
+    return { pou, scope, path: [], conditional: false, writes: new Map(), undeclared: new Set() };
+  }
+
+  private analyzePou(pou: STPou, parent: Scope, owner?: string): void {
+    const name = owner ? `${owner}.${pou.name}` : pou.name;
+    const scope = new Scope(parent);
+    pou.varSections.forEach(section => this.declareSection(scope, section));
+    if (pou.dataType?.kind === 'StructType') {
+      pou.dataType.members.forEach(member => this.declare(scope, member, 'VAR'));
+    }
+    if ((pou.pouType === 'FUNCTION' || pou.pouType === 'METHOD') && pou.returnType) {
+      scope.symbols.set(pou.name.toUpperCase(), {
+        name: pou.name, section: 'RESULT', typeName: typeSpecText(pou.returnType).toUpperCase(), used: true, called: false, presetGiven: false
+      });
+    }
+
+    const ctx = this.context(name, scope);
+    // Initial values and array bounds may refer to constants
+    for (const section of pou.varSections) {
+      for (const declaration of section.declarations) this.visitDeclaration(declaration, ctx);
+    }
+    this.walkStatements(pou.body, ctx);
+    pou.methods.forEach(method => this.analyzePou(method, scope, name));
+
+    this.reportOutputWrites(ctx);
+    if (pou.pouType !== 'DATA_BLOCK') this.reportScope(scope, name);
+  }
+
+  private visitDeclaration(declaration: STVarDeclaration, ctx: WalkContext): void {
+    const visitType = (type: STTypeSpec) => {
+      if (type.kind === 'ArrayType') {
+        type.dimensions.forEach(d => [d.lower, d.upper].forEach(bound => bound && this.visitExpression(bound, ctx)));
+        visitType(type.elementType);
+      } else if (type.kind === 'NamedType') {
+        if (type.length) this.visitExpression(type.length, ctx);
+      }
+    };
+    visitType(declaration.type);
+
+    const visitInit = (init: STVarDeclaration['initialValue']) => {
+      if (!init) return;
+      if (init.kind === 'ArrayInitializer') init.elements.forEach(e => visitInit(e.value));
+      // Member names of a structure initializer are not references
+      else if (init.kind === 'StructInitializer') init.fields.forEach(f => visitInit(f.value));
+      else this.visitExpression(init, ctx);
+    };
+    visitInit(declaration.initialValue);
+  }
+
+  private reportScope(scope: Scope, pou: string): void {
+    for (const symbol of scope.symbols.values()) {
+      if (!symbol.node) continue;
+
+      if (!symbol.used && LOCAL_SECTIONS.has(symbol.section)) {
+        this.report('unused_variable', symbol.node, `Variable ${symbol.name} is declared but never used`, pou);
+        continue;
+      }
+      if (!this.isFbInstance(symbol)) continue;
+
+      if (symbol.section === 'VAR_TEMP') {
+        this.report('uninitialized_fb_instance', symbol.node, `FB instance ${symbol.name} is declared in VAR_TEMP and loses its state every scan`, pou);
+      } else if (symbol.used && !symbol.called && LOCAL_SECTIONS.has(symbol.section)) {
+        this.report('uninitialized_fb_instance', symbol.node, `FB instance ${symbol.name} is never called, so its outputs never update`, pou);
+      } else if (symbol.called && PRESET_INPUTS[symbol.typeName] && !symbol.presetGiven) {
+        const preset = PRESET_INPUTS[symbol.typeName];
+        this.report('uninitialized_fb_instance', symbol.node, `${symbol.typeName} instance ${symbol.name} is called without setting ${preset}`, pou);
+      }
+    }
+  }
+
+  private reportOutputWrites(ctx: WalkContext): void {
+    for (const writes of ctx.writes.values()) {
+      const conflict = writes.findIndex((write, i) => writes.slice(0, i).some(earlier => !exclusive(earlier.path, write.path)));
+      if (conflict < 0) continue;
+      const target = writes[conflict];
+      const lines = writes.map(w => w.node.line).join(', ');
+      this.report('multiple_output_writes', target.node, `Output ${expressionText(target.node as STExpression)} is written ${writes.length} times in one scan (lines ${lines})`, ctx.pou);
+    }
+  }
+
+  // ---- Statements ----
+
+  private walkStatements(statements: STStatement[], ctx: WalkContext): void {
+    for (const statement of statements) this.walkStatement(statement, ctx);
+  }
+
+  private branch(ctx: WalkContext, statement: STNodeBase, branch: number): WalkContext {
+    return { ...ctx, path: [...ctx.path, { statement: statement.offset, branch }], conditional: true };
+  }
+
+  private walkStatement(statement: STStatement, ctx: WalkContext): void {
+    switch (statement.kind) {
+      case 'Assignment':
+        this.visitExpression(statement.value, ctx);
+        this.visitTarget(statement.target, ctx);
+        if (statement.operator === ':=') this.checkConversion(statement.target, statement.value, ctx);
+        break;
+      case 'CallStatement':
+        this.visitCall(statement.call, ctx, true);
+        break;
+      case 'If':
+        statement.branches.forEach((branch, i) => {
+          this.visitExpression(branch.condition, ctx);
+          this.walkStatements(branch.body, this.branch(ctx, statement, i));
+        });
+        if (statement.elseBody) this.walkStatements(statement.elseBody, this.branch(ctx, statement, statement.branches.length));
+        break;
+      case 'Case':
+        this.visitExpression(statement.selector, ctx);
+        statement.branches.forEach((branch, i) => {
+          branch.labels.forEach(label => [label.value, label.upper].forEach(e => e && this.visitExpression(e, ctx)));
+          this.walkStatements(branch.body, this.branch(ctx, statement, i));
+        });
+        if (statement.elseBody) {
+          this.walkStatements(statement.elseBody, this.branch(ctx, statement, statement.branches.length));
+        } else {
+          this.report('case_without_else', statement, `CASE on ${expressionText(statement.selector)} has no ELSE branch for unexpected values`, ctx.pou);
+        }
+        break;
+      case 'For':
+        [statement.from, statement.to, statement.by].forEach(e => e && this.visitExpression(e, ctx));
+        this.visitTarget(statement.variable, ctx);
+        this.walkStatements(statement.body, ctx);
+        break;
+      case 'While':
+      case 'Repeat':
+        this.visitExpression(statement.condition, ctx);
+        this.walkStatements(statement.body, ctx);
+        break;
+      case 'Region':
+        this.walkStatements(statement.body, ctx);
+        break;
+    }
+  }
+
+  // ---- Names ----
+
+  private resolve(name: STName, ctx: WalkContext, reportMissing = true): SymbolInfo | undefined {
+    // "Quoted" names are Siemens global tags and blocks, declared outside the code
+    if (name.quoted) return undefined;
+    const symbol = ctx.scope.lookup(name.name, name.local);
+    if (symbol) {
+      symbol.used = true;
+      return symbol;
+    }
+
+    const upper = name.name.toUpperCase();
+    const known = BUILTIN_NAMES.has(upper) || upper.startsWith('__') || this.enumValues.has(upper) || this.typeNames.has(upper) || this.pous.has(upper);
+    if (!known && reportMissing && !ctx.undeclared.has(upper)) {
+      ctx.undeclared.add(upper);
+      this.report('undeclared_variable', name, `${name.local ? '#' : ''}${name.name} is not declared`, ctx.pou);
+    }
+    return undefined;
+  }
+
+  // A written access path: the root is marked used, index expressions are reads
+  private visitTarget(target: STExpression, ctx: WalkContext): void {
+    const visitPath = (expr: STExpression): void => {
+      if (expr.kind === 'MemberAccess') visitPath(expr.object);
+      else if (expr.kind === 'IndexAccess') {
+        visitPath(expr.object);
+        expr.indices.forEach(index => this.visitExpression(index, ctx));
+      } else if (expr.kind === 'Deref') visitPath(expr.operand);
+      else if (expr.kind !== 'Name') this.visitExpression(expr, ctx);
+    };
+    visitPath(target);
+
+    const root = rootOf(target);
+    const symbol = root.kind === 'Name' ? this.resolve(root, ctx) : undefined;
+
+    if (symbol?.section === 'VAR_INPUT') {
+      this.report('input_assignment', target, `${symbol.name} is a VAR_INPUT and should not be written inside the POU`, ctx.pou);
+    }
+    // inst.PT := T#5s presets a timer before it is called
+    if (symbol && target.kind === 'MemberAccess' && target.object === root && ['PT', 'PV'].includes(target.member.toUpperCase())) {
+      symbol.presetGiven = true;
+    }
+
+    const output = symbol
+      ? symbol.section === 'VAR_OUTPUT' || symbol.tagType === 'output'
+      : root.kind === 'DirectAddress' && /^%Q/i.test(root.address);
+    if (output) {
+      const key = expressionText(target).toUpperCase();
+      ctx.writes.set(key, [...(ctx.writes.get(key) || []), { path: ctx.path, node: target }]);
+    }
+  }
+
+  // ---- Expressions ----
+
+  private visitExpression(expr: STExpression, ctx: WalkContext): void {
+    switch (expr.kind) {
+      case 'Name':
+        this.resolve(expr, ctx);
+        break;
+      case 'MemberAccess':
+        this.visitExpression(expr.object, ctx);
+        break;
+      case 'IndexAccess':
+        this.visitExpression(expr.object, ctx);
+        expr.indices.forEach(index => this.visitExpression(index, ctx));
+        break;
+      case 'Deref':
+        this.visitExpression(expr.operand, ctx);
+        break;
+      case 'Call':
+        this.visitCall(expr, ctx, false);
+        break;
+      case 'Unary':
+        this.visitExpression(expr.operand, ctx);
+        break;
+      case 'Binary':
+        this.visitExpression(expr.left, ctx);
+        this.visitExpression(expr.right, ctx);
+        if ((expr.operator === '=' || expr.operator === '<>') &&
+          (isRealType(this.typeOf(expr.left, ctx)) || isRealType(this.typeOf(expr.right, ctx)))) {
+          this.report('real_equality', expr, `REAL values compared with ${expr.operator}; compare the difference against a tolerance instead`, ctx.pou);
+        }
+        break;
+    }
+  }
+
+  private visitCall(call: STCall, ctx: WalkContext, statement: boolean): void {
+    const callee = call.callee;
+    let instance: SymbolInfo | undefined;
+    let timer = false;
+
+    if (callee.kind === 'Name') {
+      // Unknown callees may be library functions; only a #local instance must be declared
+      instance = this.resolve(callee, ctx, !!callee.local);
+      timer = !!instance && TIMER_TYPES.has(instance.typeName);
+    } else {
+      this.visitExpression(callee, ctx);
+      if (callee.kind === 'MemberAccess' && TIMER_INSTRUCTIONS.has(callee.member.toUpperCase())) {
+        const root = rootOf(callee.object);
+        instance = root.kind === 'Name' ? ctx.scope.lookup(root.name, root.local) : undefined;
+        timer = true;
+      }
+    }
+
+    if (instance) instance.called = true;
+
+    for (const arg of call.args) {
+      if (!arg.value) continue;
+      if (arg.output) this.visitTarget(arg.value, ctx);
+      else this.visitExpression(arg.value, ctx);
+      if (instance && arg.name && ['PT', 'PV'].includes(arg.name.toUpperCase())) instance.presetGiven = true;
+    }
+
+    if (statement && timer && ctx.conditional) {
+      const name = expressionText(callee);
+      this.report('timer_in_conditional', call, `Timer ${name} is called inside a conditional branch; it stops timing whenever the branch is skipped`, ctx.pou);
+    }
+  }
+
+  // ---- Types ----
+
+  private memberType(objectType: string, member: string): string {
+    const upper = member.toUpperCase();
+    if (/^\d+$/.test(member) || /^%X\d+$/i.test(member)) return 'BOOL';
+    if (STANDARD_FBS[objectType]) return STANDARD_FBS[objectType][upper] || '';
+
+    const struct = this.structs.get(objectType);
+    const fb = this.pous.get(objectType);
+    const declarations = struct ? struct.members : fb ? fb.varSections.flatMap(s => s.declarations) : [];
+    const declaration = declarations.find(d => d.names.some(n => n.name.toUpperCase() === upper));
+    return declaration ? typeSpecText(declaration.type).toUpperCase() : '';
+  }
+
+  /** Best-effort data type of an expression; '' when it cannot be told */
+  private typeOf(expr: STExpression, ctx: WalkContext): string {
+    switch (expr.kind) {
+      case 'Literal':
+        switch (expr.literalType) {
+          case 'bool': return 'BOOL';
+          case 'integer': return expr.typePrefix?.toUpperCase() || ANY_INT;
+          case 'real': return expr.typePrefix?.toUpperCase() || ANY_REAL;
+          case 'string': return 'STRING';
+          case 'duration': return expr.typePrefix?.toUpperCase().startsWith('L') ? 'LTIME' : 'TIME';
+          default: return '';
+        }
+      case 'Name': {
+        if (expr.quoted) return '';
+        const symbol = ctx.scope.lookup(expr.name, expr.local);
+        return symbol ? symbol.typeName : '';
+      }
+      case 'MemberAccess': {
+        const objectType = this.typeOf(expr.object, ctx);
+        return objectType ? this.memberType(objectType, expr.member) : '';
+      }
+      case 'IndexAccess': {
+        const arrayType = this.typeOf(expr.object, ctx);
+        const element = arrayType.match(/^ARRAY\[.*?\] OF (.+)$/);
+        return element ? element[1] : '';
+      }
+      case 'Call': {
+        if (expr.callee.kind !== 'Name') return '';
+        const upper = expr.callee.name.toUpperCase();
+        const conversion = upper.match(/^(?:\w+_)?TO_(\w+)$/);
+        if (conversion) return conversion[1];
+        if (upper === 'TRUNC') return 'DINT';
+        const args = expr.args.map(arg => arg.value ? this.typeOf(arg.value, ctx) : '');
+        if (REAL_FUNCTIONS.has(upper)) return args.find(t => NUMERIC_TYPES[t]?.kind === 'real') || 'REAL';
+        if (SAME_TYPE_FUNCTIONS.has(upper)) return args.reduce((a, b) => widerType(a, b), ANY_INT);
+        const pou = this.pous.get(upper);
+        return pou?.pouType === 'FUNCTION' && pou.returnType ? typeSpecText(pou.returnType).toUpperCase() : '';
+      }
+      case 'Unary':
+        return this.typeOf(expr.operand, ctx);
+      case 'Binary':
+        if (['=', '<>', '<', '>', '<=', '>='].includes(expr.operator)) return 'BOOL';
+        return widerType(this.typeOf(expr.left, ctx), this.typeOf(expr.right, ctx));
+      default:
+        return '';
+    }
+  }
+
+  private checkConversion(target: STExpression, value: STExpression, ctx: WalkContext): void {
+    const targetType = this.typeOf(target, ctx);
+    const to = NUMERIC_TYPES[targetType];
+    if (!to) return;
+    const valueType = this.typeOf(value, ctx);
+
+    if (valueType === ANY_INT) {
+      const constant = constantInteger(value);
+      const range = numericRange(targetType);
+      if (constant !== null && range && (constant < range[0] || constant > range[1])) {
+        this.report('implicit_narrowing', value, `${constant} does not fit in ${targetType} (${range[0]}..${range[1]})`, ctx.pou);
+      }
+      return;
+    }
+    if (valueType === ANY_REAL) {
+      if (to.kind !== 'real') this.report('implicit_narrowing', value, `REAL literal assigned to ${targetType} ${expressionText(target)}`, ctx.pou);
+      return;
+    }
+
+    const from = NUMERIC_TYPES[valueType];
+    if (!from) return;
+    const narrowing = from.kind === 'real'
+      ? to.kind !== 'real' || from.bits > to.bits
+      : to.kind !== 'real' && from.bits > to.bits;
+    if (narrowing) {
+      this.report('implicit_narrowing', value, `Implicit conversion from ${valueType} to ${targetType} may lose data; use ${valueType}_TO_${targetType}`, ctx.pou);
+    }
+  }
+}
+
+/**
+ * Lint ST / SCL source. Syntax errors are always reported; the rules run only on code that
+ * parses, since a partial tree would produce follow-up findings. Findings are in source order.
+ */
+export function lintST(code: string, options: STLintOptions = {}): STLintResult {
+  const { ast, errors } = parseST(code, { routineBody: options.routineBody });
+  const findings: STLintFinding[] = errors.map(error => ({
+    rule: 'syntax_error' as const,
+    severity: 'error' as const,
+    message: error.message,
+    line: error.line,
+    column: error.column
+  }));
+
+  if (errors.length === 0) {
+    const analyzer = new STLintAnalyzer(resolveLintRules(options.rules), [ast, ...(options.library || [])], options.externals || []);
+    analyzer.analyzeFile(ast);
+    findings.push(...analyzer.findings);
+  }
+
+  findings.sort((a, b) => a.line - b.line || a.column - b.column);
+  const summary: Record<STLintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  findings.forEach(finding => summary[finding.severity]++);
+  return { findings, summary };
+}
+
+/**
+ * Lint a set of source files that form one project: POUs, types and globals of every file
+ * are visible in the others, and file names count as GVL names (GVL_Main.bStart).
+ */
+export function lintSTFiles(files: Record<string, string>, options: Omit<STLintOptions, 'library'> = {}): Record<string, STLintResult> {
+  const parsed = Object.entries(files).map(([path, code]) => ({ path, code, ast: parseST(code, { routineBody: options.routineBody }).ast }));
+  const fileNames = parsed.map(({ path }) => ({ name: path.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '') }))
+    .filter(({ name }) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name));
+
+  const results: Record<string, STLintResult> = {};
+  for (const { path, code } of parsed) {
+    results[path] = lintST(code, {
+      ...options,
+      externals: [...(options.externals || []), ...fileNames],
+      library: parsed.filter(other => other.path !== path).map(other => other.ast)
+    });
+  }
+  return results;
+}
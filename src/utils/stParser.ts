@@ -1,5 +1,9 @@
 // ST (Structured Text) Parser for PLC Variable Declarations
-// Parses structured text code and extracts variable declarations with metadata
+// Extracts variable declarations with metadata from the syntax tree of stSyntax.ts
+
+import { STPou, STVarDeclaration, STVarSection } from './stAst';
+import { STSyntaxError, STTrivia } from './stLexer';
+import { parseST, typeSpecText } from './stSyntax';
 
 export interface ParsedVariable {
   name: string;
@@ -11,160 +15,115 @@ export interface ParsedVariable {
   description?: string;
   vendor?: string;
   line?: number;
+  pou?: string; // declaring POU, Method as FB.Method
+}
+
+export interface STDeclarationsResult {
+  variables: ParsedVariable[];
+  errors: STSyntaxError[];
 }
 
 /**
- * Parse ST variable declarations from code
- * Supports standard IEC 61131-3 structured text format
+ * Parse ST variable declarations from code together with the syntax errors found.
+ * Declarations come from the VAR sections of every POU (and free VAR_GLOBAL lists) of the
+ * syntax tree; with syntax errors, whatever could still be parsed is returned.
  */
-export function parseSTVariablesDetailed(stCode: string, vendor?: string): ParsedVariable[] {
+export function parseSTDeclarations(stCode: string, vendor?: string): STDeclarationsResult {
+  const { ast, errors, trivia } = parseST(stCode);
   const variables: ParsedVariable[] = [];
-  const lines = stCode.split('\n');
-  let currentScope = 'Global';
-  let inVarBlock = false;
-  let varBlockType = 'VAR';
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    const lineNumber = i + 1;
-
-    // Skip empty lines and full line comments
-    if (!line || line.startsWith('//') || line.startsWith('(*') || line.startsWith('*')) {
-      continue;
-    }
+  // Trailing comments by line, for "// address=%IX0.0 Start button" style annotations
+  const commentsByLine = new Map<number, STTrivia[]>();
+  for (const item of trivia) {
+    if (item.type === 'pragma') continue;
+    commentsByLine.set(item.line, [...(commentsByLine.get(item.line) || []), item]);
+  }
 
-    // Detect VAR blocks and their types
-    if (line.match(/^VAR(_INPUT|_OUTPUT|_IN_OUT|_GLOBAL|_LOCAL)?/i)) {
-      inVarBlock = true;
-      const varMatch = line.match(/^VAR(_INPUT|_OUTPUT|_IN_OUT|_GLOBAL|_LOCAL)?/i);
-      if (varMatch && varMatch[1]) {
-        varBlockType = varMatch[1].substring(1); // Remove the underscore
-        currentScope = mapVarBlockToScope(varBlockType);
-      } else {
-        varBlockType = 'VAR';
-        currentScope = 'Local';
-      }
-      continue;
+  const addSection = (section: STVarSection, pou?: string) => {
+    for (const declaration of section.declarations) {
+      addDeclaration(declaration, mapVarBlockToScope(section.section.replace(/^VAR_?/, '')), pou);
     }
+  };
 
-    // End of VAR block
-    if (line.match(/^END_VAR/i)) {
-      inVarBlock = false;
-      currentScope = 'Global';
-      continue;
+  const addDeclaration = (declaration: STVarDeclaration, scope: string, pou?: string) => {
+    const endLine = declaration.line + stCode.slice(declaration.offset, declaration.end).split('\n').length - 1;
+    const comment = (commentsByLine.get(endLine) || []).find(c => c.offset >= declaration.end);
+    const { address: commentAddress, description } = parseDeclarationComment(comment);
+    const initialValue = declaration.initialValue
+      ? stCode.slice(declaration.initialValue.offset, declaration.initialValue.end)
+      : undefined;
+
+    for (const declared of declaration.names) {
+      variables.push({
+        name: declared.name,
+        type: 'variable',
+        // Normalize data type to uppercase to match database constraints
+        dataType: typeSpecText(declaration.type).toUpperCase(),
+        address: directAddress(declaration.address, vendor) || commentAddress,
+        defaultValue: parseDefaultValue(initialValue),
+        scope,
+        description,
+        vendor: vendor?.toLowerCase(),
+        line: declared.line,
+        pou
+      });
     }
+  };
 
-    // Parse variable declarations within VAR blocks
-    if (inVarBlock) {
-      const variable = parseVariableLine(line, currentScope, vendor, lineNumber);
-      if (variable) {
-        variables.push(variable);
-      }
+  const addPou = (pou: STPou, prefix?: string) => {
+    const name = prefix ? `${prefix}.${pou.name}` : pou.name;
+    pou.varSections.forEach(section => addSection(section, name));
+    // Members of a Siemens global DB declared as a STRUCT are global tags
+    if (pou.dataType?.kind === 'StructType') {
+      pou.dataType.members.forEach(member => addDeclaration(member, 'Global', name));
     }
+    pou.methods.forEach(method => addPou(method, name));
+  };
 
-    // Also parse inline variable declarations (outside VAR blocks)
-    if (!inVarBlock) {
-      // Look for variable declarations in assignment statements
-      const inlineVariable = parseInlineVariable(line, currentScope, vendor, lineNumber);
-      if (inlineVariable) {
-        variables.push(inlineVariable);
-      }
-    }
+  for (const declaration of ast.declarations) {
+    if (declaration.kind === 'Pou') addPou(declaration);
+    else if (declaration.kind === 'VarSection') addSection(declaration);
   }
 
-  return variables;
+  return { variables, errors };
 }
 
 /**
- * Parse a single variable declaration line
+ * Parse ST variable declarations from code
+ * Supports standard IEC 61131-3 structured text format
  */
-function parseVariableLine(line: string, scope: string, vendor?: string, lineNumber?: number): ParsedVariable | null {
-  // Remove inline comments
-  const cleanLine = line.split('//')[0].trim();
-  if (!cleanLine) return null;
-
-  // Pattern for: VariableName : DataType [:= DefaultValue]; [// comment]
-  const varPattern = /^([a-zA-Z_][a-zA-Z0-9_]*)\s*:\s*([a-zA-Z_][a-zA-Z0-9_]*(?:\([^)]*\))?)\s*(?::=\s*([^;]+))?\s*;?\s*(?:\/\/\s*(.*))?$/;
-  const match = cleanLine.match(varPattern);
-
-  if (!match) return null;
-
-  const [, name, rawDataType, defaultValue, comment] = match;
-
-  // Normalize data type to uppercase to match database constraints
-  const dataType = rawDataType.trim().toUpperCase();
-  console.log(`🔍 ST Parser: Raw data type: "${rawDataType}" → Normalized: "${dataType}"`);
-
-  // Extract address and description from comment if present
-  let address: string | undefined;
-  let description: string | undefined;
-
-  if (comment) {
-    // Look for address pattern in comment
-    const addressMatch = comment.match(/address\s*=\s*([^\s,]+)/i);
-    if (addressMatch) {
-      address = addressMatch[1];
-    }
-
-    // Extract description (remaining comment after address)
-    description = comment
-      .replace(/address\s*=\s*[^\s,]+/i, '')
-      .replace(/scope\s*=\s*[^\s,]+/i, '')
-      .trim();
-  }
-
-  return {
-    name: name.trim(),
-    type: 'variable',
-    dataType: dataType.trim(),
-    address,
-    defaultValue: parseDefaultValue(defaultValue),
-    scope,
-    description: description || undefined,
-    vendor: vendor?.toLowerCase(),
-    line: lineNumber
-  };
+export function parseSTVariablesDetailed(stCode: string, vendor?: string): ParsedVariable[] {
+  return parseSTDeclarations(stCode, vendor).variables;
 }
 
 /**
- * Parse inline variable declarations from assignment statements
+ * Address and description from a declaration's trailing comment
  */
-function parseInlineVariable(line: string, scope: string, vendor?: string, lineNumber?: number): ParsedVariable | null {
-  // Look for patterns like: VARIABLE_NAME := VALUE; where VARIABLE_NAME suggests it's a new variable
-  const assignmentPattern = /^([A-Z_][A-Z0-9_]*)\s*:=\s*([^;]+);?\s*(?:\/\/\s*(.*))?$/;
-  const match = line.match(assignmentPattern);
-
-  if (!match) return null;
-
-  const [, name, value, comment] = match;
-  
-  // Infer data type from value and normalize it
-  const dataType = normalizeDataType(inferDataTypeFromValue(value.trim()));
-  
-  let address: string | undefined;
-  let description: string | undefined;
-
-  if (comment) {
-    const addressMatch = comment.match(/address\s*=\s*([^\s,]+)/i);
-    if (addressMatch) {
-      address = addressMatch[1];
-    }
-    description = comment
-      .replace(/address\s*=\s*[^\s,]+/i, '')
-      .trim();
-  }
+function parseDeclarationComment(comment?: STTrivia): { address?: string; description?: string } {
+  if (!comment) return {};
+  const text = comment.type === 'line_comment'
+    ? comment.text.replace(/^\/\/\s*/, '')
+    : comment.text.replace(/^(\(\*|\/\*)\s*/, '').replace(/\s*(\*\)|\*\/)$/, '');
+
+  // Look for address pattern in comment
+  const addressMatch = text.match(/address\s*=\s*([^\s,]+)/i);
+
+  // Extract description (remaining comment after address)
+  const description = text
+    .replace(/address\s*=\s*[^\s,]+/i, '')
+    .replace(/scope\s*=\s*[^\s,]+/i, '')
+    .replace(/^[\s,;]+/, '')
+    .trim();
+
+  return { address: addressMatch ? addressMatch[1] : undefined, description: description || undefined };
+}
 
-  return {
-    name: name.trim(),
-    type: 'variable',
-    dataType,
-    address,
-    defaultValue: parseDefaultValue(value.trim()),
-    scope,
-    description: description || undefined,
-    vendor: vendor?.toLowerCase(),
-    line: lineNumber
-  };
+/**
+ * AT %IX0.0 address in the tag's address format; TwinCAT %I* placeholders have no address yet
+ */
+function directAddress(address: string | undefined, vendor?: string): string | undefined {
+  if (!address || address.endsWith('*')) return undefined;
+  return vendor?.toLowerCase() === 'siemens' ? address.replace(/^%/, '') : address;
 }
 
 /**
@@ -217,61 +176,6 @@ function parseDefaultValue(value?: string): string | number | boolean | undefine
   return trimmedValue;
 }
 
-/**
- * Normalize data type to match database constraints
- */
-function normalizeDataType(dataType: string): string {
-  const normalized = dataType.toUpperCase();
-
-  // Map common variations to standard types
-  const typeMap: Record<string, string> = {
-    'BOOL': 'BOOL',
-    'BOOLEAN': 'BOOL',
-    'BIT': 'BOOL',
-    'INT': 'INT',
-    'INTEGER': 'INT',
-    'DINT': 'DINT',
-    'DOUBLE_INT': 'DINT',
-    'REAL': 'REAL',
-    'FLOAT': 'REAL',
-    'STRING': 'STRING'
-  };
-
-  return typeMap[normalized] || normalized;
-}
-
-/**
- * Infer data type from value
- */
-function inferDataTypeFromValue(value: string): string {
-  const trimmedValue = value.trim();
-
-  if (trimmedValue.toUpperCase() === 'TRUE' || trimmedValue.toUpperCase() === 'FALSE') {
-    return 'BOOL';
-  }
-
-  if (/^-?\d+$/.test(trimmedValue)) {
-    const num = parseInt(trimmedValue, 10);
-    if (num >= -32768 && num <= 32767) {
-      return 'INT';
-    } else {
-      return 'DINT';
-    }
-  }
-
-  if (/^-?\d*\.\d+$/.test(trimmedValue)) {
-    return 'REAL';
-  }
-
-  if ((trimmedValue.startsWith("'") && trimmedValue.endsWith("'")) ||
-      (trimmedValue.startsWith('"') && trimmedValue.endsWith('"'))) {
-    return 'STRING';
-  }
-
-  // Default to DINT for unknown
-  return 'DINT';
-}
-
 /**
  * Simple function to extract all variables from ST code (backward compatibility)
  */
@@ -0,0 +1,1178 @@
+// stSyntax.ts
+// Recursive-descent parser for IEC 61131-3 Structured Text (with Siemens SCL and TwinCAT
+// extensions). Produces the syntax tree of stAst.ts; syntax errors are collected with their
+// line and column and the parser recovers at statement and declaration boundaries.
+
+import {
+  STArrayDimension,
+  STArrayInitializer,
+  STBinaryOperator,
+  STCall,
+  STCallArgument,
+  STCase,
+  STCaseBranch,
+  STCaseLabel,
+  STDeclaration,
+  STEnumType,
+  STEnumValue,
+  STExpression,
+  STInitializer,
+  STLiteral,
+  STLiteralType,
+  STNodeBase,
+  STPou,
+  STPouType,
+  STSourceFile,
+  STStatement,
+  STStructInitializer,
+  STStructType,
+  STTypeBlock,
+  STTypeDeclaration,
+  STTypeSpec,
+  STVarDeclaration,
+  STVarSection
+} from './stAst';
+import { STSyntaxError, STToken, STTrivia, tokenizeST } from './stLexer';
+
+export interface STParseOptions {
+  // Accept statements outside any POU, as in Rockwell routines or Logic Studio snippets
+  routineBody?: boolean;
+}
+
+export interface STParseResult {
+  ast: STSourceFile;
+  errors: STSyntaxError[];
+  tokens: STToken[];
+  trivia: STTrivia[];
+}
+
+// Stop collecting after this many errors; later ones are mostly follow-ups
+const MAX_ERRORS = 50;
+
+const POU_KEYWORDS = new Set(['PROGRAM', 'FUNCTION_BLOCK', 'FUNCTION', 'ORGANIZATION_BLOCK', 'DATA_BLOCK']);
+
+const VAR_SECTIONS = new Set([
+  'VAR', 'VAR_INPUT', 'VAR_OUTPUT', 'VAR_IN_OUT', 'VAR_GLOBAL', 'VAR_LOCAL', 'VAR_TEMP', 'VAR_STAT',
+  'VAR_EXTERNAL', 'VAR_CONFIG', 'VAR_INST', 'VAR_ACCESS'
+]);
+
+const VAR_QUALIFIERS = new Set(['CONSTANT', 'RETAIN', 'NON_RETAIN', 'PERSISTENT']);
+
+// Access and inheritance modifiers between the POU keyword and its name (TwinCAT)
+const POU_MODIFIERS = new Set(['PUBLIC', 'PRIVATE', 'PROTECTED', 'INTERNAL', 'ABSTRACT', 'FINAL']);
+
+// SCL block header lines: VERSION : 0.1, AUTHOR : Me, TITLE = Conveyor control
+const HEADER_ATTRIBUTES = new Set(['TITLE', 'VERSION', 'AUTHOR', 'FAMILY', 'NAME', 'KNOW_HOW_PROTECT']);
+
+const STATEMENT_KEYWORDS = new Set(['IF', 'CASE', 'FOR', 'WHILE', 'REPEAT', 'REGION', 'RETURN', 'EXIT', 'CONTINUE']);
+
+// Keywords that end a statement list: block ends, branch keywords and the start of the next declaration
+function isBlockBoundary(token: STToken): boolean {
+  if (token.type === 'eof') return true;
+  if (token.type !== 'keyword') return false;
+  const kw = token.value;
+  return kw.startsWith('END_') || kw === 'ELSE' || kw === 'ELSIF' || kw === 'UNTIL' || kw === 'METHOD' || kw === 'TYPE' ||
+    POU_KEYWORDS.has(kw) || VAR_SECTIONS.has(kw);
+}
+
+// Keywords that can only close a POU, or open the next top-level declaration
+function isTopLevelBoundary(token: STToken): boolean {
+  const kw = token.type === 'keyword' ? token.value : '';
+  return POU_KEYWORDS.has(kw) || kw === 'TYPE' || kw === 'METHOD' || VAR_SECTIONS.has(kw) ||
+    ['END_PROGRAM', 'END_FUNCTION_BLOCK', 'END_FUNCTION', 'END_METHOD', 'END_ORGANIZATION_BLOCK', 'END_DATA_BLOCK'].includes(kw);
+}
+
+const DURATION_UNITS: Record<string, number> = { d: 86400000, h: 3600000, m: 60000, s: 1000, ms: 1, us: 0.001, ns: 0.000001 };
+
+/** Milliseconds of a duration literal body such as 1h30m, 1.5s or -250ms; null if malformed */
+export function parseDurationMs(text: string): number | null {
+  const body = text.replace(/_/g, '');
+  const sign = body.startsWith('-') ? -1 : 1;
+  const rest = body.replace(/^[+-]/, '');
+  const part = /(\d+(?:\.\d+)?)(ms|us|ns|d|h|m|s)/iy;
+  let total = 0;
+  let index = 0;
+  while (index < rest.length) {
+    part.lastIndex = index;
+    const match = part.exec(rest);
+    if (!match) return null;
+    total += parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+    index = part.lastIndex;
+  }
+  return rest ? sign * total : null;
+}
+
+/** Value of an integer literal: 42, 1_000, 16#FF, 2#1010; NaN if malformed */
+export function parseIntegerLiteral(text: string): number {
+  const clean = text.replace(/_/g, '');
+  const based = clean.match(/^([+-]?)(\d+)#([0-9A-Fa-f]+)$/);
+  if (based) {
+    const value = parseInt(based[3], parseInt(based[2], 10));
+    return based[1] === '-' ? -value : value;
+  }
+  return /^[+-]?\d+$/.test(clean) ? parseInt(clean, 10) : NaN;
+}
+
+// '...' string contents with $-escapes resolved
+function unescapeString(text: string): string {
+  const body = text.slice(1, text.endsWith("'") && text.length > 1 ? -1 : undefined);
+  return body.replace(/\$([0-9A-Fa-f]{2}|.)/g, (_, escape: string) => {
+    if (escape.length === 2) return String.fromCharCode(parseInt(escape, 16));
+    switch (escape.toUpperCase()) {
+      case 'N':
+      case 'L': return '\n';
+      case 'R': return '\r';
+      case 'T': return '\t';
+      case 'P': return '\f';
+      default: return escape; // $' and $$
+    }
+  });
+}
+
+const INTEGER_TYPES = new Set(['SINT', 'INT', 'DINT', 'LINT', 'USINT', 'UINT', 'UDINT', 'ULINT', 'BYTE', 'WORD', 'DWORD', 'LWORD']);
+
+// Literal type per typed-literal prefix; anything else is an enumeration value (E_Mode#Auto)
+const PREFIX_LITERAL_TYPES: Record<string, STLiteralType> = {
+  T: 'duration', TIME: 'duration', LT: 'duration', LTIME: 'duration',
+  D: 'date', DATE: 'date', LD: 'date', LDATE: 'date',
+  TOD: 'time_of_day', TIME_OF_DAY: 'time_of_day', LTOD: 'time_of_day',
+  DT: 'date_and_time', DATE_AND_TIME: 'date_and_time', LDT: 'date_and_time',
+  BOOL: 'bool', REAL: 'real', LREAL: 'real'
+};
+
+/** Render an expression back to compact ST text */
+export function expressionText(expr: STExpression): string {
+  switch (expr.kind) {
+    case 'Literal':
+      return expr.text;
+    case 'Name':
+      return expr.quoted ? `"${expr.name}"` : expr.local ? `#${expr.name}` : expr.name;
+    case 'DirectAddress':
+      return expr.address;
+    case 'MemberAccess':
+      return `${expressionText(expr.object)}.${expr.member}`;
+    case 'IndexAccess':
+      return `${expressionText(expr.object)}[${expr.indices.map(expressionText).join(', ')}]`;
+    case 'Deref':
+      return `${expressionText(expr.operand)}^`;
+    case 'Call':
+      return `${expressionText(expr.callee)}(${expr.args.map(arg => {
+        const value = arg.value ? expressionText(arg.value) : '';
+        return arg.name ? `${arg.name} ${arg.output ? '=>' : ':='} ${value}`.trimEnd() : value;
+      }).join(', ')})`;
+    case 'Unary':
+      return expr.operator === 'NOT' ? `NOT ${expressionText(expr.operand)}` : `${expr.operator}${expressionText(expr.operand)}`;
+    case 'Binary': {
+      const side = (e: STExpression) => e.kind === 'Binary' ? `(${expressionText(e)})` : expressionText(e);
+      return `${side(expr.left)} ${expr.operator} ${side(expr.right)}`;
+    }
+  }
+}
+
+/** Render a type specification: INT, STRING[80], ARRAY[0..9] OF REAL, POINTER TO ST_Motor */
+export function typeSpecText(spec: STTypeSpec): string {
+  switch (spec.kind) {
+    case 'NamedType':
+      if (spec.length) return `${spec.name}[${expressionText(spec.length)}]`;
+      if (spec.range) return `${spec.name}(${expressionText(spec.range.lower)}..${expressionText(spec.range.upper)})`;
+      return spec.name;
+    case 'ArrayType': {
+      const dims = spec.dimensions.map(d => d.lower && d.upper ? `${expressionText(d.lower)}..${expressionText(d.upper)}` : '*');
+      return `ARRAY[${dims.join(', ')}] OF ${typeSpecText(spec.elementType)}`;
+    }
+    case 'PointerType':
+      return spec.pointerKind === 'REF_TO' ? `REF_TO ${typeSpecText(spec.target)}` : `${spec.pointerKind} TO ${typeSpecText(spec.target)}`;
+    case 'StructType':
+      return spec.union ? 'UNION' : 'STRUCT';
+    case 'EnumType':
+      return spec.baseType ? typeSpecText(spec.baseType) : 'INT';
+  }
+}
+
+// Thrown after an error has been recorded; caught where the parser can resynchronize
+class ParseBail extends Error {}
+// Thrown once MAX_ERRORS is reached to end parsing
+class ParseLimit extends Error {}
+
+type Position = Pick<STNodeBase, 'line' | 'column' | 'offset'>;
+
+class STParser {
+  private pos = 0;
+  readonly errors: STSyntaxError[] = [];
+  // Terminator keywords of the enclosing open blocks, innermost last
+  private openBlocks: string[][] = [];
+
+  constructor(private tokens: STToken[], private options: STParseOptions = {}) {}
+
+  // ---- Token helpers ----
+
+  private peek(ahead = 0): STToken {
+    return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
+  }
+
+  private previous(): STToken {
+    return this.tokens[Math.max(this.pos - 1, 0)];
+  }
+
+  private next(): STToken {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private atKeyword(...keywords: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && keywords.includes(token.value);
+  }
+
+  private atOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && operators.includes(token.value);
+  }
+
+  private atIdentifier(): boolean {
+    return this.peek().type === 'identifier';
+  }
+
+  private describe(token: STToken): string {
+    return token.type === 'eof' ? 'end of input' : `'${token.text}'`;
+  }
+
+  private report(message: string, line: number, column: number): void {
+    this.errors.push(new STSyntaxError(message, line, column));
+    if (this.errors.length >= MAX_ERRORS) throw new ParseLimit();
+  }
+
+  private reportAt(token: STToken, message: string): void {
+    this.report(message, token.line, token.column);
+  }
+
+  // Errors about something missing after a token are placed right behind it
+  private reportAfter(token: STToken, message: string): void {
+    const lines = token.text.split('\n');
+    const column = lines.length > 1 ? lines[lines.length - 1].length + 1 : token.column + token.text.length;
+    this.report(message, token.line + lines.length - 1, column);
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    this.reportAt(token, message);
+    throw new ParseBail();
+  }
+
+  private expectKeyword(keyword: string, context: string): STToken {
+    if (!this.atKeyword(keyword)) this.fail(`Expected ${keyword} ${context}, found ${this.describe(this.peek())}`);
+    return this.next();
+  }
+
+  private expectOperator(operator: string, context: string): STToken {
+    if (!this.atOperator(operator)) this.fail(`Expected '${operator}' ${context}, found ${this.describe(this.peek())}`);
+    return this.next();
+  }
+
+  private expectIdentifier(context: string): STToken {
+    if (!this.atIdentifier()) this.fail(`Expected ${context}, found ${this.describe(this.peek())}`);
+    return this.next();
+  }
+
+  // ';' ending a statement or declaration; a missing one is reported but not fatal
+  private expectSemicolon(context: string): void {
+    if (this.atOperator(';')) {
+      this.next();
+      return;
+    }
+    this.reportAfter(this.previous(), `Missing ';' after ${context}`);
+  }
+
+  private optionalSemicolon(): void {
+    if (this.atOperator(';')) this.next();
+  }
+
+  private start(): Position {
+    const token = this.peek();
+    return { line: token.line, column: token.column, offset: token.offset };
+  }
+
+  private finish<T>(start: Position, node: T): T & STNodeBase {
+    return { ...node, ...start, end: Math.max(this.previous().end, start.offset) };
+  }
+
+  // Closing keyword of a block; when missing, the block ends where the parser stopped
+  private closeBlock(keyword: string, opener: STToken, what: string): void {
+    if (this.atKeyword(keyword)) {
+      this.next();
+      this.optionalSemicolon();
+      return;
+    }
+    this.reportAt(this.peek(), `Expected ${keyword} to close ${what} at line ${opener.line}, found ${this.describe(this.peek())}`);
+  }
+
+  // Skip to the end of the current statement or declaration after an error
+  private synchronize(): void {
+    const from = this.pos;
+    while (this.peek().type !== 'eof') {
+      if (this.atOperator(';')) {
+        this.next();
+        return;
+      }
+      const token = this.peek();
+      if (this.pos > from && token.type === 'keyword' && (isBlockBoundary(token) || STATEMENT_KEYWORDS.has(token.value))) return;
+      this.next();
+    }
+  }
+
+  // ---- Declarations ----
+
+  parseSourceFile(): STSourceFile {
+    const start = this.start();
+    const declarations: STDeclaration[] = [];
+    const body: STStatement[] = [];
+    try {
+      while (this.peek().type !== 'eof') {
+        const before = this.pos;
+        if (this.options.routineBody && this.startsStatement(this.peek())) {
+          body.push(...this.parseStatements());
+          if (this.pos > before) continue;
+        }
+        try {
+          const declaration = this.parseTopLevel();
+          if (declaration) declarations.push(declaration);
+        } catch (error) {
+          if (!(error instanceof ParseBail)) throw error;
+          this.skipToTopLevel(before);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof ParseLimit)) throw error;
+    }
+    return this.finish(start, { kind: 'SourceFile' as const, declarations, body });
+  }
+
+  private startsStatement(token: STToken): boolean {
+    return token.type === 'identifier' || token.type === 'address' || (token.type === 'operator' && token.value === ';') ||
+      (token.type === 'keyword' && STATEMENT_KEYWORDS.has(token.value));
+  }
+
+  private skipToTopLevel(before: number): void {
+    if (this.pos === before) this.next();
+    while (this.peek().type !== 'eof') {
+      const kw = this.peek().type === 'keyword' ? this.peek().value : '';
+      if (POU_KEYWORDS.has(kw) || kw === 'TYPE' || VAR_SECTIONS.has(kw)) return;
+      this.next();
+    }
+  }
+
+  private parseTopLevel(): STDeclaration | null {
+    const token = this.peek();
+    if (token.type === 'keyword') {
+      if (POU_KEYWORDS.has(token.value)) return this.parsePou();
+      if (token.value === 'TYPE') return this.parseTypeBlock();
+      if (VAR_SECTIONS.has(token.value)) return this.parseVarSection();
+      if (token.value.startsWith('END_')) {
+        this.reportAt(token, `Unexpected ${token.value}`);
+        this.next();
+        this.optionalSemicolon();
+        return null;
+      }
+    }
+    this.fail(`Expected PROGRAM, FUNCTION_BLOCK, FUNCTION, TYPE or VAR_GLOBAL, found ${this.describe(token)}`);
+  }
+
+  private parsePou(): STPou {
+    const start = this.start();
+    const opener = this.next();
+    const pouType = opener.value as STPouType;
+
+    const modifiers: string[] = [];
+    while (this.atIdentifier() && !this.peek().quoted && POU_MODIFIERS.has(this.peek().value.toUpperCase())) {
+      modifiers.push(this.next().value.toUpperCase());
+    }
+    // A missing name is reported, but the POU is still parsed
+    const nameToken = this.atIdentifier() ? this.next() : { ...this.peek(), value: '' };
+    if (!nameToken.value) this.reportAt(this.peek(), `Expected a name after ${pouType}, found ${this.describe(this.peek())}`);
+
+    let returnType: STTypeSpec | undefined;
+    if ((pouType === 'FUNCTION' || pouType === 'METHOD') && this.atOperator(':')) {
+      this.next();
+      returnType = this.parseTypeSpec();
+    }
+
+    let extendsName: string | undefined;
+    const implementsNames: string[] = [];
+    if (this.atKeyword('EXTENDS')) {
+      this.next();
+      extendsName = this.parseQualifiedName('a base type after EXTENDS');
+    }
+    if (this.atKeyword('IMPLEMENTS')) {
+      this.next();
+      implementsNames.push(this.parseQualifiedName('an interface after IMPLEMENTS'));
+      while (this.atOperator(',')) {
+        this.next();
+        implementsNames.push(this.parseQualifiedName('an interface'));
+      }
+    }
+
+    const attributes = this.parseHeaderAttributes();
+    // SCL data blocks: DATA_BLOCK "DB" NON_RETAIN
+    while (pouType === 'DATA_BLOCK' && this.atKeyword('RETAIN', 'NON_RETAIN')) {
+      modifiers.push(this.next().value);
+    }
+
+    const varSections: STVarSection[] = [];
+    const methods: STPou[] = [];
+    let dataType: STTypeSpec | undefined;
+    for (;;) {
+      if (this.atKeyword(...VAR_SECTIONS)) {
+        varSections.push(this.parseVarSection());
+      } else if (this.atKeyword('METHOD') && pouType !== 'FUNCTION' && pouType !== 'METHOD') {
+        methods.push(this.parsePou());
+      } else if (pouType === 'DATA_BLOCK' && !dataType && (this.atKeyword('STRUCT') || this.atIdentifier())) {
+        dataType = this.parseTypeSpec();
+        this.optionalSemicolon();
+      } else {
+        break;
+      }
+    }
+
+    const endKeyword = `END_${pouType}`;
+    const body: STStatement[] = [];
+    if (this.atKeyword('BEGIN')) this.next();
+    this.openBlocks.push([endKeyword, 'METHOD']);
+    try {
+      for (;;) {
+        body.push(...this.parseStatements());
+        // TwinCAT exports may place methods after the body
+        if (this.atKeyword('METHOD') && pouType !== 'FUNCTION' && pouType !== 'METHOD') {
+          methods.push(this.parsePou());
+          continue;
+        }
+        break;
+      }
+    } finally {
+      this.openBlocks.pop();
+    }
+    this.closeBlock(endKeyword, opener, `${pouType} ${nameToken.value}`);
+
+    return this.finish(start, {
+      kind: 'Pou' as const,
+      pouType,
+      name: nameToken.value,
+      ...(nameToken.quoted ? { quoted: true } : {}),
+      returnType,
+      modifiers,
+      extends: extendsName,
+      implements: implementsNames,
+      attributes,
+      varSections,
+      dataType,
+      methods,
+      body
+    });
+  }
+
+  private parseQualifiedName(context: string): string {
+    let name = this.expectIdentifier(context).value;
+    while (this.atOperator('.') && this.peek(1).type === 'identifier') {
+      this.next();
+      name += `.${this.next().value}`;
+    }
+    return name;
+  }
+
+  private parseHeaderAttributes(): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    while (this.atIdentifier() && HEADER_ATTRIBUTES.has(this.peek().value.toUpperCase())) {
+      const nameToken = this.peek();
+      const separator = this.peek(1);
+      const flag = nameToken.value.toUpperCase() === 'KNOW_HOW_PROTECT';
+      if (!flag && !(separator.type === 'operator' && (separator.value === ':' || separator.value === '=') && separator.line === nameToken.line)) break;
+
+      this.next();
+      if (!flag) this.next();
+      const parts: string[] = [];
+      while (this.peek().type !== 'eof' && this.peek().line === nameToken.line) {
+        parts.push(this.next().text);
+      }
+      attributes[nameToken.value.toUpperCase()] = flag ? 'TRUE' : parts.join(' ').replace(/^'(.*)'$/, '$1');
+    }
+    return attributes;
+  }
+
+  private parseTypeBlock(): STTypeBlock {
+    const start = this.start();
+    const opener = this.next();
+    const types: STTypeDeclaration[] = [];
+
+    while (!this.atKeyword('END_TYPE') && !isBlockBoundary(this.peek())) {
+      try {
+        const declStart = this.start();
+        const nameToken = this.expectIdentifier('a type name');
+        this.expectOperator(':', `after type name ${nameToken.value}`);
+        const type = this.parseTypeSpec();
+        let initialValue: STInitializer | undefined;
+        if (this.atOperator(':=')) {
+          this.next();
+          initialValue = this.parseInitializer();
+        }
+        // END_STRUCT; and alias declarations end with ';', which TwinCAT leaves out after END_STRUCT
+        if (type.kind === 'StructType') this.optionalSemicolon();
+        else this.expectSemicolon(`type ${nameToken.value}`);
+        types.push(this.finish(declStart, {
+          kind: 'TypeDeclaration' as const,
+          name: nameToken.value,
+          ...(nameToken.quoted ? { quoted: true } : {}),
+          type,
+          initialValue
+        }));
+      } catch (error) {
+        if (!(error instanceof ParseBail)) throw error;
+        this.synchronize();
+      }
+    }
+    this.closeBlock('END_TYPE', opener, 'TYPE');
+    return this.finish(start, { kind: 'TypeBlock' as const, types });
+  }
+
+  private parseVarSection(): STVarSection {
+    const start = this.start();
+    const opener = this.next();
+    const qualifiers: string[] = [];
+    while (this.atKeyword(...VAR_QUALIFIERS)) qualifiers.push(this.next().value);
+
+    const declarations = this.parseDeclarations('END_VAR');
+    this.closeBlock('END_VAR', opener, opener.value);
+    return this.finish(start, { kind: 'VarSection' as const, section: opener.value, qualifiers, declarations });
+  }
+
+  // Variable or struct member declarations up to `endKeyword`
+  private parseDeclarations(endKeyword: string): STVarDeclaration[] {
+    const declarations: STVarDeclaration[] = [];
+    while (!this.atKeyword(endKeyword) && !isBlockBoundary(this.peek())) {
+      try {
+        declarations.push(this.parseVarDeclaration());
+      } catch (error) {
+        if (!(error instanceof ParseBail)) throw error;
+        this.synchronize();
+      }
+    }
+    return declarations;
+  }
+
+  private parseVarDeclaration(): STVarDeclaration {
+    const start = this.start();
+    const names = [this.parseDeclaredName()];
+    while (this.atOperator(',')) {
+      this.next();
+      names.push(this.parseDeclaredName());
+    }
+
+    let address: string | undefined;
+    if (this.atKeyword('AT')) {
+      this.next();
+      if (this.peek().type !== 'address') this.fail(`Expected a direct address after AT, found ${this.describe(this.peek())}`);
+      address = this.next().text;
+    }
+
+    this.expectOperator(':', `after ${names.map(n => n.name).join(', ')}`);
+    const type = this.parseTypeSpec();
+    let initialValue: STInitializer | undefined;
+    if (this.atOperator(':=')) {
+      this.next();
+      initialValue = this.parseInitializer();
+    }
+    this.expectSemicolon(`the declaration of ${names[names.length - 1].name}`);
+
+    return this.finish(start, { kind: 'VarDeclaration' as const, names, address, type, initialValue });
+  }
+
+  private parseDeclaredName() {
+    const start = this.start();
+    const token = this.expectIdentifier('a variable name');
+    return this.finish(start, { name: token.value });
+  }
+
+  private parseTypeSpec(): STTypeSpec {
+    const start = this.start();
+    const token = this.peek();
+
+    if (this.atKeyword('ARRAY')) {
+      this.next();
+      this.expectOperator('[', 'after ARRAY');
+      const dimensions: STArrayDimension[] = [];
+      do {
+        if (dimensions.length > 0) this.next();
+        if (this.atOperator('*')) {
+          this.next();
+          dimensions.push({});
+          continue;
+        }
+        const lower = this.parseExpression();
+        this.expectOperator('..', 'in array bounds');
+        dimensions.push({ lower, upper: this.parseExpression() });
+      } while (this.atOperator(','));
+      this.expectOperator(']', 'after array bounds');
+      this.expectKeyword('OF', 'after array bounds');
+      return this.finish(start, { kind: 'ArrayType' as const, dimensions, elementType: this.parseTypeSpec() });
+    }
+
+    if (this.atKeyword('POINTER', 'REFERENCE', 'REF_TO')) {
+      const pointerKind = this.next().value as 'POINTER' | 'REFERENCE' | 'REF_TO';
+      if (pointerKind !== 'REF_TO') this.expectKeyword('TO', `after ${pointerKind}`);
+      return this.finish(start, { kind: 'PointerType' as const, pointerKind, target: this.parseTypeSpec() });
+    }
+
+    if (this.atKeyword('STRUCT', 'UNION')) {
+      return this.parseStructType();
+    }
+
+    if (this.atOperator('(')) {
+      return this.parseEnumType(start);
+    }
+
+    if (!this.atIdentifier()) this.fail(`Expected a data type, found ${this.describe(token)}`);
+    const nameToken = this.next();
+    let name = nameToken.value;
+    while (this.atOperator('.') && this.peek(1).type === 'identifier') {
+      this.next();
+      name += `.${this.next().value}`;
+    }
+    const named = { kind: 'NamedType' as const, name, ...(nameToken.quoted ? { quoted: true } : {}) };
+
+    // STRING[80] / STRING(80) lengths, INT(0..100) subranges, INT (A, B) enumerations with a base type
+    if (this.atOperator('[')) {
+      this.next();
+      const length = this.parseExpression();
+      this.expectOperator(']', 'after the string length');
+      return this.finish(start, { ...named, length });
+    }
+    if (this.atOperator('(')) {
+      if (this.looksLikeEnumValues()) {
+        const baseType = this.finish(start, named);
+        return { ...this.parseEnumType(start), baseType };
+      }
+      this.next();
+      const lower = this.parseExpression();
+      if (this.atOperator('..')) {
+        this.next();
+        const upper = this.parseExpression();
+        this.expectOperator(')', 'after the subrange');
+        return this.finish(start, { ...named, range: { lower, upper } });
+      }
+      this.expectOperator(')', 'after the string length');
+      return this.finish(start, { ...named, length: lower });
+    }
+    return this.finish(start, named);
+  }
+
+  // ( Name, Name := value, ... ) as opposed to (80) or (0..100)
+  private looksLikeEnumValues(): boolean {
+    const first = this.peek(1);
+    const after = this.peek(2);
+    return first.type === 'identifier' && after.type === 'operator' && [',', ':=', ')'].includes(after.value);
+  }
+
+  private parseEnumType(start: Position): STEnumType {
+    this.expectOperator('(', 'to open the enumeration');
+    const values: STEnumValue[] = [];
+    do {
+      if (values.length > 0) this.next();
+      const valueStart = this.start();
+      const name = this.expectIdentifier('an enumeration value').value;
+      let value: STExpression | undefined;
+      if (this.atOperator(':=')) {
+        this.next();
+        value = this.parseExpression();
+      }
+      values.push(this.finish(valueStart, { name, value }));
+    } while (this.atOperator(','));
+    this.expectOperator(')', 'to close the enumeration');
+
+    // TwinCAT writes the base type after the list: (Idle, Running) UINT
+    let baseType: STTypeSpec | undefined;
+    if (this.atIdentifier()) baseType = this.parseTypeSpec();
+    return this.finish(start, { kind: 'EnumType' as const, values, baseType });
+  }
+
+  private parseStructType(): STStructType {
+    const start = this.start();
+    const opener = this.next();
+    const union = opener.value === 'UNION';
+    let extendsName: string | undefined;
+    if (this.atKeyword('EXTENDS')) {
+      this.next();
+      extendsName = this.parseQualifiedName('a base type after EXTENDS');
+    }
+    const endKeyword = union ? 'END_UNION' : 'END_STRUCT';
+    const members = this.parseDeclarations(endKeyword);
+    if (this.atKeyword(endKeyword)) this.next();
+    else this.reportAt(this.peek(), `Expected ${endKeyword} to close ${opener.value} at line ${opener.line}, found ${this.describe(this.peek())}`);
+    return this.finish(start, { kind: 'StructType' as const, ...(union ? { union } : {}), extends: extendsName, members });
+  }
+
+  private parseInitializer(): STInitializer {
+    const start = this.start();
+
+    // [1, 2, 3(0)] with n(value) repetitions
+    if (this.atOperator('[')) {
+      this.next();
+      const elements: STArrayInitializer['elements'] = [];
+      do {
+        if (elements.length > 0) this.next();
+        if (this.peek().type === 'number' && this.peek(1).type === 'operator' && this.peek(1).value === '(') {
+          const repeat = this.parsePrimary();
+          this.next();
+          const value = this.atOperator(')') ? undefined : this.parseInitializer();
+          this.expectOperator(')', 'after the repeated value');
+          elements.push({ repeat, value });
+        } else {
+          elements.push({ value: this.parseInitializer() });
+        }
+      } while (this.atOperator(','));
+      this.expectOperator(']', 'to close the array initializer');
+      return this.finish(start, { kind: 'ArrayInitializer' as const, elements });
+    }
+
+    // (Member := value, ...)
+    if (this.atOperator('(') && this.peek(1).type === 'identifier' && this.peek(2).type === 'operator' && this.peek(2).value === ':=') {
+      this.next();
+      const fields: STStructInitializer['fields'] = [];
+      do {
+        if (fields.length > 0) this.next();
+        const name = this.expectIdentifier('a member name').value;
+        this.expectOperator(':=', `after ${name}`);
+        fields.push({ name, value: this.parseInitializer() });
+      } while (this.atOperator(','));
+      this.expectOperator(')', 'to close the structure initializer');
+      return this.finish(start, { kind: 'StructInitializer' as const, fields });
+    }
+
+    return this.parseExpression();
+  }
+
+  // ---- Statements ----
+
+  /**
+   * Statements up to a block boundary. A boundary that belongs to no open block (a stray
+   * END_IF, say) is reported and skipped; otherwise the caller decides whether it fits.
+   */
+  private parseStatements(caseBranch = false): STStatement[] {
+    const statements: STStatement[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'eof') break;
+      if (isBlockBoundary(token)) {
+        const expected = this.openBlocks.some(terminators => terminators.includes(token.value));
+        if (expected || isTopLevelBoundary(token)) break;
+        this.reportAt(token, `Unexpected ${token.value}`);
+        this.next();
+        this.optionalSemicolon();
+        continue;
+      }
+      if (caseBranch && this.looksLikeCaseLabel()) break;
+
+      try {
+        const statement = this.parseStatement();
+        if (statement) statements.push(statement);
+      } catch (error) {
+        if (!(error instanceof ParseBail)) throw error;
+        this.synchronize();
+      }
+    }
+    return statements;
+  }
+
+  private parseBlock(terminators: string[], caseBranch = false): STStatement[] {
+    this.openBlocks.push(terminators);
+    try {
+      return this.parseStatements(caseBranch);
+    } finally {
+      this.openBlocks.pop();
+    }
+  }
+
+  // A CASE label list ends in ':'; statements hit ':=', ';', '(' or a keyword first
+  private looksLikeCaseLabel(): boolean {
+    for (let i = 0; ; i++) {
+      const token = this.peek(i);
+      if (token.type === 'eof' || (token.type === 'keyword' && token.value !== 'NOT')) return false;
+      if (token.type === 'operator') {
+        if (token.value === ':') return true;
+        if ([':=', ';', '(', '=>'].includes(token.value)) return false;
+      }
+    }
+  }
+
+  private parseStatement(): STStatement | null {
+    const token = this.peek();
+
+    if (this.atOperator(';')) {
+      this.next();
+      return null;
+    }
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'IF': return this.parseIf();
+        case 'CASE': return this.parseCase();
+        case 'FOR': return this.parseFor();
+        case 'WHILE': return this.parseWhile();
+        case 'REPEAT': return this.parseRepeat();
+        case 'REGION': return this.parseRegion();
+        case 'RETURN':
+        case 'EXIT':
+        case 'CONTINUE': {
+          const start = this.start();
+          this.next();
+          this.expectSemicolon(token.value);
+          const kind = token.value === 'RETURN' ? 'Return' as const : token.value === 'EXIT' ? 'Exit' as const : 'Continue' as const;
+          return this.finish(start, { kind });
+        }
+      }
+      this.fail(`Unexpected ${token.value}; expected a statement`);
+    }
+
+    return this.parseAssignmentOrCall();
+  }
+
+  private parseAssignmentOrCall(): STStatement {
+    const start = this.start();
+    const target = this.parsePostfix();
+
+    // bOut S= bSet; bOut R= bReset; refMotor REF= fbMotor (TwinCAT)
+    const word = this.peek();
+    const equals = this.peek(1);
+    const compound = word.type === 'identifier' && ['S', 'R', 'REF'].includes(word.value.toUpperCase()) &&
+      equals.type === 'operator' && equals.value === '=' && equals.offset === word.end;
+
+    if (this.atOperator(':=') || compound) {
+      const operator = compound ? `${word.value.toUpperCase()}=` as 'S=' | 'R=' | 'REF=' : ':=';
+      this.next();
+      if (compound) this.next();
+      if (!['Name', 'MemberAccess', 'IndexAccess', 'Deref', 'DirectAddress'].includes(target.kind)) {
+        this.report(`Cannot assign to ${expressionText(target)}`, target.line, target.column);
+      }
+      const value = this.parseExpression();
+      this.expectSemicolon('the assignment');
+      return this.finish(start, { kind: 'Assignment' as const, target, operator, value });
+    }
+
+    if (this.atOperator('=')) {
+      this.fail(`Expected ':=' for an assignment to ${expressionText(target)}, found '='`);
+    }
+    if (target.kind !== 'Call') {
+      this.fail(`Expected ':=' after ${expressionText(target)}, found ${this.describe(this.peek())}`);
+    }
+    this.expectSemicolon('the call');
+    return this.finish(start, { kind: 'CallStatement' as const, call: target });
+  }
+
+  private parseIf(): STStatement {
+    const start = this.start();
+    const opener = this.next();
+    const branches = [];
+
+    let branchStart = this.start();
+    let condition = this.parseExpression();
+    this.expectKeyword('THEN', 'after the IF condition');
+    branches.push(this.finish(branchStart, { condition, body: this.parseBlock(['ELSIF', 'ELSE', 'END_IF']) }));
+
+    while (this.atKeyword('ELSIF')) {
+      this.next();
+      branchStart = this.start();
+      condition = this.parseExpression();
+      this.expectKeyword('THEN', 'after the ELSIF condition');
+      branches.push(this.finish(branchStart, { condition, body: this.parseBlock(['ELSIF', 'ELSE', 'END_IF']) }));
+    }
+
+    let elseBody: STStatement[] | undefined;
+    if (this.atKeyword('ELSE')) {
+      this.next();
+      elseBody = this.parseBlock(['END_IF']);
+    }
+    this.closeBlock('END_IF', opener, 'IF');
+    return this.finish(start, { kind: 'If' as const, branches, elseBody });
+  }
+
+  private parseCase(): STCase {
+    const start = this.start();
+    const opener = this.next();
+    const selector = this.parseExpression();
+    this.expectKeyword('OF', 'after the CASE selector');
+
+    const branches: STCaseBranch[] = [];
+    while (!this.atKeyword('ELSE', 'END_CASE') && !isBlockBoundary(this.peek())) {
+      const branchStart = this.start();
+      const labels: STCaseLabel[] = [];
+      do {
+        if (labels.length > 0) this.next();
+        const labelStart = this.start();
+        const value = this.parseExpression();
+        let upper: STExpression | undefined;
+        if (this.atOperator('..')) {
+          this.next();
+          upper = this.parseExpression();
+        }
+        labels.push(this.finish(labelStart, { value, upper }));
+      } while (this.atOperator(','));
+      this.expectOperator(':', 'after the CASE label');
+      branches.push(this.finish(branchStart, { labels, body: this.parseBlock(['ELSE', 'END_CASE'], true) }));
+    }
+
+    let elseBody: STStatement[] | undefined;
+    if (this.atKeyword('ELSE')) {
+      this.next();
+      if (this.atOperator(':')) this.next();
+      elseBody = this.parseBlock(['END_CASE']);
+    }
+    this.closeBlock('END_CASE', opener, 'CASE');
+    return this.finish(start, { kind: 'Case' as const, selector, branches, elseBody });
+  }
+
+  private parseFor(): STStatement {
+    const start = this.start();
+    const opener = this.next();
+    const variable = this.parsePostfix();
+    this.expectOperator(':=', 'after the FOR variable');
+    const from = this.parseExpression();
+    this.expectKeyword('TO', 'in FOR');
+    const to = this.parseExpression();
+    let by: STExpression | undefined;
+    if (this.atKeyword('BY')) {
+      this.next();
+      by = this.parseExpression();
+    }
+    this.expectKeyword('DO', 'after the FOR range');
+    const body = this.parseBlock(['END_FOR']);
+    this.closeBlock('END_FOR', opener, 'FOR');
+    return this.finish(start, { kind: 'For' as const, variable, from, to, by, body });
+  }
+
+  private parseWhile(): STStatement {
+    const start = this.start();
+    const opener = this.next();
+    const condition = this.parseExpression();
+    this.expectKeyword('DO', 'after the WHILE condition');
+    const body = this.parseBlock(['END_WHILE']);
+    this.closeBlock('END_WHILE', opener, 'WHILE');
+    return this.finish(start, { kind: 'While' as const, condition, body });
+  }
+
+  private parseRepeat(): STStatement {
+    const start = this.start();
+    const opener = this.next();
+    const body = this.parseBlock(['UNTIL']);
+    this.expectKeyword('UNTIL', `to end the REPEAT at line ${opener.line}`);
+    const condition = this.parseExpression();
+    this.closeBlock('END_REPEAT', opener, 'REPEAT');
+    return this.finish(start, { kind: 'Repeat' as const, body, condition });
+  }
+
+  private parseRegion(): STStatement {
+    const start = this.start();
+    const opener = this.next();
+    const name = this.peek().type === 'text' ? this.next().value : '';
+    const body = this.parseBlock(['END_REGION']);
+    this.closeBlock('END_REGION', opener, `REGION ${name}`.trim());
+    return this.finish(start, { kind: 'Region' as const, name, body });
+  }
+
+  // ---- Expressions ----
+
+  private parseExpression(): STExpression {
+    return this.parseBinary(0);
+  }
+
+  // Binary operator levels, loosest first
+  private static readonly LEVELS: Array<Record<string, STBinaryOperator>> = [
+    { OR: 'OR', OR_ELSE: 'OR_ELSE' },
+    { XOR: 'XOR' },
+    { AND: 'AND', '&': 'AND', AND_THEN: 'AND_THEN' },
+    { '=': '=', '<>': '<>' },
+    { '<': '<', '>': '>', '<=': '<=', '>=': '>=' },
+    { '+': '+', '-': '-' },
+    { '*': '*', '/': '/', MOD: 'MOD' }
+  ];
+
+  private binaryOperatorAt(level: number): STBinaryOperator | undefined {
+    const token = this.peek();
+    if (token.type !== 'operator' && token.type !== 'keyword') return undefined;
+    return STParser.LEVELS[level][token.value];
+  }
+
+  private parseBinary(level: number): STExpression {
+    if (level >= STParser.LEVELS.length) return this.parseUnary();
+    const start = this.start();
+    let left = this.parseBinary(level + 1);
+    for (let operator = this.binaryOperatorAt(level); operator; operator = this.binaryOperatorAt(level)) {
+      this.next();
+      const right = this.parseBinary(level + 1);
+      left = this.finish(start, { kind: 'Binary' as const, operator, left, right });
+    }
+    return left;
+  }
+
+  private parseUnary(): STExpression {
+    const start = this.start();
+    if (this.atOperator('-', '+') || this.atKeyword('NOT')) {
+      const operator = this.next().value as '-' | '+' | 'NOT';
+      return this.finish(start, { kind: 'Unary' as const, operator, operand: this.parseUnary() });
+    }
+    const base = this.parsePostfix();
+    if (this.atOperator('**')) {
+      this.next();
+      return this.finish(start, { kind: 'Binary' as const, operator: '**' as const, left: base, right: this.parseUnary() });
+    }
+    return base;
+  }
+
+  private parsePostfix(): STExpression {
+    const start = this.start();
+    let expr = this.parsePrimary();
+    for (;;) {
+      if (this.atOperator('.')) {
+        this.next();
+        const member = this.peek();
+        if (member.type !== 'identifier' && member.type !== 'number' && member.type !== 'address') {
+          this.fail(`Expected a member name after '.', found ${this.describe(member)}`);
+        }
+        this.next();
+        expr = this.finish(start, { kind: 'MemberAccess' as const, object: expr, member: member.type === 'identifier' ? member.value : member.text });
+      } else if (this.atOperator('[')) {
+        this.next();
+        const indices = [this.parseExpression()];
+        while (this.atOperator(',')) {
+          this.next();
+          indices.push(this.parseExpression());
+        }
+        this.expectOperator(']', 'after the array index');
+        expr = this.finish(start, { kind: 'IndexAccess' as const, object: expr, indices });
+      } else if (this.atOperator('^')) {
+        this.next();
+        expr = this.finish(start, { kind: 'Deref' as const, operand: expr });
+      } else if (this.atOperator('(')) {
+        expr = this.parseCall(start, expr);
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseCall(start: Position, callee: STExpression): STCall {
+    this.next();
+    const args: STCallArgument[] = [];
+    if (!this.atOperator(')')) {
+      do {
+        if (args.length > 0) this.next();
+        const argStart = this.start();
+        const name = this.peek();
+        const marker = this.peek(1);
+        if (name.type === 'identifier' && marker.type === 'operator' && (marker.value === ':=' || marker.value === '=>')) {
+          this.next();
+          this.next();
+          const output = marker.value === '=>';
+          // Outputs may be left unconnected: fbTimer(IN := x, Q => )
+          const value = output && this.atOperator(',', ')') ? undefined : output ? this.parsePostfix() : this.parseExpression();
+          args.push(this.finish(argStart, { name: name.value, ...(output ? { output } : {}), value }));
+        } else {
+          args.push(this.finish(argStart, { value: this.parseExpression() }));
+        }
+      } while (this.atOperator(','));
+    }
+    this.expectOperator(')', `to close the call of ${expressionText(callee)}`);
+    return this.finish(start, { kind: 'Call' as const, callee, args });
+  }
+
+  private parsePrimary(): STExpression {
+    const start = this.start();
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'identifier':
+        this.next();
+        return this.finish(start, {
+          kind: 'Name' as const,
+          name: token.value,
+          ...(token.quoted ? { quoted: true } : {}),
+          ...(token.local ? { local: true } : {})
+        });
+      case 'address':
+        this.next();
+        return this.finish(start, { kind: 'DirectAddress' as const, address: token.text });
+      case 'number':
+      case 'typed_literal':
+      case 'string':
+        this.next();
+        return this.finish(start, this.literal(token));
+      case 'keyword':
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          this.next();
+          return this.finish(start, { kind: 'Literal' as const, literalType: 'bool' as const, text: token.text, value: token.value === 'TRUE' });
+        }
+        break;
+      case 'operator':
+        if (token.value === '(') {
+          this.next();
+          const inner = this.parseExpression();
+          this.expectOperator(')', 'to close the parenthesis');
+          return inner;
+        }
+        break;
+    }
+    this.fail(`Expected an expression, found ${this.describe(token)}`);
+  }
+
+  private literal(token: STToken): Omit<STLiteral, keyof STNodeBase> {
+    const text = token.text;
+    if (token.type === 'string') {
+      return { kind: 'Literal', literalType: 'string', text, value: unescapeString(text) };
+    }
+    if (token.type === 'number') {
+      if (!text.includes('#') && /[.eE]/.test(text)) {
+        return { kind: 'Literal', literalType: 'real', text, value: parseFloat(text.replace(/_/g, '')) };
+      }
+      return { kind: 'Literal', literalType: 'integer', text, value: parseIntegerLiteral(text) };
+    }
+
+    const hash = text.indexOf('#');
+    const typePrefix = text.slice(0, hash);
+    const body = text.slice(hash + 1);
+    const prefix = typePrefix.toUpperCase();
+    const literalType: STLiteralType = PREFIX_LITERAL_TYPES[prefix] || (INTEGER_TYPES.has(prefix) ? 'integer' : 'enum');
+
+    switch (literalType) {
+      case 'duration': {
+        const ms = parseDurationMs(body);
+        if (ms === null) this.reportAt(token, `Invalid duration literal ${text}`);
+        return { kind: 'Literal', literalType, text, value: ms ?? 0, typePrefix };
+      }
+      case 'integer': {
+        const value = parseIntegerLiteral(body);
+        if (isNaN(value)) this.reportAt(token, `Invalid ${prefix} literal ${text}`);
+        return { kind: 'Literal', literalType, text, value: isNaN(value) ? 0 : value, typePrefix };
+      }
+      case 'real': {
+        const value = parseFloat(body.replace(/_/g, ''));
+        if (isNaN(value)) this.reportAt(token, `Invalid ${prefix} literal ${text}`);
+        return { kind: 'Literal', literalType, text, value: isNaN(value) ? 0 : value, typePrefix };
+      }
+      case 'bool': {
+        const upper = body.toUpperCase();
+        if (!['TRUE', 'FALSE', '1', '0'].includes(upper)) this.reportAt(token, `Invalid BOOL literal ${text}`);
+        return { kind: 'Literal', literalType, text, value: upper === 'TRUE' || upper === '1', typePrefix };
+      }
+      default:
+        return { kind: 'Literal', literalType, text, value: body, typePrefix };
+    }
+  }
+}
+
+/**
+ * Parse ST / SCL source into a syntax tree. Never throws on bad input: the tree holds
+ * whatever could be parsed and `errors` lists every lexical and syntax error in source order.
+ */
+export function parseST(code: string, options: STParseOptions = {}): STParseResult {
+  const { tokens, trivia, errors: lexErrors } = tokenizeST(code);
+  const parser = new STParser(tokens, options);
+  const ast = parser.parseSourceFile();
+  const errors = [...lexErrors, ...parser.errors].sort((a, b) => a.line - b.line || a.column - b.column);
+  return { ast, errors, tokens, trivia };
+}
@@ -0,0 +1,207 @@
+// tagBulkEdit.ts
+// Plans bulk tag edits: applies field changes and pattern renames to a selection of tags,
+// validating every resulting tag before anything is written
+
+import { validateTagForVendor } from './vendorFormatters';
+import { checkTagNaming, formatNamingViolations, TagNamingRules } from './tagNamingRules';
+import { hasEngineeringData, pickEngineeringFields, validateEngineering } from './tagEngineering';
+import { unsafeRegexReason } from './safeRegex';
+
+// Fields a bulk PATCH may set to the same value on every selected tag.
+// Names and addresses are unique per tag, so they are excluded (names change through `rename`).
+export const BULK_EDITABLE_FIELDS = [
+  'description',
+  'type',
+  'data_type',
+  'default_value',
+  'vendor',
+  'scope',
+  'tag_type',
+  'is_ai_generated'
+] as const;
+
+type BulkEditableField = typeof BULK_EDITABLE_FIELDS[number];
+
+// Rename patterns run synchronously over every selected name, so both are bounded
+const MAX_RENAME_PATTERN_LENGTH = 200;
+export const MAX_RENAME_TAGS = 5000;
+
+export type BulkTagChanges = Partial<Record<BulkEditableField, any>>;
+
+export interface BulkRename {
+  pattern: string;
+  replacement: string;
+  flags?: string;
+}
+
+export interface BulkTagUpdate {
+  tagId: number;
+  name: string;
+  newName: string;
+  updates: Record<string, any>;
+}
+
+export interface BulkTagFailure {
+  tagId: number;
+  name: string;
+  errors: string[];
+}
+
+export interface BulkEditPlan {
+  updates: BulkTagUpdate[];
+  failures: BulkTagFailure[];
+}
+
+/** Raised when the request itself is malformed; routes answer with 400 */
+export class BulkEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkEditError';
+  }
+}
+
+/**
+ * Normalize the `changes` object of a bulk PATCH, rejecting fields that cannot be bulk-set.
+ */
+export function parseBulkChanges(changes: any): BulkTagChanges {
+  if (changes === undefined || changes === null) return {};
+  if (typeof changes !== 'object' || Array.isArray(changes)) {
+    throw new BulkEditError('changes must be an object');
+  }
+
+  const parsed: BulkTagChanges = {};
+  for (const [field, value] of Object.entries(changes)) {
+    if (!(BULK_EDITABLE_FIELDS as readonly string[]).includes(field)) {
+      throw new BulkEditError(`Field '${field}' cannot be changed in bulk. Allowed: ${BULK_EDITABLE_FIELDS.join(', ')}`);
+    }
+    if (field === 'is_ai_generated') {
+      parsed.is_ai_generated = !!value;
+    } else {
+      parsed[field as BulkEditableField] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Compile the rename rule; `pattern` is a regular expression applied to each tag name.
+ * Patterns that could backtrack catastrophically (nested quantifiers, backreferences) are rejected.
+ */
+export function parseBulkRename(rename: any): RegExp | null {
+  if (rename === undefined || rename === null) return null;
+  if (typeof rename.pattern !== 'string' || typeof rename.replacement !== 'string') {
+    throw new BulkEditError('rename requires string pattern and replacement');
+  }
+  if (rename.pattern.length > MAX_RENAME_PATTERN_LENGTH) {
+    throw new BulkEditError(`Rename pattern must be at most ${MAX_RENAME_PATTERN_LENGTH} characters`);
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rename.pattern, rename.flags || '');
+  } catch (error) {
+    throw new BulkEditError(`Invalid rename pattern: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const unsafe = unsafeRegexReason(regex.source, regex.flags);
+  if (unsafe) {
+    throw new BulkEditError(`Rename pattern is not allowed: it ${unsafe}`);
+  }
+  return regex;
+}
+
+/**
+ * Apply changes and rename to the selected tags and validate each result.
+ * `selectedTags` are full tag rows, so stored engineering data is checked against type changes.
+ * `projectTags` is every tag of the project, used to detect name collisions.
+ * Organization naming rules are checked for tags whose name or naming-relevant fields change.
+ */
+export function planBulkTagEdit(
+  selectedTags: any[],
+  projectTags: any[],
+  changes: BulkTagChanges,
+  rename: { regex: RegExp; replacement: string } | null,
+  namingRules: TagNamingRules | null = null
+): BulkEditPlan {
+  if (rename && selectedTags.length > MAX_RENAME_TAGS) {
+    throw new BulkEditError(`A rename can change at most ${MAX_RENAME_TAGS} tags at once; narrow the selection`);
+  }
+
+  const plan: BulkEditPlan = { updates: [], failures: [] };
+  const selectedIds = new Set(selectedTags.map(t => t.id));
+
+  // Names that stay as they are because the tag is not part of the selection
+  const untouchedNames = new Map<string, number>();
+  for (const tag of projectTags) {
+    if (!selectedIds.has(tag.id)) {
+      untouchedNames.set(tag.name, tag.id);
+    }
+  }
+
+  const newNameOwners = new Map<string, number[]>();
+  const pending: Array<BulkTagUpdate & { errors: string[] }> = [];
+
+  for (const tag of selectedTags) {
+    const newName = rename ? tag.name.replace(rename.regex, rename.replacement) : tag.name;
+    const updates: Record<string, any> = { ...changes };
+    if (newName !== tag.name) {
+      updates.name = newName;
+    }
+
+    // Validate the merged tag, as PUT /:tagId does for single edits
+    const merged = {
+      name: newName,
+      type: updates.type ?? tag.type,
+      data_type: updates.data_type ?? tag.data_type,
+      address: tag.address,
+      vendor: updates.vendor ?? tag.vendor,
+      scope: updates.scope ?? tag.scope,
+      tag_type: updates.tag_type ?? tag.tag_type
+    };
+
+    const errors: string[] = [];
+    if (merged.vendor) {
+      const validation = validateTagForVendor(
+        merged,
+        merged.vendor.toLowerCase() as 'rockwell' | 'siemens' | 'beckhoff'
+      );
+      errors.push(...validation.errors);
+    } else {
+      errors.push('Tag has no vendor to validate against');
+    }
+
+    // Stored scaling, clamps and alarm limits must still fit the tag's type after the change
+    const engineering = { ...pickEngineeringFields(tag), type: merged.type, data_type: merged.data_type };
+    if (hasEngineeringData(engineering)) {
+      errors.push(...validateEngineering(engineering));
+    }
+
+    const namingFieldsChanged = ['vendor', 'scope', 'tag_type', 'type'].some(field => field in changes);
+    if (namingRules && (newName !== tag.name || namingFieldsChanged)) {
+      errors.push(...formatNamingViolations(checkTagNaming(merged, namingRules, new Set(untouchedNames.keys()))));
+    }
+
+    if (untouchedNames.has(newName)) {
+      errors.push(`Tag name '${newName}' already exists in this project`);
+    }
+
+    newNameOwners.set(newName, [...(newNameOwners.get(newName) || []), tag.id]);
+    pending.push({ tagId: tag.id, name: tag.name, newName, updates, errors });
+  }
+
+  for (const entry of pending) {
+    const owners = newNameOwners.get(entry.newName) || [];
+    if (owners.length > 1) {
+      entry.errors.push(`Rename produces duplicate name '${entry.newName}' for ${owners.length} tags`);
+    }
+
+    if (entry.errors.length > 0) {
+      plan.failures.push({ tagId: entry.tagId, name: entry.name, errors: entry.errors });
+    } else {
+      plan.updates.push({ tagId: entry.tagId, name: entry.name, newName: entry.newName, updates: entry.updates });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,395 @@
+// tagColumnMapping.ts
+// Column mapping for CSV / XLSX IO lists in arbitrary layouts: detect columns and sample
+// rows, map columns (or constants, concatenations, prefixes) onto tag fields, and run
+// the mapped rows through the vendor's own row validation
+
+import { parse } from 'csv-parse/sync';
+import * as XLSX from 'xlsx';
+import { ParsedTagImport } from '../services/tagImportPipeline';
+import { validateBeckhoffRows } from './beckhoffTagIO';
+import { validateRockwellRows } from './rockwellTagIO';
+import { validateSiemensRows } from './siemensTagIO';
+
+export const MAPPABLE_TAG_FIELDS = ['name', 'data_type', 'address', 'description', 'default_value', 'scope'] as const;
+export type MappableTagField = typeof MAPPABLE_TAG_FIELDS[number];
+
+/**
+ * How one tag field is filled. Exactly one source: a column, several columns joined
+ * with `separator`, or a constant. The other options transform the value in order:
+ * replace, case, prefix / suffix; `fallback` is used when the result is empty.
+ */
+export interface FieldMapping {
+  column?: string;
+  columns?: string[];
+  separator?: string;
+  constant?: string;
+  replace?: { pattern: string; with: string };
+  case?: 'upper' | 'lower';
+  prefix?: string;
+  suffix?: string;
+  fallback?: string;
+}
+
+export interface ColumnMapping {
+  fields: Partial<Record<MappableTagField, FieldMapping>>;
+  sheet?: string; // XLSX sheet; the first sheet with data when omitted
+  headerRow?: number; // 1-based row holding the column headers
+}
+
+export interface TabularFile {
+  format: 'csv' | 'xlsx';
+  sheets: string[];
+  sheet?: string;
+  headerRow: number;
+  columns: string[]; // Column keys: header text, or "Column N" for blank or repeated headers
+  rows: string[][]; // Data rows below the header row
+  rowNumbers: number[]; // 1-based file row of each data row
+}
+
+export interface MappedRow {
+  row: number; // 1-based row number in the file
+  values: Partial<Record<MappableTagField, string>>;
+}
+
+export interface DetectedColumn {
+  key: string;
+  index: number;
+  samples: string[];
+  suggestedField: MappableTagField | null;
+}
+
+export class ColumnMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ColumnMappingError';
+  }
+}
+
+const SAMPLE_ROWS = 10;
+
+// Header aliases across the vendor importers, used to suggest a mapping
+const FIELD_ALIASES: Record<string, MappableTagField> = {
+  'name': 'name',
+  'tag': 'name',
+  'tagname': 'name',
+  'tag name': 'name',
+  'symbol': 'name',
+  'variable': 'name',
+  'variable name': 'name',
+  'type': 'data_type',
+  'datatype': 'data_type',
+  'data type': 'data_type',
+  'data_type': 'data_type',
+  'address': 'address',
+  'logical address': 'address',
+  'physical address': 'address',
+  'io address': 'address',
+  'description': 'description',
+  'comment': 'description',
+  'signal description': 'description',
+  'initial value': 'default_value',
+  'default value': 'default_value',
+  'default_value': 'default_value',
+  'start value': 'default_value',
+  'scope': 'scope'
+};
+
+function cellText(value: any): string {
+  return value === undefined || value === null ? '' : value.toString().trim();
+}
+
+// Unique column keys; blank and repeated headers fall back to their position
+function columnKeys(headers: string[]): string[] {
+  const seen = new Set<string>();
+  return headers.map((header, index) => {
+    const key = header && !seen.has(header.toLowerCase()) ? header : `Column ${index + 1}`;
+    seen.add(key.toLowerCase());
+    return key;
+  });
+}
+
+/**
+ * Read a CSV or XLSX file into a header row and data rows.
+ */
+export function readTabularFile(buffer: Buffer, fileName: string, options: { sheet?: string; headerRow?: number } = {}): TabularFile {
+  const headerRow = options.headerRow ?? 1;
+  if (!Number.isInteger(headerRow) || headerRow < 1) {
+    throw new ColumnMappingError('headerRow must be a positive integer');
+  }
+
+  let format: TabularFile['format'];
+  let sheets: string[] = [];
+  let sheet: string | undefined;
+  let table: string[][];
+
+  if (/\.(xlsx|xls)$/i.test(fileName)) {
+    format = 'xlsx';
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(buffer, { type: 'buffer' });
+    } catch (err) {
+      throw new ColumnMappingError('Failed to read XLSX: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+
+    sheets = workbook.SheetNames;
+    const toTable = (name: string) => XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, defval: '', raw: false, blankrows: false });
+    if (options.sheet) {
+      if (!sheets.includes(options.sheet)) {
+        throw new ColumnMappingError(`Sheet '${options.sheet}' not found. Sheets: ${sheets.join(', ')}`);
+      }
+      sheet = options.sheet;
+    } else {
+      sheet = sheets.find(name => toTable(name).length > 0) || sheets[0];
+    }
+    table = sheet ? toTable(sheet).map(row => row.map(cellText)) : [];
+  } else if (/\.(csv|txt)$/i.test(fileName)) {
+    format = 'csv';
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    // Title lines above the header rarely contain a delimiter, so sniff it from the header line
+    const lines = text.split('\n').filter(line => line.trim());
+    const headerLine = lines[headerRow - 1] || lines[0] || '';
+    const delimiter = [';', '\t', ','].find(d => headerLine.includes(d)) || ',';
+    try {
+      table = (parse(text, { delimiter, relax_column_count: true, skip_empty_lines: true }) as any[][])
+        .map(row => row.map(cellText));
+    } catch (err) {
+      throw new ColumnMappingError('Failed to parse CSV: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  } else {
+    throw new ColumnMappingError('Column mapping supports .csv and .xlsx files');
+  }
+
+  if (table.length < headerRow) {
+    throw new ColumnMappingError(`File has no row ${headerRow} to read headers from`);
+  }
+
+  const headers = table[headerRow - 1];
+  const width = table.reduce((max, row) => Math.max(max, row.length), headers.length);
+  const columns = columnKeys(Array.from({ length: width }, (_, i) => headers[i] || ''));
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  table.slice(headerRow).forEach((row, i) => {
+    if (!row.some(cell => cell !== '')) return;
+    rows.push(Array.from({ length: width }, (_, c) => row[c] || ''));
+    rowNumbers.push(headerRow + i + 1);
+  });
+
+  return { format, sheets, sheet, headerRow, columns, rows, rowNumbers };
+}
+
+/** Detected columns with sample values and the tag field each one most likely holds */
+export function detectColumns(file: TabularFile): DetectedColumn[] {
+  const suggested = new Set<MappableTagField>();
+
+  return file.columns.map((key, index) => {
+    let field: MappableTagField | null = FIELD_ALIASES[key.trim().toLowerCase()] || null;
+    if (field && suggested.has(field)) field = null;
+    if (field) suggested.add(field);
+
+    return {
+      key,
+      index,
+      samples: file.rows.slice(0, SAMPLE_ROWS).map(row => row[index]),
+      suggestedField: field
+    };
+  });
+}
+
+/** A mapping built from the suggested fields, as a starting point for the user */
+export function suggestColumnMapping(file: TabularFile): ColumnMapping {
+  const fields: ColumnMapping['fields'] = {};
+  for (const column of detectColumns(file)) {
+    if (column.suggestedField) fields[column.suggestedField] = { column: column.key };
+  }
+  return { fields, sheet: file.sheet, headerRow: file.headerRow };
+}
+
+function optionalString(value: any, label: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new ColumnMappingError(`${label} must be a string`);
+  return value;
+}
+
+/**
+ * Validate a mapping from a request body or template. Throws ColumnMappingError.
+ */
+export function normalizeColumnMapping(input: any): ColumnMapping {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ColumnMappingError('mapping must be an object');
+  }
+  if (!input.fields || typeof input.fields !== 'object' || Array.isArray(input.fields)) {
+    throw new ColumnMappingError('mapping.fields must be an object keyed by tag field');
+  }
+
+  const fields: ColumnMapping['fields'] = {};
+  for (const [field, raw] of Object.entries<any>(input.fields)) {
+    if (!(MAPPABLE_TAG_FIELDS as readonly string[]).includes(field)) {
+      throw new ColumnMappingError(`Unknown tag field '${field}'. Mappable fields: ${MAPPABLE_TAG_FIELDS.join(', ')}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ColumnMappingError(`Mapping for ${field} must be an object`);
+    }
+
+    const label = `Mapping for ${field}`;
+    const mapping: FieldMapping = {
+      column: optionalString(raw.column, `${label}: column`),
+      constant: optionalString(raw.constant, `${label}: constant`),
+      separator: optionalString(raw.separator, `${label}: separator`),
+      prefix: optionalString(raw.prefix, `${label}: prefix`),
+      suffix: optionalString(raw.suffix, `${label}: suffix`),
+      fallback: optionalString(raw.fallback, `${label}: fallback`)
+    };
+
+    if (raw.columns !== undefined) {
+      if (!Array.isArray(raw.columns) || raw.columns.length === 0 || raw.columns.some((c: any) => typeof c !== 'string')) {
+        throw new ColumnMappingError(`${label}: columns must be a non-empty array of column names`);
+      }
+      mapping.columns = raw.columns;
+    }
+
+    const sources = [mapping.column, mapping.columns, mapping.constant].filter(s => s !== undefined).length;
+    if (sources !== 1) {
+      throw new ColumnMappingError(`${label} needs exactly one of column, columns or constant`);
+    }
+
+    if (raw.case !== undefined) {
+      if (raw.case !== 'upper' && raw.case !== 'lower') {
+        throw new ColumnMappingError(`${label}: case must be 'upper' or 'lower'`);
+      }
+      mapping.case = raw.case;
+    }
+
+    if (raw.replace !== undefined) {
+      const pattern = optionalString(raw.replace?.pattern, `${label}: replace.pattern`);
+      if (!pattern) throw new ColumnMappingError(`${label}: replace needs a pattern`);
+      try {
+        new RegExp(pattern, 'g');
+      } catch {
+        throw new ColumnMappingError(`${label}: invalid replace pattern '${pattern}'`);
+      }
+      mapping.replace = { pattern, with: optionalString(raw.replace.with, `${label}: replace.with`) ?? '' };
+    }
+
+    // Drop unset options so stored templates stay compact
+    fields[field as MappableTagField] = Object.fromEntries(
+      Object.entries(mapping).filter(([, value]) => value !== undefined)
+    ) as FieldMapping;
+  }
+
+  if (!fields.name) {
+    throw new ColumnMappingError('mapping.fields.name is required');
+  }
+
+  const headerRow = input.headerRow ?? undefined;
+  if (headerRow !== undefined && (!Number.isInteger(headerRow) || headerRow < 1)) {
+    throw new ColumnMappingError('mapping.headerRow must be a positive integer');
+  }
+
+  return {
+    fields,
+    sheet: optionalString(input.sheet, 'mapping.sheet'),
+    headerRow
+  };
+}
+
+function mapValue(mapping: FieldMapping, row: string[], indexOf: Map<string, number>): string {
+  let value: string;
+  if (mapping.constant !== undefined) {
+    value = mapping.constant;
+  } else if (mapping.columns) {
+    value = mapping.columns.map(c => row[indexOf.get(c)!]).filter(v => v !== '').join(mapping.separator ?? '');
+  } else {
+    value = row[indexOf.get(mapping.column!)!];
+  }
+
+  if (mapping.replace) value = value.replace(new RegExp(mapping.replace.pattern, 'g'), mapping.replace.with);
+  if (mapping.case === 'upper') value = value.toUpperCase();
+  if (mapping.case === 'lower') value = value.toLowerCase();
+  if (value !== '' && (mapping.prefix || mapping.suffix)) value = `${mapping.prefix || ''}${value}${mapping.suffix || ''}`;
+  return value.trim() || mapping.fallback || '';
+}
+
+/**
+ * Apply a mapping to every data row. Rows whose mapped source columns are all empty are skipped.
+ */
+export function applyColumnMapping(file: TabularFile, mapping: ColumnMapping): MappedRow[] {
+  const indexOf = new Map(file.columns.map((key, index) => [key, index]));
+  const referenced = Object.values(mapping.fields).flatMap(m => m!.columns || (m!.column !== undefined ? [m!.column] : []));
+  const missing = [...new Set(referenced.filter(c => !indexOf.has(c)))];
+  if (missing.length > 0) {
+    throw new ColumnMappingError(`Columns not found in file: ${missing.join(', ')}. Columns: ${file.columns.join(', ')}`);
+  }
+
+  const sourceIndexes = referenced.map(c => indexOf.get(c)!);
+  const mapped: MappedRow[] = [];
+  file.rows.forEach((row, i) => {
+    if (sourceIndexes.length > 0 && sourceIndexes.every(index => row[index] === '')) return;
+
+    const values: MappedRow['values'] = {};
+    for (const [field, fieldMapping] of Object.entries(mapping.fields)) {
+      const value = mapValue(fieldMapping!, row, indexOf);
+      if (value !== '') values[field as MappableTagField] = value;
+    }
+    mapped.push({ row: file.rowNumbers[i], values });
+  });
+  return mapped;
+}
+
+/**
+ * Parse a CSV / XLSX file with a column mapping and validate the rows as `vendor` tags,
+ * exactly like that vendor's own CSV import.
+ */
+export function parseMappedTagFile(
+  buffer: Buffer,
+  fileName: string,
+  mapping: ColumnMapping,
+  vendor: string,
+  projectId: number,
+  userId: string
+): ParsedTagImport {
+  const file = readTabularFile(buffer, fileName, { sheet: mapping.sheet, headerRow: mapping.headerRow });
+  const mapped = applyColumnMapping(file, mapping);
+  if (mapped.length === 0) {
+    throw new ColumnMappingError('No rows found after applying the column mapping');
+  }
+
+  // Validators number rows from 1; report the rows as they appear in the file
+  const parsed = validateMappedRows(mapped.map(m => m.values), vendor, projectId, userId);
+  parsed.errors = parsed.errors.map(error => ({ ...error, row: mapped[error.row - 1]?.row ?? error.row }));
+  return parsed;
+}
+
+function validateMappedRows(rows: MappedRow['values'][], vendor: string, projectId: number, userId: string): ParsedTagImport {
+  switch (vendor) {
+    case 'beckhoff':
+      return validateBeckhoffRows(rows.map(r => ({
+        name: r.name,
+        data_type: r.data_type,
+        address: r.address,
+        default_value: r.default_value,
+        scope: r.scope,
+        comment: r.description
+      })), projectId, userId);
+    case 'rockwell':
+      return validateRockwellRows(rows.map(r => ({
+        name: r.name,
+        data_type: r.data_type,
+        address: r.address,
+        default_value: r.default_value,
+        scope: r.scope,
+        description: r.description
+      })), projectId, userId);
+    case 'siemens':
+      return validateSiemensRows(rows.map(r => ({
+        Name: r.name || '',
+        DataType: r.data_type || '',
+        // TIA Portal lists write %I0.0; tags are stored without the '%'
+        Address: (r.address || '').replace(/^%/, ''),
+        Comment: r.description,
+        InitialValue: r.default_value,
+        Scope: r.scope
+      })), projectId, userId);
+    default:
+      throw new ColumnMappingError(`Unsupported vendor '${vendor}'`);
+  }
+}
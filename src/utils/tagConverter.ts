@@ -0,0 +1,313 @@
+// tagConverter.ts
+// Cross-vendor tag conversion: remaps data types, tag types and addresses of a
+// project's tags from one vendor dialect to another using the vendorFormatters rules
+
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { AddressAllocator } from './addressAllocator';
+import {
+  formatTagForVendor,
+  validateAddressForVendor,
+  validateDataTypeForVendor,
+  validateScopeForVendor,
+  validateTagTypeForVendor,
+  validateTagForVendor
+} from './vendorFormatters';
+
+export type PLCVendor = 'rockwell' | 'siemens' | 'beckhoff';
+
+export const SUPPORTED_VENDORS: PLCVendor[] = ['rockwell', 'siemens', 'beckhoff'];
+
+export interface ConvertibleTag {
+  id: number;
+  name: string;
+  type?: string | null;
+  data_type?: string | null;
+  address?: string | null;
+  vendor?: string | null;
+  scope?: string | null;
+  tag_type?: string | null;
+  default_value?: string | null;
+}
+
+export interface TagFieldMapping {
+  field: 'type' | 'data_type' | 'address' | 'scope' | 'tag_type' | 'vendor';
+  from: string | null;
+  to: string | null;
+  lossy: boolean;
+  reason: string;
+}
+
+export interface TagConversion {
+  tagId: number;
+  name: string;
+  sourceVendor: string | null;
+  converted: {
+    type: string;
+    data_type: string;
+    address: string;
+    vendor: PLCVendor;
+    scope: string;
+    tag_type: string;
+  };
+  mappings: TagFieldMapping[];
+  lossy: boolean;
+  errors: string[];
+}
+
+export interface ProjectConversionPlan {
+  targetVendor: PLCVendor;
+  totalTags: number;
+  unchangedCount: number;
+  lossyCount: number;
+  errorCount: number;
+  conversions: TagConversion[];
+}
+
+// Explicit data type remaps where the target vendor has no identical type
+const DATA_TYPE_REMAP: Record<PLCVendor, Record<string, string>> = {
+  rockwell: {
+    'BYTE': 'SINT',
+    'WORD': 'INT',
+    'DWORD': 'DINT',
+    'LWORD': 'LINT',
+    'S5TIME': 'DINT',
+    'TIME_OF_DAY': 'DINT',
+    'TOD': 'DINT',
+    'DATE': 'DINT',
+    'DATE_AND_TIME': 'LINT',
+    'WSTRING': 'STRING'
+  },
+  siemens: {
+    'TOD': 'TIME_OF_DAY',
+    'DATE_AND_TIME': 'LINT',
+    'WSTRING': 'STRING'
+  },
+  beckhoff: {
+    'S5TIME': 'TIME',
+    'TIME_OF_DAY': 'TOD'
+  }
+};
+
+// Remaps that are only a different name for the same type
+const LOSSLESS_REMAPS = new Set(['TOD', 'TIME_OF_DAY']);
+
+// Tag types the target vendor does not know about, and where they end up
+const TAG_TYPE_FALLBACK: Record<string, string> = {
+  'temp': 'memory',
+  'constant': 'memory'
+};
+
+/**
+ * Map a tag's data type into the target vendor's dialect.
+ * Falls back to the vendor formatter's default when there is no equivalent.
+ */
+function convertDataType(dataType: string, tagName: string, targetVendor: PLCVendor): { dataType: string; lossy: boolean; reason?: string } {
+  const upper = dataType.toUpperCase();
+  const remapped = DATA_TYPE_REMAP[targetVendor][upper];
+
+  if (remapped) {
+    return {
+      dataType: remapped,
+      lossy: !LOSSLESS_REMAPS.has(upper),
+      reason: `${targetVendor} has no ${upper}; mapped to ${remapped}`
+    };
+  }
+
+  if (validateDataTypeForVendor(upper, targetVendor)) {
+    return { dataType: upper, lossy: false };
+  }
+
+  const formatted = formatTagForVendor({ name: tagName, dataType: upper, vendor: targetVendor }, targetVendor);
+  const fallback = formatted.DataType.toUpperCase();
+  return {
+    dataType: fallback,
+    lossy: true,
+    reason: `Data type ${upper} is not supported by ${targetVendor}; defaulted to ${fallback}`
+  };
+}
+
+interface BitAddress {
+  area: 'I' | 'Q' | 'M';
+  byte: number;
+  bit?: number;
+  width?: 'B' | 'W' | 'D' | 'L';
+}
+
+// Parse Siemens (I0.0, MW10) and Beckhoff (%I0.0, %QW4) process-image addresses
+function parseProcessImageAddress(address: string, vendor: string | null): BitAddress | null {
+  const prefix = vendor === 'beckhoff' ? '%' : '';
+  const match = address.match(new RegExp(`^${prefix}([IQM])([BWDL])?(\\d+)(?:\\.(\\d+))?$`));
+  if (!match || (vendor !== 'siemens' && vendor !== 'beckhoff')) return null;
+
+  const [, area, width, byte, bit] = match;
+  if (width && bit !== undefined) return null;
+  return {
+    area: area as BitAddress['area'],
+    byte: parseInt(byte),
+    bit: bit !== undefined ? parseInt(bit) : undefined,
+    width: width as BitAddress['width'] | undefined
+  };
+}
+
+function formatProcessImageAddress(addr: BitAddress, targetVendor: 'siemens' | 'beckhoff'): string {
+  const prefix = targetVendor === 'beckhoff' ? '%' : '';
+  return addr.bit !== undefined
+    ? `${prefix}${addr.area}${addr.byte}.${addr.bit}`
+    : `${prefix}${addr.area}${addr.width || ''}${addr.byte}`;
+}
+
+/**
+ * Build the conversion plan for a set of a project's tags. Nothing is written; the project's other
+ * tags and its address reservations are read so carried-over and generated addresses avoid them.
+ * Every field that changes is listed, flagged lossy when information is dropped.
+ */
+export async function planTagConversion(
+  projectId: number,
+  tags: ConvertibleTag[],
+  targetVendor: PLCVendor,
+  conn: Knex | Knex.Transaction = db
+): Promise<ProjectConversionPlan> {
+  const allocator = await AddressAllocator.forProject(projectId, conn, { excludeTagIds: tags.map(tag => tag.id) });
+  const pendingAddresses: Array<{ conversion: TagConversion; originalAddress: string; reason?: string }> = [];
+
+  const conversions: TagConversion[] = tags.map(tag => {
+    const sourceVendor = tag.vendor ? tag.vendor.toLowerCase() : null;
+    const mappings: TagFieldMapping[] = [];
+
+    // Data type (vendor dialect) and standard type
+    const originalDataType = (tag.data_type || tag.type || 'DINT').trim();
+    const dataType = convertDataType(originalDataType, tag.name, targetVendor);
+    if (dataType.dataType !== originalDataType.toUpperCase() || dataType.lossy) {
+      mappings.push({
+        field: 'data_type',
+        from: tag.data_type ?? null,
+        to: dataType.dataType,
+        lossy: dataType.lossy,
+        reason: dataType.reason || 'Normalised to upper case'
+      });
+    }
+
+    const originalType = (tag.type || originalDataType).trim();
+    let type = originalType.toUpperCase();
+    if (!validateDataTypeForVendor(type, targetVendor)) {
+      type = convertDataType(type, tag.name, targetVendor).dataType;
+      mappings.push({
+        field: 'type',
+        from: tag.type ?? null,
+        to: type,
+        lossy: true,
+        reason: `Type ${originalType} is not supported by ${targetVendor}`
+      });
+    }
+
+    // Scope
+    const originalScope = (tag.scope || 'global').toLowerCase();
+    const scope = validateScopeForVendor(originalScope, targetVendor) ? originalScope : 'global';
+    if (scope !== (tag.scope || '')) {
+      mappings.push({
+        field: 'scope',
+        from: tag.scope ?? null,
+        to: scope,
+        lossy: scope !== originalScope,
+        reason: scope !== originalScope ? `Scope ${originalScope} is not supported by ${targetVendor}` : 'Defaulted missing scope'
+      });
+    }
+
+    // Tag type
+    const originalTagType = (tag.tag_type || 'memory').toLowerCase();
+    let tagType = originalTagType;
+    if (!validateTagTypeForVendor(tagType, targetVendor)) {
+      tagType = TAG_TYPE_FALLBACK[tagType] || 'memory';
+      mappings.push({
+        field: 'tag_type',
+        from: tag.tag_type ?? null,
+        to: tagType,
+        lossy: true,
+        reason: `Tag type ${originalTagType} is not supported by ${targetVendor}`
+      });
+    }
+
+    if (sourceVendor !== targetVendor) {
+      mappings.push({ field: 'vendor', from: tag.vendor ?? null, to: targetVendor, lossy: false, reason: 'Target vendor' });
+    }
+
+    const conversion: TagConversion = {
+      tagId: tag.id,
+      name: tag.name,
+      sourceVendor,
+      converted: { type, data_type: dataType.dataType, address: '', vendor: targetVendor, scope, tag_type: tagType },
+      mappings,
+      lossy: false,
+      errors: []
+    };
+
+    // Addresses: keep when already valid for the target, translate process-image
+    // addresses between Siemens and Beckhoff, otherwise allocate after the first pass.
+    // Kept and translated addresses that hit a reservation or an earlier tag are reallocated too.
+    const originalAddress = (tag.address || '').trim();
+    const processImage = targetVendor !== 'rockwell' && originalAddress
+      ? parseProcessImageAddress(originalAddress, sourceVendor)
+      : null;
+
+    let candidate: string | null = null;
+    if (originalAddress && sourceVendor === targetVendor && validateAddressForVendor(originalAddress, targetVendor)) {
+      candidate = originalAddress;
+    } else if (processImage) {
+      const translated = formatProcessImageAddress(processImage, targetVendor as 'siemens' | 'beckhoff');
+      if (validateAddressForVendor(translated, targetVendor)) candidate = translated;
+    }
+
+    const addressed = { ...conversion.converted, name: tag.name, address: candidate };
+    if (candidate && allocator.isFree(addressed)) {
+      allocator.markUsed(addressed);
+      conversion.converted.address = candidate;
+      if (candidate !== originalAddress) {
+        mappings.push({ field: 'address', from: originalAddress, to: candidate, lossy: false, reason: 'Translated process-image address' });
+      }
+    } else {
+      pendingAddresses.push({
+        conversion,
+        originalAddress,
+        reason: candidate ? `Address ${candidate} is reserved or used by another tag; regenerated` : undefined
+      });
+    }
+
+    return conversion;
+  });
+
+  for (const { conversion, originalAddress, reason } of pendingAddresses) {
+    const { converted } = conversion;
+    const allocation = allocator.allocate({ ...converted, name: conversion.name, address: null });
+    // Types without an absolute address (strings, 64-bit values, full areas) fall back to a symbolic address
+    const address = 'error' in allocation ? conversion.name : allocation.address;
+    converted.address = address;
+    conversion.mappings.push({
+      field: 'address',
+      from: originalAddress || null,
+      to: address,
+      lossy: !!originalAddress,
+      reason: 'error' in allocation
+        ? `${allocation.error}; using the symbolic name`
+        : reason || (originalAddress
+          ? `Address ${originalAddress} has no ${converted.vendor} equivalent; regenerated`
+          : 'Generated missing address')
+    });
+  }
+
+  for (const conversion of conversions) {
+    conversion.lossy = conversion.mappings.some(m => m.lossy);
+
+    const validation = validateTagForVendor({ name: conversion.name, ...conversion.converted }, targetVendor);
+    conversion.errors = validation.errors;
+  }
+
+  return {
+    targetVendor,
+    totalTags: conversions.length,
+    unchangedCount: conversions.filter(c => c.mappings.length === 0).length,
+    lossyCount: conversions.filter(c => c.lossy).length,
+    errorCount: conversions.filter(c => c.errors.length > 0).length,
+    conversions
+  };
+}
@@ -0,0 +1,489 @@
+// tagCrossReference.ts
+// "Where used" analysis: resolves every identifier in Structured Text to project tags and
+// classifies each usage as read, write, FB call, FB input/output or declaration
+
+import db from '../db/knex';
+import { parseSTVariablesDetailed } from './stParser';
+import { isElementaryDataType } from './udt';
+
+export type TagUsageKind = 'read' | 'write' | 'fb_call' | 'fb_input' | 'fb_output' | 'declaration';
+
+export interface CodeSource {
+  kind: 'logic_studio' | 'version';
+  versionNumbers?: number[]; // every snapshot holding this exact code
+}
+
+export interface TagUsage {
+  kind: TagUsageKind;
+  line: number;
+  column: number;
+  text: string;      // trimmed source line
+  member?: string;   // member path after the tag, e.g. "Speed" for Motor1.Speed
+  viaAddress?: boolean;
+  source: CodeSource;
+}
+
+export interface TagCrossReference {
+  tagId: number;
+  name: string;
+  address?: string;
+  usages: TagUsage[];
+  counts: Record<TagUsageKind, number>;
+}
+
+export interface UndefinedIdentifier {
+  name: string;
+  occurrences: Array<{ line: number; column: number; text: string; source: CodeSource }>;
+}
+
+export interface ProjectCrossReference {
+  tags: TagCrossReference[];
+  unreferencedTags: Array<{ tagId: number; name: string }>;
+  undefinedIdentifiers: UndefinedIdentifier[];
+  sources: Array<CodeSource & { lines: number }>;
+}
+
+interface Token {
+  type: 'ident' | 'number' | 'string' | 'address' | 'op';
+  value: string;
+  line: number;
+  column: number;
+  quoted?: boolean; // Siemens "GlobalTag"
+  local?: boolean;  // Siemens #localVar
+}
+
+interface CrossReferenceTag {
+  id: number;
+  name: string;
+  address?: string | null;
+}
+
+interface RawUsage {
+  name: string;
+  kind: TagUsageKind;
+  line: number;
+  column: number;
+  member?: string;
+  address?: boolean;
+  local?: boolean;
+  quoted?: boolean;
+}
+
+const KEYWORDS = new Set([
+  'IF', 'THEN', 'ELSE', 'ELSIF', 'END_IF', 'CASE', 'OF', 'END_CASE', 'FOR', 'TO', 'BY', 'DO', 'END_FOR',
+  'WHILE', 'END_WHILE', 'REPEAT', 'UNTIL', 'END_REPEAT', 'RETURN', 'EXIT', 'CONTINUE',
+  'AND', 'OR', 'XOR', 'NOT', 'MOD', 'AND_THEN', 'OR_ELSE', 'TRUE', 'FALSE',
+  'PROGRAM', 'END_PROGRAM', 'FUNCTION', 'END_FUNCTION', 'FUNCTION_BLOCK', 'END_FUNCTION_BLOCK',
+  'ORGANIZATION_BLOCK', 'END_ORGANIZATION_BLOCK', 'DATA_BLOCK', 'END_DATA_BLOCK', 'BEGIN',
+  'METHOD', 'END_METHOD', 'PROPERTY', 'END_PROPERTY', 'TYPE', 'END_TYPE', 'STRUCT', 'END_STRUCT',
+  'VAR', 'VAR_INPUT', 'VAR_OUTPUT', 'VAR_IN_OUT', 'VAR_GLOBAL', 'VAR_LOCAL', 'VAR_TEMP', 'VAR_STAT',
+  'VAR_EXTERNAL', 'VAR_CONFIG', 'VAR_INST', 'END_VAR', 'CONSTANT', 'RETAIN', 'PERSISTENT', 'AT',
+  'ARRAY', 'POINTER', 'REFERENCE', 'REF_TO', 'THIS', 'SUPER', 'EXTENDS', 'IMPLEMENTS', 'REGION', 'END_REGION'
+]);
+
+// Standard functions and FB types; calls to these are not FB instance calls
+const STANDARD_FUNCTIONS = new Set([
+  'ABS', 'SQRT', 'LN', 'LOG', 'EXP', 'EXPT', 'SIN', 'COS', 'TAN', 'ASIN', 'ACOS', 'ATAN', 'ATAN2',
+  'MIN', 'MAX', 'LIMIT', 'SEL', 'MUX', 'MOVE', 'TRUNC', 'ROUND', 'CEIL', 'FLOOR',
+  'SHL', 'SHR', 'ROL', 'ROR', 'LEN', 'LEFT', 'RIGHT', 'MID', 'CONCAT', 'INSERT', 'DELETE', 'REPLACE', 'FIND',
+  'SIZEOF', 'ADR', 'REF', 'NORM_X', 'SCALE_X', 'SCALE', 'UNSCALE',
+  'TON', 'TOF', 'TP', 'TONR', 'CTU', 'CTD', 'CTUD', 'R_TRIG', 'F_TRIG', 'RS', 'SR',
+  'TIMER', 'COUNTER', 'IEC_TIMER'
+]);
+
+/**
+ * Tokenize ST for cross-referencing. Comments are dropped; single-quoted strings and typed
+ * literals (T#5s, 16#FF) become literals; "quoted" names and #locals stay identifiers.
+ */
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: Token['type'], value: string, start: number, extra: Partial<Token> = {}) => {
+    tokens.push({ type, value, line, column: start - lineStart + 1, ...extra });
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+      lineStart = i;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Comments: // line, (* block *), /* block */
+    if (code.startsWith('//', i)) {
+      while (i < code.length && code[i] !== '\n') i++;
+      continue;
+    }
+    if (code.startsWith('(*', i) || code.startsWith('/*', i)) {
+      const close = code[i] === '(' ? '*)' : '*/';
+      const end = code.indexOf(close, i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      for (; i < stop; i++) {
+        if (code[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+      continue;
+    }
+
+    const start = i;
+
+    if (ch === "'") {
+      i++;
+      while (i < code.length && code[i] !== "'" && code[i] !== '\n') {
+        if (code[i] === '$') i++;
+        i++;
+      }
+      i++;
+      push('string', code.slice(start, i), start);
+      continue;
+    }
+
+    if (ch === '"') {
+      const end = code.indexOf('"', i + 1);
+      const stop = end === -1 || code.slice(i, end).includes('\n') ? i + 1 : end + 1;
+      push('ident', code.slice(i + 1, stop - 1), start, { quoted: true });
+      i = stop;
+      continue;
+    }
+
+    // Direct addresses: %IX0.1, %MW10, %Q2.3
+    if (ch === '%') {
+      const match = code.slice(i).match(/^%[IQM][XBWDL]?\d+(?:\.\d+)?/i);
+      if (match) {
+        push('address', match[0], start);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '#' && /[A-Za-z_]/.test(code[i + 1] || '')) {
+      const match = code.slice(i + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      push('ident', match[0], start, { local: true });
+      i += match[0].length + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = code.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      i += match[0].length;
+      // Typed literal such as T#5s, TIME#1h, INT#5, E_Mode#Auto
+      if (code[i] === '#') {
+        const rest = code.slice(i + 1).match(/^[A-Za-z0-9_.:+-]*/)!;
+        i += rest[0].length + 1;
+        push('number', code.slice(start, i), start);
+        continue;
+      }
+      push('ident', match[0], start);
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      const match = code.slice(i).match(/^\d[\d_]*(?:#[0-9A-Fa-f_]+|\.\d[\d_]*(?:[eE][+-]?\d+)?|[eE][+-]?\d+)?/)!;
+      i += match[0].length;
+      push('number', match[0], start);
+      continue;
+    }
+
+    const op = [':=', '=>', '<=', '>=', '<>', '..', '**'].find(o => code.startsWith(o, i)) || ch;
+    i += op.length;
+    push('op', op, start);
+  }
+
+  return tokens;
+}
+
+// Skip a bracketed group starting at tokens[index] ('[' or '('); returns the index after it
+function skipGroup(tokens: Token[], index: number): number {
+  const open = tokens[index].value;
+  const close = open === '[' ? ']' : ')';
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].value === open) depth++;
+    else if (tokens[i].value === close && --depth === 0) return i + 1;
+  }
+  return tokens.length;
+}
+
+// Keywords that introduce a POU or type name: FUNCTION_BLOCK FB_Pump, TYPE ST_Motor
+const POU_KEYWORDS = new Set(['PROGRAM', 'FUNCTION', 'FUNCTION_BLOCK', 'METHOD', 'PROPERTY', 'TYPE', 'ORGANIZATION_BLOCK', 'DATA_BLOCK']);
+
+/**
+ * Find identifier usages in one piece of code. Locals declared in VAR blocks and POU names
+ * are returned separately so they are neither tag matches nor undefined identifiers.
+ */
+function scanUsages(code: string): { usages: RawUsage[]; locals: Map<string, string>; pous: Map<string, string> } {
+  const tokens = tokenize(code);
+  const usages: RawUsage[] = [];
+  const locals = new Map<string, string>(); // upper-case name -> declared type
+  const pous = new Map<string, string>();   // upper-case name -> POU keyword
+
+  for (let i = 1; i < tokens.length; i++) {
+    const keyword = tokens[i - 1].value.toUpperCase();
+    if (tokens[i].type === 'ident' && tokens[i - 1].type === 'ident' && POU_KEYWORDS.has(keyword)) {
+      pous.set(tokens[i].value.toUpperCase(), keyword);
+    }
+  }
+
+  // Declared types from the line-based variable extraction, used to recognise FB instances
+  const declaredTypes = new Map<number, string>();
+  for (const variable of parseSTVariablesDetailed(code)) {
+    if (variable.line) declaredTypes.set(variable.line, variable.dataType);
+  }
+
+  // Open call contexts: FB instance calls treat their arguments as FB inputs / outputs
+  const calls: Array<{ fb: boolean; depth: number }> = [];
+  let depth = 0;
+  let inVarBlock = false;
+  let inTypeBlock = false;
+  let declaring = true; // inside a VAR block, before the ':' of the current declaration
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const upper = token.value.toUpperCase();
+
+    // Type declarations only define members; nothing inside them is a usage
+    if (token.type === 'ident' && !token.quoted && (upper === 'TYPE' || upper === 'END_TYPE')) {
+      inTypeBlock = upper === 'TYPE';
+      continue;
+    }
+    if (inTypeBlock) continue;
+
+    if (token.type === 'ident' && pous.has(upper) && POU_KEYWORDS.has(tokens[i - 1]?.value.toUpperCase())) continue;
+
+    if (token.type === 'ident' && !token.quoted && !token.local) {
+      if (/^VAR(_\w+)?$/.test(upper) && KEYWORDS.has(upper)) {
+        inVarBlock = true;
+        declaring = true;
+        continue;
+      }
+      if (upper === 'END_VAR') {
+        inVarBlock = false;
+        continue;
+      }
+    }
+
+    if (inVarBlock) {
+      if (token.value === ';') {
+        declaring = true;
+      } else if (token.value === ':' && declaring) {
+        declaring = false;
+        // Record the declared type (first identifier after ':') for every name in this declaration
+        const typeToken = tokens.slice(i + 1).find(t => t.type === 'ident' && !['ARRAY', 'OF'].includes(t.value.toUpperCase()));
+        let j = i - 1;
+        while (j >= 0 && tokens[j].type === 'ident') {
+          const declaredType = declaredTypes.get(tokens[j].line) || typeToken?.value.toUpperCase() || '';
+          locals.set(tokens[j].value.toUpperCase(), declaredType);
+          usages.push({ name: tokens[j].value, kind: 'declaration', line: tokens[j].line, column: tokens[j].column });
+          if (tokens[j - 1]?.value !== ',') break;
+          j -= 2;
+        }
+      } else if (!declaring && token.type === 'ident' && (token.quoted || !KEYWORDS.has(upper))) {
+        // Initial values and array bounds may reference constants or tags; the declared type itself does not
+        const prev = tokens[i - 1];
+        if (prev && prev.value !== ':' && prev.value.toUpperCase() !== 'OF' && prev.value !== '.') {
+          usages.push({ name: token.value, kind: 'read', line: token.line, column: token.column, quoted: token.quoted });
+        }
+      }
+      continue;
+    }
+
+    if (token.value === '(') {
+      depth++;
+      continue;
+    }
+    if (token.value === ')') {
+      if (calls.length > 0 && calls[calls.length - 1].depth === depth) calls.pop();
+      depth--;
+      continue;
+    }
+
+    if (token.type === 'address') {
+      const next = tokens[i + 1]?.value;
+      const kind: TagUsageKind = next === ':=' ? 'write' : tokens[i - 1]?.value === '=>' ? 'fb_output' : calls.some(c => c.fb) ? 'fb_input' : 'read';
+      usages.push({ name: token.value, kind, line: token.line, column: token.column, address: true });
+      continue;
+    }
+
+    if (token.type !== 'ident') continue;
+    if (!token.quoted && !token.local && (KEYWORDS.has(upper) || isElementaryDataType(upper))) continue;
+
+    // Members (Motor.Speed) belong to the identifier before the dot
+    if (tokens[i - 1]?.value === '.') continue;
+
+    // Member path and the token following the whole lvalue (skipping index groups)
+    const members: string[] = [];
+    let end = i + 1;
+    while (end < tokens.length) {
+      if (tokens[end].value === '.' && tokens[end + 1]?.type === 'ident') {
+        members.push(tokens[end + 1].value);
+        end += 2;
+      } else if (tokens[end].value === '[') {
+        end = skipGroup(tokens, end);
+      } else {
+        break;
+      }
+    }
+    const next = tokens[end]?.value;
+    const innermostCall = calls[calls.length - 1];
+    const member = members.length > 0 ? members.join('.') : undefined;
+    const base = { name: token.value, line: token.line, column: token.column, member, local: token.local, quoted: token.quoted };
+
+    // Named call parameters (IN := x, Q => y) are not variable usages
+    if (innermostCall && innermostCall.depth === depth && (next === ':=' || next === '=>') && members.length === 0) {
+      continue;
+    }
+
+    if (next === '(') {
+      const fb = (!STANDARD_FUNCTIONS.has(upper) && pous.get(upper) !== 'FUNCTION') || member !== undefined;
+      const declared = locals.get(upper);
+      const isInstance = fb && (member !== undefined || !declared || !isElementaryDataType(declared));
+      if (isInstance) {
+        usages.push({ ...base, kind: 'fb_call' });
+      } else if (!STANDARD_FUNCTIONS.has(upper) && !pous.has(upper)) {
+        usages.push({ ...base, kind: 'read' });
+      }
+      calls.push({ fb: isInstance, depth: depth + 1 });
+      continue;
+    }
+
+    let kind: TagUsageKind = 'read';
+    if (tokens[i - 1]?.value === '=>') {
+      kind = 'fb_output';
+    } else if (next === ':=') {
+      kind = 'write';
+    } else if (calls.some(c => c.fb)) {
+      kind = 'fb_input';
+    }
+    usages.push({ ...base, kind });
+  }
+
+  return { usages, locals, pous };
+}
+
+function normalizeAddress(address: string): string {
+  return address.trim().replace(/^%/, '').toUpperCase();
+}
+
+function emptyCounts(): Record<TagUsageKind, number> {
+  return { read: 0, write: 0, fb_call: 0, fb_input: 0, fb_output: 0, declaration: 0 };
+}
+
+/**
+ * Cross-reference tags against one or more code sources.
+ * Names match case-insensitively, as ST identifiers do; direct addresses match tag addresses.
+ * Unreferenced tags and undefined identifiers are judged on the first source (the current code).
+ */
+export function crossReferenceTags(
+  tags: CrossReferenceTag[],
+  sources: Array<{ source: CodeSource; code: string }>
+): ProjectCrossReference {
+  const byName = new Map<string, TagCrossReference>();
+  const byAddress = new Map<string, TagCrossReference>();
+  const results: TagCrossReference[] = [];
+
+  for (const tag of tags) {
+    const entry: TagCrossReference = { tagId: tag.id, name: tag.name, address: tag.address || undefined, usages: [], counts: emptyCounts() };
+    results.push(entry);
+    byName.set(tag.name.toUpperCase(), entry);
+    if (tag.address) byAddress.set(normalizeAddress(tag.address), entry);
+  }
+
+  const undefinedByName = new Map<string, UndefinedIdentifier>();
+  const referencedInCurrent = new Set<number>();
+
+  sources.forEach(({ source, code }, index) => {
+    const lines = code.split('\n');
+    const { usages, locals, pous } = scanUsages(code);
+
+    for (const usage of usages) {
+      const text = (lines[usage.line - 1] || '').trim();
+      const upper = usage.name.toUpperCase();
+
+      // #local and names declared in the code's own VAR blocks shadow tags, except declarations of a tag
+      const shadowed = usage.local || (locals.has(upper) && usage.kind !== 'declaration' && !usage.quoted);
+      const entry = usage.address ? byAddress.get(normalizeAddress(usage.name)) : shadowed ? undefined : byName.get(upper);
+
+      if (entry) {
+        entry.usages.push({ kind: usage.kind, line: usage.line, column: usage.column, text, member: usage.member, viaAddress: usage.address || undefined, source });
+        entry.counts[usage.kind]++;
+        if (index === 0 && usage.kind !== 'declaration') referencedInCurrent.add(entry.tagId);
+        continue;
+      }
+
+      if (index === 0 && !usage.address && !usage.local && !locals.has(upper) && !pous.has(upper) && usage.kind !== 'declaration' && !STANDARD_FUNCTIONS.has(upper)) {
+        const undefinedEntry = undefinedByName.get(upper) || { name: usage.name, occurrences: [] };
+        undefinedEntry.occurrences.push({ line: usage.line, column: usage.column, text, source });
+        undefinedByName.set(upper, undefinedEntry);
+      }
+    }
+  });
+
+  return {
+    tags: results,
+    unreferencedTags: results.filter(r => !referencedInCurrent.has(r.tagId)).map(r => ({ tagId: r.tagId, name: r.name })),
+    undefinedIdentifiers: [...undefinedByName.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    sources: sources.map(({ source, code }) => ({ ...source, lines: code.split('\n').length }))
+  };
+}
+
+// Code stored in a version snapshot; older snapshots keep it in different places
+function snapshotCode(data: any): string {
+  return data?.logicStudioCode || data?.logic?.code || data?.state?.editorCode || data?.autosaveState?.editorCode || '';
+}
+
+/**
+ * Cross-reference a project's tags against its current Logic Studio code and,
+ * optionally, the code in its version snapshots (identical snapshots are scanned once).
+ */
+export async function buildProjectCrossReference(
+  projectId: number,
+  options: { includeVersions?: boolean } = {}
+): Promise<ProjectCrossReference> {
+  const tags = await db('tags')
+    .where({ project_id: projectId })
+    .select('id', 'name', 'address')
+    .orderBy('name');
+
+  const logicStudio = await db('logic_studio')
+    .where({ project_id: projectId })
+    .first();
+
+  const sources: Array<{ source: CodeSource; code: string }> = [
+    { source: { kind: 'logic_studio' }, code: logicStudio?.code || '' }
+  ];
+
+  if (options.includeVersions) {
+    const versions = await db('project_versions')
+      .where({ project_id: projectId })
+      .select('version_number', 'data')
+      .orderBy('version_number', 'desc');
+
+    // Snapshots identical to the current code add nothing; identical snapshots share one source
+    const byCode = new Map<string, { source: CodeSource; code: string }>();
+    for (const version of versions) {
+      const code = snapshotCode(version.data);
+      if (!code || code === sources[0].code) continue;
+      const existing = byCode.get(code);
+      if (existing) {
+        existing.source.versionNumbers!.push(version.version_number);
+      } else {
+        byCode.set(code, { source: { kind: 'version', versionNumbers: [version.version_number] }, code });
+      }
+    }
+    sources.push(...byCode.values());
+  }
+
+  return crossReferenceTags(tags, sources);
+}
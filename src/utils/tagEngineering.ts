@@ -0,0 +1,260 @@
+// tagEngineering.ts
+// Engineering metadata of analog tags: units, raw/engineering scaling, clamp limits,
+// HH/H/L/LL alarms with deadbands and priorities, and the instrument loop number.
+// Vendor tag tables have no columns for these, so exports carry them in the comment
+// as a trailing block, e.g. "Feed flow [EU=m3/h; RAW=0..27648; ENG=0..120; HH=110/2/800; LOOP=FIC-101]".
+
+import { TagEngineeringFields } from '../db/tables/tags';
+
+export const ALARM_LEVELS = ['hh', 'h', 'l', 'll'] as const;
+export type AlarmLevel = typeof ALARM_LEVELS[number];
+
+const TEXT_FIELDS = ['engineering_unit', 'loop_number'] as const;
+const RANGE_FIELDS = ['raw_min', 'raw_max', 'eng_min', 'eng_max', 'clamp_min', 'clamp_max'] as const;
+const ALARM_FIELDS = ALARM_LEVELS.flatMap(level => [`alarm_${level}`, `alarm_${level}_deadband`, `alarm_${level}_priority`]);
+
+export const ENGINEERING_FIELDS = [...TEXT_FIELDS, ...RANGE_FIELDS, ...ALARM_FIELDS] as Array<keyof TagEngineeringFields>;
+
+const MAX_TEXT_LENGTH = 64;
+const MAX_PRIORITY = 1000;
+
+// Types that carry a scalable value; scaling, clamps and alarm limits only make sense for these
+const ANALOG_TYPES = new Set([
+  'SINT', 'INT', 'DINT', 'LINT', 'USINT', 'UINT', 'UDINT', 'ULINT',
+  'BYTE', 'WORD', 'DWORD', 'LWORD', 'REAL', 'LREAL'
+]);
+
+function isPriorityField(field: string): boolean {
+  return field.endsWith('_priority');
+}
+
+/**
+ * Read engineering fields from a request body. Only fields present in the body are returned;
+ * null or '' clears a field.
+ */
+export function parseEngineeringInput(body: any): { values: TagEngineeringFields; errors: string[] } {
+  const values: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const field of ENGINEERING_FIELDS) {
+    if (!body || body[field] === undefined) continue;
+    const raw = body[field];
+
+    if (raw === null || raw === '') {
+      values[field] = null;
+      continue;
+    }
+
+    if ((TEXT_FIELDS as readonly string[]).includes(field)) {
+      const text = String(raw).trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        errors.push(`${field} must be at most ${MAX_TEXT_LENGTH} characters`);
+      } else if (/[\[\];]/.test(text)) {
+        errors.push(`${field} must not contain '[', ']' or ';'`);
+      } else {
+        values[field] = text || null;
+      }
+      continue;
+    }
+
+    const num = typeof raw === 'number' ? raw : Number(String(raw).trim());
+    if (!Number.isFinite(num)) {
+      errors.push(`${field} must be a number`);
+    } else if (isPriorityField(field) && (!Number.isInteger(num) || num < 1 || num > MAX_PRIORITY)) {
+      errors.push(`${field} must be an integer from 1 to ${MAX_PRIORITY}`);
+    } else {
+      values[field] = num;
+    }
+  }
+
+  return { values: values as TagEngineeringFields, errors };
+}
+
+function isSet(value: any): boolean {
+  return value !== undefined && value !== null;
+}
+
+export function hasEngineeringData(tag: TagEngineeringFields): boolean {
+  return ENGINEERING_FIELDS.some(field => isSet(tag[field]));
+}
+
+/**
+ * Cross-field checks on a tag's complete engineering data (stored values merged with updates).
+ */
+export function validateEngineering(tag: TagEngineeringFields & { type?: string | null; data_type?: string | null }): string[] {
+  const errors: string[] = [];
+
+  const numericFields = [...RANGE_FIELDS, ...ALARM_FIELDS] as Array<keyof TagEngineeringFields>;
+  const usesNumbers = numericFields.some(field => isSet(tag[field]));
+  const types = [tag.data_type, tag.type].filter(Boolean).map(t => t!.toUpperCase());
+  if (usesNumbers && types.length > 0 && !types.some(t => ANALOG_TYPES.has(t))) {
+    errors.push(`Scaling, clamp and alarm limits require a numeric data type, not ${tag.data_type || tag.type}`);
+  }
+
+  const checkRange = (label: string, min: keyof TagEngineeringFields, max: keyof TagEngineeringFields) => {
+    const lo = tag[min] as number | null | undefined;
+    const hi = tag[max] as number | null | undefined;
+    if (isSet(lo) !== isSet(hi)) {
+      errors.push(`${label} needs both ${min} and ${max}`);
+    } else if (isSet(lo) && lo! >= hi!) {
+      errors.push(`${min} must be less than ${max}`);
+    }
+  };
+
+  checkRange('Raw range', 'raw_min', 'raw_max');
+  checkRange('Engineering range', 'eng_min', 'eng_max');
+  if (isSet(tag.clamp_min) && isSet(tag.clamp_max) && tag.clamp_min! >= tag.clamp_max!) {
+    errors.push('clamp_min must be less than clamp_max');
+  }
+
+  // Scaling maps one range onto the other, so both must be given
+  if (isSet(tag.raw_min) !== isSet(tag.eng_min)) {
+    errors.push('Scaling needs both a raw range and an engineering range');
+  }
+
+  for (const level of ALARM_LEVELS) {
+    const setpoint = tag[`alarm_${level}` as keyof TagEngineeringFields];
+    const deadband = tag[`alarm_${level}_deadband` as keyof TagEngineeringFields] as number | null | undefined;
+    const priority = tag[`alarm_${level}_priority` as keyof TagEngineeringFields];
+    if (!isSet(setpoint) && (isSet(deadband) || isSet(priority))) {
+      errors.push(`alarm_${level} deadband and priority need an alarm_${level} setpoint`);
+    }
+    if (isSet(deadband) && deadband! < 0) {
+      errors.push(`alarm_${level}_deadband must not be negative`);
+    }
+  }
+
+  // Limits must be ordered LL < L < H < HH for those that are set
+  const ordered = [...ALARM_LEVELS].reverse()
+    .map(level => ({ level, value: tag[`alarm_${level}` as keyof TagEngineeringFields] as number | null | undefined }))
+    .filter(a => isSet(a.value));
+  for (let i = 1; i < ordered.length; i++) {
+    if (ordered[i - 1].value! >= ordered[i].value!) {
+      errors.push(`alarm_${ordered[i - 1].level} must be below alarm_${ordered[i].level}`);
+    }
+  }
+
+  return errors;
+}
+
+/** The engineering fields present on a tag, for inserts and updates */
+export function pickEngineeringFields(tag: TagEngineeringFields): TagEngineeringFields {
+  const picked: Record<string, any> = {};
+  for (const field of ENGINEERING_FIELDS) {
+    if (tag[field] !== undefined) picked[field] = tag[field];
+  }
+  return picked as TagEngineeringFields;
+}
+
+// --- Comment block used by vendor exports ---
+
+function formatNumber(value: number | null | undefined): string {
+  return isSet(value) ? String(value) : '';
+}
+
+/**
+ * Append the engineering block to a tag comment; comments of tags without engineering data are unchanged.
+ */
+export function formatEngineeringComment(description: string | null | undefined, tag: TagEngineeringFields): string {
+  const text = description || '';
+  if (!hasEngineeringData(tag)) return text;
+
+  const parts: string[] = [];
+  if (tag.engineering_unit) parts.push(`EU=${tag.engineering_unit}`);
+  if (isSet(tag.raw_min)) parts.push(`RAW=${tag.raw_min}..${tag.raw_max}`);
+  if (isSet(tag.eng_min)) parts.push(`ENG=${tag.eng_min}..${tag.eng_max}`);
+  if (isSet(tag.clamp_min) || isSet(tag.clamp_max)) parts.push(`CLAMP=${formatNumber(tag.clamp_min)}..${formatNumber(tag.clamp_max)}`);
+  for (const level of ALARM_LEVELS) {
+    const setpoint = tag[`alarm_${level}` as keyof TagEngineeringFields] as number | null | undefined;
+    if (!isSet(setpoint)) continue;
+    const deadband = tag[`alarm_${level}_deadband` as keyof TagEngineeringFields] as number | null | undefined;
+    const priority = tag[`alarm_${level}_priority` as keyof TagEngineeringFields] as number | null | undefined;
+    parts.push(`${level.toUpperCase()}=${setpoint}/${formatNumber(deadband)}/${formatNumber(priority)}`.replace(/\/+$/, ''));
+  }
+  if (tag.loop_number) parts.push(`LOOP=${tag.loop_number}`);
+
+  const block = `[${parts.join('; ')}]`;
+  return text ? `${text} ${block}` : block;
+}
+
+const BLOCK_KEYS = new Set(['EU', 'RAW', 'ENG', 'CLAMP', 'HH', 'H', 'L', 'LL', 'LOOP']);
+
+/**
+ * Split a comment into its text and the engineering block written by formatEngineeringComment.
+ * When a block is present every engineering field is returned, unset ones as null, so an
+ * imported block replaces the stored values. Comments without a block return no values.
+ */
+export function parseEngineeringComment(comment: string | null | undefined): { description: string; values: TagEngineeringFields | null; errors: string[] } {
+  const text = comment || '';
+  const match = text.match(/^(.*?)\s*\[([^\[\]]*)\]\s*$/s);
+  if (!match) return { description: text, values: null, errors: [] };
+
+  const entries = match[2].split(';').map(part => part.trim()).filter(Boolean).map(part => {
+    const eq = part.indexOf('=');
+    return eq > 0 ? [part.slice(0, eq).trim().toUpperCase(), part.slice(eq + 1).trim()] : [part, ''];
+  });
+  // Only treat the brackets as ours when every entry has a known key; "[spare]" stays in the comment
+  if (entries.length === 0 || !entries.every(([key]) => BLOCK_KEYS.has(key))) {
+    return { description: text, values: null, errors: [] };
+  }
+
+  const input: Record<string, any> = {};
+  for (const field of ENGINEERING_FIELDS) input[field] = null;
+  const errors: string[] = [];
+
+  const range = (value: string, min: string, max: string, key: string) => {
+    const bounds = value.match(/^(-?[\d.eE+-]*)\.\.(-?[\d.eE+-]*)$/);
+    if (!bounds) {
+      errors.push(`Engineering block ${key} must look like min..max`);
+      return;
+    }
+    input[min] = bounds[1];
+    input[max] = bounds[2];
+  };
+
+  for (const [key, value] of entries) {
+    switch (key) {
+      case 'EU':
+        input.engineering_unit = value;
+        break;
+      case 'LOOP':
+        input.loop_number = value;
+        break;
+      case 'RAW':
+        range(value, 'raw_min', 'raw_max', key);
+        break;
+      case 'ENG':
+        range(value, 'eng_min', 'eng_max', key);
+        break;
+      case 'CLAMP':
+        range(value, 'clamp_min', 'clamp_max', key);
+        break;
+      default: {
+        const level = key.toLowerCase();
+        const [setpoint, deadband, priority] = value.split('/');
+        input[`alarm_${level}`] = setpoint;
+        input[`alarm_${level}_deadband`] = deadband;
+        input[`alarm_${level}_priority`] = priority;
+      }
+    }
+  }
+
+  const parsed = parseEngineeringInput(input);
+  const values: Record<string, any> = {};
+  for (const field of ENGINEERING_FIELDS) values[field] = parsed.values[field] ?? null;
+
+  return { description: match[1], values: values as TagEngineeringFields, errors: [...errors, ...parsed.errors] };
+}
+
+/**
+ * Move an engineering block from an imported tag's description into its fields.
+ * Returns row errors for a malformed block or inconsistent values.
+ */
+export function applyEngineeringComment<T extends TagEngineeringFields & { description?: string; type?: string; data_type?: string }>(tag: T): string[] {
+  const { description, values, errors } = parseEngineeringComment(tag.description);
+  if (!values) return [];
+
+  tag.description = description;
+  Object.assign(tag, values);
+  return errors.length > 0 ? errors : validateEngineering(tag);
+}
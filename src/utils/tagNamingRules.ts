@@ -0,0 +1,389 @@
+// tagNamingRules.ts
+// Organization-level tag naming conventions: regex patterns, required prefixes by
+// scope / tag type, reserved words and max lengths per vendor. Checked on top of
+// validateTagForVendor, with a suggested compliant name for every violation.
+
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import type { ParsedTagImport } from '../services/tagImportPipeline';
+import { projectOrganizationId } from './projectOrganization';
+import { unsafeRegexReason } from './safeRegex';
+
+const RULE_VENDORS = ['siemens', 'rockwell', 'beckhoff'] as const;
+const MAX_PATTERN_LENGTH = 500;
+
+// Optional conditions limiting a rule to some tags; unset fields match everything
+export interface NamingRuleCondition {
+  vendor?: string;
+  scope?: string;
+  tag_type?: string;
+  type?: string;
+}
+
+export interface NamingPatternRule extends NamingRuleCondition {
+  name?: string;
+  pattern: string;        // tested as written, so anchor with ^...$ for whole-name rules
+  flags?: string;         // only 'i' is allowed
+  description?: string;   // e.g. 'ISA-5.1 AREA_EQUIP_FUNC_NN'
+}
+
+export interface RequiredPrefixRule extends NamingRuleCondition {
+  name?: string;
+  prefix: string;
+}
+
+export interface TagNamingRules {
+  patterns: NamingPatternRule[];
+  requiredPrefixes: RequiredPrefixRule[];
+  reservedWords: string[];
+  maxLength: { default?: number; siemens?: number; rockwell?: number; beckhoff?: number };
+}
+
+export type NamingRuleKind = 'pattern' | 'required_prefix' | 'reserved_word' | 'max_length';
+
+export interface NamingRuleViolation {
+  rule: NamingRuleKind;
+  ruleName: string;
+  message: string;
+}
+
+export interface NamingCheckResult {
+  isValid: boolean;
+  violations: NamingRuleViolation[];
+  suggestedName?: string;
+}
+
+// Fields of a tag the rules look at
+export interface NamedTag {
+  name: string;
+  vendor?: string | null;
+  scope?: string | null;
+  tag_type?: string | null;
+  type?: string | null;
+}
+
+export class NamingRulesError extends Error {}
+
+export const EMPTY_NAMING_RULES: TagNamingRules = { patterns: [], requiredPrefixes: [], reservedWords: [], maxLength: {} };
+
+function optionalText(value: any, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new NamingRulesError(`${field} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+function normalizeCondition(input: any, field: string): NamingRuleCondition {
+  const condition: NamingRuleCondition = {
+    vendor: optionalText(input.vendor, `${field}.vendor`)?.toLowerCase(),
+    scope: optionalText(input.scope, `${field}.scope`)?.toLowerCase(),
+    tag_type: optionalText(input.tag_type, `${field}.tag_type`)?.toLowerCase(),
+    type: optionalText(input.type, `${field}.type`)?.toUpperCase()
+  };
+  if (condition.vendor && !(RULE_VENDORS as readonly string[]).includes(condition.vendor)) {
+    throw new NamingRulesError(`${field}.vendor must be one of: ${RULE_VENDORS.join(', ')}`);
+  }
+  return condition;
+}
+
+/**
+ * Validate and normalize a rules payload from the API or the database.
+ * Throws NamingRulesError with a message naming the offending field.
+ */
+export function normalizeNamingRules(input: any): TagNamingRules {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new NamingRulesError('Naming rules must be an object');
+  }
+
+  if (!Array.isArray(input.patterns ?? []) || !Array.isArray(input.requiredPrefixes ?? [])) {
+    throw new NamingRulesError('patterns and requiredPrefixes must be arrays');
+  }
+
+  const patterns = (input.patterns ?? []).map((rule: any, i: number) => {
+    const field = `patterns[${i}]`;
+    if (!rule || typeof rule.pattern !== 'string' || !rule.pattern.trim()) {
+      throw new NamingRulesError(`${field}.pattern is required`);
+    }
+    if (rule.pattern.length > MAX_PATTERN_LENGTH) {
+      throw new NamingRulesError(`${field}.pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+    }
+    const flags = optionalText(rule.flags, `${field}.flags`);
+    if (flags && flags !== 'i') {
+      throw new NamingRulesError(`${field}.flags may only be 'i'`);
+    }
+    try {
+      new RegExp(rule.pattern, flags);
+    } catch (error: any) {
+      throw new NamingRulesError(`${field}.pattern is not a valid regular expression: ${error.message}`);
+    }
+    // Patterns run on every tag of every import and sync
+    const unsafe = unsafeRegexReason(rule.pattern, flags);
+    if (unsafe) {
+      throw new NamingRulesError(`${field}.pattern is not allowed: it ${unsafe}`);
+    }
+    return {
+      name: optionalText(rule.name, `${field}.name`),
+      pattern: rule.pattern,
+      flags,
+      description: optionalText(rule.description, `${field}.description`),
+      ...normalizeCondition(rule, field)
+    };
+  });
+
+  const requiredPrefixes = (input.requiredPrefixes ?? []).map((rule: any, i: number) => {
+    const field = `requiredPrefixes[${i}]`;
+    const prefix = optionalText(rule?.prefix, `${field}.prefix`);
+    if (!prefix) {
+      throw new NamingRulesError(`${field}.prefix is required`);
+    }
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new NamingRulesError(`${field}.prefix may only contain letters, numbers and underscores`);
+    }
+    return { name: optionalText(rule.name, `${field}.name`), prefix, ...normalizeCondition(rule, field) };
+  });
+
+  const reservedWords = input.reservedWords ?? [];
+  if (!Array.isArray(reservedWords) || reservedWords.some((w: any) => typeof w !== 'string')) {
+    throw new NamingRulesError('reservedWords must be an array of strings');
+  }
+
+  const maxLength: TagNamingRules['maxLength'] = {};
+  for (const [key, value] of Object.entries(input.maxLength ?? {})) {
+    if (key !== 'default' && !(RULE_VENDORS as readonly string[]).includes(key)) {
+      throw new NamingRulesError(`maxLength.${key} is not a vendor; use default, ${RULE_VENDORS.join(', ')}`);
+    }
+    if (!Number.isInteger(value) || (value as number) < 1) {
+      throw new NamingRulesError(`maxLength.${key} must be a positive integer`);
+    }
+    maxLength[key as keyof TagNamingRules['maxLength']] = value as number;
+  }
+
+  return {
+    patterns,
+    requiredPrefixes,
+    reservedWords: [...new Set(reservedWords.map((w: string) => w.trim()).filter(Boolean))] as string[],
+    maxLength
+  };
+}
+
+export function hasNamingRules(rules: TagNamingRules | null | undefined): rules is TagNamingRules {
+  return !!rules && (
+    rules.patterns.length > 0 ||
+    rules.requiredPrefixes.length > 0 ||
+    rules.reservedWords.length > 0 ||
+    Object.keys(rules.maxLength).length > 0
+  );
+}
+
+function appliesTo(condition: NamingRuleCondition, tag: NamedTag): boolean {
+  return (!condition.vendor || condition.vendor === (tag.vendor || '').toLowerCase()) &&
+    (!condition.scope || condition.scope === (tag.scope || '').toLowerCase()) &&
+    (!condition.tag_type || condition.tag_type === (tag.tag_type || '').toLowerCase()) &&
+    (!condition.type || condition.type === (tag.type || '').toUpperCase());
+}
+
+function describeCondition(condition: NamingRuleCondition): string {
+  const parts = (['vendor', 'scope', 'tag_type', 'type'] as const)
+    .filter(key => condition[key])
+    .map(key => `${key} ${condition[key]}`);
+  return parts.length > 0 ? ` for ${parts.join(', ')}` : '';
+}
+
+// Number of conditions set; the most specific prefix rule drives suggestions
+function specificity(condition: NamingRuleCondition): number {
+  return [condition.vendor, condition.scope, condition.tag_type, condition.type].filter(Boolean).length;
+}
+
+function applicablePrefixes(tag: NamedTag, rules: TagNamingRules): RequiredPrefixRule[] {
+  return rules.requiredPrefixes
+    .filter(rule => appliesTo(rule, tag))
+    .sort((a, b) => specificity(b) - specificity(a));
+}
+
+function maxLengthFor(tag: NamedTag, rules: TagNamingRules): number | undefined {
+  const vendor = (tag.vendor || '').toLowerCase() as typeof RULE_VENDORS[number];
+  return rules.maxLength[vendor] ?? rules.maxLength.default;
+}
+
+function violationsFor(name: string, tag: NamedTag, rules: TagNamingRules): NamingRuleViolation[] {
+  const violations: NamingRuleViolation[] = [];
+
+  rules.patterns.forEach((rule, i) => {
+    if (!appliesTo(rule, tag)) return;
+    if (!new RegExp(rule.pattern, rule.flags).test(name)) {
+      violations.push({
+        rule: 'pattern',
+        ruleName: rule.name || `patterns[${i}]`,
+        message: `Tag name '${name}' does not match ${rule.description || `pattern ${rule.pattern}`}${describeCondition(rule)}`
+      });
+    }
+  });
+
+  // Several applicable prefixes (say one per scope and one per tag type) are alternatives
+  const prefixes = applicablePrefixes(tag, rules);
+  if (prefixes.length > 0 && !prefixes.some(rule => name.startsWith(rule.prefix))) {
+    const rule = prefixes[0];
+    violations.push({
+      rule: 'required_prefix',
+      ruleName: rule.name || `requiredPrefixes[${rules.requiredPrefixes.indexOf(rule)}]`,
+      message: `Tag name '${name}' must start with ${prefixes.map(p => `'${p.prefix}'`).join(' or ')}${describeCondition(rule)}`
+    });
+  }
+
+  const reserved = rules.reservedWords.find(word => word.toUpperCase() === name.toUpperCase());
+  if (reserved) {
+    violations.push({
+      rule: 'reserved_word',
+      ruleName: 'reservedWords',
+      message: `Tag name '${name}' is a reserved word`
+    });
+  }
+
+  const maxLength = maxLengthFor(tag, rules);
+  if (maxLength !== undefined && name.length > maxLength) {
+    const vendor = (tag.vendor || '').toLowerCase();
+    violations.push({
+      rule: 'max_length',
+      ruleName: rules.maxLength[vendor as typeof RULE_VENDORS[number]] !== undefined ? `maxLength.${vendor}` : 'maxLength.default',
+      message: `Tag name '${name}' is ${name.length} characters; the limit${vendor ? ` for ${vendor}` : ''} is ${maxLength}`
+    });
+  }
+
+  return violations;
+}
+
+// Spellings of the name to try fixing: as is, separators cleaned up, and upper/lower snake case
+function candidateBases(name: string): string[] {
+  const cleaned = name.replace(/[^A-Za-z0-9_]+/g, '_').replace(/_+/g, '_').replace(/^_+|_+$/g, '') || 'TAG';
+  const snake = cleaned.replace(/([a-z0-9])([A-Z])/g, '$1_$2');
+  return [...new Set([name, cleaned, cleaned.toUpperCase(), snake.toUpperCase(), cleaned.toLowerCase(), snake.toLowerCase()])];
+}
+
+function fixCandidate(base: string, tag: NamedTag, rules: TagNamingRules, suffix: string): string {
+  let candidate = base;
+
+  const prefix = applicablePrefixes(tag, rules)[0]?.prefix;
+  if (prefix && !candidate.startsWith(prefix)) {
+    // Fix a prefix written in another case instead of adding it twice
+    candidate = candidate.toUpperCase().startsWith(prefix.toUpperCase())
+      ? prefix + candidate.slice(prefix.length)
+      : prefix + candidate;
+  }
+
+  const maxLength = maxLengthFor(tag, rules);
+  if (maxLength !== undefined && candidate.length + suffix.length > maxLength) {
+    candidate = shortenName(candidate, maxLength - suffix.length, prefix?.length ?? 0);
+  }
+
+  return candidate + suffix;
+}
+
+// Shorten by trimming the longest segments first, so AREA_EQUIP_FUNC keeps all its parts
+function shortenName(name: string, maxLength: number, keep: number): string {
+  const head = name.slice(0, keep);
+  const segments = name.slice(keep).split('_');
+
+  while (head.length + segments.join('_').length > maxLength) {
+    const longest = segments.reduce((best, segment, i) => segment.length > segments[best].length ? i : best, 0);
+    if (segments[longest].length <= 1) {
+      return name.slice(0, Math.max(maxLength, keep)).replace(/_+$/, '');
+    }
+    segments[longest] = segments[longest].slice(0, -1);
+  }
+  return head + segments.join('_');
+}
+
+/**
+ * Suggest a name close to the tag's that passes every rule and isn't taken.
+ * Returns undefined when no simple rewrite satisfies the patterns.
+ */
+export function suggestCompliantName(tag: NamedTag, rules: TagNamingRules, takenNames: Set<string> = new Set()): string | undefined {
+  const suffixes = ['', ...Array.from({ length: 9 }, (_, i) => `_${i + 1}`)];
+
+  for (const suffix of suffixes) {
+    for (const base of candidateBases(tag.name)) {
+      const candidate = fixCandidate(base, tag, rules, suffix);
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(candidate)) continue;
+      if (takenNames.has(candidate) && candidate !== tag.name) continue;
+      if (violationsFor(candidate, tag, rules).length === 0) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a tag's name against the organization rules.
+ */
+export function checkTagNaming(tag: NamedTag, rules: TagNamingRules | null, takenNames?: Set<string>): NamingCheckResult {
+  if (!hasNamingRules(rules)) {
+    return { isValid: true, violations: [] };
+  }
+
+  const violations = violationsFor(tag.name, tag, rules);
+  if (violations.length === 0) {
+    return { isValid: true, violations };
+  }
+  return { isValid: false, violations, suggestedName: suggestCompliantName(tag, rules, takenNames) };
+}
+
+/** Violations flattened into the string error lists used by bulk edits and imports */
+export function formatNamingViolations(result: NamingCheckResult): string[] {
+  const hint = result.suggestedName ? ` (suggested name: ${result.suggestedName})` : '';
+  return result.violations.map(v => `Naming rule ${v.ruleName}: ${v.message}${hint}`);
+}
+
+/**
+ * Rules of the organization that owns a project (through the project owner), or null.
+ */
+export async function loadProjectNamingRules(
+  projectId: number,
+  conn: Knex | Knex.Transaction = db
+): Promise<TagNamingRules | null> {
+  const organizationId = await projectOrganizationId(projectId, conn);
+  if (!organizationId) return null;
+
+  const row = await conn('organization_naming_rules')
+    .where({ organization_id: organizationId })
+    .select('rules')
+    .first();
+
+  if (!row) return null;
+  try {
+    return normalizeNamingRules(row.rules);
+  } catch (error) {
+    console.error(`⚠️ Ignoring invalid naming rules for project ${projectId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Move imported tags that break the organization's naming rules into row errors,
+ * like resolveImportedDataTypes does for unknown data types.
+ */
+export async function applyNamingRulesToImport(
+  projectId: number,
+  parsed: ParsedTagImport,
+  conn: Knex | Knex.Transaction = db
+): Promise<ParsedTagImport> {
+  const rules = await loadProjectNamingRules(projectId, conn);
+  if (!hasNamingRules(rules)) {
+    return parsed;
+  }
+
+  const result: ParsedTagImport = { ...parsed, tags: [], errors: [...parsed.errors] };
+  const importedNames = new Set(parsed.tags.map(t => t.name));
+
+  for (const tag of parsed.tags) {
+    const naming = checkTagNaming(tag, rules, importedNames);
+    if (!naming.isValid) {
+      result.errors.push({ row: 0, errors: formatNamingViolations(naming).map(e => `Tag ${tag.name}: ${e}`), raw: tag });
+      continue;
+    }
+    result.tags.push(tag);
+  }
+
+  return result;
+}
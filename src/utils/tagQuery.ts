@@ -0,0 +1,253 @@
+// tagQuery.ts
+// Server-side search, filtering, sorting and keyset pagination for project tags
+
+import type { Knex } from 'knex';
+import db from '../db/knex';
+
+export interface TagSortKey {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface TagQueryOptions {
+  q?: string;
+  scope?: string[];
+  tag_type?: string[];
+  data_type?: string[];
+  vendor?: string[];
+  is_ai_generated?: boolean;
+  sort: TagSortKey[];
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TagQueryResult {
+  tags: any[];
+  totalCount: number;
+  nextCursor: string | null;
+}
+
+/** Raised for malformed query parameters; routes answer with 400 */
+export class TagQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagQueryError';
+  }
+}
+
+export const MAX_TAG_PAGE_SIZE = 1000;
+
+// Sortable columns and how they compare. Nulls are coalesced so keyset comparisons stay total.
+const SORT_COLUMNS: Record<string, { expr: string; cast: string }> = {
+  id: { expr: '"id"', cast: '?::integer' },
+  name: { expr: 'COALESCE("name", \'\')', cast: '?' },
+  description: { expr: 'COALESCE("description", \'\')', cast: '?' },
+  type: { expr: 'COALESCE("type", \'\')', cast: '?' },
+  data_type: { expr: 'COALESCE("data_type", \'\')', cast: '?' },
+  address: { expr: 'COALESCE("address", \'\')', cast: '?' },
+  default_value: { expr: 'COALESCE("default_value", \'\')', cast: '?' },
+  vendor: { expr: 'COALESCE("vendor", \'\')', cast: '?' },
+  scope: { expr: 'COALESCE("scope", \'\')', cast: '?' },
+  tag_type: { expr: 'COALESCE("tag_type", \'\')', cast: '?' },
+  is_ai_generated: { expr: 'COALESCE("is_ai_generated", false)', cast: '?::boolean' },
+  created_at: { expr: 'COALESCE("created_at", \'epoch\'::timestamptz)', cast: '?::timestamptz' },
+  updated_at: { expr: 'COALESCE("updated_at", \'epoch\'::timestamptz)', cast: '?::timestamptz' }
+};
+
+// Filters that accept a comma-separated list and match case-insensitively
+const LIST_FILTERS = ['scope', 'tag_type', 'data_type', 'vendor'] as const;
+
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const raw = Array.isArray(value) ? value.join(',') : String(value);
+  const items = raw.split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parse `sort=name,-created_at` style keys. A leading '-' sorts descending.
+ */
+function parseSort(value: unknown, defaultSort: string): TagSortKey[] {
+  const raw = value === undefined || value === '' ? defaultSort : String(value);
+  const keys: TagSortKey[] = [];
+
+  for (const part of raw.split(',').map(p => p.trim()).filter(Boolean)) {
+    const direction = part.startsWith('-') ? 'desc' : 'asc';
+    const column = part.replace(/^[-+]/, '');
+    if (!SORT_COLUMNS[column]) {
+      throw new TagQueryError(`Unsupported sort key '${column}'. Allowed: ${Object.keys(SORT_COLUMNS).join(', ')}`);
+    }
+    if (!keys.some(k => k.column === column)) {
+      keys.push({ column, direction });
+    }
+  }
+
+  // id breaks ties so every row has a unique position for the cursor
+  if (!keys.some(k => k.column === 'id')) {
+    keys.push({ column: 'id', direction: 'asc' });
+  }
+
+  return keys;
+}
+
+/**
+ * Build query options from request query parameters.
+ * `defaultSort` keeps each endpoint's historical ordering when no sort is given.
+ */
+export function parseTagQuery(query: Record<string, any>, defaultSort: string): TagQueryOptions {
+  const options: TagQueryOptions = {
+    sort: parseSort(query.sort, defaultSort)
+  };
+
+  if (typeof query.q === 'string' && query.q.trim() !== '') {
+    options.q = query.q.trim();
+  }
+
+  for (const filter of LIST_FILTERS) {
+    options[filter] = parseList(query[filter]);
+  }
+
+  if (query.is_ai_generated !== undefined && query.is_ai_generated !== '') {
+    const value = String(query.is_ai_generated).toLowerCase();
+    if (value !== 'true' && value !== 'false') {
+      throw new TagQueryError('is_ai_generated must be true or false');
+    }
+    options.is_ai_generated = value === 'true';
+  }
+
+  if (query.limit !== undefined && query.limit !== '') {
+    const limit = parseInt(String(query.limit));
+    if (isNaN(limit) || limit < 1 || limit > MAX_TAG_PAGE_SIZE) {
+      throw new TagQueryError(`limit must be between 1 and ${MAX_TAG_PAGE_SIZE}`);
+    }
+    options.limit = limit;
+  }
+
+  if (typeof query.cursor === 'string' && query.cursor !== '') {
+    options.cursor = query.cursor;
+  }
+
+  return options;
+}
+
+function encodeCursor(sort: TagSortKey[], values: any[]): string {
+  const payload = { s: sort.map(k => `${k.direction === 'desc' ? '-' : ''}${k.column}`).join(','), v: values };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: TagSortKey[]): any[] {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new TagQueryError('Invalid cursor');
+  }
+
+  const expectedSort = sort.map(k => `${k.direction === 'desc' ? '-' : ''}${k.column}`).join(',');
+  if (!payload || payload.s !== expectedSort || !Array.isArray(payload.v) || payload.v.length !== sort.length) {
+    throw new TagQueryError('Cursor does not match the requested sort');
+  }
+
+  return payload.v;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, ch => `\\${ch}`);
+}
+
+/** Restrict a tags query to one project and the search/filter part of the options */
+export function applyTagFilters(query: Knex.QueryBuilder, projectId: number, options: TagQueryOptions): Knex.QueryBuilder {
+  query.where('project_id', projectId);
+
+  if (options.q) {
+    const pattern = `%${escapeLike(options.q)}%`;
+    query.where(function () {
+      this.where('name', 'ilike', pattern)
+        .orWhere('description', 'ilike', pattern)
+        .orWhere('address', 'ilike', pattern);
+    });
+  }
+
+  for (const filter of LIST_FILTERS) {
+    const values = options[filter];
+    if (values) {
+      query.whereIn(db.raw('LOWER(??)', [filter]) as any, values);
+    }
+  }
+
+  if (options.is_ai_generated !== undefined) {
+    query.whereRaw('COALESCE("is_ai_generated", false) = ?', [options.is_ai_generated]);
+  }
+
+  return query;
+}
+
+/** Whether any search or filter criterion is set (bulk deletes refuse an empty filter) */
+export function hasTagFilters(options: TagQueryOptions): boolean {
+  return !!options.q || LIST_FILTERS.some(f => !!options[f]) || options.is_ai_generated !== undefined;
+}
+
+// Rows strictly after the cursor position: (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+function applyCursor(query: Knex.QueryBuilder, sort: TagSortKey[], values: any[]): void {
+  query.where(function () {
+    sort.forEach((key, i) => {
+      this.orWhere(function () {
+        for (let j = 0; j < i; j++) {
+          const prev = SORT_COLUMNS[sort[j].column];
+          this.whereRaw(`${prev.expr} = ${prev.cast}`, [values[j]]);
+        }
+        const column = SORT_COLUMNS[key.column];
+        const op = key.direction === 'asc' ? '>' : '<';
+        this.whereRaw(`${column.expr} ${op} ${column.cast}`, [values[i]]);
+      });
+    });
+  });
+}
+
+/**
+ * Run a filtered, sorted and optionally paginated tag query for a project.
+ * Without a limit every matching tag is returned, as the endpoints always did.
+ */
+export async function queryProjectTags(projectId: number, options: TagQueryOptions): Promise<TagQueryResult> {
+  const countRow: any = await applyTagFilters(db('tags'), projectId, options)
+    .count('id as count')
+    .first();
+  const totalCount = parseInt(countRow?.count ?? '0');
+
+  const query = applyTagFilters(db('tags'), projectId, options).select('tags.*');
+
+  // Cursor values are read back as text so timestamps keep their full precision
+  options.sort.forEach((key, i) => {
+    query.select(db.raw(`(${SORT_COLUMNS[key.column].expr})::text as ??`, [`__cursor_${i}`]));
+  });
+
+  if (options.cursor) {
+    applyCursor(query, options.sort, decodeCursor(options.cursor, options.sort));
+  }
+
+  for (const key of options.sort) {
+    query.orderByRaw(`${SORT_COLUMNS[key.column].expr} ${key.direction}`);
+  }
+
+  if (options.limit) {
+    query.limit(options.limit + 1);
+  }
+
+  const rows = await query;
+  const hasMore = options.limit !== undefined && rows.length > options.limit;
+  const page = hasMore ? rows.slice(0, options.limit) : rows;
+
+  let nextCursor: string | null = null;
+  if (hasMore) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor(options.sort, options.sort.map((_, i) => last[`__cursor_${i}`]));
+  }
+
+  const tags = page.map((row: any) => {
+    const tag = { ...row };
+    options.sort.forEach((_, i) => delete tag[`__cursor_${i}`]);
+    return tag;
+  });
+
+  return { tags, totalCount, nextCursor };
+}
@@ -0,0 +1,507 @@
+// udt.ts
+// User-defined types (UDT / STRUCT) and array data types: parsing, validation,
+// member expansion and persistence of per-project type definitions
+
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { UserDefinedTypeMember } from '../db/tables/user_defined_types';
+import type { ParsedTagImport } from '../services/tagImportPipeline';
+
+export interface UdtDefinition {
+  name: string;
+  description?: string;
+  vendor?: string | null;
+  members: UserDefinedTypeMember[];
+}
+
+export interface ArrayDimension {
+  lower: number;
+  upper: number;
+}
+
+export interface ParsedArrayType {
+  baseType: string;
+  dimensions: ArrayDimension[];
+}
+
+export interface TypeMemberNode {
+  name: string;
+  path: string;
+  data_type: string;
+  kind: 'elementary' | 'struct' | 'array' | 'unknown';
+  description?: string;
+  dimensions?: ArrayDimension[];
+  members?: TypeMemberNode[];
+  truncated?: boolean;
+}
+
+export interface UdtValidationError {
+  name: string;
+  errors: string[];
+}
+
+// Elementary types across Rockwell, Siemens and Beckhoff; anything else must be a UDT
+export const ELEMENTARY_DATA_TYPES = new Set([
+  'BOOL', 'BYTE', 'WORD', 'DWORD', 'LWORD',
+  'SINT', 'INT', 'DINT', 'LINT',
+  'USINT', 'UINT', 'UDINT', 'ULINT',
+  'REAL', 'LREAL', 'STRING', 'WSTRING', 'CHAR',
+  'TIME', 'LTIME', 'S5TIME', 'DATE', 'TIME_OF_DAY', 'TOD', 'DATE_AND_TIME', 'DT',
+  'TIMER', 'COUNTER', 'CONTROL'
+]);
+
+// Upper bounds for member views so a large array of structs cannot blow up a response
+const MAX_EXPANDED_ARRAY_ELEMENTS = 1024;
+const MAX_EXPANDED_NODES = 10000;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Siemens writes UDT references in quotes: "UDT_Motor"
+function stripQuotes(name: string): string {
+  return name.trim().replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Parse IEC (`ARRAY[0..15] OF BOOL`, `Array[0..3, 1..2] of "UDT_X"`) and
+ * Rockwell (`DINT[10]`, `BOOL[4,2]`) array notations.
+ */
+export function parseArrayType(dataType: string): ParsedArrayType | null {
+  const text = (dataType || '').trim();
+
+  const iec = text.match(/^ARRAY\s*\[(.+)\]\s*OF\s+(.+)$/i);
+  if (iec) {
+    const dimensions: ArrayDimension[] = [];
+    for (const part of iec[1].split(',')) {
+      const bounds = part.trim().match(/^(-?\d+)\s*\.\.\s*(-?\d+)$/);
+      if (!bounds) return null;
+      dimensions.push({ lower: parseInt(bounds[1]), upper: parseInt(bounds[2]) });
+    }
+    return { baseType: normalizeDataTypeName(iec[2]), dimensions };
+  }
+
+  // STRING[20] / WSTRING[20] is a string length (Siemens, Beckhoff), not an array
+  const rockwell = text.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*\[\s*(\d+(?:\s*,\s*\d+)*)\s*\]$/);
+  if (rockwell && !/^W?STRING$/i.test(rockwell[1])) {
+    const dimensions = rockwell[2].split(',').map(n => ({ lower: 0, upper: parseInt(n.trim()) - 1 }));
+    return { baseType: normalizeDataTypeName(rockwell[1]), dimensions };
+  }
+
+  return null;
+}
+
+/** Canonical array notation stored in tags.data_type: ARRAY[0..15] OF BOOL */
+export function formatArrayType(baseType: string, dimensions: ArrayDimension[]): string {
+  return `ARRAY[${dimensions.map(d => `${d.lower}..${d.upper}`).join(',')}] OF ${baseType}`;
+}
+
+/**
+ * Canonical data type name: elementary types upper-cased, UDT names unquoted,
+ * arrays rewritten to the IEC form.
+ */
+export function normalizeDataTypeName(dataType: string): string {
+  const raw = stripQuotes(dataType || '');
+  const array = parseArrayType(raw);
+  if (array) return formatArrayType(array.baseType, array.dimensions);
+  return ELEMENTARY_DATA_TYPES.has(raw.toUpperCase()) ? raw.toUpperCase() : raw;
+}
+
+/** Build the canonical array type from an L5X `Dimensions="16"` / `"4 2"` attribute */
+export function arrayTypeFromDimensions(baseType: string, dimensions?: string | null): string {
+  const sizes = (dimensions || '').trim().split(/[\s,]+/).filter(Boolean).map(n => parseInt(n));
+  if (sizes.length === 0 || sizes.some(n => isNaN(n) || n <= 0)) {
+    return normalizeDataTypeName(baseType);
+  }
+  return formatArrayType(normalizeDataTypeName(baseType), sizes.map(n => ({ lower: 0, upper: n - 1 })));
+}
+
+/** Split a canonical array type into an L5X base type and `Dimensions` value (zero-based arrays only) */
+export function dimensionsFromArrayType(dataType: string): { dataType: string; dimensions: string | null } {
+  const array = parseArrayType(dataType);
+  if (!array || array.dimensions.some(d => d.lower !== 0)) {
+    return { dataType, dimensions: null };
+  }
+  return {
+    dataType: array.baseType,
+    dimensions: array.dimensions.map(d => d.upper + 1).join(' ')
+  };
+}
+
+export function isElementaryDataType(dataType: string): boolean {
+  return ELEMENTARY_DATA_TYPES.has(stripQuotes(dataType || '').toUpperCase());
+}
+
+/**
+ * The UDT a data type depends on (the element type for arrays), or null for elementary types.
+ * STRING[20] style lengths are treated as elementary.
+ */
+export function referencedTypeName(dataType: string): string | null {
+  const array = parseArrayType(dataType);
+  const base = array ? array.baseType : stripQuotes(dataType || '');
+  if (!base || isElementaryDataType(base) || /^W?STRING\s*\[\d+\]$/i.test(base)) return null;
+  return base;
+}
+
+/** Standard `type` column value for a data type: STRUCT / ARRAY for composite types */
+export function compositeTypeCategory(dataType: string): 'ARRAY' | 'STRUCT' | null {
+  if (parseArrayType(dataType)) return 'ARRAY';
+  if (referencedTypeName(dataType)) return 'STRUCT';
+  return null;
+}
+
+function elementCount(dimensions: ArrayDimension[]): number {
+  return dimensions.reduce((count, d) => count * (d.upper - d.lower + 1), 1);
+}
+
+/**
+ * Validate UDT definitions. Member types must be elementary, defined in `definitions`,
+ * or listed in `existingTypeNames`; nesting cycles are rejected.
+ */
+export function validateUdtDefinitions(definitions: UdtDefinition[], existingTypeNames: string[] = []): UdtValidationError[] {
+  const results: UdtValidationError[] = [];
+  const known = new Set([...existingTypeNames, ...definitions.map(d => d.name)].map(n => n.toUpperCase()));
+  const seen = new Set<string>();
+
+  for (const def of definitions) {
+    const errors: string[] = [];
+
+    if (!def.name || !IDENTIFIER.test(def.name)) {
+      errors.push('Type name must start with a letter or underscore and contain only letters, numbers, and underscores');
+    } else if (isElementaryDataType(def.name)) {
+      errors.push(`Type name '${def.name}' is a reserved elementary type`);
+    } else if (seen.has(def.name.toUpperCase())) {
+      errors.push(`Type '${def.name}' is defined more than once`);
+    }
+    seen.add((def.name || '').toUpperCase());
+
+    if (!Array.isArray(def.members) || def.members.length === 0) {
+      errors.push('A user-defined type needs at least one member');
+    } else {
+      const memberNames = new Set<string>();
+      def.members.forEach((member, index) => {
+        const label = member?.name || `#${index + 1}`;
+        if (!member?.name || !IDENTIFIER.test(member.name)) {
+          errors.push(`Member ${label}: invalid member name`);
+        } else if (memberNames.has(member.name.toUpperCase())) {
+          errors.push(`Member ${label}: duplicate member name`);
+        }
+        memberNames.add((member?.name || '').toUpperCase());
+
+        if (!member?.data_type) {
+          errors.push(`Member ${label}: data type is required`);
+          return;
+        }
+
+        const array = parseArrayType(member.data_type);
+        if (/^ARRAY\b/i.test(member.data_type.trim()) && !array) {
+          errors.push(`Member ${label}: invalid array declaration '${member.data_type}'`);
+          return;
+        }
+        if (array && array.dimensions.some(d => d.upper < d.lower)) {
+          errors.push(`Member ${label}: array upper bound is below lower bound`);
+        }
+
+        const referenced = referencedTypeName(member.data_type);
+        if (referenced && !known.has(referenced.toUpperCase())) {
+          errors.push(`Member ${label}: unknown data type '${referenced}'`);
+        }
+      });
+    }
+
+    if (errors.length > 0) {
+      results.push({ name: def.name, errors });
+    }
+  }
+
+  for (const cycle of findTypeCycles(definitions)) {
+    const existing = results.find(r => r.name === cycle[0]);
+    const message = `Type nesting cycle: ${cycle.join(' -> ')}`;
+    if (existing) {
+      existing.errors.push(message);
+    } else {
+      results.push({ name: cycle[0], errors: [message] });
+    }
+  }
+
+  return results;
+}
+
+/** Cycles in the member graph, each reported once as [A, B, ..., A] */
+export function findTypeCycles(definitions: UdtDefinition[]): string[][] {
+  const byName = new Map(definitions.map(d => [d.name.toUpperCase(), d]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const cycles: string[][] = [];
+
+  const visit = (def: UdtDefinition, stack: string[]) => {
+    const key = def.name.toUpperCase();
+    if (state.get(key) === 'done') return;
+    if (state.get(key) === 'visiting') {
+      const start = stack.findIndex(n => n.toUpperCase() === key);
+      cycles.push([...stack.slice(start), def.name]);
+      return;
+    }
+
+    state.set(key, 'visiting');
+    for (const member of def.members || []) {
+      const referenced = member?.data_type ? referencedTypeName(member.data_type) : null;
+      const child = referenced ? byName.get(referenced.toUpperCase()) : undefined;
+      if (child) visit(child, [...stack, def.name]);
+    }
+    state.set(key, 'done');
+  };
+
+  for (const def of definitions) {
+    visit(def, []);
+  }
+
+  return cycles;
+}
+
+/**
+ * Expand a tag (or member) of the given data type into a member tree.
+ * Arrays list their elements; very large arrays and trees are truncated.
+ */
+export function expandDataType(name: string, dataType: string, definitions: UdtDefinition[]): TypeMemberNode {
+  const byName = new Map(definitions.map(d => [d.name.toUpperCase(), d]));
+  let budget = MAX_EXPANDED_NODES;
+
+  const expand = (nodeName: string, path: string, type: string, description: string | undefined, ancestors: Set<string>): TypeMemberNode => {
+    budget--;
+    const array = parseArrayType(type);
+
+    if (array) {
+      const node: TypeMemberNode = { name: nodeName, path, data_type: type, kind: 'array', description, dimensions: array.dimensions };
+      const count = elementCount(array.dimensions);
+      if (count > MAX_EXPANDED_ARRAY_ELEMENTS || budget <= 0) {
+        node.truncated = true;
+        return node;
+      }
+
+      node.members = [];
+      const indices: number[][] = [[]];
+      for (const dim of array.dimensions) {
+        const next: number[][] = [];
+        for (const prefix of indices) {
+          for (let i = dim.lower; i <= dim.upper; i++) next.push([...prefix, i]);
+        }
+        indices.splice(0, indices.length, ...next);
+      }
+      for (const index of indices) {
+        if (budget <= 0) {
+          node.truncated = true;
+          break;
+        }
+        const suffix = `[${index.join(',')}]`;
+        node.members.push(expand(`${nodeName}${suffix}`, `${path}${suffix}`, array.baseType, undefined, ancestors));
+      }
+      return node;
+    }
+
+    const referenced = referencedTypeName(type);
+    if (!referenced) {
+      return { name: nodeName, path, data_type: type, kind: 'elementary', description };
+    }
+
+    const def = byName.get(referenced.toUpperCase());
+    if (!def || ancestors.has(referenced.toUpperCase())) {
+      return { name: nodeName, path, data_type: type, kind: 'unknown', description };
+    }
+
+    const node: TypeMemberNode = { name: nodeName, path, data_type: def.name, kind: 'struct', description: description ?? def.description, members: [] };
+    const nextAncestors = new Set(ancestors).add(referenced.toUpperCase());
+    for (const member of def.members) {
+      if (budget <= 0) {
+        node.truncated = true;
+        break;
+      }
+      node.members!.push(expand(member.name, `${path}.${member.name}`, member.data_type, member.description, nextAncestors));
+    }
+    return node;
+  };
+
+  return expand(name, name, normalizeDataTypeName(dataType), undefined, new Set());
+}
+
+/**
+ * Parse IEC 61131-3 STRUCT declarations as found in TwinCAT DUTs:
+ *   TYPE ST_Motor : STRUCT  Speed : REAL; (* rpm *)  END_STRUCT END_TYPE
+ */
+export function parseStructDeclarations(text: string): UdtDefinition[] {
+  const definitions: UdtDefinition[] = [];
+  const typeBlock = /TYPE\s+([A-Za-z_][A-Za-z0-9_]*)\s*(?:EXTENDS\s+[A-Za-z_][A-Za-z0-9_.]*\s*)?:\s*STRUCT([\s\S]*?)END_STRUCT\s*;?\s*END_TYPE/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = typeBlock.exec(text)) !== null) {
+    const members: UserDefinedTypeMember[] = [];
+
+    for (const line of match[2].split(/\r?\n/)) {
+      const comment = line.match(/\(\*(.*?)\*\)|\/\/(.*)$/);
+      const code = line.replace(/\(\*.*?\*\)/g, '').replace(/\/\/.*$/, '').trim();
+      if (!code) continue;
+
+      const decl = code.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*(?:AT\s+\S+\s*)?:\s*(.+?)(?:\s*:=\s*(.+?))?\s*;$/i);
+      if (!decl) continue;
+
+      members.push({
+        name: decl[1],
+        data_type: normalizeDataTypeName(decl[2]),
+        description: comment ? (comment[1] ?? comment[2] ?? '').trim() : undefined,
+        default_value: decl[3]?.trim()
+      });
+    }
+
+    definitions.push({ name: match[1], members });
+  }
+
+  return definitions;
+}
+
+/** Render a definition as an IEC 61131-3 STRUCT declaration (TwinCAT DUT body) */
+export function formatStructDeclaration(def: UdtDefinition): string {
+  const lines = [`TYPE ${def.name} :`, 'STRUCT'];
+  for (const member of def.members) {
+    const init = member.default_value ? ` := ${member.default_value}` : '';
+    const comment = member.description ? ` // ${member.description}` : '';
+    lines.push(`\t${member.name} : ${member.data_type}${init};${comment}`);
+  }
+  lines.push('END_STRUCT', 'END_TYPE');
+  return lines.join('\n');
+}
+
+/** Normalize a definition received from an API body or importer */
+export function normalizeUdtDefinition(raw: any): UdtDefinition {
+  return {
+    name: typeof raw?.name === 'string' ? stripQuotes(raw.name) : '',
+    description: typeof raw?.description === 'string' ? raw.description : '',
+    vendor: typeof raw?.vendor === 'string' ? raw.vendor.toLowerCase() : null,
+    members: Array.isArray(raw?.members)
+      ? raw.members.map((m: any) => ({
+          name: typeof m?.name === 'string' ? m.name.trim() : '',
+          data_type: typeof m?.data_type === 'string' ? normalizeDataTypeName(m.data_type) : '',
+          description: typeof m?.description === 'string' ? m.description : undefined,
+          default_value: m?.default_value !== undefined && m?.default_value !== null ? String(m.default_value) : undefined
+        }))
+      : []
+  };
+}
+
+export async function loadProjectUdts(projectId: number, conn: Knex | Knex.Transaction = db): Promise<UdtDefinition[]> {
+  const rows = await conn('user_defined_types')
+    .where({ project_id: projectId })
+    .orderBy('name');
+
+  return rows.map((row: any) => ({
+    name: row.name,
+    description: row.description || '',
+    vendor: row.vendor,
+    members: row.members || []
+  }));
+}
+
+/**
+ * Create or replace UDT definitions by name (used by importers).
+ */
+export async function upsertUserDefinedTypes(
+  projectId: number,
+  userId: string,
+  definitions: UdtDefinition[],
+  conn: Knex | Knex.Transaction = db
+): Promise<{ inserted: number; updated: number }> {
+  let inserted = 0;
+  let updated = 0;
+  const now = new Date().toISOString();
+
+  for (const def of definitions) {
+    const existing = await conn('user_defined_types')
+      .where({ project_id: projectId })
+      .whereRaw('UPPER(name) = ?', [def.name.toUpperCase()])
+      .first();
+
+    if (existing) {
+      await conn('user_defined_types')
+        .where({ id: existing.id })
+        .update({
+          description: def.description || '',
+          vendor: def.vendor ?? existing.vendor,
+          members: JSON.stringify(def.members),
+          updated_at: now
+        });
+      updated++;
+    } else {
+      await conn('user_defined_types').insert({
+        project_id: projectId,
+        user_id: userId,
+        name: def.name,
+        description: def.description || '',
+        vendor: def.vendor ?? null,
+        members: JSON.stringify(def.members),
+        created_at: now,
+        updated_at: now
+      });
+      inserted++;
+    }
+  }
+
+  return { inserted, updated };
+}
+
+/**
+ * Check that a tag's data type is elementary or references a UDT known to the project.
+ * Returns an error message, or null when the type is acceptable.
+ */
+export async function checkTagDataTypeReference(projectId: number, dataType: string | undefined | null): Promise<string | null> {
+  if (!dataType) return null;
+
+  if (/^ARRAY\b/i.test(dataType.trim())) {
+    const array = parseArrayType(dataType);
+    if (!array) return `Invalid array declaration '${dataType}'. Expected ARRAY[0..15] OF BOOL`;
+    if (array.dimensions.some(d => d.upper < d.lower)) return 'Array upper bound is below lower bound';
+  }
+
+  const referenced = referencedTypeName(dataType);
+  if (!referenced) return null;
+
+  const udt = await db('user_defined_types')
+    .where({ project_id: projectId })
+    .whereRaw('UPPER(name) = ?', [referenced.toUpperCase()])
+    .first();
+
+  return udt ? null : `Unknown data type '${referenced}'. Define it as a user-defined type first`;
+}
+
+/**
+ * Check an import's data types against the file's own definitions and the project's existing
+ * types. Invalid definitions and tags referencing unknown types become row errors.
+ * TwinCAT variables may be function block instances, so Beckhoff tag references are not checked.
+ */
+export async function resolveImportedDataTypes(
+  projectId: number,
+  vendor: string,
+  parsed: ParsedTagImport,
+  conn: Knex | Knex.Transaction = db
+): Promise<ParsedTagImport> {
+  const definitions = parsed.dataTypes || [];
+  const hasReferences = parsed.tags.some(t => t.data_type && referencedTypeName(t.data_type));
+  if (definitions.length === 0 && !hasReferences) {
+    return parsed;
+  }
+
+  const projectTypeNames = (await loadProjectUdts(projectId, conn)).map(t => t.name);
+  const known = new Set([...projectTypeNames, ...definitions.map(d => d.name)].map(n => n.toUpperCase()));
+
+  const result: ParsedTagImport = { tags: [], errors: [...parsed.errors], dataTypes: definitions };
+
+  for (const invalid of validateUdtDefinitions(definitions, projectTypeNames)) {
+    result.errors.push({ row: 0, errors: invalid.errors.map(e => `Data type ${invalid.name}: ${e}`), raw: { dataType: invalid.name } });
+  }
+
+  for (const tag of parsed.tags) {
+    const referenced = tag.data_type ? referencedTypeName(tag.data_type) : null;
+    if (referenced && vendor !== 'beckhoff' && !known.has(referenced.toUpperCase())) {
+      result.errors.push({ row: 0, errors: [`Tag ${tag.name}: unknown data type '${referenced}'`], raw: tag });
+      continue;
+    }
+    result.tags.push(tag);
+  }
+
+  return result;
+}
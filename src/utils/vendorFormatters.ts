@@ -51,9 +51,8 @@ export interface BeckhoffTag {
  * Tags formatted as JSON or L5X XML for export
  */
 export function formatTagForRockwell(tag: VendorTag): RockwellTag {
-  // Validate & format address if missing or inconsistent
-  // For simplicity, if address missing, generate placeholder
-  const address = tag.address || generateRockwellAddress(tag.scope, tag.dataType);
+  // Missing addresses are filled in by the address allocator, which knows what is taken
+  const address = tag.address || null;
   
   // Data type map to strict Rockwell types
   const validTypes = ['BOOL', 'INT', 'DINT', 'REAL', 'STRING'];
@@ -72,27 +71,6 @@ export function formatTagForRockwell(tag: VendorTag): RockwellTag {
   };
 }
 
-/**
- * Generate Rockwell-style address based on scope and type
- */
-export function generateRockwellAddress(scope?: string, type?: string): string | null {
-  // Simplified placeholder example
-  if (!scope) return null;
-  
-  switch(scope.toLowerCase()) {
-    case 'input':
-      return 'I:0.0';
-    case 'output':
-      return 'O:0.0';
-    case 'global':
-      return 'N7:0';
-    case 'local':
-      return 'L1:0';
-    default:
-      return null;
-  }
-}
-
 // 2. Siemens Formatter
 /**
  * Format tag for Siemens PLC systems (TIA Portal)
@@ -112,7 +90,7 @@ export function formatTagForSiemens(tag: VendorTag): SiemensTag {
   };
   
   const dataType = dataTypeMap[tag.dataType.toUpperCase()] || 'Int';
-  const address = tag.address || generateSiemensAddress(tag.scope);
+  const address = tag.address || null;
   
   return {
     TagName: tag.name,
@@ -125,24 +103,6 @@ export function formatTagForSiemens(tag: VendorTag): SiemensTag {
   };
 }
 
-/**
- * Generate Siemens-style address based on scope
- */
-export function generateSiemensAddress(scope?: string): string | null {
-  switch((scope || '').toLowerCase()) {
-    case 'input':
-      return 'I0.0';
-    case 'output':
-      return 'Q0.0';
-    case 'global':
-      return 'DB1.DBD0';
-    case 'local':
-      return 'L0.0';
-    default:
-      return null;
-  }
-}
-
 // 3. Beckhoff Formatter
 /**
  * Format tag for Beckhoff PLC systems (TwinCAT)
@@ -156,7 +116,7 @@ export function formatTagForBeckhoff(tag: VendorTag): BeckhoffTag {
     ? tag.dataType.toUpperCase()
     : 'DINT';
   
-  const address = tag.address || generateBeckhoffAddress(tag.scope);
+  const address = tag.address || null;
   
   return {
     Name: tag.name,
@@ -168,26 +128,6 @@ export function formatTagForBeckhoff(tag: VendorTag): BeckhoffTag {
   };
 }
 
-/**
- * Generate Beckhoff-style address based on scope
- */
-export function generateBeckhoffAddress(scope?: string): string | null {
-  switch((scope || '').toLowerCase()) {
-    case 'input':
-      return '%I0.0';
-    case 'output':
-      return '%Q0.0';
-    case 'global':
-      return '%M0.0';
-    case 'local':
-      return '%L0.0';
-    case 'memory':
-      return '%M0.0';
-    default:
-      return null;
-  }
-}
-
 // Utility function to format tag based on vendor type
 export function formatTagForVendor(
   tag: VendorTag, 
@@ -205,6 +145,28 @@ export function formatTagForVendor(
   }
 }
 
+// Scopes that mean "not inside a program / block" rather than naming one
+const UNNAMED_SCOPES = ['global', 'local', 'input', 'output', 'internal', 'controller'];
+
+/**
+ * Symbolic name of a tag in its PLC: Logix program tags are Program:<program>.<tag>,
+ * TwinCAT globals live in GVL, Siemens data-block tags are "<block>".<tag>
+ */
+export function plcTagSymbol(tag: { name: string; scope?: string | null; vendor?: string | null }): string {
+  const scope = (tag.scope || '').trim();
+  const unnamed = !scope || UNNAMED_SCOPES.includes(scope.toLowerCase());
+  switch ((tag.vendor || '').toLowerCase()) {
+    case 'rockwell':
+      return unnamed ? tag.name : `Program:${scope}.${tag.name}`;
+    case 'beckhoff':
+      return `${unnamed ? 'GVL' : scope}.${tag.name}`;
+    case 'siemens':
+      return unnamed ? tag.name : `"${scope}".${tag.name}`;
+    default:
+      return unnamed ? tag.name : `${scope}.${tag.name}`;
+  }
+}
+
 // Validation functions for each vendor
 export function validateRockwellAddress(address: string): boolean {
   const rockwellPatterns = [
@@ -213,6 +175,7 @@ export function validateRockwellAddress(address: string): boolean {
     /^N\d+:\d+$/,         // Integer: N7:0
     /^F\d+:\d+$/,         // Float: F8:0
     /^B\d+:\d+$/,         // Binary: B3:0
+    /^B\d+:\d+\/\d+$/,    // Binary bit: B3:0/5
   // Timers/Counters are intentionally excluded from supported data types
     /^L\d+:\d+$/,         // Local: L1:0
     /^[A-Za-z_][A-Za-z0-9_]*$/ // Tag names
@@ -226,7 +189,9 @@ export function validateSiemensAddress(address: string): boolean {
     /^I\d+\.\d+$/,        // Input: I0.0
     /^Q\d+\.\d+$/,        // Output: Q0.0
     /^M\d+\.\d+$/,        // Memory: M0.0
+    /^[IQM][BWD]\d+$/,     // Byte/word/double word: IB0, QW2, MD10
     /^DB\d+\.DB[BWDX]\d+$/, // Data block: DB1.DBD0, DB1.DBW0, etc.
+    /^DB\d+\.DBX\d+\.[0-7]$/, // Data block bit: DB1.DBX0.0
     /^L\d+\.\d+$/,        // Local: L0.0
     /^[A-Za-z_][A-Za-z0-9_]*$/ // Tag names
   ];
@@ -237,6 +202,7 @@ export function validateSiemensAddress(address: string): boolean {
 export function validateBeckhoffAddress(address: string): boolean {
   const beckhoffPatterns = [
     /^%[IQMT]\d+(\.\d+)?$/,      // %I0.0, %Q2, %M1.5, %T0
+    /^%[IQM]X\d+\.\d+$/,         // Explicit bit access: %IX0.0, %QX1.7
     /^%[IQMT][BWDL]\d+$/,        // %IB0, %QW1, %MD200, %ML100
     /^%[IQMT][BWDL]*\d+$/,       // %MW100, %MB400 (memory addresses)
     /^[a-zA-Z_][\w]*$/,           // Symbolic names
@@ -286,7 +252,8 @@ export function validateRockwellDataType(dataType: string): boolean {
   const validTypes = [
     'BOOL', 'SINT', 'INT', 'DINT', 'LINT',
     'USINT', 'UINT', 'UDINT', 'ULINT',
-    'REAL', 'LREAL', 'STRING', 'TIME'
+    'REAL', 'LREAL', 'STRING', 'TIME',
+    'STRUCT', 'ARRAY'
   ];
   return validTypes.includes(dataType.toUpperCase());
 }
@@ -297,7 +264,8 @@ export function validateSiemensDataType(dataType: string): boolean {
     'SINT', 'INT', 'DINT', 'LINT',
     'USINT', 'UINT', 'UDINT', 'ULINT',
     'REAL', 'LREAL', 'STRING', 'TIME',
-    'S5TIME', 'TIME_OF_DAY', 'DATE'
+    'S5TIME', 'TIME_OF_DAY', 'DATE',
+    'STRUCT', 'ARRAY'
   ];
   return validTypes.includes(dataType.toUpperCase());
 }
@@ -0,0 +1,178 @@
+// winccTagIO.ts
+// WinCC Unified / Comfort (TIA Portal) HMI tag table export for Pandaura AS: an XLSX in the
+// layout of TIA Portal's "Import HMI tags" with an "Hmi Tags" sheet (connection, PLC tag,
+// linear scaling, limits) and an "AnalogAlarms" sheet with one alarm per alarm limit.
+// Dependencies: xlsx
+
+import * as XLSX from 'xlsx';
+import { Writable } from 'stream';
+import type { Knex } from 'knex';
+import db from '../db/knex';
+import { TagEngineeringFields } from '../db/tables/tags';
+import { ALARM_LEVELS, AlarmLevel } from './tagEngineering';
+import { expandDataType, loadProjectUdts, parseArrayType, TypeMemberNode } from './udt';
+import { plcTagSymbol } from './vendorFormatters';
+
+export interface WinccExportOptions {
+  // HMI connection to the PLC as named in the TIA Portal project
+  connection?: string;
+}
+
+const DEFAULT_CONNECTION = 'HMI_Connection_1';
+const DEFAULT_TAG_TABLE = 'Default tag table';
+const DEFAULT_ACQUISITION_CYCLE = '1 s';
+
+// IEC elementary types -> TIA Portal data type names
+const WINCC_DATA_TYPES: Record<string, string> = {
+  BOOL: 'Bool', BYTE: 'Byte', WORD: 'Word', DWORD: 'DWord', LWORD: 'LWord',
+  SINT: 'SInt', INT: 'Int', DINT: 'DInt', LINT: 'LInt',
+  USINT: 'USInt', UINT: 'UInt', UDINT: 'UDInt', ULINT: 'ULInt',
+  REAL: 'Real', LREAL: 'LReal', CHAR: 'Char', WCHAR: 'WChar',
+  STRING: 'String', WSTRING: 'WString',
+  TIME: 'Time', LTIME: 'LTime', DATE: 'Date',
+  TIME_OF_DAY: 'Time_Of_Day', TOD: 'Time_Of_Day', DATE_AND_TIME: 'Date_And_Time', DT: 'Date_And_Time'
+};
+
+const TAG_HEADER = [
+  'Name', 'Path', 'Connection', 'PLC tag', 'DataType', 'HMI DataType', 'Length', 'Access Method', 'Address',
+  'Start value', 'Comment [en-US]', 'Acquisition mode', 'Acquisition cycle',
+  'Limit Upper 2 Type', 'Limit Upper 2', 'Limit Upper 1 Type', 'Limit Upper 1',
+  'Limit Lower 1 Type', 'Limit Lower 1', 'Limit Lower 2 Type', 'Limit Lower 2',
+  'Linear scaling', 'End value PLC', 'Start value PLC', 'End value HMI', 'Start value HMI'
+];
+
+const ALARM_HEADER = ['ID', 'Name', 'Alarm text [en-US]', 'Class', 'Trigger tag', 'Limit', 'Limit mode', 'Deadband mode', 'Deadband value', 'Priority'];
+
+const ALARM_TEXT: Record<AlarmLevel, string> = { hh: 'high-high', h: 'high', l: 'low', ll: 'low-low' };
+
+/** TIA Portal name of a data type; arrays keep their IEC form with TIA element names */
+export function winccDataType(dataType: string | null | undefined): string {
+  const array = parseArrayType(dataType || '');
+  const base = (array ? array.baseType : dataType || '').trim();
+  const string = base.match(/^(W?STRING)\s*\[\s*(\d+)\s*\]$/i);
+  const name = string ? `${WINCC_DATA_TYPES[string[1].toUpperCase()]}[${string[2]}]` : WINCC_DATA_TYPES[base.toUpperCase()] || base;
+  return array ? `Array[${array.dimensions.map(d => `${d.lower}..${d.upper}`).join(', ')}] of ${name}` : name;
+}
+
+function isSet(value: number | null | undefined): value is number {
+  return value !== null && value !== undefined;
+}
+
+// Siemens tags are linked symbolically to the PLC tag; other PLCs are reached by address or symbol
+function plcLink(vendor: string | null, plcTag: string, address: string | null): { plcTag: string; accessMethod: string; address: string } {
+  if ((vendor || '').toLowerCase() === 'siemens') {
+    return { plcTag, accessMethod: 'Symbolic access', address: '' };
+  }
+  return { plcTag: '', accessMethod: 'Absolute access', address: address || plcTag };
+}
+
+// Elementary members of a structured tag, flattened to HMI tags Motor_Speed -> Motor.Speed
+function flattenMembers(node: TypeMemberNode): TypeMemberNode[] {
+  if (node.kind !== 'struct' || node.truncated) return [node];
+  return (node.members || []).flatMap(flattenMembers);
+}
+
+function limitColumns(tag: TagEngineeringFields): any[] {
+  // Limit Upper 2 / Upper 1 / Lower 1 / Lower 2 are HH / H / L / LL
+  return ALARM_LEVELS.flatMap(level => {
+    const limit = tag[`alarm_${level}` as keyof TagEngineeringFields] as number | null | undefined;
+    return isSet(limit) ? ['Constant', limit] : ['None', ''];
+  });
+}
+
+function scalingColumns(tag: TagEngineeringFields): any[] {
+  const scaled = isSet(tag.raw_min) && isSet(tag.raw_max) && isSet(tag.eng_min) && isSet(tag.eng_max);
+  return scaled ? ['True', tag.raw_max, tag.raw_min, tag.eng_max, tag.eng_min] : ['False', '', '', '', ''];
+}
+
+// Tag priorities follow OPC UA severity (1-1000); TIA alarm priorities run 0-16
+function alarmPriority(priority: number | null | undefined): number | string {
+  return isSet(priority) ? Math.min(16, Math.round(priority / 1000 * 16)) : '';
+}
+
+/**
+ * Write the project's tags as a WinCC HMI tag table (XLSX)
+ */
+export async function exportWinccHmiTags(projectId: number, outStream: Writable, options: WinccExportOptions = {}, conn: Knex | Knex.Transaction = db): Promise<boolean> {
+  try {
+    console.log(`🔄 Starting WinCC HMI tag export for project ${projectId}`);
+
+    const connection = options.connection || DEFAULT_CONNECTION;
+    const tags = await conn('tags').where({ project_id: projectId }).orderBy(['scope', 'name']);
+    const definitions = await loadProjectUdts(projectId, conn);
+
+    const tagRows: any[][] = [TAG_HEADER];
+    const alarmRows: any[][] = [ALARM_HEADER];
+
+    for (const tag of tags) {
+      const dataType = tag.data_type || tag.type || 'BOOL';
+      const members = flattenMembers(expandDataType(tag.name, dataType, definitions));
+      const structured = members.length !== 1 || members[0].path !== tag.name;
+
+      for (const member of members) {
+        const hmiName = member.path.replace(/[.\[\],]/g, '_').replace(/_+$/, '');
+        const plcTag = `${plcTagSymbol(tag)}${member.path.slice(tag.name.length)}`;
+        // Members of a structured tag are reached by symbol; the tag's own address covers the whole structure
+        const link = plcLink(tag.vendor, plcTag, structured ? null : tag.address);
+        const type = winccDataType(member.data_type);
+        const stringLength = type.match(/^W?String\[(\d+)\]$/);
+        // Engineering data belongs to the tag itself, not to members of a structured tag
+        const engineering: TagEngineeringFields = structured ? {} : tag;
+
+        tagRows.push([
+          hmiName,
+          DEFAULT_TAG_TABLE,
+          connection,
+          link.plcTag,
+          type,
+          type,
+          stringLength ? stringLength[1] : '',
+          link.accessMethod,
+          link.address,
+          structured ? '' : tag.default_value ?? '',
+          (structured ? member.description : tag.description) || '',
+          'Cyclic in operation',
+          DEFAULT_ACQUISITION_CYCLE,
+          ...limitColumns(engineering),
+          ...scalingColumns(engineering)
+        ]);
+
+        for (const level of ALARM_LEVELS) {
+          const limit = engineering[`alarm_${level}` as keyof TagEngineeringFields] as number | null | undefined;
+          if (!isSet(limit)) continue;
+          const deadband = engineering[`alarm_${level}_deadband` as keyof TagEngineeringFields] as number | null | undefined;
+          const priority = engineering[`alarm_${level}_priority` as keyof TagEngineeringFields] as number | null | undefined;
+          alarmRows.push([
+            alarmRows.length,
+            `${hmiName}_${level.toUpperCase()}`,
+            `${tag.description || hmiName} ${ALARM_TEXT[level]} (${limit}${tag.engineering_unit ? ` ${tag.engineering_unit}` : ''})`,
+            level === 'hh' || level === 'll' ? 'Errors' : 'Warnings',
+            hmiName,
+            limit,
+            level.startsWith('h') ? 'Higher' : 'Lower',
+            isSet(deadband) ? (level.startsWith('h') ? 'On falling edge' : 'On rising edge') : 'Off',
+            isSet(deadband) ? deadband : '',
+            alarmPriority(priority)
+          ]);
+        }
+      }
+    }
+
+    const workbook = XLSX.utils.book_new();
+    const tagSheet = XLSX.utils.aoa_to_sheet(tagRows);
+    tagSheet['!cols'] = TAG_HEADER.map((_, i) => ({ width: i < 5 ? 25 : 15 }));
+    XLSX.utils.book_append_sheet(workbook, tagSheet, 'Hmi Tags');
+
+    const alarmSheet = XLSX.utils.aoa_to_sheet(alarmRows);
+    alarmSheet['!cols'] = ALARM_HEADER.map((_, i) => ({ width: i === 2 ? 40 : 18 }));
+    XLSX.utils.book_append_sheet(workbook, alarmSheet, 'AnalogAlarms');
+
+    outStream.write(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+    outStream.end();
+
+    console.log(`✅ Successfully exported ${tagRows.length - 1} HMI tags and ${alarmRows.length - 1} analog alarms to WinCC XLSX`);
+    return true;
+  } catch (error) {
+    throw new Error(`Failed to export WinCC HMI tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,137 @@
+import * as XLSX from 'xlsx';
+import { ImportRowError, ParsedTagImport } from '../services/tagImportPipeline';
+
+// Shared reader for vendor XLSX tag imports: finds the tag table on every sheet,
+// maps headers to a vendor's canonical row keys and remembers where each value came from
+
+/** A canonical row plus its sheet, 1-based sheet row and the cell each field was read from */
+export interface XlsxTagRow<T> {
+  sheet: string;
+  row: number;
+  values: T;
+  cells: Partial<Record<keyof T, string>>;
+}
+
+export interface XlsxTagSheetOptions<T> {
+  // Lower-case header text -> canonical key
+  headerMap: Record<string, keyof T>;
+  // Key whose column marks a sheet as a tag table
+  nameField: keyof T;
+  // Rows without a scope take the sheet name, so one sheet per scope / program round-trips
+  scopeField?: keyof T;
+  // Sheet names that do not stand for a scope (our own export sheet, TIA "PLC tags", ...)
+  defaultSheetNames?: string[];
+}
+
+// Title rows above the header are skipped when they appear within this many rows
+const HEADER_SEARCH_ROWS = 10;
+
+export function readXlsxWorkbook(buffer: Buffer, label: string): XLSX.WorkBook {
+  try {
+    return XLSX.read(buffer, { type: 'buffer' });
+  } catch (err) {
+    throw new Error(`Failed to read ${label} XLSX: ` + (err instanceof Error ? err.message : 'Unknown error'));
+  }
+}
+
+function isScopeSheet(sheetName: string, defaultSheetNames: string[]): boolean {
+  const name = sheetName.trim().toLowerCase();
+  if (/^sheet\d*$/.test(name)) return false;
+  return !defaultSheetNames.some(d => d.toLowerCase() === name);
+}
+
+/**
+ * Read the tag rows of every sheet that has a name column; other sheets (properties,
+ * notes, pivot tables) are skipped. Fully blank rows are ignored.
+ */
+export function readXlsxTagSheets<T extends object>(workbook: XLSX.WorkBook, options: XlsxTagSheetOptions<T>): XlsxTagRow<T>[] {
+  const { headerMap, nameField, scopeField, defaultSheetNames = [] } = options;
+  const rows: XlsxTagRow<T>[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet || !worksheet['!ref']) continue;
+
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    const table = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: '', raw: false, blankrows: true });
+
+    const canonicalOf = (header: any) => headerMap[String(header ?? '').trim().toLowerCase()];
+    const headerIndex = table
+      .slice(0, HEADER_SEARCH_ROWS)
+      .findIndex(cells => (cells || []).some(cell => canonicalOf(cell) === nameField));
+    if (headerIndex < 0) continue;
+
+    const columns = new Map<number, keyof T>();
+    table[headerIndex].forEach((header: any, index: number) => {
+      const canonical = canonicalOf(header);
+      // First matching column wins when a sheet repeats a header
+      if (canonical && ![...columns.values()].includes(canonical)) columns.set(index, canonical);
+    });
+
+    const scopeFromSheet = scopeField && ![...columns.values()].includes(scopeField) && isScopeSheet(sheetName, defaultSheetNames);
+
+    for (let i = headerIndex + 1; i < table.length; i++) {
+      const sheetRow = range.s.r + i;
+      const values = {} as T;
+      const cells: Partial<Record<keyof T, string>> = {};
+
+      for (const [index, canonical] of columns) {
+        // Empty cells keep their reference so a "missing value" error can still point at them
+        cells[canonical] = XLSX.utils.encode_cell({ r: sheetRow, c: range.s.c + index });
+        const value = String(table[i]?.[index] ?? '').trim();
+        if (value !== '') (values as any)[canonical] = value;
+      }
+
+      if (Object.keys(values).length === 0) continue;
+      if (scopeFromSheet && (values as any)[scopeField] === undefined) {
+        (values as any)[scopeField] = sheetName;
+      }
+
+      rows.push({ sheet: sheetName, row: sheetRow + 1, values, cells });
+    }
+  }
+
+  return rows;
+}
+
+/** Canonical keys of a vendor row, used to point row errors at the offending cell */
+export interface XlsxErrorFields<T> {
+  name: keyof T;
+  dataType: keyof T;
+  address?: keyof T;
+  defaultValue?: keyof T;
+  comment?: keyof T;
+}
+
+// Best guess at the cell an error message is about; falls back to the name cell
+function errorCell<T>(message: string, row: XlsxTagRow<T>, fields: XlsxErrorFields<T>): string | undefined {
+  const text = message.toLowerCase();
+  const field =
+    (/address/.test(text) && fields.address) ||
+    (/type/.test(text) && fields.dataType) ||
+    (/value/.test(text) && fields.defaultValue) ||
+    (/unit|scal|alarm|limit|comment|description/.test(text) && fields.comment) ||
+    fields.name;
+  return row.cells[field] || row.cells[fields.name];
+}
+
+/**
+ * Validators number errors by position in the row list; rewrite them to sheet/row/cell references
+ * ("Tags!C7") so a user can find the cell in the workbook.
+ */
+export function locateXlsxErrors<T>(parsed: ParsedTagImport, rows: XlsxTagRow<T>[], fields: XlsxErrorFields<T>): ParsedTagImport {
+  const errors = parsed.errors.map((error): ImportRowError => {
+    const source = error.row > 0 ? rows[error.row - 1] : undefined;
+    if (!source) return error;
+
+    const cell = errorCell(error.errors[0] || '', source, fields);
+    return {
+      ...error,
+      row: source.row,
+      sheet: source.sheet,
+      cell: cell ? `${source.sheet}!${cell}` : undefined
+    };
+  });
+
+  return { ...parsed, errors };
+}
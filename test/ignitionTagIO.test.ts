@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportIgnitionTags } from '../src/utils/ignitionTagIO';
+import { captureStream } from './support/captureStream';
+import { fakeKnex } from './support/fakeKnex';
+
+test('Ignition export has UDT definitions, instances and OPC tags with scaling and alarms', async () => {
+  const conn = fakeKnex({
+    tags: [
+      {
+        id: 1, project_id: 1, name: 'Level', data_type: 'REAL', address: 'MW10', vendor: 'siemens', scope: 'global', tag_type: 'memory',
+        description: 'Tank level', engineering_unit: 'm', raw_min: 0, raw_max: 27648, eng_min: 0, eng_max: 10, alarm_hh: 9.5, alarm_hh_priority: 900
+      },
+      { id: 2, project_id: 1, name: 'Start', data_type: 'BOOL', address: 'I0.0', vendor: 'siemens', scope: 'global', tag_type: 'input' },
+      { id: 3, project_id: 1, name: 'Pump1', data_type: 'Motor', address: '', vendor: 'rockwell', scope: 'Line', tag_type: 'memory' }
+    ],
+    user_defined_types: [{ id: 1, project_id: 1, name: 'Motor', members: [{ name: 'Speed', data_type: 'REAL', description: 'Speed setpoint' }] }]
+  });
+  const output = captureStream();
+  await exportIgnitionTags(1, output.stream, { connection: 'Line1_PLC' }, conn);
+
+  const folders = Object.fromEntries(JSON.parse(output.contents().toString('utf8')).tags.map((f: any) => [f.name, f.tags]));
+
+  const [motor] = folders._types_;
+  assert.equal(motor.tagType, 'UdtType');
+  assert.deepEqual(motor.tags[0].opcItemPath, { bindType: 'parameter', binding: 'ns=1;s=[{Connection}]{BasePath}.Speed' });
+
+  const [level, start] = folders.Global;
+  assert.equal(level.dataType, 'Float4');
+  assert.equal(level.opcItemPath, 'ns=1;s=[Line1_PLC]MREAL10');
+  assert.deepEqual([level.scaleMode, level.rawHigh, level.scaledHigh, level.engUnit], ['Linear', 27648, 10, 'm']);
+  assert.deepEqual(level.alarms, [{ name: 'HH', mode: 'AboveValue', setpointA: 9.5, priority: 'Critical' }]);
+  assert.equal(start.opcItemPath, 'ns=1;s=[Line1_PLC]IX0.0');
+  assert.equal(start.readOnly, true);
+
+  const [pump] = folders.Line;
+  assert.deepEqual([pump.tagType, pump.typeId], ['UdtInstance', 'Motor']);
+  assert.equal(pump.parameters.Connection.value, 'Line1_PLC');
+  assert.equal(pump.parameters.BasePath.value, 'Program:Line.Pump1');
+});
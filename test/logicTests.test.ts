@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LogicTest } from '../src/db/tables/logic_tests';
+import { normalizeTestSteps, runLogicTest } from '../src/utils/logicTests';
+import { createRunBudget } from '../src/utils/stInterpreter';
+
+const CODE = `PROGRAM Main
+VAR Start : BOOL; Timer : TON; Lamp : BOOL; i : INT; END_VAR
+Timer(IN := Start, PT := T#1s);
+Lamp := Timer.Q;
+FOR i := 1 TO 100 DO END_FOR;
+END_PROGRAM`;
+
+const logicTest = (id: number, steps: unknown[]): LogicTest => ({
+  id,
+  project_id: 1,
+  name: `case ${id}`,
+  steps: normalizeTestSteps(steps),
+  created_at: '',
+  updated_at: ''
+});
+
+test('assertions report the scan they were checked on', () => {
+  const result = runLogicTest(CODE, logicTest(1, [
+    { action: 'force', values: { Start: true } },
+    { action: 'advance', time: 'T#500ms' },
+    { action: 'assert', path: 'Lamp', expected: true }
+  ]), [], createRunBudget(1000000, 60000));
+
+  assert.equal(result.passed, false);
+  assert.equal(result.error, undefined);
+  assert.deepEqual(
+    result.assertions.map(a => [a.passed, a.scan]),
+    [[false, 50]]
+  );
+});
+
+test('cases share the run budget and those that run out are reported as errors', () => {
+  const budget = createRunBudget(20000, 60000);
+  const steps = [
+    { action: 'force', values: { Start: true } },
+    { action: 'step', scans: 300 },
+    { action: 'assert', path: 'Lamp', expected: true }
+  ];
+  const first = runLogicTest(CODE, logicTest(1, steps), [], budget);
+  const second = runLogicTest(CODE, logicTest(2, steps), [], budget);
+
+  // About 100 statements per scan: the first case stops part way through its scans
+  assert.equal(first.passed, false);
+  assert.equal(first.error?.step, 2);
+  assert.match(first.error!.message, /budget/);
+  assert.ok(first.error!.scan > 0 && first.error!.scan < 300);
+
+  assert.equal(second.passed, false);
+  assert.equal(second.error?.step, 0);
+  assert.match(second.error!.message, /^Not run/);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModbusMapEntry } from '../src/db/tables';
+import { ModbusAllocationPlan, modiconAddress, planModbusAllocation } from '../src/utils/modbusMap';
+
+// A plan as stored entries, the input of the next regeneration
+const stored = (plan: ModbusAllocationPlan): ModbusMapEntry[] => plan.entries.map((entry, i) => ({
+  ...entry,
+  id: i + 1,
+  map_id: 1,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+}));
+
+const addresses = (plan: ModbusAllocationPlan) =>
+  Object.fromEntries(plan.entries.map(e => [e.tag_name, modiconAddress(e.register_type, e.offset)]));
+
+test('regenerating a map keeps existing addresses and appends added or resized tags', () => {
+  const first = planModbusAllocation([], [
+    { id: 1, name: 'Setpoint', data_type: 'INT' },
+    { id: 2, name: 'Flow', data_type: 'REAL', tag_type: 'input' },
+    { id: 3, name: 'Speed', data_type: 'REAL' },
+    { id: 4, name: 'Count', data_type: 'INT' },
+    { id: 5, name: 'Run', data_type: 'BOOL' }
+  ]);
+  assert.deepEqual(addresses(first), { Run: '000001', Setpoint: '400001', Speed: '400002', Count: '400004', Flow: '300001' });
+
+  // Setpoint grows to a DINT, Count is dropped and Level is new
+  const second = planModbusAllocation(stored(first), [
+    { id: 6, name: 'Level', data_type: 'REAL' },
+    { id: 1, name: 'Setpoint', data_type: 'DINT' },
+    { id: 2, name: 'Flow', data_type: 'REAL', tag_type: 'input' },
+    { id: 3, name: 'Speed', data_type: 'REAL' },
+    { id: 5, name: 'Run', data_type: 'BOOL' }
+  ], { nextOffsets: first.nextOffsets });
+
+  assert.deepEqual(second.kept, ['Flow', 'Speed', 'Run']);
+  assert.deepEqual(second.added, ['Level']);
+  assert.deepEqual(second.moved, [{ tag: 'Setpoint', from: '400001', to: '400007' }]);
+  assert.deepEqual(second.removed, ['Count']);
+  // Freed registers (Setpoint's old one, Count's) are not handed to the new tag
+  assert.deepEqual(addresses(second), { Run: '000001', Speed: '400002', Level: '400005', Setpoint: '400007', Flow: '300001' });
+  assert.equal(second.nextOffsets.holding_register, 8);
+});
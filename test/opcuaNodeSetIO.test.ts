@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as xml2js from 'xml2js';
+import { exportOpcUaNodeSet } from '../src/utils/opcuaNodeSetIO';
+import { captureStream } from './support/captureStream';
+import { fakeKnex } from './support/fakeKnex';
+
+test('tags become variables in scope folders, with engineering properties and UDT members', async () => {
+  const conn = fakeKnex({
+    projects: [{ id: 1, project_name: 'Line 1' }],
+    tags: [
+      { id: 1, project_id: 1, name: 'Level', data_type: 'REAL', scope: 'global', tag_type: 'memory', description: 'Tank level', default_value: '', eng_min: 0, eng_max: 100, engineering_unit: 'm' },
+      { id: 2, project_id: 1, name: 'Run', data_type: 'BOOL', scope: 'MainProgram', tag_type: 'input', default_value: 'TRUE' },
+      { id: 3, project_id: 1, name: 'Pump1', data_type: 'Motor', scope: 'global', tag_type: 'memory' }
+    ],
+    user_defined_types: [{ id: 1, project_id: 1, name: 'Motor', members: [{ name: 'Speed', data_type: 'INT' }] }]
+  });
+  const output = captureStream();
+  await exportOpcUaNodeSet(1, output.stream, conn);
+
+  const { UANodeSet } = await new xml2js.Parser().parseStringPromise(output.contents().toString('utf8'));
+  const objects = Object.fromEntries(UANodeSet.UAObject.map((o: any) => [o.$.NodeId, o]));
+  const variables = Object.fromEntries(UANodeSet.UAVariable.map((v: any) => [v.$.NodeId, v]));
+
+  assert.ok(objects['ns=1;s=Project.Global']);
+  assert.ok(objects['ns=1;s=Project.MainProgram']);
+
+  const level = variables['ns=1;s=Project.Global.Level'];
+  assert.equal(level.$.DataType, 'Float');
+  assert.equal(level.Description[0], 'Tank level');
+  const range = variables['ns=1;s=Project.Global.Level.EURange'].Value[0]['uax:ExtensionObject'][0]['uax:Body'][0].Range[0];
+  assert.deepEqual([range.Low[0], range.High[0]], ['0', '100']);
+  const units = variables['ns=1;s=Project.Global.Level.EngineeringUnits'].Value[0]['uax:ExtensionObject'][0]['uax:Body'][0].EUInformation[0];
+  assert.equal(units.DisplayName[0].Text[0], 'm');
+
+  // Inputs are read-only and keep their default value
+  const run = variables['ns=1;s=Project.MainProgram.Run'];
+  assert.deepEqual([run.$.DataType, run.$.AccessLevel], ['Boolean', '1']);
+  assert.equal(run.Value[0]['uax:Boolean'][0], 'true');
+
+  // A UDT instance is an object with one component per member
+  assert.ok(objects['ns=1;s=Project.Global.Pump1']);
+  assert.equal(variables['ns=1;s=Project.Global.Pump1.Speed'].$.DataType, 'Int16');
+  assert.equal(variables['ns=1;s=Project.Global.Pump1.Speed'].$.ParentNodeId, 'ns=1;s=Project.Global.Pump1');
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { importProjectFile } from '../src/services/projectImportService';
+import { fakeKnex } from './support/fakeKnex';
+
+const L5X = `<?xml version="1.0" encoding="UTF-8"?>
+<RSLogix5000Content SchemaRevision="1.0" TargetType="Controller">
+  <Controller Name="Line1" ProcessorType="1756-L83E">
+    <Tags>
+      <Tag Name="Start" DataType="BOOL"/>
+      <Tag Name="Speed" DataType="DINT"/>
+      <Tag Name="2ndPump" DataType="BOOL"/>
+      <Tag Name="Recipe" DataType="MYSTERY_TYPE"/>
+    </Tags>
+    <Programs>
+      <Program Name="MainProgram">
+        <Routines>
+          <Routine Name="Logic" Type="ST">
+            <STContent>
+              <Line Number="0">Speed := Speed + 1;</Line>
+            </STContent>
+          </Routine>
+          <Routine Name="Ladder" Type="RLL">
+            <RLLContent>
+              <Rung Number="0"><Text>XIC(Start)OTE(Run);</Text></Rung>
+            </RLLContent>
+          </Routine>
+        </Routines>
+      </Program>
+    </Programs>
+  </Controller>
+</RSLogix5000Content>
+`;
+
+test('an L5X becomes a Rockwell project with its tags, ST routines and a first version', async () => {
+  const tables: Record<string, any[]> = { projects: [], team_members: [], tags: [], logic_studio: [], project_versions: [] };
+
+  const summary = await importProjectFile({ fileName: 'Line1.L5X', buffer: Buffer.from(L5X), userId: 'user-1' }, fakeKnex(tables));
+
+  assert.equal(summary.project.projectName, 'Line1');
+  assert.equal(summary.project.targetPLCVendor, 'rockwell');
+  assert.deepEqual(tables.tags.map(t => t.name), ['Start', 'Speed']);
+  assert.equal(summary.tags.imported, 2);
+  assert.deepEqual(summary.tags.unmapped.map(u => u.name), ['2ndPump', 'Recipe']);
+
+  // Only the ST routine is stored, wrapped as a program of its own
+  assert.deepEqual(summary.routines.imported, ['MainProgram_Logic']);
+  assert.match(summary.routines.unmapped[0].reason, /RLL routine/);
+  assert.match(tables.logic_studio[0].code, /PROGRAM MainProgram_Logic[\s\S]*Speed := Speed \+ 1;/);
+
+  // Logic Studio points at version 1, which snapshots the imported tags
+  const [version] = tables.project_versions;
+  assert.equal(version.version_number, 1);
+  assert.equal(tables.logic_studio[0].version_id, version.id);
+  assert.equal(JSON.parse(version.data).tags.length, 2);
+});
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { unsafeRegexReason } from '../src/utils/safeRegex';
+
+test('patterns that can backtrack catastrophically are rejected', () => {
+  for (const pattern of ['(a+)+$', '^(\\w*)*$', '(x|xy)*z', '^(?:[A-Z]+\\d?)+$', '(a)\\1', '(?<n>a)\\k<n>', '^(.{2,})+$']) {
+    assert.notEqual(unsafeRegexReason(pattern), null, pattern);
+  }
+});
+
+test('linear patterns and delimited repetitions are allowed', () => {
+  for (const pattern of ['^[A-Z]{2,4}_\\d{3}$', '^(AI|AO|DI|DO)_', '^[A-Z0-9]+(_[A-Z0-9]+)*$', '^[a-z]+(?:\\.[a-z]+)*$', '_old$', '(ab)?c+']) {
+    assert.equal(unsafeRegexReason(pattern), null, pattern);
+  }
+  // With the i flag the inner class also matches the delimiter 'X'
+  assert.equal(unsafeRegexReason('^(X[a-z]+)*$'), null);
+  assert.notEqual(unsafeRegexReason('^(X[a-z]+)*$', 'i'), null);
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatST } from '../src/utils/stFormatter';
+
+// CASE labels starting a row and labels after OF or a ';' on the same row
+const CASE_LABELS = `PROGRAM Main
+CASE State OF 0 : Lamp := FALSE;
+1:Lamp := TRUE; 2 : Lamp := FALSE;
+3, 5..7 :
+Count := Count + 1;
+8: IF Start THEN Lamp := TRUE; END_IF; 9 : Lamp := FALSE;
+ELSE
+Lamp := FALSE;
+END_CASE;
+END_PROGRAM
+`;
+
+const CASE_LABELS_FORMATTED = `PROGRAM Main
+CASE State OF 0: Lamp := FALSE;
+    1: Lamp := TRUE; 2: Lamp := FALSE;
+    3, 5..7:
+        Count := Count + 1;
+    8: IF Start THEN Lamp := TRUE; END_IF; 9: Lamp := FALSE;
+ELSE
+    Lamp := FALSE;
+END_CASE;
+END_PROGRAM
+`;
+
+test('CASE labels get the same colon spacing wherever they appear', () => {
+  assert.equal(formatST(CASE_LABELS).code, CASE_LABELS_FORMATTED);
+  assert.equal(formatST(CASE_LABELS_FORMATTED).changed, false);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRunBudget, createSimulator, isRunBudgetExhausted, SimulationBudgetError } from '../src/utils/stInterpreter';
+
+const pulse = (sim: ReturnType<typeof createSimulator>, path: string) => {
+  sim.force(path, true);
+  sim.step();
+  sim.force(path, false);
+  sim.step();
+};
+
+test('CTU and CTD accept the TwinCAT / CODESYS parameter names RESET and LOAD', () => {
+  const sim = createSimulator(`PROGRAM Main
+VAR
+  Up : BOOL; Down : BOOL; Clear : BOOL; Reload : BOOL;
+  Counter : CTU; DownCounter : CTD;
+END_VAR
+Counter(CU := Up, RESET := Clear, PV := 3);
+DownCounter(CD := Down, LOAD := Reload, PV := 2);
+END_PROGRAM`);
+
+  pulse(sim, 'Up');
+  pulse(sim, 'Up');
+  pulse(sim, 'Up');
+  assert.equal(sim.read('Counter.CV'), 3);
+  assert.equal(sim.read('Counter.Q'), true);
+
+  sim.force('Clear', true);
+  sim.step();
+  assert.equal(sim.read('Counter.CV'), 0);
+  assert.equal(sim.read('Counter.RESET'), true);
+
+  pulse(sim, 'Reload');
+  assert.equal(sim.read('DownCounter.CV'), 2);
+  pulse(sim, 'Down');
+  pulse(sim, 'Down');
+  assert.equal(sim.read('DownCounter.CV'), 0);
+  assert.equal(sim.read('DownCounter.Q'), true);
+});
+
+test('CTU and CTD keep the IEC parameter names R and LD', () => {
+  const sim = createSimulator(`PROGRAM Main
+VAR Up : BOOL; Clear : BOOL; Counter : CTU; DownCounter : CTD; END_VAR
+Counter(CU := Up, R := Clear, PV := 1);
+DownCounter(CD := Up, LD := Clear, PV := 5);
+END_PROGRAM`);
+
+  pulse(sim, 'Up');
+  assert.equal(sim.read('Counter.Q'), true);
+  sim.force('Clear', true);
+  sim.step();
+  assert.equal(sim.read('Counter.CV'), 0);
+  assert.equal(sim.read('DownCounter.CV'), 5);
+});
+
+test('a run budget stops between scans once it is used up', () => {
+  const sim = createSimulator(`PROGRAM Main
+VAR i : INT; Scans : DINT; END_VAR
+FOR i := 1 TO 1000 DO END_FOR;
+Scans := Scans + 1;
+END_PROGRAM`);
+
+  const budget = createRunBudget(5000, 60000);
+  assert.throws(() => sim.step(100, budget), SimulationBudgetError);
+  // Each scan runs about 1000 statements: the scan that crosses the budget completes, no later one starts
+  assert.ok(sim.scanCount >= 4 && sim.scanCount <= 6);
+  assert.equal(sim.read('Scans'), sim.scanCount);
+  assert.ok(isRunBudgetExhausted(budget));
+
+  // Without a budget the simulation carries on
+  sim.step(1);
+  assert.equal(sim.read('Scans'), sim.scanCount);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LintSettingsError, lintST, normalizeLintRules } from '../src/utils/stLinter';
+
+const CODE = `FUNCTION_BLOCK FB_Valve
+VAR_INPUT
+    Open : BOOL;
+END_VAR
+VAR_OUTPUT
+    Opened : BOOL;
+END_VAR
+Open := FALSE;
+Opened := Open;
+Opened := TRUE;
+END_FUNCTION_BLOCK
+
+PROGRAM Main
+VAR
+    Delay : TON;
+    Level : REAL;
+    Count : INT;
+    Total : DINT;
+    Spare : BOOL;
+    Valve : FB_Valve;
+    Pulse : TP;
+END_VAR
+IF Start THEN
+    Delay(IN := TRUE, PT := T#1S);
+END_IF;
+CASE Count OF
+    1: Valve(Open := TRUE);
+END_CASE;
+IF Level = 1.5 AND Pulse.Q THEN
+    Count := 1;
+END_IF;
+Count := Total;
+Missing := 1;
+END_PROGRAM
+`;
+
+// Start is a project tag, so it is declared outside the code
+const externals = [{ name: 'Start', dataType: 'BOOL' }];
+
+test('every rule reports at the offending line and column', () => {
+  const { findings, summary } = lintST(CODE, { externals });
+
+  assert.deepEqual(findings.map(f => [f.rule, f.line, f.column, f.pou]), [
+    ['input_assignment', 8, 1, 'FB_Valve'],
+    ['multiple_output_writes', 10, 1, 'FB_Valve'],
+    ['unused_variable', 19, 5, 'Main'],
+    ['uninitialized_fb_instance', 21, 5, 'Main'],
+    ['timer_in_conditional', 24, 5, 'Main'],
+    ['case_without_else', 26, 1, 'Main'],
+    ['real_equality', 29, 4, 'Main'],
+    ['implicit_narrowing', 32, 10, 'Main'],
+    ['undeclared_variable', 33, 1, 'Main']
+  ]);
+  assert.deepEqual(summary, { error: 1, warning: 7, info: 1 });
+});
+
+test('project settings switch rules off or change their severity', () => {
+  const rules = normalizeLintRules({ unused_variable: { enabled: false }, case_without_else: { severity: 'error' } });
+  const { findings } = lintST(CODE, { externals, rules });
+
+  assert.ok(!findings.some(f => f.rule === 'unused_variable'));
+  assert.equal(findings.find(f => f.rule === 'case_without_else')!.severity, 'error');
+  assert.throws(() => normalizeLintRules({ magic_numbers: { enabled: true } }), LintSettingsError);
+});
+
+test('code with syntax errors only reports the syntax errors', () => {
+  const { findings } = lintST(CODE.replace('Count := Total;', 'Count := Total'), { externals });
+
+  assert.deepEqual(findings.map(f => [f.rule, f.severity, f.line]), [['syntax_error', 'error', 32]]);
+});
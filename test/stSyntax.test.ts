@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { STAssignment, STBinary, STPou } from '../src/utils/stAst';
+import { parseST } from '../src/utils/stSyntax';
+import { parseSTVariablesDetailed } from '../src/utils/stParser';
+
+const CODE = `FUNCTION_BLOCK FB_Pump
+VAR_INPUT
+    Start : BOOL;
+    Speed AT %IW10 : INT := 5;
+END_VAR
+VAR
+    Count : INT
+    Total : DINT;
+END_VAR
+Count := ;
+Total := Total + Count * 2;
+END_FUNCTION_BLOCK
+
+PROGRAM Main
+VAR
+    Pump : FB_Pump;
+END_VAR
+Pump(Start := TRUE);
+END_PROGRAM
+`;
+
+test('syntax errors carry line and column and parsing resumes after them', () => {
+  const { ast, errors } = parseST(CODE);
+
+  // A missing ';' is reported right after the token it should follow
+
+  assert.deepEqual(errors.map(e => [e.line, e.column]), [[7, 16], [10, 10]]);
+  assert.match(errors[0].message, /';'/);
+
+  // Both POUs and the statements after the broken one are still in the tree
+  const [pump, main] = ast.declarations as STPou[];
+  assert.deepEqual([pump.pouType, pump.name, main.pouType, main.name], ['FUNCTION_BLOCK', 'FB_Pump', 'PROGRAM', 'Main']);
+  const total = pump.body.find(s => s.kind === 'Assignment' && s.line === 11) as STAssignment;
+  const sum = total.value as STBinary;
+  assert.equal(sum.operator, '+');
+  assert.equal((sum.right as STBinary).operator, '*');
+  assert.deepEqual([total.line, total.column], [11, 1]);
+  assert.equal(main.body[0].kind, 'CallStatement');
+
+  // Declarations before and after the error are kept, with addresses and initial values
+  const variables = parseSTVariablesDetailed(CODE);
+  const speed = variables.find(v => v.name === 'Speed')!;
+  assert.deepEqual([speed.dataType, speed.address, speed.defaultValue, speed.pou], ['INT', '%IW10', 5, 'FB_Pump']);
+  assert.ok(variables.some(v => v.name === 'Total' && v.dataType === 'DINT'));
+  assert.ok(variables.some(v => v.name === 'Pump' && v.pou === 'Main'));
+});
@@ -0,0 +1,13 @@
+import { Writable } from 'stream';
+
+// Collects what an exporter writes so a test can read the file back
+export function captureStream(): { stream: Writable; contents: () => Buffer } {
+  const chunks: Buffer[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      callback();
+    }
+  });
+  return { stream, contents: () => Buffer.concat(chunks) };
+}
@@ -0,0 +1,128 @@
+import type { Knex } from 'knex';
+
+// In-memory stand-in for the slice of the knex query builder the services use: inner joins,
+// equality filters, ordering, column selection, first(), insert() with serial ids, update() and
+// transactions that keep their writes only when the callback resolves. Columns may be written
+// as table.column.
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+function parseTable(spec: string): { table: string; alias: string } {
+  const [table, alias] = spec.split(/\s+as\s+/i);
+  return { table: table.trim(), alias: (alias || table).trim() };
+}
+
+// A joined row keeps every column twice: qualified (alias.column) and bare
+function qualify(alias: string, row: Row): Row {
+  const joined: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    joined[`${alias}.${key}`] = value;
+    joined[key] = value;
+  }
+  return joined;
+}
+
+function pick(rows: Row[], columns: string[]): Row[] {
+  if (columns.length === 0 || columns.includes('*')) {
+    return rows.map(row => Object.fromEntries(Object.entries(row).filter(([key]) => !key.includes('.'))));
+  }
+  return rows.map(row => Object.fromEntries(columns.map(column => {
+    const [source, as] = column.split(/\s+as\s+/i);
+    return [(as || source.split('.').pop()!).trim(), row[source.trim()]];
+  })));
+}
+
+function query(tables: () => Tables, spec: string) {
+  const { table, alias } = parseTable(spec);
+  const joins: Array<{ table: string; alias: string; left: string; right: string }> = [];
+  const filters: Array<(row: Row) => boolean> = [];
+  const order: Array<{ column: string; desc: boolean }> = [];
+  let columns: string[] = [];
+
+  // Joined rows, each with the base-table row it came from so updates can write through
+  const matching = () => {
+    let rows = (tables()[table] || []).map(base => ({ base, row: qualify(alias, base) }));
+    for (const join of joins) {
+      const other = tables()[join.table] || [];
+      rows = rows.flatMap(({ base, row }) => other
+        .map(right => ({ base, row: { ...row, ...qualify(join.alias, right) } }))
+        .filter(({ row: combined }) => combined[join.left] === combined[join.right]));
+    }
+    rows = rows.filter(({ row }) => filters.every(filter => filter(row)));
+    for (const { column, desc } of [...order].reverse()) {
+      rows.sort((a, b) => (a.row[column] < b.row[column] ? -1 : a.row[column] > b.row[column] ? 1 : 0) * (desc ? -1 : 1));
+    }
+    return rows;
+  };
+  const selectedRows = (selected: string[]) => pick(matching().map(({ row }) => row), selected);
+
+  const builder: any = {
+    join(other: string, left: string, right: string) {
+      joins.push({ ...parseTable(other), left, right });
+      return builder;
+    },
+    where(column: string | Row, value?: any) {
+      const conditions = typeof column === 'string' ? { [column]: value } : column;
+      filters.push(row => Object.entries(conditions).every(([key, expected]) => row[key] === expected));
+      return builder;
+    },
+    whereIn(column: string, values: any[]) {
+      filters.push(row => values.includes(row[column]));
+      return builder;
+    },
+    orderBy(column: string | string[], direction: string = 'asc') {
+      for (const each of Array.isArray(column) ? column : [column]) {
+        order.push({ column: each, desc: direction.toLowerCase() === 'desc' });
+      }
+      return builder;
+    },
+    select(...selected: string[]) {
+      columns = selected.flat();
+      return builder;
+    },
+    forUpdate() {
+      return builder;
+    },
+    async first(...selected: string[]) {
+      return selectedRows(selected.length > 0 ? selected : columns)[0];
+    },
+    insert(values: Row | Row[]) {
+      const target = tables()[table] || (tables()[table] = []);
+      const inserted = (Array.isArray(values) ? values : [values]).map(value => {
+        const row = { id: target.reduce((max, existing) => Math.max(max, Number(existing.id) || 0), 0) + 1, ...value };
+        target.push(row);
+        return row;
+      });
+      return {
+        async returning(...selected: string[]) {
+          return pick(inserted, selected.flat());
+        },
+        then(resolve: (count: number) => any, reject?: (error: unknown) => any) {
+          return Promise.resolve(inserted.length).then(resolve, reject);
+        }
+      };
+    },
+    async update(values: Row) {
+      const rows = matching();
+      rows.forEach(({ base }) => Object.assign(base, values));
+      return rows.length;
+    },
+    then(resolve: (rows: Row[]) => any, reject?: (error: unknown) => any) {
+      return Promise.resolve(selectedRows(columns)).then(resolve, reject);
+    }
+  };
+  return builder;
+}
+
+export function fakeKnex(tables: Tables): Knex {
+  const connection = (current: () => Tables) => (spec: string) => query(current, spec);
+  const conn: any = connection(() => tables);
+  conn.transaction = async (callback: (trx: any) => Promise<unknown>) => {
+    const copy: Tables = JSON.parse(JSON.stringify(tables));
+    const result = await callback(connection(() => copy));
+    Object.assign(tables, copy);
+    return result;
+  };
+  return conn as Knex;
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BulkEditError, MAX_RENAME_TAGS, parseBulkRename, planBulkTagEdit } from '../src/utils/tagBulkEdit';
+
+const tags = [
+  { id: 1, name: 'FlowRate', type: 'REAL', data_type: 'REAL', address: 'MD0', vendor: 'siemens', scope: 'global', tag_type: 'memory', alarm_hh: 110 },
+  { id: 2, name: 'Running', type: 'BOOL', data_type: 'BOOL', address: 'M4.0', vendor: 'siemens', scope: 'global', tag_type: 'memory' }
+];
+
+test('bulk edits fail tags whose engineering data no longer fits', () => {
+  const plan = planBulkTagEdit(tags, tags, { type: 'BOOL', data_type: 'BOOL' }, null);
+
+  assert.deepEqual(plan.updates.map(u => u.tagId), [2]);
+  assert.equal(plan.failures.length, 1);
+  assert.equal(plan.failures[0].tagId, 1);
+  assert.match(plan.failures[0].errors.join('\n'), /require a numeric data type, not BOOL/);
+});
+
+test('rename patterns that could backtrack catastrophically are rejected', () => {
+  assert.throws(() => parseBulkRename({ pattern: '^(\\w+)+$', replacement: 'x' }), BulkEditError);
+  assert.throws(() => parseBulkRename({ pattern: 'a'.repeat(201), replacement: 'x' }), /at most 200 characters/);
+  assert.equal(parseBulkRename({ pattern: '^Old_', replacement: 'New_' })!.test('Old_Pump'), true);
+});
+
+test('a rename selection is capped', () => {
+  const many = Array.from({ length: MAX_RENAME_TAGS + 1 }, (_, i) => ({ ...tags[1], id: i + 1, name: `Tag${i}` }));
+  assert.throws(() => planBulkTagEdit(many, many, {}, { regex: /^Tag/, replacement: 'T' }), BulkEditError);
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Knex } from 'knex';
+import { ConvertibleTag, planTagConversion } from '../src/utils/tagConverter';
+
+// Stands in for the two queries AddressAllocator.forProject makes
+const fakeConnection = (rows: Record<string, any[]>) =>
+  ((table: string) => ({ where: () => ({ select: async () => rows[table] || [] }) })) as unknown as Knex;
+
+const siemensTags: ConvertibleTag[] = [
+  { id: 1, name: 'Start', data_type: 'BOOL', address: 'I0.0', vendor: 'siemens', tag_type: 'input' },
+  { id: 2, name: 'Speed', data_type: 'INT', address: 'MW4', vendor: 'siemens', tag_type: 'memory' },
+  { id: 3, name: 'Label', data_type: 'STRING', address: '', vendor: 'siemens', tag_type: 'memory' }
+];
+
+test('conversion keeps clear of reservations and the project\'s other tags', async () => {
+  const conn = fakeConnection({
+    tags: [
+      ...siemensTags,
+      { id: 4, name: 'Stop', data_type: 'BOOL', address: '%IX1.0', vendor: 'beckhoff' }
+    ],
+    address_reservations: [{ vendor: 'beckhoff', start_address: '%IB0', end_address: '%IB0' }]
+  });
+
+  const plan = await planTagConversion(1, siemensTags, 'beckhoff', conn);
+  const byName = Object.fromEntries(plan.conversions.map(c => [c.name, c]));
+
+  // %IX0.0 is reserved and %IX1.0 belongs to Stop
+  assert.equal(byName.Start.converted.address, '%IX1.1');
+  assert.match(byName.Start.mappings.find(m => m.field === 'address')!.reason, /reserved or used by another tag/);
+  // The tags being converted do not block their own translated addresses
+  assert.equal(byName.Speed.converted.address, '%MW4');
+  // No absolute address for strings: the tag keeps a symbolic one
+  assert.equal(byName.Label.converted.address, 'Label');
+  assert.deepEqual(byName.Label.errors, []);
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTagFormat, requireTagFormat, tagFormatForFile, TagFormatError } from '../src/services/tagFormatRegistry';
+import { exportPlcopenXml, ParsedPlcopenImport } from '../src/utils/plcopenIO';
+import { captureStream } from './support/captureStream';
+import { fakeKnex } from './support/fakeKnex';
+
+test('formats resolve by id, by vendor and format, and by file name', () => {
+  assert.equal(getTagFormat('siemens', 'XLSX'), getTagFormat('siemens-xlsx'));
+  assert.equal(tagFormatForFile('rockwell', 'Line1_Tags.L5X')?.id, 'rockwell-l5x');
+  assert.equal(tagFormatForFile('beckhoff', 'tags.L5X'), undefined);
+
+  assert.throws(() => requireTagFormat('siemens-pdf', 'import'), (error: unknown) => error instanceof TagFormatError && error.statusCode === 404);
+  assert.throws(() => requireTagFormat('opcua-nodeset2', 'import'), (error: unknown) => error instanceof TagFormatError && error.statusCode === 400);
+});
+
+test('PLCopen XML export parses back into the same tags, data types and POUs', async () => {
+  const conn = fakeKnex({
+    projects: [{ id: 1, project_name: 'Line 1', target_plc_vendor: 'siemens' }],
+    tags: [
+      { id: 1, project_id: 1, name: 'Start', data_type: 'BOOL', type: 'BOOL', address: 'I0.0', vendor: 'siemens', description: 'Start button', default_value: '' },
+      { id: 2, project_id: 1, name: 'Speed', data_type: 'INT', type: 'INT', address: 'MW4', vendor: 'siemens', description: '', default_value: '10' }
+    ],
+    user_defined_types: [
+      { id: 1, project_id: 1, name: 'Motor', description: 'Drive', members: [{ name: 'Run', data_type: 'BOOL' }, { name: 'Speed', data_type: 'REAL' }] }
+    ],
+    logic_studio: [{ id: 1, project_id: 1, code: 'PROGRAM Main\nVAR\n    Count : INT;\nEND_VAR\nCount := Count + 1;\nEND_PROGRAM\n' }]
+  });
+  const output = captureStream();
+  await exportPlcopenXml(1, output.stream, conn);
+
+  const plcopen = requireTagFormat('plcopen-xml', 'import');
+  const parsed = await plcopen.parse!(output.contents(), { projectId: 2, userId: 'user-1', vendor: 'siemens', options: {} }) as ParsedPlcopenImport;
+
+  assert.deepEqual(parsed.errors, []);
+  assert.deepEqual(parsed.tags.map(t => [t.name, t.data_type, t.address, t.description, t.default_value]), [
+    ['Speed', 'INT', 'MW4', '', '10'],
+    ['Start', 'BOOL', 'I0.0', 'Start button', undefined]
+  ]);
+  assert.deepEqual(parsed.dataTypes!.map(d => [d.name, d.description, d.members.map(m => `${m.name}:${m.data_type}`)]), [
+    ['Motor', 'Drive', ['Run:BOOL', 'Speed:REAL']]
+  ]);
+  assert.deepEqual(parsed.pous.map(p => [p.name, p.pouType, p.variables.map(v => v.name), p.body.trim()]), [
+    ['Main', 'program', ['Count'], 'Count := Count + 1;']
+  ]);
+});
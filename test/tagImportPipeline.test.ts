@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { commitImportPreview, TagImportPreviewError } from '../src/services/tagImportPipeline';
+import { fakeKnex } from './support/fakeKnex';
+
+test('committing an expired preview leaves it marked expired', async () => {
+  const tables = {
+    tag_import_previews: [{
+      id: 'preview-1',
+      project_id: 1,
+      user_id: 'user-1',
+      status: 'pending',
+      errors: [],
+      tags: [],
+      expires_at: new Date(Date.now() - 60000).toISOString()
+    }]
+  };
+
+  await assert.rejects(
+    commitImportPreview('preview-1', 1, 'user-1', {}, fakeKnex(tables)),
+    (error: unknown) => error instanceof TagImportPreviewError && error.statusCode === 410
+  );
+  assert.equal(tables.tag_import_previews[0].status, 'expired');
+});
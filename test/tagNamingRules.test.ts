@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkTagNaming, loadProjectNamingRules, normalizeNamingRules, NamingRulesError } from '../src/utils/tagNamingRules';
+import { fakeKnex } from './support/fakeKnex';
+
+const rules = { patterns: [], requiredPrefixes: [{ prefix: 'DI_', tag_type: 'input' }], reservedWords: [], maxLength: {} };
+
+test('projects owned by invited members get their organization\'s naming rules', async () => {
+  const conn = fakeKnex({
+    // The creator has users.org_id; the invited member only a team_members row
+    users: [
+      { id: 'creator', org_id: 'org-1' },
+      { id: 'invited', org_id: null }
+    ],
+    team_members: [
+      { user_id: 'creator', organization_id: 'org-1', created_at: '2026-01-01T00:00:00Z' },
+      { user_id: 'invited', organization_id: 'org-1', created_at: '2026-02-01T00:00:00Z' }
+    ],
+    projects: [
+      { id: 1, user_id: 'creator' },
+      { id: 2, user_id: 'invited' },
+      { id: 3, user_id: 'outsider' }
+    ],
+    organization_naming_rules: [{ organization_id: 'org-1', rules }]
+  });
+
+  const invitedRules = await loadProjectNamingRules(2, conn);
+  assert.deepEqual(await loadProjectNamingRules(1, conn), invitedRules);
+  assert.equal(checkTagNaming({ name: 'Start', tag_type: 'input' }, invitedRules).isValid, false);
+  assert.equal(await loadProjectNamingRules(3, conn), null);
+});
+
+test('pattern rules that could backtrack catastrophically are refused when saved', () => {
+  assert.throws(
+    () => normalizeNamingRules({ patterns: [{ pattern: '^([A-Z]+_?)+$' }] }),
+    (error: unknown) => error instanceof NamingRulesError && /patterns\[0\]\.pattern is not allowed/.test(error.message)
+  );
+  const { patterns } = normalizeNamingRules({ patterns: [{ pattern: '^[A-Z]{2,4}(_[A-Z0-9]+)*_\\d{2}$', description: 'ISA-5.1 AREA_EQUIP_FUNC_NN' }] });
+  assert.equal(patterns.length, 1);
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { exportWinccHmiTags } from '../src/utils/winccTagIO';
+import { captureStream } from './support/captureStream';
+import { fakeKnex } from './support/fakeKnex';
+
+test('WinCC export lists HMI tags with connection, scaling and limits, and one alarm per limit', async () => {
+  const conn = fakeKnex({
+    tags: [
+      {
+        id: 1, project_id: 1, name: 'Level', data_type: 'REAL', address: 'MW10', vendor: 'siemens', scope: 'global', tag_type: 'memory',
+        description: 'Tank level', engineering_unit: 'm', raw_min: 0, raw_max: 27648, eng_min: 0, eng_max: 10, alarm_hh: 9.5, alarm_l: 1
+      },
+      { id: 2, project_id: 1, name: 'Pump1', data_type: 'Motor', address: '', vendor: 'siemens', scope: 'Line', tag_type: 'memory' }
+    ],
+    user_defined_types: [{ id: 1, project_id: 1, name: 'Motor', members: [{ name: 'Speed', data_type: 'INT', description: 'Speed setpoint' }] }]
+  });
+  const output = captureStream();
+  await exportWinccHmiTags(1, output.stream, { connection: 'HMI_Line1' }, conn);
+
+  const workbook = XLSX.read(output.contents(), { type: 'buffer' });
+  const hmiTags = XLSX.utils.sheet_to_json<Record<string, any>>(workbook.Sheets['Hmi Tags'], { raw: false });
+  const alarms = XLSX.utils.sheet_to_json<Record<string, any>>(workbook.Sheets.AnalogAlarms, { raw: false });
+  const byName = Object.fromEntries(hmiTags.map(row => [row.Name, row]));
+
+  const level = byName.Level;
+  assert.deepEqual([level.Connection, level['PLC tag'], level.DataType, level['Access Method']], ['HMI_Line1', 'Level', 'Real', 'Symbolic access']);
+  assert.deepEqual([level['Limit Upper 2 Type'], level['Limit Upper 2'], level['Limit Lower 1'], level['Limit Upper 1 Type']], ['Constant', '9.5', '1', 'None']);
+  assert.deepEqual([level['Linear scaling'], level['End value PLC'], level['End value HMI']], ['True', '27648', '10']);
+
+  // Structured tags are flattened to one HMI tag per member, linked by symbol
+  const speed = byName.Pump1_Speed;
+  assert.deepEqual([speed['PLC tag'], speed.DataType, speed['Comment [en-US]']], ['"Line".Pump1.Speed', 'Int', 'Speed setpoint']);
+
+  assert.deepEqual(alarms.map(a => [a.Name, a['Trigger tag'], a.Limit, a['Limit mode'], a.Class]), [
+    ['Level_HH', 'Level', '9.5', 'Higher', 'Errors'],
+    ['Level_L', 'Level', '1', 'Lower', 'Warnings']
+  ]);
+  assert.equal(alarms[0]['Alarm text [en-US]'], 'Tank level high-high (9.5 m)');
+});
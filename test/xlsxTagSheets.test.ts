@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { parseRockwellXlsxTags } from '../src/utils/rockwellTagIO';
+
+function workbook(sheets: Record<string, any[][]>): Buffer {
+  const book = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' });
+}
+
+test('every tag sheet is read, program sheets set the scope and errors point at their cell', () => {
+  const buffer = workbook({
+    'Rockwell Tags': [
+      ['Tag Name', 'Data Type', 'Description'],
+      ['Start', 'BOOL', 'Start button']
+    ],
+    MainProgram: [
+      ['Line 1 program tags'],
+      ['Tag Name', 'Data Type', 'Description', 'Address'],
+      ['Speed', 'DINT', '', ''],
+      ['Setpoint', 'FLOAT', '', ''],
+      ['Valve', 'BOOL', '', 'O:2/x']
+    ],
+    Notes: [['Edited by hand']]
+  });
+
+  const parsed = parseRockwellXlsxTags(buffer, 1, 'user-1');
+
+  assert.deepEqual(parsed.tags.map(t => [t.name, t.scope]), [['Start', 'global'], ['Speed', 'mainprogram']]);
+  assert.deepEqual(parsed.errors.map(e => [e.sheet, e.row, e.cell]), [
+    ['MainProgram', 4, 'MainProgram!B4'],
+    ['MainProgram', 5, 'MainProgram!D5']
+  ]);
+});